@@ -18,12 +18,18 @@ import CreateServicePackage from "@/pages/CreateServicePackage";
 import PackageDetail from "@/pages/PackageDetail";
 import Favorites from "@/pages/Favorites";
 import OrderDashboard from "@/pages/OrderDashboard";
+import Earnings from "@/pages/Earnings";
+import ProviderDocuments from "@/pages/ProviderDocuments";
 import Messages from "@/pages/Messages";
 import MeetingsEvents from "@/pages/MeetingsEvents";
 import Bleisure from "@/pages/Bleisure";
 import Analytics from "@/pages/Analytics";
 import EnterpriseSettings from "@/pages/EnterpriseSettings";
 import AdminAuditLogs from "@/pages/AdminAuditLogs";
+import AdminDisputes from "@/pages/AdminDisputes";
+import AdminProviderDocuments from "@/pages/AdminProviderDocuments";
+import DisputeDetail from "@/pages/DisputeDetail";
+import TripDetail from "@/pages/TripDetail";
 import Login from "@/pages/Login";
 import Signup from "@/pages/Signup";
 import NotFound from "@/pages/not-found";
@@ -52,12 +58,18 @@ function Router() {
           <Route path="/packages/:id" component={PackageDetail} />
           <Route path="/favorites" component={Favorites} />
           <Route path="/orders" component={OrderDashboard} />
+          <Route path="/earnings" component={Earnings} />
+          <Route path="/documents" component={ProviderDocuments} />
           <Route path="/messages/:jobId?" component={Messages} />
           <Route path="/mice" component={MeetingsEvents} />
           <Route path="/bleisure" component={Bleisure} />
           <Route path="/analytics" component={Analytics} />
           <Route path="/enterprise" component={EnterpriseSettings} />
+          <Route path="/disputes/:id" component={DisputeDetail} />
+          <Route path="/trips/:id" component={TripDetail} />
           <Route path="/admin/audit-logs" component={AdminAuditLogs} />
+          <Route path="/admin/disputes" component={AdminDisputes} />
+          <Route path="/admin/provider-documents" component={AdminProviderDocuments} />
           <Route component={NotFound} />
         </Switch>
       </div>
@@ -0,0 +1,186 @@
+import { useRef, useState } from 'react';
+import { useMutation } from '@tanstack/react-query';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Textarea } from '@/components/ui/textarea';
+import { useTranslation, formatCurrency } from '@/lib/i18n';
+import { useApp } from '@/contexts/AppContext';
+import { apiRequest, queryClient } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
+import { Loader2, Paperclip, FileText, Send, X } from 'lucide-react';
+import { type Dispute, type DisputeMessage } from '@shared/schema';
+import { formatDistanceToNow } from 'date-fns';
+import { fr, ar, enUS } from 'date-fns/locale';
+
+const dateLocales = {
+  'fr-MA': fr,
+  'ar-MA': ar,
+  'en-US': enUS,
+};
+
+export interface DisputeDetailResponse {
+  dispute: Dispute;
+  messages: (DisputeMessage & { senderName: string })[];
+}
+
+// Dispute summary and thread, shared by the parties' page and the admin dispute center
+export function DisputeThread({ detail }: { detail: DisputeDetailResponse }) {
+  const { locale } = useApp();
+  const { t } = useTranslation(locale);
+  const { toast } = useToast();
+  const [body, setBody] = useState('');
+  const [pendingEvidence, setPendingEvidence] = useState<{ url: string; name: string }[]>([]);
+  const [uploading, setUploading] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const { dispute, messages } = detail;
+
+  const sendMutation = useMutation({
+    mutationFn: (data: { body: string; evidence: { url: string; name: string }[] }) =>
+      apiRequest('POST', `/api/disputes/${dispute.id}/messages`, data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/disputes', dispute.id] });
+      setBody('');
+      setPendingEvidence([]);
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Error', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  // Upload straight to object storage; the server scopes access to the dispute when the message is sent
+  const handleFileSelected = async (file: File) => {
+    setUploading(true);
+    try {
+      const res = await apiRequest('POST', '/api/disputes/evidence/upload-url');
+      const { uploadURL } = await res.json();
+      const upload = await fetch(uploadURL, {
+        method: 'PUT',
+        body: file,
+        headers: { 'Content-Type': file.type || 'application/octet-stream' },
+      });
+      if (!upload.ok) {
+        throw new Error(`Upload failed (${upload.status})`);
+      }
+      setPendingEvidence((evidence) => [...evidence, { url: uploadURL.split('?')[0], name: file.name }]);
+    } catch (error) {
+      toast({ title: 'Error', description: (error as Error).message, variant: 'destructive' });
+    } finally {
+      setUploading(false);
+      if (fileInputRef.current) fileInputRef.current.value = '';
+    }
+  };
+
+  return (
+    <div className="space-y-4" data-testid={`dispute-thread-${dispute.id}`}>
+      <div className="flex flex-wrap items-center gap-2">
+        <Badge data-testid="badge-dispute-status">{t(`dispute.status.${dispute.status}` as any)}</Badge>
+        <Badge variant="outline">{t(`dispute.reason.${dispute.reasonCode}` as any)}</Badge>
+        <span className="text-sm text-muted-foreground">
+          {t('dispute.amount')}: {formatCurrency(dispute.amountMad, locale)}
+        </span>
+      </div>
+
+      {dispute.status === 'resolved' && dispute.outcome && (
+        <div className="rounded-md border p-3 text-sm space-y-1" data-testid="text-dispute-outcome">
+          <p className="font-medium">{t(`dispute.outcome.${dispute.outcome}` as any)}</p>
+          <p>{t('dispute.refunded')}: {formatCurrency(dispute.refundAmountMad || 0, locale)}</p>
+          <p>{t('dispute.released')}: {formatCurrency(dispute.releaseAmountMad || 0, locale)}</p>
+          {dispute.resolutionNote && <p className="text-muted-foreground whitespace-pre-wrap">{dispute.resolutionNote}</p>}
+        </div>
+      )}
+
+      <div className="space-y-3">
+        {messages.map((message) => (
+          <div
+            key={message.id}
+            className={`rounded-md p-3 ${message.senderRole === 'mediator' ? 'bg-primary/10' : 'bg-muted'}`}
+            data-testid={`dispute-message-${message.id}`}
+          >
+            <div className="flex items-center justify-between text-xs text-muted-foreground mb-1">
+              <span>{message.senderRole === 'mediator' ? t('dispute.mediator') : message.senderName}</span>
+              <span>{formatDistanceToNow(new Date(message.createdAt), { addSuffix: true, locale: dateLocales[locale] })}</span>
+            </div>
+            <p className="text-sm whitespace-pre-wrap">{message.body}</p>
+            {message.evidence.length > 0 && (
+              <div className="flex flex-wrap gap-2 mt-2">
+                {message.evidence.map((file) =>
+                  file.contentType.startsWith('image/') ? (
+                    <a key={file.url} href={file.url} target="_blank" rel="noreferrer">
+                      <img src={file.url} alt={file.name} className="h-24 rounded object-cover" />
+                    </a>
+                  ) : (
+                    <a
+                      key={file.url}
+                      href={file.url}
+                      target="_blank"
+                      rel="noreferrer"
+                      className="flex items-center gap-1 text-xs underline"
+                    >
+                      <FileText className="w-3 h-3" />
+                      {file.name}
+                    </a>
+                  )
+                )}
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+
+      {dispute.status === 'resolved' ? (
+        <p className="text-sm text-muted-foreground">{t('dispute.closed')}</p>
+      ) : (
+        <div className="space-y-2">
+          <Textarea
+            value={body}
+            onChange={(e) => setBody(e.target.value)}
+            placeholder={t('dispute.reply')}
+            data-testid="input-dispute-message"
+          />
+          {pendingEvidence.length > 0 && (
+            <div className="flex flex-wrap gap-2">
+              {pendingEvidence.map((file) => (
+                <span key={file.url} className="flex items-center gap-1 text-xs bg-muted rounded px-2 py-1">
+                  <Paperclip className="w-3 h-3" />
+                  {file.name}
+                  <button
+                    onClick={() => setPendingEvidence((list) => list.filter((f) => f.url !== file.url))}
+                    data-testid="button-remove-evidence"
+                  >
+                    <X className="w-3 h-3" />
+                  </button>
+                </span>
+              ))}
+            </div>
+          )}
+          <div className="flex gap-2">
+            <input
+              ref={fileInputRef}
+              type="file"
+              className="hidden"
+              onChange={(e) => e.target.files?.[0] && handleFileSelected(e.target.files[0])}
+              data-testid="input-evidence"
+            />
+            <Button
+              variant="outline"
+              onClick={() => fileInputRef.current?.click()}
+              disabled={uploading || pendingEvidence.length >= 5}
+              data-testid="button-add-evidence"
+            >
+              {uploading ? <Loader2 className="w-4 h-4 animate-spin mr-2" /> : <Paperclip className="w-4 h-4 mr-2" />}
+              {t('dispute.addEvidence')}
+            </Button>
+            <Button
+              onClick={() => sendMutation.mutate({ body: body.trim(), evidence: pendingEvidence })}
+              disabled={!body.trim() || sendMutation.isPending}
+              data-testid="button-send-dispute-message"
+            >
+              <Send className="w-4 h-4 mr-2" />
+              {t('message.send')}
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,23 @@
+import { Badge } from "@/components/ui/badge";
+import type { ProviderDocument, ProviderDocumentType } from "@shared/schema";
+
+export const DOCUMENT_TYPE_LABELS: Record<ProviderDocumentType, string> = {
+  drivers_license: "Driver's license",
+  vehicle_registration: "Vehicle registration",
+  insurance: "Insurance",
+  transport_permit: "Transport permit",
+  trade_license: "Trade license",
+  certification: "Certification",
+  other: "Other",
+};
+
+const STATUS_VARIANTS: Record<ProviderDocument["status"], "default" | "secondary" | "destructive" | "outline"> = {
+  pending: "secondary",
+  verified: "default",
+  rejected: "destructive",
+  expired: "outline",
+};
+
+export function DocumentStatusBadge({ status }: { status: ProviderDocument["status"] }) {
+  return <Badge variant={STATUS_VARIANTS[status]}>{status}</Badge>;
+}
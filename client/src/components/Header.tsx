@@ -7,7 +7,7 @@ import { useLocation } from 'wouter';
 import { useMutation } from '@tanstack/react-query';
 import { apiRequest } from '@/lib/queryClient';
 import { useToast } from '@/hooks/use-toast';
-import { Plus, Briefcase, LogOut, LogIn, UserPlus, Building2, Palmtree, BarChart3, Settings, Package, Heart, ShoppingBag, Shield } from 'lucide-react';
+import { Plus, Briefcase, LogOut, LogIn, UserPlus, Building2, Palmtree, BarChart3, Settings, Package, Heart, ShoppingBag, Shield, Wallet, Gavel, FileCheck } from 'lucide-react';
 
 export function Header() {
   const { locale, currentUser, setCurrentUser } = useApp();
@@ -94,6 +94,26 @@ export function Header() {
                   Packages
                 </Button>
               )}
+              {currentUser.role === 'provider' && (
+                <Button
+                  variant={location === '/earnings' ? 'secondary' : 'ghost'}
+                  onClick={() => setLocation('/earnings')}
+                  data-testid="nav-earnings"
+                >
+                  <Wallet className="w-4 h-4 mr-2" />
+                  Earnings
+                </Button>
+              )}
+              {currentUser.role === 'provider' && (
+                <Button
+                  variant={location === '/documents' ? 'secondary' : 'ghost'}
+                  onClick={() => setLocation('/documents')}
+                  data-testid="nav-documents"
+                >
+                  <FileCheck className="w-4 h-4 mr-2" />
+                  Documents
+                </Button>
+              )}
               {currentUser.role === 'buyer' && (
                 <Button
                   variant={location.startsWith('/orders') ? 'secondary' : 'ghost'}
@@ -130,6 +150,22 @@ export function Header() {
                     <Shield className="w-4 h-4 mr-2" />
                     Audit Logs
                   </Button>
+                  <Button
+                    variant={location.startsWith('/admin/disputes') ? 'secondary' : 'ghost'}
+                    onClick={() => setLocation('/admin/disputes')}
+                    data-testid="nav-disputes"
+                  >
+                    <Gavel className="w-4 h-4 mr-2" />
+                    Disputes
+                  </Button>
+                  <Button
+                    variant={location.startsWith('/admin/provider-documents') ? 'secondary' : 'ghost'}
+                    onClick={() => setLocation('/admin/provider-documents')}
+                    data-testid="nav-provider-documents"
+                  >
+                    <FileCheck className="w-4 h-4 mr-2" />
+                    KYC
+                  </Button>
                 </>
               )}
               <Button
@@ -1,7 +1,7 @@
-import { useState, useMemo, useCallback } from "react";
-import { Map as MapboxMap, Marker, Popup } from "react-map-gl";
+import { useState, useMemo, useCallback, useEffect } from "react";
+import { Map as MapboxMap, Marker, Popup, Source, Layer } from "react-map-gl";
 import "mapbox-gl/dist/mapbox-gl.css";
-import { MapPin, User, Briefcase, Building2, Package, Palmtree } from "lucide-react";
+import { MapPin, User, Briefcase, Building2, Package, Palmtree, Navigation2 } from "lucide-react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
@@ -63,6 +63,13 @@ interface ServicePackage {
   providerId: string;
 }
 
+// A recorded GPS point of a live trip, oldest first
+interface TrackPoint {
+  latitude: string;
+  longitude: string;
+  heading?: string | null;
+}
+
 interface MapViewProps {
   providers: Provider[];
   jobs: Job[];
@@ -74,6 +81,10 @@ interface MapViewProps {
   onVenueClick?: (venue: Venue) => void;
   onBleisureClick?: (pkg: BleisurePackage) => void;
   onServicePackageClick?: (pkg: ServicePackage) => void;
+  // Live trip view: draws the track and follows its latest point instead of the browse overlays
+  liveTrack?: TrackPoint[];
+  // Full route drawn faintly under the live track, e.g. while replaying a finished trip
+  trackOutline?: TrackPoint[];
 }
 
 const MAPBOX_TOKEN = import.meta.env.VITE_MAPBOX_ACCESS_TOKEN || "";
@@ -88,7 +99,9 @@ export default function MapView({
   onJobClick,
   onVenueClick,
   onBleisureClick,
-  onServicePackageClick
+  onServicePackageClick,
+  liveTrack,
+  trackOutline
 }: MapViewProps) {
   const [selectedProvider, setSelectedProvider] = useState<Provider | null>(null);
   const [selectedJob, setSelectedJob] = useState<Job | null>(null);
@@ -149,6 +162,30 @@ export default function MapView({
     }).filter(Boolean) as (ServicePackage & { provider: Provider })[];
   }, [servicePackages, providers]);
 
+  const toLine = (points: TrackPoint[] = []) => ({
+    type: "Feature" as const,
+    properties: {},
+    geometry: {
+      type: "LineString" as const,
+      coordinates: points.map((point) => [parseFloat(point.longitude), parseFloat(point.latitude)]),
+    },
+  });
+
+  const liveLine = useMemo(() => toLine(liveTrack), [liveTrack]);
+  const outlineLine = useMemo(() => toLine(trackOutline), [trackOutline]);
+
+  const livePosition = liveTrack && liveTrack.length > 0 ? liveTrack[liveTrack.length - 1] : null;
+
+  // Keep the provider's latest position in view
+  useEffect(() => {
+    if (!livePosition) return;
+    setViewState((view) => ({
+      longitude: parseFloat(livePosition.longitude),
+      latitude: parseFloat(livePosition.latitude),
+      zoom: Math.max(view.zoom, 13),
+    }));
+  }, [livePosition?.latitude, livePosition?.longitude]);
+
   const handleProviderClick = useCallback((provider: Provider) => {
     setSelectedProvider(provider);
     setSelectedJob(null);
@@ -201,6 +238,7 @@ export default function MapView({
 
   return (
     <div className="relative w-full h-full">
+      {!liveTrack && (
       <div className="absolute top-0 left-0 right-0 z-10 bg-background/80 backdrop-blur-md border-b">
         <div className="container mx-auto px-4 py-3 flex items-center justify-between">
           <div className="flex items-center gap-6">
@@ -227,6 +265,7 @@ export default function MapView({
           </div>
         </div>
       </div>
+      )}
       <MapboxMap
         {...viewState}
         onMove={(evt: any) => setViewState(evt.viewState)}
@@ -235,6 +274,45 @@ export default function MapView({
         mapboxAccessToken={MAPBOX_TOKEN}
         style={{ width: "100%", height: "100%" }}
       >
+        {trackOutline && (
+          <Source id="trip-outline" type="geojson" data={outlineLine}>
+            <Layer
+              id="trip-outline-line"
+              type="line"
+              paint={{ "line-color": "#94a3b8", "line-width": 3, "line-opacity": 0.6, "line-dasharray": [2, 2] }}
+            />
+          </Source>
+        )}
+
+        {liveTrack && (
+          <Source id="live-trip" type="geojson" data={liveLine}>
+            <Layer
+              id="live-trip-line"
+              type="line"
+              paint={{ "line-color": "#2563eb", "line-width": 4, "line-opacity": 0.8 }}
+              layout={{ "line-cap": "round", "line-join": "round" }}
+            />
+          </Source>
+        )}
+
+        {livePosition && (
+          <Marker
+            longitude={parseFloat(livePosition.longitude)}
+            latitude={parseFloat(livePosition.latitude)}
+            anchor="center"
+          >
+            <div
+              className="w-10 h-10 rounded-full bg-primary border-2 border-background shadow-lg flex items-center justify-center"
+              data-testid="marker-live-position"
+            >
+              <Navigation2
+                className="w-5 h-5 text-primary-foreground"
+                style={{ transform: `rotate(${parseFloat(livePosition.heading || "0")}deg)` }}
+              />
+            </div>
+          </Marker>
+        )}
+
         {providersWithLocation.map((provider) => (
           <Marker
             key={`provider-${provider.id}`}
@@ -576,6 +654,7 @@ export default function MapView({
         )}
       </MapboxMap>
 
+      {!liveTrack && (
       <div className="absolute top-4 left-4 bg-background/95 backdrop-blur-sm rounded-lg shadow-lg p-4 space-y-2 border max-h-[calc(100vh-2rem)] overflow-y-auto">
         <div className="text-sm font-semibold mb-2">Map Legend</div>
         <div className="flex items-center gap-2 text-xs">
@@ -609,6 +688,7 @@ export default function MapView({
           <span>Service Packages ({servicePackagesWithLocation.length})</span>
         </div>
       </div>
+      )}
     </div>
   );
 }
@@ -0,0 +1,179 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { useLocation } from 'wouter';
+import { useMutation } from '@tanstack/react-query';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { useTranslation } from '@/lib/i18n';
+import { useApp } from '@/contexts/AppContext';
+import MapView from '@/components/MapView';
+import { useLiveTrip } from '@/hooks/use-live-trip';
+import { apiRequest, queryClient } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
+import { Navigation } from 'lucide-react';
+import type { Trip, TripPoint } from '@shared/schema';
+import { format } from 'date-fns';
+
+// How often the provider's device uploads its buffered fixes
+const UPLOAD_INTERVAL_MS = 10000;
+const MAX_POINTS_PER_UPLOAD = 100;
+
+// The job's trip on a live map: the buyer follows the provider, the provider starts, shares and completes it
+export function TripTracker({ jobId, isProvider }: { jobId: string; isProvider: boolean }) {
+  const [, setLocation] = useLocation();
+  const { locale } = useApp();
+  const { t } = useTranslation(locale);
+  const { toast } = useToast();
+  const { trip, track, connected } = useLiveTrip(jobId);
+  const [locationDenied, setLocationDenied] = useState(false);
+  const pendingPoints = useRef<TripPoint[]>([]);
+
+  const uploadPendingPoints = useCallback(async (tripId: string) => {
+    const points = pendingPoints.current.splice(0, MAX_POINTS_PER_UPLOAD);
+    if (points.length === 0) return;
+    try {
+      await apiRequest('POST', `/api/trips/${tripId}/points`, { points });
+    } catch (error) {
+      // Keep the fixes for the next upload; the server skips any it already stored
+      pendingPoints.current.unshift(...points);
+      console.error('Trip point upload failed:', error);
+    }
+  }, []);
+
+  const transitionMutation = useMutation({
+    mutationFn: async (action: 'start' | 'complete') => {
+      // The last fixes belong to the track before it is summarized
+      if (action === 'complete') await uploadPendingPoints(trip!.id);
+      const res = await apiRequest('POST', `/api/trips/${trip!.id}/${action}`, {});
+      return res.json() as Promise<Trip>;
+    },
+    onSuccess: (updated: Trip) => {
+      queryClient.setQueryData(['/api/jobs', jobId, 'trip'], updated);
+      queryClient.invalidateQueries({ queryKey: ['/api/trips', updated.id, 'track'] });
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Error', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  const sharing = isProvider && trip?.status === 'in_progress';
+
+  // Provider: watch the device position and upload the fixes in batches while the trip is under way
+  useEffect(() => {
+    if (!sharing || !trip || !('geolocation' in navigator)) return;
+
+    const watchId = navigator.geolocation.watchPosition(
+      (position) => {
+        setLocationDenied(false);
+        pendingPoints.current.push({
+          lat: position.coords.latitude,
+          lng: position.coords.longitude,
+          accuracy: position.coords.accuracy,
+          speed: position.coords.speed !== null ? position.coords.speed * 3.6 : undefined, // m/s to km/h
+          heading: position.coords.heading !== null && !isNaN(position.coords.heading) ? position.coords.heading : undefined,
+          timestamp: new Date(position.timestamp),
+        });
+      },
+      (error) => {
+        if (error.code === error.PERMISSION_DENIED) setLocationDenied(true);
+      },
+      { enableHighAccuracy: true, maximumAge: 5000 }
+    );
+
+    const uploader = setInterval(() => uploadPendingPoints(trip.id), UPLOAD_INTERVAL_MS);
+
+    return () => {
+      navigator.geolocation.clearWatch(watchId);
+      clearInterval(uploader);
+    };
+  }, [sharing, trip?.id, uploadPendingPoints]);
+
+  if (!trip) {
+    return null;
+  }
+
+  return (
+    <Card data-testid={`trip-tracker-${trip.id}`}>
+      <CardHeader className="flex flex-row items-center justify-between gap-2">
+        <CardTitle className="flex items-center gap-2">
+          <Navigation className="w-5 h-5" />
+          {t('trip.title')}
+        </CardTitle>
+        <div className="flex items-center gap-2">
+          {trip.status === 'in_progress' && connected && (
+            <Badge variant="destructive" data-testid="badge-trip-live">{t('trip.live')}</Badge>
+          )}
+          <Badge variant="outline" data-testid="badge-trip-status">{t(`trip.status.${trip.status}` as any)}</Badge>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {track.length > 0 ? (
+          <div className="h-80 rounded-md overflow-hidden">
+            <MapView providers={[]} jobs={[]} liveTrack={track} />
+          </div>
+        ) : (
+          !isProvider && <p className="text-sm text-muted-foreground">{t('trip.waiting')}</p>
+        )}
+
+        {trip.status === 'in_progress' && (trip.arrivedAt || trip.etaAt) && (
+          <p className="text-sm font-medium" data-testid="text-trip-eta">
+            {trip.arrivedAt
+              ? t('trip.arrived')
+              : `${t('trip.eta')}: ${format(new Date(trip.etaAt!), 'HH:mm')}`}
+          </p>
+        )}
+
+        {(trip.distance !== null || trip.duration !== null) && trip.status === 'completed' && (
+          <div className="flex gap-6 text-sm" data-testid="text-trip-summary">
+            {trip.distance !== null && (
+              <span>{t('trip.distance')}: {(trip.distance / 1000).toFixed(1)} km</span>
+            )}
+            {trip.duration !== null && (
+              <span>{t('trip.duration')}: {trip.duration} min</span>
+            )}
+          </div>
+        )}
+
+        {trip.status === 'completed' && (
+          <Button
+            variant="outline"
+            className="w-full"
+            onClick={() => setLocation(`/trips/${trip.id}`)}
+            data-testid="button-replay-trip"
+          >
+            {t('trip.replay')}
+          </Button>
+        )}
+
+        {sharing && (
+          <p className="text-sm text-muted-foreground">
+            {locationDenied ? t('trip.locationDenied') : t('trip.sharing')}
+          </p>
+        )}
+
+        {isProvider && trip.status === 'scheduled' && (
+          <Button
+            className="w-full"
+            onClick={() => transitionMutation.mutate('start')}
+            disabled={transitionMutation.isPending}
+            data-testid="button-start-trip"
+          >
+            {t('trip.start')}
+          </Button>
+        )}
+
+        {sharing && (
+          <Button
+            variant="outline"
+            className="w-full"
+            onClick={() => transitionMutation.mutate('complete')}
+            disabled={transitionMutation.isPending}
+            data-testid="button-complete-trip"
+          >
+            {t('trip.complete')}
+          </Button>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,111 @@
+import { useCallback, useEffect, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { queryClient } from "@/lib/queryClient";
+import type { RealtimeServerEvent, Trip, TripTrack } from "@shared/schema";
+
+const RECONNECT_BASE_MS = 1000;
+const RECONNECT_MAX_MS = 30000;
+
+// Polling interval used while the socket is down and the trip is under way
+export const TRIP_POLL_INTERVAL_MS = 10000;
+
+/**
+ * A job's trip and its recorded track, kept live over the /ws channel: new GPS points are
+ * appended to the react-query cache as the provider's device uploads them, ETA updates patch the
+ * cached trip and status changes (started, completed) replace it. Reconnects with backoff and
+ * polls meanwhile.
+ */
+export function useLiveTrip(jobId: string | null, enabled = true) {
+  const [connected, setConnected] = useState(false);
+
+  const { data: trip } = useQuery<Trip>({
+    queryKey: ["/api/jobs", jobId, "trip"],
+    enabled: !!jobId && enabled,
+    retry: false,
+  });
+
+  const underway = trip?.status === "in_progress";
+
+  const { data: track = [] } = useQuery<TripTrack[]>({
+    queryKey: ["/api/trips", trip?.id, "track"],
+    enabled: !!trip && trip.status !== "scheduled",
+    refetchInterval: underway && !connected ? TRIP_POLL_INTERVAL_MS : false,
+  });
+
+  const handleEvent = useCallback((event: RealtimeServerEvent) => {
+    switch (event.type) {
+      case "trip_position": {
+        queryClient.setQueryData<TripTrack[]>(["/api/trips", event.tripId, "track"], (existing) => {
+          if (!existing) return existing;
+          const known = new Set(existing.map((point) => point.id));
+          return [...existing, ...event.points.filter((point) => !known.has(point.id))];
+        });
+        break;
+      }
+      case "trip_eta": {
+        queryClient.setQueryData<Trip>(["/api/jobs", event.jobId, "trip"], (existing) => existing && {
+          ...existing,
+          etaAt: event.etaAt ? new Date(event.etaAt) : null,
+          arrivedAt: event.arrivedAt ? new Date(event.arrivedAt) : null,
+        });
+        break;
+      }
+      case "trip_status": {
+        queryClient.setQueryData(["/api/jobs", event.jobId, "trip"], event.trip);
+        queryClient.invalidateQueries({ queryKey: ["/api/trips", event.tripId, "track"] });
+        break;
+      }
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!jobId || !enabled) return;
+
+    let closed = false;
+    let attempts = 0;
+    let reconnectTimer: ReturnType<typeof setTimeout> | undefined;
+    let socket: WebSocket | null = null;
+
+    const connect = () => {
+      const protocol = window.location.protocol === "https:" ? "wss:" : "ws:";
+      socket = new WebSocket(`${protocol}//${window.location.host}/ws`);
+
+      socket.onopen = () => {
+        attempts = 0;
+        setConnected(true);
+        // Catch up on points sent while we were offline
+        queryClient.invalidateQueries({ queryKey: ["/api/jobs", jobId, "trip"] });
+        queryClient.invalidateQueries({
+          predicate: (query) => query.queryKey[0] === "/api/trips" && query.queryKey[2] === "track",
+        });
+      };
+
+      socket.onmessage = (message) => {
+        try {
+          handleEvent(JSON.parse(message.data) as RealtimeServerEvent);
+        } catch (error) {
+          console.error("Invalid realtime event:", error);
+        }
+      };
+
+      socket.onclose = () => {
+        setConnected(false);
+        socket = null;
+        if (closed) return;
+        const delay = Math.min(RECONNECT_BASE_MS * 2 ** attempts, RECONNECT_MAX_MS);
+        attempts++;
+        reconnectTimer = setTimeout(connect, delay);
+      };
+    };
+
+    connect();
+
+    return () => {
+      closed = true;
+      if (reconnectTimer) clearTimeout(reconnectTimer);
+      socket?.close();
+    };
+  }, [jobId, enabled, handleEvent]);
+
+  return { trip, track, connected };
+}
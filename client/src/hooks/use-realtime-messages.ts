@@ -0,0 +1,138 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { queryClient } from "@/lib/queryClient";
+import type { Message, RealtimeClientEvent, RealtimeServerEvent } from "@shared/schema";
+
+type MessageWithSender = Message & { senderName: string };
+
+const RECONNECT_BASE_MS = 1000;
+const RECONNECT_MAX_MS = 30000;
+const TYPING_TIMEOUT_MS = 5000;
+
+// Polling interval used while the socket is down
+export const MESSAGES_POLL_INTERVAL_MS = 5000;
+
+/**
+ * Live job conversations over the /ws channel: new messages are written straight into the
+ * react-query cache, typing indicators and read receipts are tracked for the open job.
+ * Reconnects with backoff; `connected` is false meanwhile so callers can poll instead.
+ */
+export function useRealtimeMessages(activeJobId: string | null) {
+  const socketRef = useRef<WebSocket | null>(null);
+  const activeJobRef = useRef(activeJobId);
+  const [connected, setConnected] = useState(false);
+  const [typingUserIds, setTypingUserIds] = useState<string[]>([]);
+  const [readReceipts, setReadReceipts] = useState<Record<string, string>>({}); // userId -> last read message id
+  const typingTimers = useRef(new Map<string, ReturnType<typeof setTimeout>>());
+
+  useEffect(() => {
+    activeJobRef.current = activeJobId;
+    setTypingUserIds([]);
+    setReadReceipts({});
+  }, [activeJobId]);
+
+  const clearTyping = useCallback((userId: string) => {
+    const timer = typingTimers.current.get(userId);
+    if (timer) clearTimeout(timer);
+    typingTimers.current.delete(userId);
+    setTypingUserIds((ids) => ids.filter((id) => id !== userId));
+  }, []);
+
+  const handleEvent = useCallback((event: RealtimeServerEvent) => {
+    switch (event.type) {
+      case "message": {
+        queryClient.setQueryData<MessageWithSender[]>(["/api/jobs", event.jobId, "messages"], (existing) => {
+          if (!existing) return existing;
+          return existing.some((message) => message.id === event.message.id)
+            ? existing
+            : [...existing, event.message];
+        });
+        queryClient.invalidateQueries({ queryKey: ["/api/messages/conversations"] });
+        if (event.jobId === activeJobRef.current) {
+          clearTyping(event.message.senderId);
+        }
+        break;
+      }
+      case "typing": {
+        if (event.jobId !== activeJobRef.current) break;
+        if (!event.isTyping) {
+          clearTyping(event.userId);
+          break;
+        }
+        const previous = typingTimers.current.get(event.userId);
+        if (previous) clearTimeout(previous);
+        typingTimers.current.set(event.userId, setTimeout(() => clearTyping(event.userId), TYPING_TIMEOUT_MS));
+        setTypingUserIds((ids) => (ids.includes(event.userId) ? ids : [...ids, event.userId]));
+        break;
+      }
+      case "read": {
+        if (event.jobId !== activeJobRef.current) break;
+        setReadReceipts((receipts) => ({ ...receipts, [event.userId]: event.messageId }));
+        break;
+      }
+    }
+  }, [clearTyping]);
+
+  useEffect(() => {
+    let closed = false;
+    let attempts = 0;
+    let reconnectTimer: ReturnType<typeof setTimeout> | undefined;
+
+    const connect = () => {
+      const protocol = window.location.protocol === "https:" ? "wss:" : "ws:";
+      const socket = new WebSocket(`${protocol}//${window.location.host}/ws`);
+      socketRef.current = socket;
+
+      socket.onopen = () => {
+        attempts = 0;
+        setConnected(true);
+        // Catch up on anything sent while we were offline
+        queryClient.invalidateQueries({ queryKey: ["/api/messages/conversations"] });
+        if (activeJobRef.current) {
+          queryClient.invalidateQueries({ queryKey: ["/api/jobs", activeJobRef.current, "messages"] });
+        }
+      };
+
+      socket.onmessage = (message) => {
+        try {
+          handleEvent(JSON.parse(message.data) as RealtimeServerEvent);
+        } catch (error) {
+          console.error("Invalid realtime event:", error);
+        }
+      };
+
+      socket.onclose = () => {
+        setConnected(false);
+        socketRef.current = null;
+        if (closed) return;
+        const delay = Math.min(RECONNECT_BASE_MS * 2 ** attempts, RECONNECT_MAX_MS);
+        attempts++;
+        reconnectTimer = setTimeout(connect, delay);
+      };
+    };
+
+    connect();
+
+    return () => {
+      closed = true;
+      if (reconnectTimer) clearTimeout(reconnectTimer);
+      socketRef.current?.close();
+      typingTimers.current.forEach((timer) => clearTimeout(timer));
+      typingTimers.current.clear();
+    };
+  }, [handleEvent]);
+
+  const sendEvent = useCallback((event: RealtimeClientEvent) => {
+    const socket = socketRef.current;
+    if (socket && socket.readyState === WebSocket.OPEN) {
+      socket.send(JSON.stringify(event));
+    }
+  }, []);
+
+  const sendTyping = useCallback((isTyping: boolean) => {
+    if (activeJobRef.current) {
+      sendEvent({ type: "typing", jobId: activeJobRef.current, isTyping });
+    }
+  }, [sendEvent]);
+
+  return { connected, typingUserIds, readReceipts, sendTyping };
+}
@@ -100,6 +100,13 @@ export const translations = {
     'job.post.budget': 'Budget estimé (MAD)',
     'job.status.open': 'Ouvert',
     'job.status.accepted': 'Accepté',
+    'job.status.delivered': 'Livré – en attente de confirmation',
+    'job.status.disputed': 'En litige',
+    'job.markDone': 'Marquer comme terminé',
+    'job.confirmCompletion': 'Confirmer la fin du travail',
+    'job.reportProblem': 'Signaler un problème',
+    'job.disputeReason': 'Décrivez le problème (10 caractères minimum)',
+    'job.confirmBy': 'Confirmation automatique',
     'job.status.completed': 'Terminé',
     'job.status.cancelled': 'Annulé',
     'offer.title': 'Offres',
@@ -113,6 +120,56 @@ export const translations = {
     'provider.kyc.title': 'Vérification KYC',
     'provider.kyc.pending': 'En attente',
     'message.send': 'Envoyer',
+    'message.typing': 'écrit…',
+    'message.seen': 'Vu',
+    'message.offline': 'Hors ligne – actualisation périodique',
+    'message.contactHidden': 'Coordonnées masquées jusqu’à l’acceptation d’une offre',
+    'message.translate': 'Traduire',
+    'message.hideTranslation': 'Masquer la traduction',
+    'message.translation': 'Traduction',
+    'dispute.title': 'Litige',
+    'dispute.view': 'Voir le litige',
+    'dispute.status.open': 'Ouvert',
+    'dispute.status.under_review': 'En médiation',
+    'dispute.status.resolving': 'En cours de règlement',
+    'dispute.status.resolved': 'Résolu',
+    'dispute.reason.not_delivered': 'Non livré',
+    'dispute.reason.not_as_described': 'Non conforme à la description',
+    'dispute.reason.poor_quality': 'Qualité insuffisante',
+    'dispute.reason.late': 'Retard',
+    'dispute.reason.no_show': 'Absence',
+    'dispute.reason.overcharged': 'Montant facturé incorrect',
+    'dispute.reason.cancellation': 'Annulation',
+    'dispute.reason.other': 'Autre',
+    'dispute.outcome.full_refund': 'Remboursement intégral',
+    'dispute.outcome.partial_split': 'Partage',
+    'dispute.outcome.release': 'Paiement versé au prestataire',
+    'dispute.amount': 'Montant bloqué',
+    'dispute.refunded': 'Remboursé à l’acheteur',
+    'dispute.released': 'Versé au prestataire',
+    'dispute.mediator': 'Médiateur',
+    'dispute.reply': 'Votre message au médiateur et à l’autre partie',
+    'dispute.addEvidence': 'Ajouter une preuve',
+    'dispute.closed': 'Ce litige est clos',
+    'trip.title': 'Suivi du trajet',
+    'trip.status.scheduled': 'Pas encore démarré',
+    'trip.status.in_progress': 'En route',
+    'trip.status.completed': 'Terminé',
+    'trip.status.cancelled': 'Annulé',
+    'trip.start': 'Démarrer le trajet',
+    'trip.complete': 'Arrivé à destination',
+    'trip.distance': 'Distance',
+    'trip.duration': 'Durée',
+    'trip.waiting': "La position du prestataire s'affichera dès le départ.",
+    'trip.sharing': 'Votre position est partagée avec le client.',
+    'trip.locationDenied': "Autorisez l'accès à votre position pour partager le trajet.",
+    'trip.live': 'En direct',
+    'trip.eta': 'Arrivée estimée',
+    'trip.arrived': 'Le chauffeur est arrivé',
+    'trip.replay': 'Revoir le trajet',
+    'trip.moving': 'En mouvement',
+    'trip.idle': "À l'arrêt",
+    'trip.noRoute': 'Aucun trajet enregistré.',
     'rating.title': 'Évaluation',
     'rating.submit': 'Soumettre',
     'auth.login': 'Connexion',
@@ -281,6 +338,13 @@ export const translations = {
     'job.post.budget': 'الميزانية التقديرية (درهم)',
     'job.status.open': 'مفتوح',
     'job.status.accepted': 'مقبول',
+    'job.status.delivered': 'تم التنفيذ – في انتظار التأكيد',
+    'job.status.disputed': 'متنازع عليه',
+    'job.markDone': 'تحديد كمنجز',
+    'job.confirmCompletion': 'تأكيد إنجاز العمل',
+    'job.reportProblem': 'الإبلاغ عن مشكلة',
+    'job.disputeReason': 'صف المشكلة (10 أحرف على الأقل)',
+    'job.confirmBy': 'تأكيد تلقائي',
     'job.status.completed': 'مكتمل',
     'job.status.cancelled': 'ملغى',
     'offer.title': 'العروض',
@@ -294,6 +358,56 @@ export const translations = {
     'provider.kyc.title': 'التحقق من الهوية',
     'provider.kyc.pending': 'قيد الانتظار',
     'message.send': 'إرسال',
+    'message.typing': 'يكتب…',
+    'message.seen': 'تمت المشاهدة',
+    'message.offline': 'غير متصل – تحديث دوري',
+    'message.contactHidden': 'تم إخفاء معلومات الاتصال حتى قبول عرض',
+    'message.translate': 'ترجمة',
+    'message.hideTranslation': 'إخفاء الترجمة',
+    'message.translation': 'الترجمة',
+    'dispute.title': 'نزاع',
+    'dispute.view': 'عرض النزاع',
+    'dispute.status.open': 'مفتوح',
+    'dispute.status.under_review': 'قيد الوساطة',
+    'dispute.status.resolving': 'قيد التسوية',
+    'dispute.status.resolved': 'تمت التسوية',
+    'dispute.reason.not_delivered': 'لم يتم التسليم',
+    'dispute.reason.not_as_described': 'غير مطابق للوصف',
+    'dispute.reason.poor_quality': 'جودة ضعيفة',
+    'dispute.reason.late': 'تأخير',
+    'dispute.reason.no_show': 'عدم الحضور',
+    'dispute.reason.overcharged': 'مبلغ غير صحيح',
+    'dispute.reason.cancellation': 'إلغاء',
+    'dispute.reason.other': 'أخرى',
+    'dispute.outcome.full_refund': 'استرداد كامل',
+    'dispute.outcome.partial_split': 'تقسيم المبلغ',
+    'dispute.outcome.release': 'تحويل المبلغ إلى مقدم الخدمة',
+    'dispute.amount': 'المبلغ المجمد',
+    'dispute.refunded': 'مسترد للمشتري',
+    'dispute.released': 'محول لمقدم الخدمة',
+    'dispute.mediator': 'الوسيط',
+    'dispute.reply': 'رسالتك إلى الوسيط والطرف الآخر',
+    'dispute.addEvidence': 'إضافة دليل',
+    'dispute.closed': 'تم إغلاق هذا النزاع',
+    'trip.title': 'تتبع الرحلة',
+    'trip.status.scheduled': 'لم تبدأ بعد',
+    'trip.status.in_progress': 'في الطريق',
+    'trip.status.completed': 'انتهت',
+    'trip.status.cancelled': 'ملغاة',
+    'trip.start': 'بدء الرحلة',
+    'trip.complete': 'وصلت إلى الوجهة',
+    'trip.distance': 'المسافة',
+    'trip.duration': 'المدة',
+    'trip.waiting': 'سيظهر موقع مقدم الخدمة عند الانطلاق.',
+    'trip.sharing': 'تتم مشاركة موقعك مع العميل.',
+    'trip.locationDenied': 'اسمح بالوصول إلى موقعك لمشاركة الرحلة.',
+    'trip.live': 'مباشر',
+    'trip.eta': 'الوصول المتوقع',
+    'trip.arrived': 'وصل السائق',
+    'trip.replay': 'إعادة عرض الرحلة',
+    'trip.moving': 'في الحركة',
+    'trip.idle': 'متوقف',
+    'trip.noRoute': 'لم يتم تسجيل أي مسار.',
     'rating.title': 'التقييم',
     'rating.submit': 'إرسال',
     'auth.login': 'تسجيل الدخول',
@@ -462,6 +576,13 @@ export const translations = {
     'job.post.budget': 'Estimated Budget (MAD)',
     'job.status.open': 'Open',
     'job.status.accepted': 'Accepted',
+    'job.status.delivered': 'Delivered – awaiting confirmation',
+    'job.status.disputed': 'Disputed',
+    'job.markDone': 'Mark as done',
+    'job.confirmCompletion': 'Confirm completion',
+    'job.reportProblem': 'Report a problem',
+    'job.disputeReason': 'Describe the problem (at least 10 characters)',
+    'job.confirmBy': 'Completes automatically',
     'job.status.completed': 'Completed',
     'job.status.cancelled': 'Cancelled',
     'offer.title': 'Offers',
@@ -475,6 +596,56 @@ export const translations = {
     'provider.kyc.title': 'KYC Verification',
     'provider.kyc.pending': 'Pending',
     'message.send': 'Send',
+    'message.typing': 'is typing…',
+    'message.seen': 'Seen',
+    'message.offline': 'Offline – refreshing periodically',
+    'message.contactHidden': 'Contact details hidden until an offer is accepted',
+    'message.translate': 'Translate',
+    'message.hideTranslation': 'Hide translation',
+    'message.translation': 'Translation',
+    'dispute.title': 'Dispute',
+    'dispute.view': 'View dispute',
+    'dispute.status.open': 'Open',
+    'dispute.status.under_review': 'In mediation',
+    'dispute.status.resolving': 'Being settled',
+    'dispute.status.resolved': 'Resolved',
+    'dispute.reason.not_delivered': 'Not delivered',
+    'dispute.reason.not_as_described': 'Not as described',
+    'dispute.reason.poor_quality': 'Poor quality',
+    'dispute.reason.late': 'Late',
+    'dispute.reason.no_show': 'No-show',
+    'dispute.reason.overcharged': 'Overcharged',
+    'dispute.reason.cancellation': 'Cancellation',
+    'dispute.reason.other': 'Other',
+    'dispute.outcome.full_refund': 'Full refund',
+    'dispute.outcome.partial_split': 'Partial split',
+    'dispute.outcome.release': 'Released to provider',
+    'dispute.amount': 'Amount on hold',
+    'dispute.refunded': 'Refunded to buyer',
+    'dispute.released': 'Released to provider',
+    'dispute.mediator': 'Mediator',
+    'dispute.reply': 'Your message to the mediator and the other party',
+    'dispute.addEvidence': 'Add evidence',
+    'dispute.closed': 'This dispute is closed',
+    'trip.title': 'Trip tracking',
+    'trip.status.scheduled': 'Not started yet',
+    'trip.status.in_progress': 'On the way',
+    'trip.status.completed': 'Completed',
+    'trip.status.cancelled': 'Cancelled',
+    'trip.start': 'Start trip',
+    'trip.complete': 'Arrived',
+    'trip.distance': 'Distance',
+    'trip.duration': 'Duration',
+    'trip.waiting': "The provider's position will show here once they set off.",
+    'trip.sharing': 'Your location is shared with the client.',
+    'trip.locationDenied': 'Allow location access to share the trip.',
+    'trip.live': 'Live',
+    'trip.eta': 'Estimated arrival',
+    'trip.arrived': 'Your driver has arrived',
+    'trip.replay': 'Replay trip',
+    'trip.moving': 'Moving',
+    'trip.idle': 'Idle',
+    'trip.noRoute': 'No route was recorded.',
     'rating.title': 'Rating',
     'rating.submit': 'Submit',
     'auth.login': 'Login',
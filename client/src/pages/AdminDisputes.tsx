@@ -0,0 +1,290 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { useApp } from "@/contexts/AppContext";
+import { useLocation } from "wouter";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Skeleton } from "@/components/ui/skeleton";
+import { DisputeThread, type DisputeDetailResponse } from "@/components/DisputeThread";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Gavel, History } from "lucide-react";
+import { format } from "date-fns";
+import type { AuditLog, Dispute, DisputeOutcome } from "@shared/schema";
+
+const SUBJECT_LABELS: Record<Dispute["subjectType"], string> = {
+  job: "Job",
+  package_order: "Package order",
+  bleisure_booking: "Bleisure booking",
+};
+
+export default function AdminDisputes() {
+  const { currentUser } = useApp();
+  const [, setLocation] = useLocation();
+  const { toast } = useToast();
+
+  // Redirect if not admin
+  if (currentUser?.role !== 'admin') {
+    setLocation('/');
+    return null;
+  }
+
+  const [statusFilter, setStatusFilter] = useState<string>("open");
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [outcome, setOutcome] = useState<DisputeOutcome>("release");
+  const [refundAmount, setRefundAmount] = useState("");
+  const [note, setNote] = useState("");
+
+  const queryParams = new URLSearchParams();
+  if (statusFilter !== "all") queryParams.set('status', statusFilter);
+
+  const { data: disputes = [], isLoading } = useQuery<Dispute[]>({
+    queryKey: [`/api/disputes?${queryParams.toString()}`],
+  });
+
+  const { data: detail } = useQuery<DisputeDetailResponse>({
+    queryKey: ['/api/disputes', selectedId],
+    enabled: !!selectedId,
+  });
+
+  // Every audited step of the selected dispute
+  const { data: trail = [] } = useQuery<AuditLog[]>({
+    queryKey: ['/api/disputes', selectedId, 'audit'],
+    enabled: !!selectedId,
+  });
+
+  // The queue, the selected thread and its audit trail
+  const refreshSelected = () => {
+    queryClient.invalidateQueries({ predicate: (query) => String(query.queryKey[0]).startsWith('/api/disputes') });
+  };
+
+  const assignMutation = useMutation({
+    mutationFn: (id: string) => apiRequest('POST', `/api/disputes/${id}/assign`),
+    onSuccess: refreshSelected,
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const resolveMutation = useMutation({
+    mutationFn: (id: string) => apiRequest('POST', `/api/disputes/${id}/resolve`, {
+      outcome,
+      note,
+      ...(outcome === "partial_split" && { refundAmountMad: parseInt(refundAmount, 10) }),
+    }),
+    onSuccess: () => {
+      refreshSelected();
+      setNote("");
+      setRefundAmount("");
+      toast({ title: "Dispute resolved", description: "Both parties have been notified." });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const dispute = detail?.dispute;
+  const canResolve = note.trim().length > 0 && (outcome !== "partial_split" || parseInt(refundAmount, 10) > 0);
+
+  return (
+    <div className="min-h-screen bg-background" data-testid="page-admin-disputes">
+      <div className="border-b bg-card">
+        <div className="max-w-7xl mx-auto px-4 py-6">
+          <div className="flex items-center gap-3 mb-4">
+            <Gavel className="w-8 h-8 text-primary" />
+            <div>
+              <h1 className="text-3xl font-bold" data-testid="text-page-title">
+                Disputes
+              </h1>
+              <p className="text-muted-foreground mt-1">
+                Mediate disputes on jobs, package orders and bleisure bookings
+              </p>
+            </div>
+          </div>
+        </div>
+      </div>
+
+      <div className="max-w-7xl mx-auto px-4 py-8 grid lg:grid-cols-2 gap-6">
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between">
+            <div>
+              <CardTitle>Queue</CardTitle>
+              <CardDescription>{disputes.length} disputes</CardDescription>
+            </div>
+            <Select value={statusFilter} onValueChange={setStatusFilter}>
+              <SelectTrigger className="w-40" data-testid="select-dispute-status">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="open">Open</SelectItem>
+                <SelectItem value="under_review">Under review</SelectItem>
+                <SelectItem value="resolving">Resolving</SelectItem>
+                <SelectItem value="resolved">Resolved</SelectItem>
+                <SelectItem value="all">All</SelectItem>
+              </SelectContent>
+            </Select>
+          </CardHeader>
+          <CardContent>
+            {isLoading ? (
+              <Skeleton className="h-64 w-full" />
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Opened</TableHead>
+                    <TableHead>Subject</TableHead>
+                    <TableHead>Reason</TableHead>
+                    <TableHead>Amount</TableHead>
+                    <TableHead>Status</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {disputes.map((row) => (
+                    <TableRow
+                      key={row.id}
+                      className={`cursor-pointer ${row.id === selectedId ? 'bg-muted' : ''}`}
+                      onClick={() => setSelectedId(row.id)}
+                      data-testid={`row-dispute-${row.id}`}
+                    >
+                      <TableCell>{format(new Date(row.createdAt), 'yyyy-MM-dd HH:mm')}</TableCell>
+                      <TableCell>{SUBJECT_LABELS[row.subjectType]}</TableCell>
+                      <TableCell>{row.reasonCode.replace(/_/g, ' ')}</TableCell>
+                      <TableCell>{row.amountMad} MAD</TableCell>
+                      <TableCell>
+                        <Badge variant={row.status === 'resolved' ? 'secondary' : 'default'}>
+                          {row.status.replace('_', ' ')}
+                        </Badge>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                  {disputes.length === 0 && (
+                    <TableRow>
+                      <TableCell colSpan={5} className="text-center text-muted-foreground">
+                        No disputes
+                      </TableCell>
+                    </TableRow>
+                  )}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+
+        {detail && dispute && (
+          <div className="space-y-6">
+            <Card>
+              <CardHeader>
+                <CardTitle>{SUBJECT_LABELS[dispute.subjectType]} {dispute.subjectId.slice(0, 8)}</CardTitle>
+                <CardDescription>
+                  Opened {format(new Date(dispute.createdAt), 'PPP')} while {dispute.subjectStatus}
+                  {dispute.mediatorId ? (dispute.mediatorId === currentUser.id ? ' · mediated by you' : ' · mediator assigned') : ''}
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                {dispute.status === 'open' && (
+                  <Button
+                    variant="outline"
+                    onClick={() => assignMutation.mutate(dispute.id)}
+                    disabled={assignMutation.isPending}
+                    data-testid="button-assign-mediator"
+                  >
+                    Take on as mediator
+                  </Button>
+                )}
+                <DisputeThread detail={detail} />
+              </CardContent>
+            </Card>
+
+            {dispute.status !== 'resolved' && (
+              <Card>
+                <CardHeader>
+                  <CardTitle>Resolve</CardTitle>
+                  <CardDescription>
+                    {dispute.subjectType === 'bleisure_booking'
+                      ? 'Bookings are not paid through escrow: record the outcome and pay any refund outside the platform.'
+                      : `${dispute.amountMad} MAD is frozen in escrow. Refunds go back to the buyer's payment method.`}
+                  </CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="dispute-outcome">Outcome</Label>
+                    <Select value={outcome} onValueChange={(value) => setOutcome(value as DisputeOutcome)}>
+                      <SelectTrigger id="dispute-outcome" data-testid="select-dispute-outcome">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="release">Release to provider</SelectItem>
+                        <SelectItem value="partial_split">Partial split</SelectItem>
+                        <SelectItem value="full_refund">Full refund to buyer</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  {outcome === 'partial_split' && (
+                    <div className="space-y-2">
+                      <Label htmlFor="dispute-refund">Refund to buyer (MAD)</Label>
+                      <Input
+                        id="dispute-refund"
+                        type="number"
+                        min={1}
+                        max={dispute.amountMad - 1}
+                        value={refundAmount}
+                        onChange={(e) => setRefundAmount(e.target.value)}
+                        data-testid="input-dispute-refund"
+                      />
+                    </div>
+                  )}
+                  <div className="space-y-2">
+                    <Label htmlFor="dispute-note">Decision note (sent to both parties)</Label>
+                    <Textarea
+                      id="dispute-note"
+                      value={note}
+                      onChange={(e) => setNote(e.target.value)}
+                      data-testid="input-dispute-note"
+                    />
+                  </div>
+                  <Button
+                    onClick={() => resolveMutation.mutate(dispute.id)}
+                    disabled={!canResolve || resolveMutation.isPending}
+                    data-testid="button-resolve-dispute"
+                  >
+                    Resolve dispute
+                  </Button>
+                </CardContent>
+              </Card>
+            )}
+
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <History className="w-5 h-5" />
+                  Audit trail
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                <Table>
+                  <TableBody>
+                    {trail.map((log) => (
+                      <TableRow key={log.id} data-testid={`row-dispute-audit-${log.id}`}>
+                        <TableCell className="whitespace-nowrap">{format(new Date(log.createdAt), 'yyyy-MM-dd HH:mm:ss')}</TableCell>
+                        <TableCell className="font-mono text-xs">{log.action}</TableCell>
+                        <TableCell>
+                          <pre className="text-xs whitespace-pre-wrap">{JSON.stringify(log.changes, null, 2)}</pre>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </CardContent>
+            </Card>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,268 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { useApp } from "@/contexts/AppContext";
+import { useLocation } from "wouter";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Skeleton } from "@/components/ui/skeleton";
+import { DocumentStatusBadge, DOCUMENT_TYPE_LABELS } from "@/components/DocumentStatusBadge";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { ExternalLink, FileCheck, History } from "lucide-react";
+import { format } from "date-fns";
+import type { AuditLog, ProviderDocument } from "@shared/schema";
+
+type ProviderDocumentForReview = ProviderDocument & { providerName: string; providerCity: string | null };
+
+export default function AdminProviderDocuments() {
+  const { currentUser } = useApp();
+  const [, setLocation] = useLocation();
+  const { toast } = useToast();
+
+  // Redirect if not admin
+  if (currentUser?.role !== 'admin') {
+    setLocation('/');
+    return null;
+  }
+
+  const [statusFilter, setStatusFilter] = useState<string>("pending");
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [expiresAt, setExpiresAt] = useState("");
+  const [reason, setReason] = useState("");
+
+  const queryParams = new URLSearchParams();
+  if (statusFilter !== "all") queryParams.set('status', statusFilter);
+
+  const { data: documents = [], isLoading } = useQuery<ProviderDocumentForReview[]>({
+    queryKey: [`/api/provider-documents/queue?${queryParams.toString()}`],
+  });
+
+  // Every audited step of the selected document
+  const { data: trail = [] } = useQuery<AuditLog[]>({
+    queryKey: ['/api/provider-documents', selectedId, 'audit'],
+    enabled: !!selectedId,
+  });
+
+  const selectDocument = (document: ProviderDocumentForReview) => {
+    setSelectedId(document.id);
+    setExpiresAt(document.expiresAt ? format(new Date(document.expiresAt), 'yyyy-MM-dd') : "");
+    setReason("");
+  };
+
+  // The queue and the selected document's audit trail
+  const refresh = () => {
+    queryClient.invalidateQueries({ predicate: (query) => String(query.queryKey[0]).startsWith('/api/provider-documents') });
+  };
+
+  const approveMutation = useMutation({
+    mutationFn: (id: string) => apiRequest('POST', `/api/provider-documents/${id}/approve`, expiresAt ? { expiresAt } : {}),
+    onSuccess: () => {
+      refresh();
+      toast({ title: "Document approved", description: "The provider's verification has been updated." });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const rejectMutation = useMutation({
+    mutationFn: (id: string) => apiRequest('POST', `/api/provider-documents/${id}/reject`, { reason }),
+    onSuccess: () => {
+      refresh();
+      setReason("");
+      toast({ title: "Document rejected", description: "The provider has been notified." });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const document = documents.find((row) => row.id === selectedId);
+
+  return (
+    <div className="min-h-screen bg-background" data-testid="page-admin-provider-documents">
+      <div className="border-b bg-card">
+        <div className="max-w-7xl mx-auto px-4 py-6">
+          <div className="flex items-center gap-3 mb-4">
+            <FileCheck className="w-8 h-8 text-primary" />
+            <div>
+              <h1 className="text-3xl font-bold" data-testid="text-page-title">
+                Provider Documents
+              </h1>
+              <p className="text-muted-foreground mt-1">
+                Review the licensing documents that verify providers
+              </p>
+            </div>
+          </div>
+        </div>
+      </div>
+
+      <div className="max-w-7xl mx-auto px-4 py-8 grid lg:grid-cols-2 gap-6">
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between">
+            <div>
+              <CardTitle>Queue</CardTitle>
+              <CardDescription>{documents.length} documents</CardDescription>
+            </div>
+            <Select value={statusFilter} onValueChange={setStatusFilter}>
+              <SelectTrigger className="w-40" data-testid="select-document-status">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="pending">Pending</SelectItem>
+                <SelectItem value="verified">Verified</SelectItem>
+                <SelectItem value="rejected">Rejected</SelectItem>
+                <SelectItem value="expired">Expired</SelectItem>
+                <SelectItem value="all">All</SelectItem>
+              </SelectContent>
+            </Select>
+          </CardHeader>
+          <CardContent>
+            {isLoading ? (
+              <Skeleton className="h-64 w-full" />
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Submitted</TableHead>
+                    <TableHead>Provider</TableHead>
+                    <TableHead>Type</TableHead>
+                    <TableHead>Expires</TableHead>
+                    <TableHead>Status</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {documents.map((row) => (
+                    <TableRow
+                      key={row.id}
+                      className={`cursor-pointer ${row.id === selectedId ? 'bg-muted' : ''}`}
+                      onClick={() => selectDocument(row)}
+                      data-testid={`row-provider-document-${row.id}`}
+                    >
+                      <TableCell>{format(new Date(row.createdAt), 'yyyy-MM-dd HH:mm')}</TableCell>
+                      <TableCell>{row.providerName}</TableCell>
+                      <TableCell>{DOCUMENT_TYPE_LABELS[row.type]}</TableCell>
+                      <TableCell>{row.expiresAt ? format(new Date(row.expiresAt), 'yyyy-MM-dd') : '-'}</TableCell>
+                      <TableCell>
+                        <DocumentStatusBadge status={row.status} />
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                  {documents.length === 0 && (
+                    <TableRow>
+                      <TableCell colSpan={5} className="text-center text-muted-foreground">
+                        No documents
+                      </TableCell>
+                    </TableRow>
+                  )}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+
+        {document && (
+          <div className="space-y-6">
+            <Card>
+              <CardHeader>
+                <CardTitle>{DOCUMENT_TYPE_LABELS[document.type]} · {document.providerName}</CardTitle>
+                <CardDescription>
+                  {document.providerCity ? `${document.providerCity} · ` : ''}
+                  Submitted {format(new Date(document.createdAt), 'PPP')}
+                  {document.documentNumber ? ` · No. ${document.documentNumber}` : ''}
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <Button variant="outline" asChild>
+                  <a href={document.documentUrl} target="_blank" rel="noreferrer" data-testid="link-open-document">
+                    <ExternalLink className="w-4 h-4 mr-2" />
+                    Open document
+                  </a>
+                </Button>
+                {document.rejectionReason && (
+                  <p className="text-sm text-muted-foreground">Rejected: {document.rejectionReason}</p>
+                )}
+              </CardContent>
+            </Card>
+
+            {document.status === 'pending' && (
+              <Card>
+                <CardHeader>
+                  <CardTitle>Review</CardTitle>
+                  <CardDescription>
+                    Approving recomputes the provider's permits and verified badge from their verified documents.
+                  </CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="document-expires">Expiry date on the document</Label>
+                    <Input
+                      id="document-expires"
+                      type="date"
+                      value={expiresAt}
+                      onChange={(e) => setExpiresAt(e.target.value)}
+                      data-testid="input-document-expires"
+                    />
+                  </div>
+                  <Button
+                    onClick={() => approveMutation.mutate(document.id)}
+                    disabled={approveMutation.isPending}
+                    data-testid="button-approve-document"
+                  >
+                    Approve
+                  </Button>
+                  <div className="space-y-2">
+                    <Label htmlFor="document-reason">Rejection reason (sent to the provider)</Label>
+                    <Textarea
+                      id="document-reason"
+                      value={reason}
+                      onChange={(e) => setReason(e.target.value)}
+                      data-testid="input-document-reason"
+                    />
+                  </div>
+                  <Button
+                    variant="destructive"
+                    onClick={() => rejectMutation.mutate(document.id)}
+                    disabled={reason.trim().length < 3 || rejectMutation.isPending}
+                    data-testid="button-reject-document"
+                  >
+                    Reject
+                  </Button>
+                </CardContent>
+              </Card>
+            )}
+
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <History className="w-5 h-5" />
+                  Audit trail
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                <Table>
+                  <TableBody>
+                    {trail.map((log) => (
+                      <TableRow key={log.id} data-testid={`row-document-audit-${log.id}`}>
+                        <TableCell className="whitespace-nowrap">{format(new Date(log.createdAt), 'yyyy-MM-dd HH:mm:ss')}</TableCell>
+                        <TableCell className="font-mono text-xs">{log.action}</TableCell>
+                        <TableCell>
+                          <pre className="text-xs whitespace-pre-wrap">{JSON.stringify(log.changes, null, 2)}</pre>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </CardContent>
+            </Card>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
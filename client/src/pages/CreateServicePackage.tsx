@@ -85,7 +85,7 @@ export default function CreateServicePackage() {
         premiumPriceMad: packageData.premiumPriceMad || undefined,
         premiumDeliveryDays: packageData.premiumDeliveryDays || undefined,
         premiumFeatures: Array.isArray(packageData.premiumFeatures) ? packageData.premiumFeatures : [],
-        extras: packageData.extras || [],
+        extras: Array.isArray(packageData.extras) ? packageData.extras : [],
         active: packageData.active,
       });
     }
@@ -0,0 +1,60 @@
+import { useParams, useLocation } from 'wouter';
+import { useQuery } from '@tanstack/react-query';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { DisputeThread, type DisputeDetailResponse } from '@/components/DisputeThread';
+import { useTranslation } from '@/lib/i18n';
+import { useApp } from '@/contexts/AppContext';
+import { ChevronLeft, Loader2 } from 'lucide-react';
+
+export default function DisputeDetail() {
+  const { id } = useParams();
+  const [, setLocation] = useLocation();
+  const { locale } = useApp();
+  const { t } = useTranslation(locale);
+
+  const { data: detail, isLoading } = useQuery<DisputeDetailResponse>({
+    queryKey: ['/api/disputes', id],
+    enabled: !!id,
+  });
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center min-h-screen">
+        <Loader2 className="w-8 h-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (!detail) {
+    return null;
+  }
+
+  const { dispute } = detail;
+
+  return (
+    <div className="min-h-screen bg-background">
+      <div className="max-w-3xl mx-auto px-4 py-8">
+        {dispute.subjectType === 'job' && (
+          <Button
+            variant="ghost"
+            onClick={() => setLocation(`/jobs/${dispute.subjectId}`)}
+            className="mb-4"
+            data-testid="button-back-to-job"
+          >
+            <ChevronLeft className="w-4 h-4 mr-2" />
+            {t('nav.jobs')}
+          </Button>
+        )}
+        <Card>
+          <CardHeader>
+            <CardTitle data-testid="text-dispute-title">{t('dispute.title')}</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <DisputeThread detail={detail} />
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
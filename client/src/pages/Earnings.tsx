@@ -0,0 +1,299 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { useEffect, useState } from "react";
+import { Card, CardHeader, CardTitle, CardDescription, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Wallet, Landmark } from "lucide-react";
+import { isValidRib, type ProviderPayoutSettings, type ProviderPayout } from "@shared/schema";
+import { format } from "date-fns";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+
+interface PayoutHistoryEntry extends Pick<ProviderPayout,
+  "id" | "grossAmountMad" | "feeAmountMad" | "netAmountMad" | "rib" | "status" | "failureReason" | "paidAt" | "createdAt"> {
+  batchReference: string;
+}
+
+interface EarningsSummary {
+  totalGross: number;
+  totalCommission: number;
+  totalNet: number;
+  pending: { count: number; amount: number };
+  available: { count: number; amount: number };
+  paidOut: { count: number; amount: number };
+  payoutBalance: { grossMad: number; feeMad: number; netMad: number };
+  payouts: PayoutHistoryEntry[];
+}
+
+const PAYOUT_STATUS_VARIANTS: Record<string, "default" | "secondary" | "destructive"> = {
+  pending: "secondary",
+  paid: "default",
+  failed: "destructive",
+};
+
+export default function Earnings() {
+  const { toast } = useToast();
+  const [schedule, setSchedule] = useState<"weekly" | "on_request">("weekly");
+  const [minimumPayoutMad, setMinimumPayoutMad] = useState("200");
+  const [accountHolder, setAccountHolder] = useState("");
+  const [rib, setRib] = useState("");
+  const [bankName, setBankName] = useState("");
+
+  const { data: earnings, isLoading } = useQuery<EarningsSummary>({
+    queryKey: ["/api/earnings"],
+  });
+
+  const { data: settings } = useQuery<ProviderPayoutSettings | null>({
+    queryKey: ["/api/payouts/settings"],
+  });
+
+  useEffect(() => {
+    if (settings) {
+      setSchedule(settings.schedule);
+      setMinimumPayoutMad(String(settings.minimumPayoutMad));
+      setAccountHolder(settings.accountHolder || "");
+      setRib(settings.rib || "");
+      setBankName(settings.bankName || "");
+    }
+  }, [settings]);
+
+  const ribDigits = rib.replace(/\s/g, "");
+  const ribInvalid = ribDigits.length > 0 && !isValidRib(ribDigits);
+
+  const saveSettingsMutation = useMutation({
+    mutationFn: () =>
+      apiRequest("PUT", "/api/payouts/settings", {
+        schedule,
+        minimumPayoutMad: parseInt(minimumPayoutMad, 10) || 0,
+        accountHolder: accountHolder || null,
+        rib: ribDigits || null,
+        bankName: bankName || null,
+      }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/payouts/settings"] });
+      toast({ title: "Payout settings saved" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const requestPayoutMutation = useMutation({
+    mutationFn: () => apiRequest("POST", "/api/payouts/request", {}),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/payouts/settings"] });
+      toast({ title: "Payout requested", description: "Your balance will be included in the next payout batch." });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  if (isLoading || !earnings) {
+    return (
+      <div className="max-w-7xl mx-auto px-4 py-8 space-y-4">
+        {[...Array(3)].map((_, i) => (
+          <Skeleton key={i} className="h-40 w-full" />
+        ))}
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-background" data-testid="page-earnings">
+      <div className="border-b bg-card">
+        <div className="max-w-7xl mx-auto px-4 py-6">
+          <div className="flex items-center gap-3">
+            <Wallet className="w-8 h-8 text-primary" />
+            <div>
+              <h1 className="text-3xl font-bold" data-testid="text-page-title">
+                Earnings & Payouts
+              </h1>
+              <p className="text-muted-foreground mt-1">
+                Released funds are paid to your bank account net of platform fees
+              </p>
+            </div>
+          </div>
+        </div>
+      </div>
+
+      <div className="max-w-7xl mx-auto px-4 py-8 space-y-6">
+        <div className="grid gap-4 md:grid-cols-3">
+          <Card>
+            <CardHeader className="pb-2">
+              <CardDescription>Ready for payout</CardDescription>
+              <CardTitle className="text-2xl" data-testid="text-payout-balance">
+                {earnings.payoutBalance.netMad} MAD
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="text-sm text-muted-foreground">
+              {earnings.payoutBalance.grossMad} MAD released − {earnings.payoutBalance.feeMad} MAD fees
+            </CardContent>
+          </Card>
+          <Card>
+            <CardHeader className="pb-2">
+              <CardDescription>Pending earnings</CardDescription>
+              <CardTitle className="text-2xl" data-testid="text-pending-earnings">
+                {earnings.pending.amount} MAD
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="text-sm text-muted-foreground">
+              {earnings.pending.count} jobs held in escrow
+            </CardContent>
+          </Card>
+          <Card>
+            <CardHeader className="pb-2">
+              <CardDescription>Paid out</CardDescription>
+              <CardTitle className="text-2xl" data-testid="text-paid-out">
+                {earnings.paidOut.amount} MAD
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="text-sm text-muted-foreground">
+              {earnings.totalCommission} MAD platform fees to date
+            </CardContent>
+          </Card>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <div className="flex items-center gap-2">
+              <Landmark className="w-5 h-5" />
+              <CardTitle>Payout settings</CardTitle>
+            </div>
+            <CardDescription>
+              Weekly payouts go out automatically; on-request payouts are included in the next batch after you ask.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="grid gap-4 md:grid-cols-2">
+              <div className="space-y-2">
+                <Label>Schedule</Label>
+                <Select value={schedule} onValueChange={(value) => setSchedule(value as "weekly" | "on_request")}>
+                  <SelectTrigger data-testid="select-payout-schedule">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="weekly">Weekly</SelectItem>
+                    <SelectItem value="on_request">On request</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="minimum-payout">Minimum payout (MAD)</Label>
+                <Input
+                  id="minimum-payout"
+                  type="number"
+                  min={0}
+                  value={minimumPayoutMad}
+                  onChange={(e) => setMinimumPayoutMad(e.target.value)}
+                  data-testid="input-minimum-payout"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="account-holder">Account holder</Label>
+                <Input
+                  id="account-holder"
+                  value={accountHolder}
+                  onChange={(e) => setAccountHolder(e.target.value)}
+                  data-testid="input-account-holder"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="bank-name">Bank</Label>
+                <Input
+                  id="bank-name"
+                  value={bankName}
+                  onChange={(e) => setBankName(e.target.value)}
+                  data-testid="input-bank-name"
+                />
+              </div>
+              <div className="space-y-2 md:col-span-2">
+                <Label htmlFor="rib">RIB (24 digits)</Label>
+                <Input
+                  id="rib"
+                  value={rib}
+                  onChange={(e) => setRib(e.target.value)}
+                  placeholder="000 000 0000000000000000 00"
+                  data-testid="input-rib"
+                />
+                {ribInvalid && (
+                  <p className="text-sm text-destructive" data-testid="text-rib-invalid">
+                    This RIB is not valid. Check the 24 digits and the 2-digit key.
+                  </p>
+                )}
+              </div>
+            </div>
+            <div className="flex gap-2">
+              <Button
+                onClick={() => saveSettingsMutation.mutate()}
+                disabled={ribInvalid || saveSettingsMutation.isPending}
+                data-testid="button-save-payout-settings"
+              >
+                Save settings
+              </Button>
+              {settings?.schedule === "on_request" && (
+                <Button
+                  variant="outline"
+                  onClick={() => requestPayoutMutation.mutate()}
+                  disabled={!!settings.payoutRequestedAt || requestPayoutMutation.isPending}
+                  data-testid="button-request-payout"
+                >
+                  {settings.payoutRequestedAt ? "Payout requested" : "Request payout"}
+                </Button>
+              )}
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Payout history</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {earnings.payouts.length === 0 ? (
+              <p className="text-muted-foreground" data-testid="text-no-payouts">
+                No payouts yet
+              </p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Date</TableHead>
+                    <TableHead>Reference</TableHead>
+                    <TableHead className="text-right">Released</TableHead>
+                    <TableHead className="text-right">Fees</TableHead>
+                    <TableHead className="text-right">Paid</TableHead>
+                    <TableHead>Account</TableHead>
+                    <TableHead>Status</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {earnings.payouts.map((payout) => (
+                    <TableRow key={payout.id} data-testid={`row-payout-${payout.id}`}>
+                      <TableCell>{format(new Date(payout.paidAt || payout.createdAt), "PP")}</TableCell>
+                      <TableCell>{payout.batchReference}</TableCell>
+                      <TableCell className="text-right">{payout.grossAmountMad} MAD</TableCell>
+                      <TableCell className="text-right">{payout.feeAmountMad} MAD</TableCell>
+                      <TableCell className="text-right font-medium">{payout.netAmountMad} MAD</TableCell>
+                      <TableCell>•••• {payout.rib.slice(-4)}</TableCell>
+                      <TableCell>
+                        <Badge variant={PAYOUT_STATUS_VARIANTS[payout.status] || "secondary"} title={payout.failureReason || undefined}>
+                          {payout.status}
+                        </Badge>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -1,16 +1,19 @@
+import { useState } from 'react';
 import { useParams, useLocation } from 'wouter';
 import { useQuery, useMutation } from '@tanstack/react-query';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
+import { Textarea } from '@/components/ui/textarea';
 import { OfferCard } from '@/components/OfferCard';
 import { CategoryIcon } from '@/components/CategoryIcon';
+import { TripTracker } from '@/components/TripTracker';
 import { useTranslation, formatCurrency } from '@/lib/i18n';
 import { useApp } from '@/contexts/AppContext';
 import { useToast } from '@/hooks/use-toast';
 import { ChevronLeft, Loader2, MapPin, Calendar, DollarSign } from 'lucide-react';
 import { apiRequest, queryClient } from '@/lib/queryClient';
-import { type Job, type Offer, type Provider } from '@shared/schema';
+import { type Dispute, type Job, type Offer, type Provider } from '@shared/schema';
 import { formatDistanceToNow } from 'date-fns';
 import { fr, ar, enUS } from 'date-fns/locale';
 
@@ -26,6 +29,8 @@ export default function JobDetail() {
   const { locale, currentUser } = useApp();
   const { t } = useTranslation(locale);
   const { toast } = useToast();
+  const [disputeReason, setDisputeReason] = useState('');
+  const [showDispute, setShowDispute] = useState(false);
 
   const { data: job, isLoading: jobLoading } = useQuery<Job>({
     queryKey: ['/api/jobs', id],
@@ -37,6 +42,11 @@ export default function JobDetail() {
     enabled: !!id,
   });
 
+  const { data: jobDisputes = [] } = useQuery<Dispute[]>({
+    queryKey: [`/api/disputes?subjectType=job&subjectId=${id}`],
+    enabled: !!id && !!currentUser && job?.status === 'disputed',
+  });
+
   const handleAcceptOffer = (offerId: string) => {
     // Check if user is authenticated
     if (!currentUser) {
@@ -54,16 +64,53 @@ export default function JobDetail() {
   };
 
   const acceptMutation = useMutation({
-    mutationFn: (offerId: string) => apiRequest('POST', `/api/offers/${offerId}/accept`, {}),
-    onSuccess: () => {
+    mutationFn: async (offerId: string) => {
+      const res = await apiRequest('POST', `/api/offers/${offerId}/accept`, {});
+      return res.json();
+    },
+    onSuccess: (result: { payment?: { status: string; paymentUrl?: string } }) => {
       queryClient.invalidateQueries({ queryKey: ['/api/jobs', id] });
       queryClient.invalidateQueries({ queryKey: ['/api/jobs', id, 'offers'] });
+
+      // The offer is accepted once the payment completes on the PSP checkout page
+      if (result.payment?.status !== 'completed' && result.payment?.paymentUrl) {
+        window.location.href = result.payment.paymentUrl;
+        return;
+      }
+
       toast({
         title: 'Offer Accepted',
         description: 'The provider has been notified. You can now message them.',
       });
       setLocation(`/messages/${id}`);
     },
+    onError: (error: Error) => {
+      toast({
+        title: 'Payment failed',
+        description: error.message,
+        variant: 'destructive',
+      });
+    },
+  });
+
+  // Provider marks the job done; the buyer confirms or disputes it
+  const completionMutation = useMutation({
+    mutationFn: async ({ action, reason }: { action: 'deliver' | 'confirm' | 'dispute'; reason?: string }) => {
+      const res = await apiRequest('POST', `/api/jobs/${id}/${action}`, reason ? { reason } : {});
+      return res.json();
+    },
+    onSuccess: (result: { id: string }, { action }) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/jobs', id] });
+      setShowDispute(false);
+      setDisputeReason('');
+      // Reporting a problem opens a dispute; its thread is where the mediator follows up
+      if (action === 'dispute') {
+        setLocation(`/disputes/${result.id}`);
+      }
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Error', description: error.message, variant: 'destructive' });
+    },
   });
 
   if (jobLoading) {
@@ -87,6 +134,9 @@ export default function JobDetail() {
   }
 
   const spec = job.spec as any;
+  const acceptedOffer = offers.find((offer) => offer.status === 'accepted');
+  const isBuyer = !!currentUser && currentUser.id === job.buyerId;
+  const isAcceptedProvider = !!currentUser && acceptedOffer?.provider?.userId === currentUser.id;
   const sortedOffers = [...offers].sort((a, b) => {
     const scoreA = parseFloat(a.aiScore?.toString() || '0');
     const scoreB = parseFloat(b.aiScore?.toString() || '0');
@@ -128,6 +178,75 @@ export default function JobDetail() {
                 </div>
               </CardHeader>
               <CardContent className="space-y-4">
+                {isAcceptedProvider && job.status === 'accepted' && (
+                  <Button
+                    className="w-full"
+                    onClick={() => completionMutation.mutate({ action: 'deliver' })}
+                    disabled={completionMutation.isPending}
+                    data-testid="button-mark-done"
+                  >
+                    {t('job.markDone')}
+                  </Button>
+                )}
+
+                {isBuyer && job.status === 'delivered' && (
+                  <div className="space-y-2">
+                    {job.confirmationDueAt && (
+                      <p className="text-sm text-muted-foreground">
+                        {t('job.confirmBy')}{' '}
+                        {formatDistanceToNow(new Date(job.confirmationDueAt), { addSuffix: true, locale: dateLocales[locale] })}
+                      </p>
+                    )}
+                    <Button
+                      className="w-full"
+                      onClick={() => completionMutation.mutate({ action: 'confirm' })}
+                      disabled={completionMutation.isPending}
+                      data-testid="button-confirm-completion"
+                    >
+                      {t('job.confirmCompletion')}
+                    </Button>
+                    {showDispute ? (
+                      <>
+                        <Textarea
+                          value={disputeReason}
+                          onChange={(e) => setDisputeReason(e.target.value)}
+                          placeholder={t('job.disputeReason')}
+                          data-testid="input-dispute-reason"
+                        />
+                        <Button
+                          variant="destructive"
+                          className="w-full"
+                          onClick={() => completionMutation.mutate({ action: 'dispute', reason: disputeReason })}
+                          disabled={completionMutation.isPending || disputeReason.trim().length < 10}
+                          data-testid="button-submit-dispute"
+                        >
+                          {t('job.reportProblem')}
+                        </Button>
+                      </>
+                    ) : (
+                      <Button
+                        variant="outline"
+                        className="w-full"
+                        onClick={() => setShowDispute(true)}
+                        data-testid="button-report-problem"
+                      >
+                        {t('job.reportProblem')}
+                      </Button>
+                    )}
+                  </div>
+                )}
+
+                {job.status === 'disputed' && jobDisputes[0] && (
+                  <Button
+                    variant="outline"
+                    className="w-full"
+                    onClick={() => setLocation(`/disputes/${jobDisputes[0].id}`)}
+                    data-testid="button-view-dispute"
+                  >
+                    {t('dispute.view')}
+                  </Button>
+                )}
+
                 {job.city && (
                   <div className="flex items-center gap-2 text-sm">
                     <MapPin className="w-4 h-4 text-muted-foreground" />
@@ -190,6 +309,12 @@ export default function JobDetail() {
 
           {/* Offers List */}
           <div className="lg:col-span-2">
+            {acceptedOffer && (isBuyer || isAcceptedProvider) && (
+              <div className="mb-8">
+                <TripTracker jobId={job.id} isProvider={isAcceptedProvider} />
+              </div>
+            )}
+
             <div className="flex items-center justify-between mb-6">
               <h2 className="text-2xl font-bold">
                 {t('offer.title')} ({offers.length})
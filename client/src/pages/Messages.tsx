@@ -1,4 +1,4 @@
-import { useState } from 'react';
+import { useEffect, useRef, useState } from 'react';
 import { useQuery, useMutation } from '@tanstack/react-query';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
@@ -7,8 +7,10 @@ import { Avatar, AvatarFallback } from '@/components/ui/avatar';
 import { useTranslation } from '@/lib/i18n';
 import { useApp } from '@/contexts/AppContext';
 import { apiRequest, queryClient } from '@/lib/queryClient';
-import { Send, Loader2, MessageCircle } from 'lucide-react';
-import { type Message, type Job } from '@shared/schema';
+import { useRealtimeMessages, MESSAGES_POLL_INTERVAL_MS } from '@/hooks/use-realtime-messages';
+import { useToast } from '@/hooks/use-toast';
+import { Send, Loader2, MessageCircle, WifiOff, Paperclip, FileText, X, Languages } from 'lucide-react';
+import { type Message, type MessageRead, type Job } from '@shared/schema';
 import { formatDistanceToNow } from 'date-fns';
 import { fr, ar, enUS } from 'date-fns/locale';
 
@@ -18,16 +20,56 @@ const dateLocales = {
   'en-US': enUS,
 };
 
+// Translation into the reader's language, fetched (and cached server-side) on first open
+function MessageTranslationToggle({ messageId, t }: { messageId: string; t: ReturnType<typeof useTranslation>['t'] }) {
+  const [open, setOpen] = useState(false);
+  const { data: translation, isLoading } = useQuery<{ text: string; translated: boolean }>({
+    queryKey: ['/api/messages', messageId, 'translation'],
+    enabled: open,
+    staleTime: Infinity,
+  });
+
+  return (
+    <div className="mt-1">
+      <button
+        className="flex items-center gap-1 text-xs underline opacity-70"
+        onClick={() => setOpen(!open)}
+        data-testid={`button-translate-${messageId}`}
+      >
+        <Languages className="w-3 h-3" />
+        {open ? t('message.hideTranslation') : t('message.translate')}
+      </button>
+      {open && (
+        <p className="text-sm mt-1 border-l-2 pl-2 opacity-90" data-testid={`text-translation-${messageId}`}>
+          {isLoading ? <Loader2 className="w-3 h-3 animate-spin" /> : translation?.text}
+        </p>
+      )}
+    </div>
+  );
+}
+
 export default function Messages() {
   const { locale, currentUser } = useApp();
   const { t } = useTranslation(locale);
   const [selectedJobId, setSelectedJobId] = useState<string | null>(null);
+  const { toast } = useToast();
   const [messageInput, setMessageInput] = useState('');
+  const [pendingAttachments, setPendingAttachments] = useState<{ url: string; name: string }[]>([]);
+  const [uploading, setUploading] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const lastTypingSentAt = useRef(0);
+  const lastReadSent = useRef<string | null>(null);
+
+  // Live updates over the socket; poll while it is disconnected
+  const { connected, typingUserIds, readReceipts, sendTyping } = useRealtimeMessages(selectedJobId);
+  const readerLanguage = (currentUser?.locale || locale).slice(0, 2);
+  const pollInterval = connected ? false : MESSAGES_POLL_INTERVAL_MS;
 
   const { data: conversations = [], isLoading: convsLoading } = useQuery<
     (Job & { lastMessage?: Message; unreadCount: number })[]
   >({
     queryKey: ['/api/messages/conversations'],
+    refetchInterval: pollInterval,
   });
 
   const { data: messages = [], isLoading: messagesLoading } = useQuery<
@@ -35,28 +77,101 @@ export default function Messages() {
   >({
     queryKey: ['/api/jobs', selectedJobId, 'messages'],
     enabled: !!selectedJobId,
+    refetchInterval: pollInterval,
   });
 
+  const { data: reads = [] } = useQuery<MessageRead[]>({
+    queryKey: ['/api/jobs', selectedJobId, 'messages', 'reads'],
+    enabled: !!selectedJobId,
+  });
+
+  useEffect(() => {
+    setPendingAttachments([]);
+  }, [selectedJobId]);
+
+  // Mark the conversation read up to the latest message from someone else; the server sends the receipt
+  useEffect(() => {
+    const lastIncoming = [...messages].reverse().find((message) => message.senderId !== currentUser?.id);
+    if (selectedJobId && lastIncoming && lastReadSent.current !== lastIncoming.id) {
+      lastReadSent.current = lastIncoming.id;
+      apiRequest('POST', `/api/jobs/${selectedJobId}/messages/read`, { messageId: lastIncoming.id })
+        .then(() => queryClient.invalidateQueries({ queryKey: ['/api/messages/conversations'] }))
+        .catch(() => {
+          lastReadSent.current = null;
+        });
+    }
+  }, [messages, selectedJobId, currentUser?.id]);
+
+  // A receipt covers everything up to the message read; mark the last own message it covers as seen
+  const readMessageIds = new Set([
+    ...reads.filter((read) => read.userId !== currentUser?.id).map((read) => read.lastReadMessageId),
+    ...Object.values(readReceipts),
+  ]);
+  const readUpTo = messages.reduce(
+    (latest, message, index) => (readMessageIds.has(message.id) ? index : latest),
+    -1
+  );
+  const lastSeenOwnMessageId = messages
+    .slice(0, readUpTo + 1)
+    .filter((message) => message.senderId === currentUser?.id)
+    .pop()?.id;
+
+  const handleInputChange = (value: string) => {
+    setMessageInput(value);
+    // Throttled: one typing event every few seconds is enough to keep the indicator up
+    if (value && Date.now() - lastTypingSentAt.current > 3000) {
+      lastTypingSentAt.current = Date.now();
+      sendTyping(true);
+    }
+  };
+
   const sendMessageMutation = useMutation({
-    mutationFn: (data: { jobId: string; body: string }) =>
-      apiRequest('POST', '/api/messages', {
-        jobId: data.jobId,
-        senderId: currentUser?.id || '80bc66ef-1602-4a00-9272-0aef66d83d3c', // TODO: Get from auth (ahmed@example.ma)
-        body: data.body,
-      }),
+    mutationFn: (data: { jobId: string; body: string; attachments: { url: string; name: string }[] }) =>
+      apiRequest('POST', '/api/messages', data),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['/api/jobs', selectedJobId, 'messages'] });
     },
+    onError: (error: Error) => {
+      toast({ title: 'Error', description: error.message, variant: 'destructive' });
+    },
   });
 
+  // Upload straight to object storage with a signed URL; the server scopes access when the message is sent
+  const handleFileSelected = async (file: File) => {
+    if (!selectedJobId) return;
+    setUploading(true);
+    try {
+      const res = await apiRequest('POST', `/api/jobs/${selectedJobId}/messages/attachments`);
+      const { uploadURL } = await res.json();
+      const upload = await fetch(uploadURL, {
+        method: 'PUT',
+        body: file,
+        headers: { 'Content-Type': file.type || 'application/octet-stream' },
+      });
+      if (!upload.ok) {
+        throw new Error(`Upload failed (${upload.status})`);
+      }
+      setPendingAttachments((attachments) => [...attachments, { url: uploadURL.split('?')[0], name: file.name }]);
+    } catch (error) {
+      toast({ title: 'Error', description: (error as Error).message, variant: 'destructive' });
+    } finally {
+      setUploading(false);
+      if (fileInputRef.current) fileInputRef.current.value = '';
+    }
+  };
+
   const handleSendMessage = async () => {
-    if (!messageInput.trim() || !selectedJobId) return;
+    if ((!messageInput.trim() && pendingAttachments.length === 0) || !selectedJobId) return;
     
     sendMessageMutation.mutate({
       jobId: selectedJobId,
       body: messageInput,
+      attachments: pendingAttachments,
     });
     setMessageInput('');
+    setPendingAttachments([]);
+    lastTypingSentAt.current = 0;
+    sendTyping(false);
   };
 
   const selectedConversation = conversations.find(c => c.id === selectedJobId);
@@ -130,13 +245,21 @@ export default function Messages() {
             {selectedJobId ? (
               <>
                 {/* Chat Header */}
-                <div className="p-4 border-b">
-                  <h3 className="font-semibold">
-                    {selectedConversation?.spec && (selectedConversation.spec as any).description}
-                  </h3>
-                  <p className="text-sm text-muted-foreground">
-                    {selectedConversation?.city}
-                  </p>
+                <div className="p-4 border-b flex items-start justify-between gap-2">
+                  <div>
+                    <h3 className="font-semibold">
+                      {selectedConversation?.spec && (selectedConversation.spec as any).description}
+                    </h3>
+                    <p className="text-sm text-muted-foreground">
+                      {selectedConversation?.city}
+                    </p>
+                  </div>
+                  {!connected && (
+                    <span className="flex items-center gap-1 text-xs text-muted-foreground" data-testid="text-messages-offline">
+                      <WifiOff className="w-3 h-3" />
+                      {t('message.offline')}
+                    </span>
+                  )}
                 </div>
 
                 {/* Messages */}
@@ -163,12 +286,45 @@ export default function Messages() {
                             {!isOwnMessage && (
                               <p className="text-xs font-semibold mb-1">{message.senderName}</p>
                             )}
-                            <p className="text-sm">{message.body}</p>
+                            {message.body && <p className="text-sm">{message.body}</p>}
+                            {message.meta?.contactLeak && message.meta.contactLeak.reviewStatus !== 'dismissed' && (
+                              <p className="text-xs italic mt-1 opacity-70" data-testid={`text-contact-hidden-${message.id}`}>
+                                {t('message.contactHidden')}
+                              </p>
+                            )}
+                            {message.body && message.language && message.language !== readerLanguage && (
+                              <MessageTranslationToggle messageId={message.id} t={t} />
+                            )}
+                            {message.attachments?.map((attachment) =>
+                              attachment.contentType.startsWith('image/') ? (
+                                <a key={attachment.url} href={attachment.url} target="_blank" rel="noreferrer">
+                                  <img
+                                    src={attachment.url}
+                                    alt={attachment.name}
+                                    className="mt-2 max-h-48 rounded"
+                                    data-testid={`img-attachment-${message.id}`}
+                                  />
+                                </a>
+                              ) : (
+                                <a
+                                  key={attachment.url}
+                                  href={attachment.url}
+                                  target="_blank"
+                                  rel="noreferrer"
+                                  className="mt-2 flex items-center gap-2 text-sm underline"
+                                  data-testid={`link-attachment-${message.id}`}
+                                >
+                                  <FileText className="w-4 h-4" />
+                                  {attachment.name}
+                                </a>
+                              )
+                            )}
                             <p className={`text-xs mt-1 ${isOwnMessage ? 'text-primary-foreground/70' : 'text-muted-foreground'}`}>
                               {formatDistanceToNow(new Date(message.createdAt), {
                                 addSuffix: true,
                                 locale: dateLocales[locale],
                               })}
+                              {message.id === lastSeenOwnMessageId && ` · ${t('message.seen')}`}
                             </p>
                           </div>
                         </div>
@@ -179,11 +335,49 @@ export default function Messages() {
 
                 {/* Message Input */}
                 <div className="p-4 border-t">
+                  {typingUserIds.length > 0 && (
+                    <p className="text-xs text-muted-foreground mb-2" data-testid="text-typing-indicator">
+                      {t('message.typing')}
+                    </p>
+                  )}
+                  {pendingAttachments.length > 0 && (
+                    <div className="flex flex-wrap gap-2 mb-2">
+                      {pendingAttachments.map((attachment) => (
+                        <span key={attachment.url} className="flex items-center gap-1 text-xs bg-muted rounded px-2 py-1">
+                          <Paperclip className="w-3 h-3" />
+                          {attachment.name}
+                          <button
+                            onClick={() => setPendingAttachments((list) => list.filter((a) => a.url !== attachment.url))}
+                            data-testid="button-remove-attachment"
+                          >
+                            <X className="w-3 h-3" />
+                          </button>
+                        </span>
+                      ))}
+                    </div>
+                  )}
                   <div className="flex gap-2">
+                    <input
+                      ref={fileInputRef}
+                      type="file"
+                      accept="image/*,application/pdf,.doc,.docx,.xls,.xlsx,.txt"
+                      className="hidden"
+                      onChange={(e) => e.target.files?.[0] && handleFileSelected(e.target.files[0])}
+                      data-testid="input-attachment"
+                    />
+                    <Button
+                      variant="outline"
+                      size="icon"
+                      onClick={() => fileInputRef.current?.click()}
+                      disabled={uploading || pendingAttachments.length >= 5}
+                      data-testid="button-attach-file"
+                    >
+                      {uploading ? <Loader2 className="w-4 h-4 animate-spin" /> : <Paperclip className="w-4 h-4" />}
+                    </Button>
                     <Input
                       placeholder={t('message.send')}
                       value={messageInput}
-                      onChange={(e) => setMessageInput(e.target.value)}
+                      onChange={(e) => handleInputChange(e.target.value)}
                       onKeyDown={(e) => e.key === 'Enter' && handleSendMessage()}
                       data-testid="input-message"
                     />
@@ -1,4 +1,4 @@
-import { useQuery } from "@tanstack/react-query";
+import { useQuery, useMutation } from "@tanstack/react-query";
 import { useState } from "react";
 import { useLocation } from "wouter";
 import { Card, CardHeader, CardTitle, CardDescription, CardContent } from "@/components/ui/card";
@@ -9,28 +9,79 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Package, Calendar, DollarSign, FileText } from "lucide-react";
 import type { PackageOrder } from "@shared/schema";
 import { format } from "date-fns";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
 
 interface PackageOrderWithDetails extends PackageOrder {
   package?: {
     name: string;
     category: string;
   };
+  allowedTransitions?: PackageOrder["status"][];
 }
 
+const TRANSITION_LABELS: Record<string, string> = {
+  in_progress: "Start Work",
+  delivered: "Mark Delivered",
+  revision: "Request Revision",
+  completed: "Accept Delivery",
+  cancelled: "Cancel Order",
+};
+
 export default function OrderDashboard() {
   const [, setLocation] = useLocation();
   const [statusFilter, setStatusFilter] = useState<string>("all");
+  const { toast } = useToast();
 
   const { data: orders = [], isLoading } = useQuery<PackageOrderWithDetails[]>({
     queryKey: ["/api/orders"],
   });
 
+  const invoiceMutation = useMutation({
+    mutationFn: async (orderId: string) => {
+      const res = await apiRequest("POST", "/api/invoices/generate", { orderId });
+      return res.json() as Promise<{ id: string }>;
+    },
+    onSuccess: (invoice) => {
+      window.open(`/api/invoices/${invoice.id}/pdf`, "_blank");
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const transitionMutation = useMutation({
+    mutationFn: (data: { orderId: string; status: string }) =>
+      apiRequest("PATCH", `/api/orders/${data.orderId}`, { status: data.status }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/orders"] });
+      toast({
+        title: "Order Updated",
+        description: "The other party has been notified.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
   const getStatusColor = (status: string) => {
     const colors: Record<string, "default" | "secondary" | "destructive"> = {
+      awaiting_payment: "secondary",
       pending: "secondary",
       in_progress: "default",
       delivered: "default",
       revision: "secondary",
+      on_hold: "destructive",
+      disputed: "destructive",
       completed: "default",
       cancelled: "destructive",
     };
@@ -39,10 +90,13 @@ export default function OrderDashboard() {
 
   const getStatusLabel = (status: string) => {
     const labels: Record<string, string> = {
+      awaiting_payment: "Awaiting Payment",
       pending: "Pending",
       in_progress: "In Progress",
       delivered: "Delivered",
       revision: "Revision",
+      on_hold: "On Hold",
+      disputed: "Disputed",
       completed: "Completed",
       cancelled: "Cancelled",
     };
@@ -168,7 +222,30 @@ export default function OrderDashboard() {
                         )}
                       </CardDescription>
                     </div>
-                    <div className="flex gap-2">
+                    <div className="flex flex-wrap gap-2">
+                      {order.allowedTransitions?.map((next) => (
+                        <Button
+                          key={next}
+                          variant={next === "cancelled" ? "destructive" : "default"}
+                          size="sm"
+                          disabled={transitionMutation.isPending}
+                          onClick={() => transitionMutation.mutate({ orderId: order.id, status: next })}
+                          data-testid={`button-transition-${next}`}
+                        >
+                          {TRANSITION_LABELS[next] || getStatusLabel(next)}
+                        </Button>
+                      ))}
+                      {["in_progress", "delivered", "revision", "completed"].includes(order.status) && (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          disabled={invoiceMutation.isPending}
+                          onClick={() => invoiceMutation.mutate(order.id)}
+                          data-testid="button-invoice"
+                        >
+                          Invoice
+                        </Button>
+                      )}
                       <Button 
                         variant="outline" 
                         size="sm"
@@ -20,7 +20,7 @@ import {
   Calendar,
   Users
 } from "lucide-react";
-import type { ServicePackage } from "@shared/schema";
+import type { ServicePackage, PackageExtra } from "@shared/schema";
 import { useState } from "react";
 
 interface Provider {
@@ -40,6 +40,7 @@ export default function PackageDetail() {
   const [, setLocation] = useLocation();
   const { toast } = useToast();
   const [bookingDialogOpen, setBookingDialogOpen] = useState(false);
+  const [selectedExtraIds, setSelectedExtraIds] = useState<string[]>([]);
 
   const { data: packageData, isLoading: isLoadingPackage } = useQuery<ServicePackage>({
     queryKey: [`/api/service-packages/${id}`],
@@ -57,15 +58,24 @@ export default function PackageDetail() {
   });
 
   const createOrderMutation = useMutation({
-    mutationFn: (data: { packageId: string; tier: "basic" | "standard" | "premium" }) =>
-      apiRequest("POST", "/api/orders", {
+    mutationFn: async (data: { packageId: string; tier: "basic" | "standard" | "premium" }) => {
+      const res = await apiRequest("POST", "/api/orders", {
         ...data,
-        selectedExtras: [],
+        selectedExtras: selectedExtraIds,
         requirements: "",
-      }),
-    onSuccess: () => {
+      });
+      return res.json();
+    },
+    onSuccess: (result: { payment?: { status: string; paymentUrl?: string } }) => {
       queryClient.invalidateQueries({ queryKey: ["/api/orders"] });
       setBookingDialogOpen(false);
+
+      // The booking is confirmed once the payment completes on the PSP checkout page
+      if (result.payment?.status !== "completed" && result.payment?.paymentUrl) {
+        window.location.href = result.payment.paymentUrl;
+        return;
+      }
+
       toast({
         title: "Booking Confirmed",
         description: "Your booking has been placed successfully! View it in your orders dashboard.",
@@ -105,6 +115,19 @@ export default function PackageDetail() {
     createOrderMutation.mutate({ packageId: packageData.id, tier });
   };
 
+  const toggleExtra = (extraId: string) => {
+    setSelectedExtraIds((current) =>
+      current.includes(extraId)
+        ? current.filter((id) => id !== extraId)
+        : [...current, extraId]
+    );
+  };
+
+  const packageExtras: PackageExtra[] = Array.isArray(packageData?.extras) ? packageData.extras : [];
+  const selectedExtras = packageExtras.filter((extra) => selectedExtraIds.includes(extra.id));
+  const extrasPriceMad = selectedExtras.reduce((total, extra) => total + extra.priceMad, 0);
+  const extraDeliveryDays = selectedExtras.reduce((total, extra) => total + (extra.deliveryDays || 0), 0);
+
   if (isLoadingPackage || isLoadingProvider) {
     return (
       <div className="min-h-screen bg-background">
@@ -400,32 +423,43 @@ export default function PackageDetail() {
             </Card>
 
             {/* Extras/Add-ons */}
-            {packageData.extras && Array.isArray(packageData.extras) && packageData.extras.length > 0 && (
+            {packageExtras.length > 0 && (
               <Card>
                 <CardHeader>
                   <CardTitle>Optional Add-ons</CardTitle>
                   <CardDescription>
-                    Enhance your experience with these extras
+                    Select extras to add them to your booking
                   </CardDescription>
                 </CardHeader>
                 <CardContent>
                   <div className="space-y-3">
-                    {(packageData.extras as any[]).map((extra: any, index: number) => (
+                    {packageExtras.map((extra, index) => (
                       <div
-                        key={index}
-                        className="flex items-center justify-between p-4 rounded-xl border hover-elevate"
+                        key={extra.id || index}
+                        className={`flex items-center justify-between p-4 rounded-xl border hover-elevate cursor-pointer ${
+                          selectedExtraIds.includes(extra.id) ? "border-primary" : ""
+                        }`}
+                        onClick={() => extra.id && toggleExtra(extra.id)}
                         data-testid={`extra-${index}`}
                       >
                         <div className="flex-1">
-                          <h4 className="font-medium">{extra.title}</h4>
+                          <h4 className="font-medium flex items-center gap-2">
+                            {selectedExtraIds.includes(extra.id) && <Check className="w-4 h-4 text-primary" />}
+                            {extra.title}
+                          </h4>
                           {extra.description && (
                             <p className="text-sm text-muted-foreground mt-1">
                               {extra.description}
                             </p>
                           )}
                         </div>
-                        <div className="ml-4">
+                        <div className="ml-4 flex flex-col items-end gap-1">
                           <Badge variant="secondary">+{extra.priceMad} MAD</Badge>
+                          {!!extra.deliveryDays && (
+                            <span className="text-xs text-muted-foreground">
+                              {extra.deliveryDays > 0 ? "+" : ""}{extra.deliveryDays} {Math.abs(extra.deliveryDays) === 1 ? "day" : "days"}
+                            </span>
+                          )}
                         </div>
                       </div>
                     ))}
@@ -500,6 +534,7 @@ export default function PackageDetail() {
                       <DialogTitle>Select Your Package Option</DialogTitle>
                       <DialogDescription>
                         Choose the tier that best matches your needs
+                        {selectedExtras.length > 0 && ` (includes ${selectedExtras.length} add-on${selectedExtras.length === 1 ? "" : "s"}, +${extrasPriceMad} MAD)`}
                       </DialogDescription>
                     </DialogHeader>
                     
@@ -518,10 +553,10 @@ export default function PackageDetail() {
                               )}
                             </div>
                             <div className="text-right">
-                              <div className="text-2xl font-bold">{tier.price} MAD</div>
+                              <div className="text-2xl font-bold">{tier.price + extrasPriceMad} MAD</div>
                               <div className="text-sm text-muted-foreground flex items-center gap-1 mt-1">
                                 <Clock className="w-3 h-3" />
-                                {tier.deliveryDays} {tier.deliveryDays === 1 ? 'day' : 'days'}
+                                {Math.max(0, tier.deliveryDays + extraDeliveryDays)} {Math.max(0, tier.deliveryDays + extraDeliveryDays) === 1 ? 'day' : 'days'}
                               </div>
                             </div>
                           </div>
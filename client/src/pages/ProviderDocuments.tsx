@@ -0,0 +1,231 @@
+import { useRef, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Card, CardHeader, CardTitle, CardDescription, CardContent } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { ObjectUploader } from "@/components/ObjectUploader";
+import { DocumentStatusBadge, DOCUMENT_TYPE_LABELS } from "@/components/DocumentStatusBadge";
+import { AlertTriangle, FileCheck, ShieldCheck, Upload } from "lucide-react";
+import {
+  EXPIRING_DOCUMENT_TYPES,
+  PROVIDER_DOCUMENT_TYPES,
+  type ProviderDocument,
+  type ProviderDocumentType,
+} from "@shared/schema";
+import { format } from "date-fns";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+
+interface ProviderKycStatus {
+  verified: boolean;
+  permits: Record<string, boolean>;
+  documents: ProviderDocument[];
+  pausedCategories: Record<string, ProviderDocumentType[]>;
+}
+
+const PERMIT_LABELS: Record<string, string> = {
+  identity: "Identity",
+  permit: "Permit",
+  insurance: "Insurance",
+};
+
+export default function ProviderDocuments() {
+  const { toast } = useToast();
+  const [type, setType] = useState<ProviderDocumentType>("drivers_license");
+  const [documentNumber, setDocumentNumber] = useState("");
+  const [expiresAt, setExpiresAt] = useState("");
+
+  // The uploader keeps its first completion callback, so it reads the form through a ref
+  const formRef = useRef({ type, documentNumber, expiresAt });
+  formRef.current = { type, documentNumber, expiresAt };
+
+  const { data: kyc, isLoading } = useQuery<ProviderKycStatus>({
+    queryKey: ["/api/provider-documents"],
+  });
+
+  const submitMutation = useMutation({
+    mutationFn: (documentUrl: string) => {
+      const form = formRef.current;
+      return apiRequest("POST", "/api/provider-documents", {
+        type: form.type,
+        documentUrl,
+        ...(form.documentNumber.trim() && { documentNumber: form.documentNumber.trim() }),
+        ...(form.expiresAt && { expiresAt: form.expiresAt }),
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/provider-documents"] });
+      setDocumentNumber("");
+      setExpiresAt("");
+      toast({ title: "Document submitted", description: "An administrator will review it shortly." });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const needsExpiry = EXPIRING_DOCUMENT_TYPES.includes(type);
+  const canUpload = !needsExpiry || !!expiresAt;
+
+  return (
+    <div className="min-h-screen bg-background">
+      <div className="max-w-5xl mx-auto px-4 py-8 space-y-6">
+        <div>
+          <h1 className="text-3xl font-bold" data-testid="text-page-title">Documents</h1>
+          <p className="text-muted-foreground">Your licensing documents, reviewed by our team before your account is verified</p>
+        </div>
+
+        {kyc && Object.entries(kyc.pausedCategories).map(([category, types]) => (
+          <Alert key={category} variant="destructive" data-testid={`alert-paused-${category}`}>
+            <AlertTriangle className="h-4 w-4" />
+            <AlertTitle>Offers for {category} jobs are paused</AlertTitle>
+            <AlertDescription>
+              Expired: {types.map((documentType) => DOCUMENT_TYPE_LABELS[documentType]).join(", ")}. Upload a renewed copy to bid again once it is verified.
+            </AlertDescription>
+          </Alert>
+        ))}
+
+        {isLoading ? (
+          <Skeleton className="h-32 w-full" />
+        ) : kyc && (
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <ShieldCheck className="w-5 h-5" />
+                Verification
+              </CardTitle>
+              <CardDescription>
+                {kyc.verified
+                  ? "Your account is verified."
+                  : "Your account is verified once your identity, a permit and your insurance are approved."}
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="flex flex-wrap gap-2">
+              {Object.entries(PERMIT_LABELS).map(([permit, label]) => (
+                <Badge key={permit} variant={kyc.permits[permit] ? "default" : "outline"} data-testid={`badge-permit-${permit}`}>
+                  {label}
+                </Badge>
+              ))}
+            </CardContent>
+          </Card>
+        )}
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Upload className="w-5 h-5" />
+              Upload a document
+            </CardTitle>
+            <CardDescription>A photo or PDF scan, up to 10 MB</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="grid md:grid-cols-3 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="document-type">Type</Label>
+                <Select value={type} onValueChange={(value) => setType(value as ProviderDocumentType)}>
+                  <SelectTrigger id="document-type" data-testid="select-document-type">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {PROVIDER_DOCUMENT_TYPES.map((documentType) => (
+                      <SelectItem key={documentType} value={documentType}>{DOCUMENT_TYPE_LABELS[documentType]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="document-number">Number (optional)</Label>
+                <Input
+                  id="document-number"
+                  value={documentNumber}
+                  onChange={(e) => setDocumentNumber(e.target.value)}
+                  data-testid="input-document-number"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="document-expires">Expires on{needsExpiry ? "" : " (optional)"}</Label>
+                <Input
+                  id="document-expires"
+                  type="date"
+                  value={expiresAt}
+                  onChange={(e) => setExpiresAt(e.target.value)}
+                  data-testid="input-document-expires"
+                />
+              </div>
+            </div>
+
+            {canUpload ? (
+              <ObjectUploader
+                maxNumberOfFiles={1}
+                onGetUploadParameters={async () => {
+                  const res = await apiRequest("POST", "/api/provider-documents/upload-url");
+                  const { uploadURL } = await res.json();
+                  return { method: "PUT", url: uploadURL };
+                }}
+                onComplete={(result) => {
+                  const uploadURL = result.successful?.[0]?.uploadURL;
+                  if (uploadURL) submitMutation.mutate(uploadURL.split("?")[0]);
+                }}
+              >
+                <Upload className="w-4 h-4 mr-2" />
+                Choose file
+              </ObjectUploader>
+            ) : (
+              <p className="text-sm text-muted-foreground">Enter the expiry date shown on the document first.</p>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <FileCheck className="w-5 h-5" />
+              Submitted documents
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Submitted</TableHead>
+                  <TableHead>Type</TableHead>
+                  <TableHead>Number</TableHead>
+                  <TableHead>Expires</TableHead>
+                  <TableHead>Status</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {kyc?.documents.map((document) => (
+                  <TableRow key={document.id} data-testid={`row-document-${document.id}`}>
+                    <TableCell>{format(new Date(document.createdAt), "yyyy-MM-dd")}</TableCell>
+                    <TableCell>{DOCUMENT_TYPE_LABELS[document.type]}</TableCell>
+                    <TableCell>{document.documentNumber || "-"}</TableCell>
+                    <TableCell>{document.expiresAt ? format(new Date(document.expiresAt), "yyyy-MM-dd") : "-"}</TableCell>
+                    <TableCell>
+                      <DocumentStatusBadge status={document.status} />
+                      {document.rejectionReason && (
+                        <p className="text-xs text-muted-foreground mt-1">{document.rejectionReason}</p>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+                {kyc?.documents.length === 0 && (
+                  <TableRow>
+                    <TableCell colSpan={5} className="text-center text-muted-foreground">
+                      No documents yet
+                    </TableCell>
+                  </TableRow>
+                )}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -16,7 +16,7 @@ import { useApp } from '@/contexts/AppContext';
 import { useLocation } from 'wouter';
 import { useToast } from '@/hooks/use-toast';
 import { apiRequest } from '@/lib/queryClient';
-import { Upload, CheckCircle2, ShieldCheck } from 'lucide-react';
+import { FileCheck, ShieldCheck } from 'lucide-react';
 
 const moroccanCities = [
   'Casablanca', 'Rabat', 'Marrakech', 'Fès', 'Tanger', 'Agadir',
@@ -37,19 +37,6 @@ export default function ProviderSignup() {
     password: '',
   });
 
-  const [kycFiles, setKycFiles] = useState({
-    identity: null as File | null,
-    permit: null as File | null,
-    insurance: null as File | null,
-  });
-
-  const handleFileUpload = (type: keyof typeof kycFiles, event: React.ChangeEvent<HTMLInputElement>) => {
-    const file = event.target.files?.[0];
-    if (file) {
-      setKycFiles({ ...kycFiles, [type]: file });
-    }
-  };
-
   const signupMutation = useMutation({
     mutationFn: async (data: any) => {
       // First create user
@@ -66,7 +53,6 @@ export default function ProviderSignup() {
         userId: userData.user.id,
         displayName: data.displayName,
         city: data.city,
-        permits: { identity: true, permit: true, insurance: true }, // TODO: Upload actual files
       });
 
       return userData;
@@ -74,9 +60,9 @@ export default function ProviderSignup() {
     onSuccess: () => {
       toast({
         title: 'Inscription réussie',
-        description: 'Votre compte sera vérifié sous 24-48h',
+        description: 'Téléversez vos documents pour faire vérifier votre compte',
       });
-      setLocation('/jobs');
+      setLocation('/documents');
     },
     onError: () => {
       toast({
@@ -199,7 +185,7 @@ export default function ProviderSignup() {
               </div>
             )}
 
-            {/* Step 2: KYC Upload */}
+            {/* Step 2: KYC */}
             {step === 2 && (
               <div className="space-y-6">
                 <div className="flex items-start gap-3 p-4 bg-accent/10 rounded-lg border border-accent/20">
@@ -212,94 +198,23 @@ export default function ProviderSignup() {
                   </div>
                 </div>
 
-                {/* Identity Document */}
+                {/* Documents are uploaded one by one on the documents page once the account exists */}
                 <div className="space-y-2">
-                  <Label>Pièce d'identité (CIN/Passeport)</Label>
-                  <div className="border-2 border-dashed rounded-lg p-6 text-center hover-elevate cursor-pointer transition-all">
-                    <input
-                      type="file"
-                      accept="image/*,application/pdf"
-                      onChange={(e) => handleFileUpload('identity', e)}
-                      className="hidden"
-                      id="identity-upload"
-                      data-testid="input-identity-upload"
-                    />
-                    <label htmlFor="identity-upload" className="cursor-pointer">
-                      {kycFiles.identity ? (
-                        <div className="flex items-center justify-center gap-2 text-accent">
-                          <CheckCircle2 className="w-5 h-5" />
-                          <span className="font-medium">{kycFiles.identity.name}</span>
-                        </div>
-                      ) : (
-                        <>
-                          <Upload className="w-8 h-8 mx-auto mb-2 text-muted-foreground" />
-                          <p className="text-sm text-muted-foreground">
-                            Cliquez pour télécharger
-                          </p>
-                        </>
-                      )}
-                    </label>
-                  </div>
-                </div>
-
-                {/* Transport Permit */}
-                <div className="space-y-2">
-                  <Label>Permis de transport / Licence professionnelle</Label>
-                  <div className="border-2 border-dashed rounded-lg p-6 text-center hover-elevate cursor-pointer transition-all">
-                    <input
-                      type="file"
-                      accept="image/*,application/pdf"
-                      onChange={(e) => handleFileUpload('permit', e)}
-                      className="hidden"
-                      id="permit-upload"
-                      data-testid="input-permit-upload"
-                    />
-                    <label htmlFor="permit-upload" className="cursor-pointer">
-                      {kycFiles.permit ? (
-                        <div className="flex items-center justify-center gap-2 text-accent">
-                          <CheckCircle2 className="w-5 h-5" />
-                          <span className="font-medium">{kycFiles.permit.name}</span>
-                        </div>
-                      ) : (
-                        <>
-                          <Upload className="w-8 h-8 mx-auto mb-2 text-muted-foreground" />
-                          <p className="text-sm text-muted-foreground">
-                            Cliquez pour télécharger
-                          </p>
-                        </>
-                      )}
-                    </label>
-                  </div>
-                </div>
-
-                {/* Insurance */}
-                <div className="space-y-2">
-                  <Label>Assurance professionnelle</Label>
-                  <div className="border-2 border-dashed rounded-lg p-6 text-center hover-elevate cursor-pointer transition-all">
-                    <input
-                      type="file"
-                      accept="image/*,application/pdf"
-                      onChange={(e) => handleFileUpload('insurance', e)}
-                      className="hidden"
-                      id="insurance-upload"
-                      data-testid="input-insurance-upload"
-                    />
-                    <label htmlFor="insurance-upload" className="cursor-pointer">
-                      {kycFiles.insurance ? (
-                        <div className="flex items-center justify-center gap-2 text-accent">
-                          <CheckCircle2 className="w-5 h-5" />
-                          <span className="font-medium">{kycFiles.insurance.name}</span>
-                        </div>
-                      ) : (
-                        <>
-                          <Upload className="w-8 h-8 mx-auto mb-2 text-muted-foreground" />
-                          <p className="text-sm text-muted-foreground">
-                            Cliquez pour télécharger
-                          </p>
-                        </>
-                      )}
-                    </label>
-                  </div>
+                  <Label>Documents à téléverser après l'inscription</Label>
+                  <ul className="space-y-2 text-sm text-muted-foreground">
+                    <li className="flex items-center gap-2">
+                      <FileCheck className="w-4 h-4" />
+                      Pièce d'identité : permis de conduire ou registre de commerce
+                    </li>
+                    <li className="flex items-center gap-2">
+                      <FileCheck className="w-4 h-4" />
+                      Permis de transport / Licence professionnelle
+                    </li>
+                    <li className="flex items-center gap-2">
+                      <FileCheck className="w-4 h-4" />
+                      Assurance professionnelle
+                    </li>
+                  </ul>
                 </div>
 
                 <div className="flex gap-3">
@@ -313,7 +228,7 @@ export default function ProviderSignup() {
                   <Button
                     className="flex-1"
                     onClick={handleSubmit}
-                    disabled={!kycFiles.identity || !kycFiles.permit || !kycFiles.insurance}
+                    disabled={signupMutation.isPending}
                     data-testid="button-submit-provider"
                   >
                     Soumettre pour vérification
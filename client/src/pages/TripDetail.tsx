@@ -0,0 +1,171 @@
+import { useEffect, useMemo, useState } from 'react';
+import { useParams, useLocation } from 'wouter';
+import { useQuery } from '@tanstack/react-query';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Slider } from '@/components/ui/slider';
+import MapView from '@/components/MapView';
+import { useTranslation } from '@/lib/i18n';
+import { useApp } from '@/contexts/AppContext';
+import { ChevronLeft, Download, Loader2, Pause, Play } from 'lucide-react';
+import type { Trip, TripRoute } from '@shared/schema';
+import { format } from 'date-fns';
+
+// Route points shown per second of replay
+const REPLAY_POINTS_PER_SECOND = 10;
+
+function formatMinutes(seconds: number) {
+  return `${Math.round(seconds / 60)} min`;
+}
+
+export default function TripDetail() {
+  const { id } = useParams();
+  const [, setLocation] = useLocation();
+  const { locale } = useApp();
+  const { t } = useTranslation(locale);
+  const [position, setPosition] = useState(0);
+  const [playing, setPlaying] = useState(false);
+
+  const { data: trip, isLoading } = useQuery<Trip>({
+    queryKey: ['/api/trips', id],
+    enabled: !!id,
+  });
+
+  const { data: route } = useQuery<TripRoute>({
+    queryKey: ['/api/trips', id, 'route'],
+    enabled: !!trip && trip.status !== 'scheduled',
+  });
+
+  const points = useMemo(
+    () => (route?.points || []).map((point) => ({ latitude: String(point.lat), longitude: String(point.lng) })),
+    [route]
+  );
+
+  // Start the replay at the end: the whole route is visible until the user scrubs back
+  useEffect(() => {
+    setPosition(Math.max(points.length - 1, 0));
+  }, [points.length]);
+
+  useEffect(() => {
+    if (!playing) return;
+    const timer = setInterval(() => {
+      setPosition((current) => Math.min(current + 1, points.length - 1));
+    }, 1000 / REPLAY_POINTS_PER_SECOND);
+    return () => clearInterval(timer);
+  }, [playing, points.length]);
+
+  useEffect(() => {
+    if (playing && position >= points.length - 1) setPlaying(false);
+  }, [playing, position, points.length]);
+
+  const replayed = useMemo(() => points.slice(0, position + 1), [points, position]);
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center min-h-screen">
+        <Loader2 className="w-8 h-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (!trip) {
+    return null;
+  }
+
+  const currentPoint = route?.points[position];
+
+  const togglePlay = () => {
+    if (!playing && position >= points.length - 1) setPosition(0);
+    setPlaying(!playing);
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      <div className="max-w-5xl mx-auto px-4 py-8 space-y-6">
+        <Button
+          variant="ghost"
+          onClick={() => setLocation(`/jobs/${trip.jobId}`)}
+          data-testid="button-back-to-job"
+        >
+          <ChevronLeft className="w-4 h-4 mr-2" />
+          {t('nav.jobs')}
+        </Button>
+
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between gap-2">
+            <CardTitle data-testid="text-trip-title">{t('trip.title')}</CardTitle>
+            <Badge variant="outline">{t(`trip.status.${trip.status}` as any)}</Badge>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {route && (
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm" data-testid="text-trip-stats">
+                <div>
+                  <p className="text-muted-foreground">{t('trip.distance')}</p>
+                  <p className="font-medium">{(route.distanceMeters / 1000).toFixed(1)} km</p>
+                </div>
+                <div>
+                  <p className="text-muted-foreground">{t('trip.duration')}</p>
+                  <p className="font-medium">{trip.duration !== null ? `${trip.duration} min` : '-'}</p>
+                </div>
+                <div>
+                  <p className="text-muted-foreground">{t('trip.moving')}</p>
+                  <p className="font-medium">{formatMinutes(route.movingSeconds)}</p>
+                </div>
+                <div>
+                  <p className="text-muted-foreground">{t('trip.idle')}</p>
+                  <p className="font-medium">{formatMinutes(route.idleSeconds)}</p>
+                </div>
+              </div>
+            )}
+
+            {points.length > 0 ? (
+              <>
+                <div className="h-96 rounded-md overflow-hidden">
+                  <MapView providers={[]} jobs={[]} liveTrack={replayed} trackOutline={points} />
+                </div>
+
+                <div className="flex items-center gap-4">
+                  <Button size="icon" variant="outline" onClick={togglePlay} data-testid="button-replay-toggle">
+                    {playing ? <Pause className="w-4 h-4" /> : <Play className="w-4 h-4" />}
+                  </Button>
+                  <Slider
+                    value={[position]}
+                    min={0}
+                    max={Math.max(points.length - 1, 0)}
+                    step={1}
+                    onValueChange={([value]) => {
+                      setPlaying(false);
+                      setPosition(value);
+                    }}
+                    data-testid="slider-replay"
+                  />
+                  <span className="text-sm text-muted-foreground whitespace-nowrap w-16 text-right">
+                    {currentPoint ? format(new Date(currentPoint.timestamp), 'HH:mm:ss') : ''}
+                  </span>
+                </div>
+
+                <div className="flex gap-2">
+                  <Button variant="outline" size="sm" asChild>
+                    <a href={`/api/trips/${trip.id}/export?format=gpx`} download data-testid="link-export-gpx">
+                      <Download className="w-4 h-4 mr-2" />
+                      GPX
+                    </a>
+                  </Button>
+                  <Button variant="outline" size="sm" asChild>
+                    <a href={`/api/trips/${trip.id}/export?format=geojson`} download data-testid="link-export-geojson">
+                      <Download className="w-4 h-4 mr-2" />
+                      GeoJSON
+                    </a>
+                  </Button>
+                </div>
+              </>
+            ) : (
+              <p className="text-sm text-muted-foreground">{t('trip.noRoute')}</p>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
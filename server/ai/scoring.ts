@@ -6,7 +6,7 @@ export interface OfferScoringInput {
   price: number; // Offered price in MAD
   fair: { low: number; high: number }; // Fair price range
   rating: number; // Provider rating (0-5, normalized to 0-1)
-  reliability: number; // Provider reliability score (0-1)
+  reliability: number; // Provider reliability score (0-1), see calculateReliability
   compliance: number; // KYC/permit compliance (0-1)
   distance: number; // Distance from job location (normalized 0-1)
 }
@@ -59,6 +59,24 @@ export function calculateCompliance(permits: Record<string, boolean>, verified:
   return hasPermits / requiredPermits.length;
 }
 
+/**
+ * Calculate reliability from the provider's tracked arrivals against their promised ETAs
+ * Each arrival counts as on time (within the tolerance), half (up to three times it) or late.
+ * Providers without tracked arrivals start from a neutral prior that their record replaces.
+ */
+export function calculateReliability(latenessMin: number[], toleranceMin: number = 5): number {
+  const PRIOR = 0.8;
+  const PRIOR_WEIGHT = 3; // Worth three arrivals
+
+  const onTime = latenessMin.reduce((sum, lateness) => {
+    if (lateness <= toleranceMin) return sum + 1;
+    if (lateness <= toleranceMin * 3) return sum + 0.5;
+    return sum;
+  }, 0);
+
+  return Number(((onTime + PRIOR * PRIOR_WEIGHT) / (latenessMin.length + PRIOR_WEIGHT)).toFixed(3));
+}
+
 /**
  * Calculate fit score based on job requirements and offer details
  */
@@ -40,16 +40,30 @@ export const AUDIT_ACTIONS = {
   JOB_CREATE: 'job.create',
   JOB_CANCEL: 'job.cancel',
   JOB_ACCEPT: 'job.accept',
+  JOB_DELIVER: 'job.deliver',
+  JOB_COMPLETE: 'job.complete',
+
+  // Trips
+  TRIP_START: 'trip.start',
+  TRIP_ARRIVE: 'trip.arrive',
+  TRIP_COMPLETE: 'trip.complete',
   
   // Offers
   OFFER_SUBMIT: 'offer.submit',
   OFFER_ACCEPT: 'offer.accept',
   OFFER_DECLINE: 'offer.decline',
+  OFFER_COUNTER: 'offer.counter',
+  OFFER_COUNTER_RESPOND: 'offer.counter_respond',
+  OFFER_EXPIRE: 'offer.expire',
   
   // Provider
   PROVIDER_CREATE: 'provider.create',
   PROVIDER_VERIFY: 'provider.verify',
   PROVIDER_UPDATE_KYC: 'provider.update_kyc',
+  PROVIDER_DOCUMENT_SUBMIT: 'provider_document.submit',
+  PROVIDER_DOCUMENT_APPROVE: 'provider_document.approve',
+  PROVIDER_DOCUMENT_REJECT: 'provider_document.reject',
+  PROVIDER_DOCUMENT_EXPIRE: 'provider_document.expire',
   
   // Service Packages (Marketplace)
   PACKAGE_CREATE: 'package.create',
@@ -59,6 +73,13 @@ export const AUDIT_ACTIONS = {
   // Package Orders (Marketplace)
   ORDER_CREATE: 'order.create',
   ORDER_UPDATE: 'order.update',
+  ORDER_STATUS_CHANGE: 'order.status_change',
+  
+  // Disputes
+  DISPUTE_OPEN: 'dispute.open',
+  DISPUTE_MESSAGE: 'dispute.message',
+  DISPUTE_ASSIGN: 'dispute.assign',
+  DISPUTE_RESOLVE: 'dispute.resolve',
   
   // RFP (Request for Proposals)
   RFP_CREATE: 'rfp.create',
@@ -76,13 +97,45 @@ export const AUDIT_ACTIONS = {
   PAYMENT_COMPLETE: 'payment.complete',
   PAYMENT_FAIL: 'payment.fail',
   PAYMENT_REFUND: 'payment.refund',
+  CHECKOUT_START: 'checkout.start',
+  CHECKOUT_ROLLBACK: 'checkout.rollback',
   ESCROW_HOLD: 'escrow.hold',
   ESCROW_RELEASE: 'escrow.release',
+  ESCROW_FREEZE: 'escrow.freeze',
   INVOICE_GENERATE: 'invoice.generate',
-  
+  CREDIT_NOTE_ISSUE: 'credit_note.issue',
+  BILLING_PROFILE_UPDATE: 'billing_profile.update',
+  PAYOUT_SETTINGS_UPDATE: 'payout.settings_update',
+  PAYOUT_REQUEST: 'payout.request',
+  PAYOUT_BATCH_CREATE: 'payout_batch.create',
+  PAYOUT_BATCH_EXPORT: 'payout_batch.export',
+  PAYOUT_BATCH_PAID: 'payout_batch.paid',
+  PAYOUT_FAIL: 'payout.fail',
+  COMMISSION_CALCULATE: 'commission_calculated',
+  COMMISSION_RULE_CREATE: 'commission_rule.create',
+  COMMISSION_RULE_UPDATE: 'commission_rule.update',
+  FINANCING_PREQUAL: 'financing.prequal',
+  FINANCING_OFFER_ACCEPT: 'financing.offer_accept',
+  
+  // Subscriptions
+  SUBSCRIPTION_UPGRADE: 'subscription_upgraded',
+  SUBSCRIPTION_DOWNGRADE: 'subscription_downgraded',
+  SUBSCRIPTION_RENEWAL_START: 'subscription_renewal_started',
+  SUBSCRIPTION_RENEW: 'subscription_renewed',
+  SUBSCRIPTION_RENEWAL_FAIL: 'subscription_renewal_failed',
+  SUBSCRIPTION_LAPSE: 'subscription_lapsed',
+  SUBSCRIPTION_COUNTER_RESET: 'subscription_counter_reset',
+  SUBSCRIPTION_AUTO_RENEW_UPDATE: 'subscription_auto_renew_updated',
+  SUBSCRIPTION_PAYMENT_REFUND: 'subscription_payment_refunded',
+
   // Payment Schedules
   SCHEDULE_CREATE: 'schedule.create',
   SCHEDULE_PAYMENT_PROCESS: 'schedule.payment_process',
+  SCHEDULE_PAYMENT_FAIL: 'schedule.payment_fail',
+  SCHEDULE_ORDER_HOLD: 'schedule.order_hold',
+  SCHEDULE_ORDER_RESUME: 'schedule.order_resume',
+  SCHEDULE_COMPLETE: 'schedule.complete',
+  SCHEDULE_CANCEL: 'schedule.cancel',
   
   // Approvals
   APPROVAL_REQUEST: 'approval.request',
@@ -97,6 +150,7 @@ export const AUDIT_ACTIONS = {
   USER_BAN: 'moderation.user_ban',
   USER_REINSTATE: 'moderation.user_reinstate',
   REVIEW_MODERATE: 'moderation.review',
+  CONTACT_LEAK_REVIEW: 'moderation.contact_leak_review',
   
   // Admin
   ROLE_CHANGE: 'user.role_change',
@@ -3,6 +3,8 @@ import session from "express-session";
 import connectPgSimple from "connect-pg-simple";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
+import { startScheduledJobs } from "./scheduler";
+import { setupRealtime } from "./realtime";
 import { pool } from "./db";
 
 const app = express();
@@ -39,8 +41,8 @@ app.use(express.json({
 }));
 app.use(express.urlencoded({ extended: false }));
 
-// Session middleware
-app.use(session({
+// Session middleware (shared with the realtime channel to authenticate sockets)
+const sessionMiddleware = session({
   store: new PgStore({
     pool,
     tableName: 'session',
@@ -55,7 +57,8 @@ app.use(session({
     secure: process.env.NODE_ENV === 'production',
     sameSite: 'lax',
   },
-}));
+});
+app.use(sessionMiddleware);
 
 app.use((req, res, next) => {
   const start = Date.now();
@@ -89,6 +92,7 @@ app.use((req, res, next) => {
 
 (async () => {
   const server = await registerRoutes(app);
+  setupRealtime(server, sessionMiddleware);
 
   app.use((err: any, _req: Request, res: Response, _next: NextFunction) => {
     const status = err.status || err.statusCode || 500;
@@ -118,5 +122,6 @@ app.use((req, res, next) => {
     reusePort: true,
   }, () => {
     log(`serving on port ${port}`);
+    startScheduledJobs();
   });
 })();
@@ -1,10 +1,20 @@
 // Referenced from blueprint:javascript_object_storage
 import { File } from "@google-cloud/storage";
+import { storage } from "./storage";
 
 const ACL_POLICY_METADATA_KEY = "custom:aclPolicy";
 
 // The type of the access group.
-export enum ObjectAccessGroupType {}
+export enum ObjectAccessGroupType {
+  // A single user, identified by user id.
+  USER = "user",
+  // Every user with the given role (e.g. "admin").
+  ROLE = "role",
+  // The participants of a job's conversation, identified by job id.
+  JOB_CONVERSATION = "job_conversation",
+  // The parties and mediator of a dispute, identified by dispute id.
+  DISPUTE = "dispute",
+}
 
 // The logic user group that can access the object.
 export interface ObjectAccessGroup {
@@ -54,10 +64,62 @@ abstract class BaseObjectAccessGroup implements ObjectAccessGroup {
   public abstract hasMember(userId: string): Promise<boolean>;
 }
 
+class UserAccessGroup extends BaseObjectAccessGroup {
+  constructor(id: string) {
+    super(ObjectAccessGroupType.USER, id);
+  }
+
+  public async hasMember(userId: string): Promise<boolean> {
+    return userId === this.id;
+  }
+}
+
+class RoleAccessGroup extends BaseObjectAccessGroup {
+  constructor(id: string) {
+    super(ObjectAccessGroupType.ROLE, id);
+  }
+
+  public async hasMember(userId: string): Promise<boolean> {
+    const user = await storage.getUser(userId);
+    return user?.role === this.id;
+  }
+}
+
+class JobConversationAccessGroup extends BaseObjectAccessGroup {
+  constructor(id: string) {
+    super(ObjectAccessGroupType.JOB_CONVERSATION, id);
+  }
+
+  // Evaluated on each access, so providers who bid later can open earlier attachments
+  public async hasMember(userId: string): Promise<boolean> {
+    const { isJobParticipant } = await import("./services/messaging");
+    return isJobParticipant(this.id, userId);
+  }
+}
+
+class DisputeAccessGroup extends BaseObjectAccessGroup {
+  constructor(id: string) {
+    super(ObjectAccessGroupType.DISPUTE, id);
+  }
+
+  public async hasMember(userId: string): Promise<boolean> {
+    const { isDisputeParticipant } = await import("./services/disputes");
+    return isDisputeParticipant(this.id, userId);
+  }
+}
+
 function createObjectAccessGroup(
   group: ObjectAccessGroup,
 ): BaseObjectAccessGroup {
   switch (group.type) {
+    case ObjectAccessGroupType.USER:
+      return new UserAccessGroup(group.id);
+    case ObjectAccessGroupType.ROLE:
+      return new RoleAccessGroup(group.id);
+    case ObjectAccessGroupType.JOB_CONVERSATION:
+      return new JobConversationAccessGroup(group.id);
+    case ObjectAccessGroupType.DISPUTE:
+      return new DisputeAccessGroup(group.id);
     default:
       throw new Error(`Unknown access group type: ${group.type}`);
   }
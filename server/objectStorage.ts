@@ -182,6 +182,32 @@ export class ObjectStorageService {
     return objectFile;
   }
 
+  // Saves server-generated content as an object entity with the given ACL policy
+  // and returns its normalized "/objects/..." path.
+  async uploadObjectEntity({
+    entityId,
+    data,
+    contentType,
+    aclPolicy,
+  }: {
+    entityId: string;
+    data: Buffer;
+    contentType: string;
+    aclPolicy: ObjectAclPolicy;
+  }): Promise<string> {
+    let entityDir = this.getPrivateObjectDir();
+    if (!entityDir.endsWith("/")) {
+      entityDir = `${entityDir}/`;
+    }
+
+    const { bucketName, objectName } = parseObjectPath(`${entityDir}${entityId}`);
+    const objectFile = objectStorageClient.bucket(bucketName).file(objectName);
+    await objectFile.save(data, { contentType, resumable: false });
+    await setObjectAclPolicy(objectFile, aclPolicy);
+
+    return `/objects/${entityId}`;
+  }
+
   normalizeObjectEntityPath(rawPath: string): string {
     if (!rawPath.startsWith("https://storage.googleapis.com/")) {
       return rawPath;
@@ -0,0 +1,175 @@
+// Realtime channel: WebSocket push to job conversation participants on /ws
+import type { IncomingMessage, Server } from "http";
+import type { Duplex } from "stream";
+import type { RequestHandler, Request, Response } from "express";
+import { WebSocketServer, WebSocket } from "ws";
+import { z } from "zod";
+import type { RealtimeServerEvent } from "../shared/schema";
+
+const REALTIME_PATH = "/ws";
+const HEARTBEAT_INTERVAL_MS = 30 * 1000;
+const APP_ORIGIN = new URL(process.env.APP_BASE_URL || "http://localhost:5000").origin;
+
+const clientEventSchema = z.discriminatedUnion("type", [
+  z.object({ type: z.literal("typing"), jobId: z.string().uuid(), isTyping: z.boolean() }),
+  z.object({ type: z.literal("read"), jobId: z.string().uuid(), messageId: z.string().uuid() }),
+]);
+
+interface RealtimeSocket extends WebSocket {
+  userId: string;
+  isAlive: boolean;
+}
+
+// Open sockets per user; a user can have several tabs or devices connected
+const connections = new Map<string, Set<RealtimeSocket>>();
+
+function send(socket: WebSocket, event: RealtimeServerEvent) {
+  if (socket.readyState === WebSocket.OPEN) {
+    socket.send(JSON.stringify(event));
+  }
+}
+
+export function publishToUsers(userIds: string[], event: RealtimeServerEvent, options: { excludeUserId?: string } = {}) {
+  for (const userId of userIds) {
+    if (userId === options.excludeUserId) continue;
+    connections.get(userId)?.forEach((socket) => send(socket, event));
+  }
+}
+
+// Typing indicators (relayed to the job's other participants) and read receipts (stored, then relayed)
+async function handleClientEvent(socket: RealtimeSocket, raw: string) {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch {
+    return send(socket, { type: "error", error: "Invalid JSON" });
+  }
+
+  const result = clientEventSchema.safeParse(parsed);
+  if (!result.success) {
+    return send(socket, { type: "error", error: "Unknown event" });
+  }
+
+  const event = result.data;
+  const { getJobParticipantIds, markConversationRead, MessagingError } = await import("./services/messaging");
+
+  if (event.type === "read") {
+    try {
+      await markConversationRead(event.jobId, socket.userId, event.messageId);
+    } catch (error) {
+      if (error instanceof MessagingError) {
+        return send(socket, { type: "error", error: error.message });
+      }
+      throw error;
+    }
+    return;
+  }
+
+  const participantIds = await getJobParticipantIds(event.jobId);
+  if (!participantIds.includes(socket.userId)) {
+    return send(socket, { type: "error", error: "Not a participant of this conversation" });
+  }
+
+  publishToUsers(
+    participantIds,
+    { type: "typing", jobId: event.jobId, userId: socket.userId, isTyping: event.isTyping },
+    { excludeUserId: socket.userId }
+  );
+}
+
+function register(socket: RealtimeSocket) {
+  const sockets = connections.get(socket.userId) || new Set<RealtimeSocket>();
+  sockets.add(socket);
+  connections.set(socket.userId, sockets);
+
+  socket.on("pong", () => {
+    socket.isAlive = true;
+  });
+
+  socket.on("message", (data) => {
+    handleClientEvent(socket, data.toString()).catch((error) => {
+      console.error(`Realtime event from user ${socket.userId} failed:`, error);
+    });
+  });
+
+  socket.on("close", () => {
+    sockets.delete(socket);
+    if (sockets.size === 0) {
+      connections.delete(socket.userId);
+    }
+  });
+
+  // A broken socket (invalid frame, reset connection) would otherwise crash the process
+  socket.on("error", (error) => {
+    console.error(`Realtime socket of user ${socket.userId} failed:`, error);
+    socket.terminate();
+  });
+
+  send(socket, { type: "ready", userId: socket.userId });
+}
+
+// The session cookie goes along with cross-site upgrades too: only pages of this app may connect
+function isAllowedOrigin(req: IncomingMessage): boolean {
+  const origin = req.headers.origin;
+  if (!origin) {
+    return false;
+  }
+
+  try {
+    const url = new URL(origin);
+    return url.origin === APP_ORIGIN || url.host === req.headers.host;
+  } catch {
+    return false;
+  }
+}
+
+function reject(socket: Duplex, status: number, reason: string) {
+  socket.write(`HTTP/1.1 ${status} ${reason}\r\nConnection: close\r\n\r\n`);
+  socket.destroy();
+}
+
+// Attach the channel to the HTTP server; connections are authenticated with the express session cookie
+export function setupRealtime(server: Server, sessionMiddleware: RequestHandler) {
+  const wss = new WebSocketServer({ noServer: true });
+
+  server.on("upgrade", (req: IncomingMessage, socket: Duplex, head: Buffer) => {
+    // Other upgrades (the Vite HMR socket in development) are left to their own handlers
+    const { pathname } = new URL(req.url || "/", "http://localhost");
+    if (pathname !== REALTIME_PATH) {
+      return;
+    }
+    if (!isAllowedOrigin(req)) {
+      return reject(socket, 403, "Forbidden");
+    }
+
+    sessionMiddleware(req as Request, {} as Response, () => {
+      const userId = (req as Request).session?.userId;
+      if (!userId) {
+        return reject(socket, 401, "Unauthorized");
+      }
+
+      wss.handleUpgrade(req, socket, head, (ws) => {
+        const realtimeSocket = ws as RealtimeSocket;
+        realtimeSocket.userId = userId;
+        realtimeSocket.isAlive = true;
+        register(realtimeSocket);
+      });
+    });
+  });
+
+  // Drop connections that stopped answering pings (closed laptops, lost mobile networks)
+  const heartbeat = setInterval(() => {
+    wss.clients.forEach((ws) => {
+      const socket = ws as RealtimeSocket;
+      if (!socket.isAlive) {
+        socket.terminate();
+        return;
+      }
+      socket.isAlive = false;
+      socket.ping();
+    });
+  }, HEARTBEAT_INTERVAL_MS);
+
+  heartbeat.unref();
+  wss.on("close", () => clearInterval(heartbeat));
+}
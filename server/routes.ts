@@ -6,13 +6,57 @@ import { storage } from "./storage";
 import { db } from "./db";
 import { providers } from "@shared/schema";
 import { generateDynamicPriceBand, scoreOffer as scoreOfferWithAI } from "./services/ai-pricing";
-import { canProviderSubmitOffer, consumeFreeOffer, incrementPaidOfferCounter, processOfferAcceptance, getOrCreateSubscription } from "./services/commission";
+import { canProviderSubmitOffer, consumeFreeOffer, incrementPaidOfferCounter, getOrCreateSubscription } from "./services/commission";
 import { logAudit, AUDIT_ACTIONS } from "./audit";
 import { dispatchNotification } from "./services/notifications";
 import { syncCardTransactions, reconcileExpenses, autoReconcileExpense } from "./services/expense-reconciliation";
+import { getEscrowBalance, getHeldOrderEscrowEntries, EscrowFrozenError } from "./services/escrow";
+import { generateInvoice, ensureInvoicePdf, getInvoice } from "./services/invoice";
+import { issueCreditNote, getCreditNotesByInvoice, getCreditNote, ensureCreditNotePdf, CreditNoteError } from "./services/credit-notes";
+import { ObjectStorageService, ObjectNotFoundError } from "./objectStorage";
+import { ObjectPermission } from "./objectAcl";
+import { ensurePackageExtraIds, normalizePackageExtras, priceSelectedExtras, PackageExtraError } from "./services/package-extras";
+import { getOrderParties, getOrderActor, getAllowedTransitions, transitionOrder, OrderTransitionError } from "./services/orders";
+import { registerPspSimulator } from "./services/psp/simulator";
+import { startOfferCheckout, startOrderCheckout, CheckoutError } from "./services/checkout";
+import {
+  buildInstallments,
+  chargeInstallment,
+  createPaymentSchedule,
+  PaymentScheduleError,
+} from "./services/installments";
+import {
+  getPayoutSettings,
+  savePayoutSettings,
+  requestPayout,
+  getPayoutBalance,
+  getProviderPayouts,
+  getPayoutBatches,
+  getPayoutBatch,
+  createPayoutBatch,
+  exportPayoutBatch,
+  markPayoutBatchPaid,
+  failPayout,
+  PayoutError,
+} from "./services/payouts";
+import {
+  getConversationMessages,
+  getConversationReads,
+  markConversationRead,
+  createAttachmentUploadUrl,
+  sendMessage,
+  listConversations,
+  MessagingError,
+} from "./services/messaging";
+import {
+  listCommissionRules,
+  createCommissionRule,
+  updateCommissionRule,
+  CommissionRuleError,
+} from "./services/commission-rules";
 import { 
   insertUserSchema, insertProviderSchema, insertJobSchema, insertOfferSchema, 
-  insertMessageSchema, insertRatingSchema, insertVenueSchema, insertVenueRoomSchema,
+  insertRatingSchema, insertVenueSchema, insertVenueRoomSchema,
   insertRfpSchema, insertQuoteSchema, insertCompanySchema, insertCostCenterSchema,
   insertTravelerProfileSchema, insertGroupBookingSchema, insertApprovalSchema,
   insertPartnerTierSchema, insertCorporateRateSchema, insertMilestonePaymentSchema,
@@ -23,7 +67,13 @@ import {
   insertBleisurePackageSchema, insertCoworkingSpaceSchema, insertBleisureBookingSchema,
   insertSavingsAttributionSchema, insertCohortAnalysisSchema, insertHrisSyncConfigSchema,
   insertSsoConnectionSchema, insertEmployeeSyncLogSchema,
-  insertServicePackageSchema, insertFavoriteSchema, insertPackageOrderSchema
+  insertServicePackageSchema, insertFavoriteSchema, insertPackageOrderSchema,
+  insertBillingProfileSchema, insertProviderPayoutSettingsSchema, paymentPlanSchema,
+  commissionRuleSchema, financingPrequalSchema, sendMessageSchema, contactLeakReviewSchema,
+  counterOfferSchema, counterOfferResponseSchema, jobDisputeSchema,
+  openDisputeSchema, disputeMessageSchema, resolveDisputeSchema,
+  tripPointBatchSchema, tripLocationSchema,
+  submitProviderDocumentSchema, approveProviderDocumentSchema, rejectProviderDocumentSchema
 } from "@shared/schema";
 import { z } from "zod";
 
@@ -172,7 +222,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   // ===== PROVIDER ROUTES =====
   app.post("/api/providers", requireAuth, requireRole('provider'), asyncHandler(async (req, res) => {
-    const { displayName, city, permits } = req.body;
+    const { displayName, city } = req.body;
     const userId = req.session.userId!;
     
     // Check if provider profile already exists
@@ -185,7 +235,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
       userId,
       displayName,
       city,
-      permits,
+      // Derived from verified documents (see provider-kyc)
+      permits: {},
       verified: false,
     });
 
@@ -234,6 +285,94 @@ export async function registerRoutes(app: Express): Promise<Server> {
     });
   }));
 
+  // ===== PROVIDER DOCUMENT (KYC) ROUTES =====
+  // The provider's documents and the verification they grant
+  app.get("/api/provider-documents", requireAuth, requireRole('provider'), asyncHandler(async (req, res) => {
+    const { getProviderKycStatus, KycError } = await import("./services/provider-kyc");
+
+    try {
+      const status = await getProviderKycStatus(req.session.userId!);
+      res.json(status);
+    } catch (error) {
+      if (error instanceof KycError) {
+        return res.status(error.statusCode).json({ error: error.message });
+      }
+      throw error;
+    }
+  }));
+
+  // Signed upload URL for a document scan; the document is submitted by sending its URL
+  app.post("/api/provider-documents/upload-url", requireAuth, requireRole('provider'), asyncHandler(async (req, res) => {
+    const { createDocumentUploadUrl } = await import("./services/provider-kyc");
+    const uploadURL = await createDocumentUploadUrl();
+    res.json({ uploadURL });
+  }));
+
+  app.post("/api/provider-documents", requireAuth, requireRole('provider'), asyncHandler(async (req, res) => {
+    const data = submitProviderDocumentSchema.parse(req.body);
+    const { submitProviderDocument, KycError } = await import("./services/provider-kyc");
+
+    try {
+      const document = await submitProviderDocument(req.session.userId!, data);
+      res.status(201).json(document);
+    } catch (error) {
+      if (error instanceof KycError) {
+        return res.status(error.statusCode).json({ error: error.message });
+      }
+      throw error;
+    }
+  }));
+
+  // Admin: review queue (?status=&providerId=)
+  app.get("/api/provider-documents/queue", requireAuth, requireRole('admin'), asyncHandler(async (req, res) => {
+    const filters = z.object({
+      status: z.enum(["pending", "verified", "rejected", "expired"]).optional(),
+      providerId: z.string().uuid().optional(),
+    }).parse(req.query);
+
+    const { listDocumentsForReview } = await import("./services/provider-kyc");
+    const documents = await listDocumentsForReview(filters);
+    res.json(documents);
+  }));
+
+  // Admin: approve, optionally correcting the expiry date; the provider's verification is derived again
+  app.post("/api/provider-documents/:id/approve", requireAuth, requireRole('admin'), asyncHandler(async (req, res) => {
+    const { expiresAt } = approveProviderDocumentSchema.parse(req.body);
+    const { approveProviderDocument, KycError } = await import("./services/provider-kyc");
+
+    try {
+      const document = await approveProviderDocument(req.params.id, req.session.userId!, { expiresAt });
+      res.json(document);
+    } catch (error) {
+      if (error instanceof KycError) {
+        return res.status(error.statusCode).json({ error: error.message });
+      }
+      throw error;
+    }
+  }));
+
+  // Admin: reject with a reason sent to the provider
+  app.post("/api/provider-documents/:id/reject", requireAuth, requireRole('admin'), asyncHandler(async (req, res) => {
+    const { reason } = rejectProviderDocumentSchema.parse(req.body);
+    const { rejectProviderDocument, KycError } = await import("./services/provider-kyc");
+
+    try {
+      const document = await rejectProviderDocument(req.params.id, req.session.userId!, reason);
+      res.json(document);
+    } catch (error) {
+      if (error instanceof KycError) {
+        return res.status(error.statusCode).json({ error: error.message });
+      }
+      throw error;
+    }
+  }));
+
+  app.get("/api/provider-documents/:id/audit", requireAuth, requireRole('admin'), asyncHandler(async (req, res) => {
+    const { getDocumentAuditTrail } = await import("./services/provider-kyc");
+    const trail = await getDocumentAuditTrail(req.params.id);
+    res.json(trail);
+  }));
+
   // ===== JOB ROUTES =====
   app.get("/api/jobs", asyncHandler(async (req, res) => {
     const buyerId = req.query.buyerId as string;
@@ -314,30 +453,69 @@ export async function registerRoutes(app: Express): Promise<Server> {
   }));
 
   app.post("/api/jobs/:id/cancel", requireAuth, asyncHandler(async (req, res) => {
-    const jobId = req.params.id;
-    const userId = req.session.userId!;
-
-    // Verify user owns this job
-    const job = await storage.getJob(jobId);
-    if (!job) {
-      return res.status(404).json({ error: "Job not found" });
-    }
-    if (job.buyerId !== userId) {
-      return res.status(403).json({ error: "Not authorized to cancel this job" });
+    const { cancelJob, JobCompletionError } = await import("./services/job-completion");
+
+    try {
+      const job = await cancelJob(req.params.id, req.session.userId!);
+      res.json(job);
+    } catch (error) {
+      if (error instanceof JobCompletionError) {
+        return res.status(error.statusCode).json({ error: error.message });
+      }
+      throw error;
     }
+  }));
 
-    const updatedJob = await storage.updateJob(jobId, { status: 'cancelled' });
+  // Provider: the job is done; the buyer then confirms or disputes within the confirmation window
+  app.post("/api/jobs/:id/deliver", requireAuth, requireRole('provider'), asyncHandler(async (req, res) => {
+    const { markJobDelivered, JobCompletionError } = await import("./services/job-completion");
 
-    // Audit log
-    await logAudit({
-      userId,
-      action: AUDIT_ACTIONS.JOB_CANCEL,
-      resourceType: 'job',
-      resourceId: jobId,
-      req,
-    });
+    try {
+      const job = await markJobDelivered(req.params.id, req.session.userId!);
+      res.json(job);
+    } catch (error) {
+      if (error instanceof JobCompletionError) {
+        return res.status(error.statusCode).json({ error: error.message });
+      }
+      throw error;
+    }
+  }));
+
+  // Buyer: confirm completion; completes the trip, releases escrow and opens ratings
+  app.post("/api/jobs/:id/confirm", requireAuth, requireRole('buyer'), asyncHandler(async (req, res) => {
+    const { confirmJobCompletion, JobCompletionError } = await import("./services/job-completion");
 
-    res.json(updatedJob);
+    try {
+      const job = await confirmJobCompletion(req.params.id, req.session.userId!);
+      res.json(job);
+    } catch (error) {
+      if (error instanceof JobCompletionError) {
+        return res.status(error.statusCode).json({ error: error.message });
+      }
+      throw error;
+    }
+  }));
+
+  // Buyer: report a problem instead of confirming; opens a dispute on the job (see /api/disputes)
+  app.post("/api/jobs/:id/dispute", requireAuth, requireRole('buyer'), asyncHandler(async (req, res) => {
+    const { reason, reasonCode } = jobDisputeSchema.parse(req.body);
+    const { openDispute, DisputeError } = await import("./services/disputes");
+
+    try {
+      const dispute = await openDispute({
+        subjectType: "job",
+        subjectId: req.params.id,
+        reasonCode,
+        description: reason,
+        evidence: [],
+      }, req.session.userId!);
+      res.status(201).json(dispute);
+    } catch (error) {
+      if (error instanceof DisputeError) {
+        return res.status(error.statusCode).json({ error: error.message });
+      }
+      throw error;
+    }
   }));
 
   // ===== OFFER ROUTES =====
@@ -367,6 +545,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
       return res.status(400).json({ error: "Provider profile not found" });
     }
     const providerId = userProvider.id;
+    // Derived from the provider's verified documents
+    const permits = userProvider.permits as Record<string, boolean>;
 
     // Phase 1: Check subscription tier and free offer limits
     const eligibility = await canProviderSubmitOffer(providerId);
@@ -386,10 +566,30 @@ export async function registerRoutes(app: Express): Promise<Server> {
       return res.status(404).json({ error: "Job not found" });
     }
 
+    // Paused while a document this category needs has expired and no renewal is verified
+    const { getPausedCategories } = await import("./services/provider-kyc");
+    const expiredDocuments = (await getPausedCategories(providerId))[job.category];
+    if (expiredDocuments) {
+      return res.status(403).json({
+        error: "Cannot submit offer",
+        reason: `Your ${expiredDocuments.map((type) => type.replace(/_/g, ' ')).join(', ')} expired. Upload a renewed copy to make ${job.category} offers again.`,
+        expiredDocuments,
+      });
+    }
+
     // Phase 1: Calculate AI score using new scoring service
     const jobSpec = job.spec as any;
     const priceBand = jobSpec.priceBand || { minMAD: 0, maxMAD: 10000, recommendedMAD: 5000 };
     
+    // Lateness recorded on the provider's tracked trips
+    const { getProviderReliability } = await import("./services/trip-eta");
+    const reliability = await getProviderReliability(providerId);
+
+    // Seats of the largest active vehicle, matched against the job's passengers
+    const vehicles = await storage.getVehiclesByProviderId(providerId);
+    const capacities = vehicles.filter((vehicle) => vehicle.status === 'active' && vehicle.capacity).map((vehicle) => vehicle.capacity!);
+    const capacity = capacities.length > 0 ? Math.max(...capacities) : null;
+
     const aiScore = await scoreOfferWithAI({
       offer: {
         priceMad,
@@ -401,10 +601,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
         city: job.city || 'Casablanca',
         description: jobSpec.description || '',
         budgetHintMad: job.budgetHintMad,
+        spec: jobSpec,
       },
       provider: {
         rating: userProvider.rating || '0',
         verified: userProvider.verified,
+        reliability,
+        permits,
+        city: userProvider.city,
+        capacity,
       },
       priceBand,
     });
@@ -416,7 +621,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       etaMin,
       notes,
       aiScore: aiScore.toString(),
-      compliance: { permit: true, insurance: true },
+      compliance: { permit: !!permits.permit, insurance: !!permits.insurance },
       expiresAt: new Date(Date.now() + 24 * 60 * 60 * 1000), // 24 hours
     });
 
@@ -453,6 +658,53 @@ export async function registerRoutes(app: Express): Promise<Server> {
     });
   }));
 
+  // Counter-offer thread with the rounds left and whose turn it is
+  app.get("/api/offers/:id/negotiation", requireAuth, asyncHandler(async (req, res) => {
+    const { getOfferNegotiation, OfferNegotiationError } = await import("./services/offers");
+
+    try {
+      const negotiation = await getOfferNegotiation(req.params.id, req.session.userId!, req.session.role);
+      res.json(negotiation);
+    } catch (error) {
+      if (error instanceof OfferNegotiationError) {
+        return res.status(error.statusCode).json({ error: error.message });
+      }
+      throw error;
+    }
+  }));
+
+  // Propose new terms (price, ETA, notes); the buyer starts, then the sides take turns
+  app.post("/api/offers/:id/counter", requireAuth, asyncHandler(async (req, res) => {
+    const terms = counterOfferSchema.parse(req.body);
+    const { proposeCounterOffer, OfferNegotiationError } = await import("./services/offers");
+
+    try {
+      const negotiation = await proposeCounterOffer(req.params.id, req.session.userId!, terms);
+      res.status(201).json(negotiation);
+    } catch (error) {
+      if (error instanceof OfferNegotiationError) {
+        return res.status(error.statusCode).json({ error: error.message });
+      }
+      throw error;
+    }
+  }));
+
+  // Accept (the terms become the offer's) or reject the other side's open counter-offer
+  app.post("/api/offers/:id/counter/:revisionId/respond", requireAuth, asyncHandler(async (req, res) => {
+    const { decision } = counterOfferResponseSchema.parse(req.body);
+    const { respondToCounterOffer, OfferNegotiationError } = await import("./services/offers");
+
+    try {
+      const negotiation = await respondToCounterOffer(req.params.id, req.params.revisionId, req.session.userId!, decision);
+      res.json(negotiation);
+    } catch (error) {
+      if (error instanceof OfferNegotiationError) {
+        return res.status(error.statusCode).json({ error: error.message });
+      }
+      throw error;
+    }
+  }));
+
   app.post("/api/offers/:id/accept", requireAuth, requireRole('buyer'), asyncHandler(async (req, res) => {
     const offerId = req.params.id;
     const userId = req.session.userId!;
@@ -472,99 +724,295 @@ export async function registerRoutes(app: Express): Promise<Server> {
       return res.status(403).json({ error: "Not authorized to accept this offer" });
     }
 
-    // Phase 1: Process commission and record earnings
-    const { platformFee, providerEarning, commission } = await processOfferAcceptance(offerId);
+    const buyer = await storage.getUser(userId);
+    if (!buyer) {
+      return res.status(404).json({ error: "User not found" });
+    }
 
-    // Update offer status
-    const updatedOffer = await storage.updateOffer(offerId, { status: 'accepted' });
+    // The buyer pays first; the offer is accepted once the funds are held in escrow
+    try {
+      const { offer: updatedOffer, payment } = await startOfferCheckout(offer, job, buyer);
 
-    // Update job status
-    await storage.updateJob(offer.jobId, { status: 'accepted' });
+      if (!payment.success) {
+        return res.status(402).json({ error: "Payment failed", details: payment.error, offer: updatedOffer });
+      }
 
-    // Decline other offers for this job
-    const allOffers = await storage.getOffersByJobId(offer.jobId);
-    await Promise.all(
-      allOffers
-        .filter(o => o.id !== offerId && o.status === 'pending')
-        .map(o => storage.updateOffer(o.id, { status: 'declined' }))
-    );
+      res.status(payment.status === "completed" ? 200 : 202).json({
+        ...updatedOffer,
+        payment: {
+          transactionId: payment.transactionId,
+          status: payment.status,
+          paymentUrl: payment.paymentUrl,
+        },
+      });
+    } catch (error) {
+      if (error instanceof CheckoutError) {
+        return res.status(error.statusCode).json({ error: error.message });
+      }
+      throw error;
+    }
+  }));
 
-    // Audit log
-    await logAudit({
-      userId,
-      action: AUDIT_ACTIONS.OFFER_ACCEPT,
-      resourceType: 'offer',
-      resourceId: offerId,
-      changes: { 
-        jobId: offer.jobId, 
-        status: 'accepted',
-        platformCommission: commission.commissionAmountMad,
-        providerNet: commission.providerNetMad,
-        commissionRate: commission.commissionRate,
-      },
-      req,
-    });
+  // ===== TRIP TRACKING ROUTES =====
+  // The trip of a job's accepted offer, for its buyer, its provider and admins
+  app.get("/api/jobs/:id/trip", requireAuth, asyncHandler(async (req, res) => {
+    const { getJobTrip, TripTrackingError } = await import("./services/trip-tracking");
 
-    res.json({
-      ...updatedOffer,
-      commission: {
-        gross: commission.grossAmountMad,
-        platformFee: commission.commissionAmountMad,
-        providerNet: commission.providerNetMad,
-        rate: commission.commissionRate,
-        platformFeeId: platformFee.id,
-        earningId: providerEarning.id,
-      },
-    });
+    try {
+      const trip = await getJobTrip(req.params.id, { userId: req.session.userId!, role: req.session.role });
+      res.json(trip);
+    } catch (error) {
+      if (error instanceof TripTrackingError) {
+        return res.status(error.statusCode).json({ error: error.message });
+      }
+      throw error;
+    }
+  }));
+
+  app.get("/api/trips/:id", requireAuth, asyncHandler(async (req, res) => {
+    const { getTrip, TripTrackingError } = await import("./services/trip-tracking");
+
+    try {
+      const trip = await getTrip(req.params.id, { userId: req.session.userId!, role: req.session.role });
+      res.json(trip);
+    } catch (error) {
+      if (error instanceof TripTrackingError) {
+        return res.status(error.statusCode).json({ error: error.message });
+      }
+      throw error;
+    }
+  }));
+
+  // Recorded GPS points, oldest first (?since= for the points after a timestamp)
+  app.get("/api/trips/:id/track", requireAuth, asyncHandler(async (req, res) => {
+    const { since } = z.object({ since: z.coerce.date().optional() }).parse(req.query);
+    const { getTripTrack, TripTrackingError } = await import("./services/trip-tracking");
+
+    try {
+      const track = await getTripTrack(req.params.id, { userId: req.session.userId!, role: req.session.role }, since);
+      res.json(track);
+    } catch (error) {
+      if (error instanceof TripTrackingError) {
+        return res.status(error.statusCode).json({ error: error.message });
+      }
+      throw error;
+    }
+  }));
+
+  // Processed route for replay: outliers dropped, simplified, with distance and moving vs idle time
+  app.get("/api/trips/:id/route", requireAuth, asyncHandler(async (req, res) => {
+    const { getTripRoute, TripTrackingError } = await import("./services/trip-tracking");
+
+    try {
+      const { route } = await getTripRoute(req.params.id, { userId: req.session.userId!, role: req.session.role });
+      res.json(route);
+    } catch (error) {
+      if (error instanceof TripTrackingError) {
+        return res.status(error.statusCode).json({ error: error.message });
+      }
+      throw error;
+    }
+  }));
+
+  // Download the route as GPX or GeoJSON
+  app.get("/api/trips/:id/export", requireAuth, asyncHandler(async (req, res) => {
+    const format = z.enum(['gpx', 'geojson']).default('gpx').parse(req.query.format);
+    const { exportTrip, TripTrackingError } = await import("./services/trip-tracking");
+
+    try {
+      const file = await exportTrip(req.params.id, { userId: req.session.userId!, role: req.session.role }, format);
+      res.setHeader("Content-Type", file.contentType);
+      res.setHeader("Content-Disposition", `attachment; filename="${file.filename}"`);
+      res.send(file.content);
+    } catch (error) {
+      if (error instanceof TripTrackingError) {
+        return res.status(error.statusCode).json({ error: error.message });
+      }
+      throw error;
+    }
+  }));
+
+  // Provider: on the way; starts tracking
+  app.post("/api/trips/:id/start", requireAuth, requireRole('provider'), asyncHandler(async (req, res) => {
+    const { location } = z.object({ location: tripLocationSchema.optional() }).parse(req.body);
+    const { startTrip, TripTrackingError } = await import("./services/trip-tracking");
+
+    try {
+      const trip = await startTrip(req.params.id, req.session.userId!, location);
+      res.json(trip);
+    } catch (error) {
+      if (error instanceof TripTrackingError) {
+        return res.status(error.statusCode).json({ error: error.message });
+      }
+      throw error;
+    }
+  }));
+
+  // Provider device: a batch of GPS fixes; retried uploads are de-duplicated
+  app.post("/api/trips/:id/points", requireAuth, requireRole('provider'), asyncHandler(async (req, res) => {
+    const { points } = tripPointBatchSchema.parse(req.body);
+    const { ingestTripPoints, TripTrackingError } = await import("./services/trip-tracking");
+
+    try {
+      const result = await ingestTripPoints(req.params.id, req.session.userId!, points);
+      res.json(result);
+    } catch (error) {
+      if (error instanceof TripTrackingError) {
+        return res.status(error.statusCode).json({ error: error.message });
+      }
+      throw error;
+    }
+  }));
+
+  // Provider: arrived; records the trip's duration and distance
+  app.post("/api/trips/:id/complete", requireAuth, requireRole('provider'), asyncHandler(async (req, res) => {
+    const { location } = z.object({ location: tripLocationSchema.optional() }).parse(req.body);
+    const { completeTrip, TripTrackingError } = await import("./services/trip-tracking");
+
+    try {
+      const trip = await completeTrip(req.params.id, req.session.userId!, location);
+      res.json(trip);
+    } catch (error) {
+      if (error instanceof TripTrackingError) {
+        return res.status(error.statusCode).json({ error: error.message });
+      }
+      throw error;
+    }
   }));
 
   // ===== MESSAGE ROUTES =====
-  app.get("/api/jobs/:id/messages", asyncHandler(async (req, res) => {
-    const jobId = req.params.id;
-    const messagesList = await storage.getMessagesByJobId(jobId);
+  // Conversations are limited to the job's buyer and providers with an offer on it (admins read)
+  app.get("/api/jobs/:id/messages", requireAuth, asyncHandler(async (req, res) => {
+    try {
+      const messagesList = await getConversationMessages(req.params.id, req.session.userId!, req.session.role);
+      res.json(messagesList);
+    } catch (error) {
+      if (error instanceof MessagingError) {
+        return res.status(error.statusCode).json({ error: error.message });
+      }
+      throw error;
+    }
+  }));
 
-    // Enrich with sender names
-    const enrichedMessages = await Promise.all(
-      messagesList.map(async (msg) => {
-        const sender = await storage.getUser(msg.senderId);
-        return { ...msg, senderName: sender?.email || 'Unknown' };
-      })
-    );
+  // Read positions of every participant
+  app.get("/api/jobs/:id/messages/reads", requireAuth, asyncHandler(async (req, res) => {
+    try {
+      const reads = await getConversationReads(req.params.id, req.session.userId!, req.session.role);
+      res.json(reads);
+    } catch (error) {
+      if (error instanceof MessagingError) {
+        return res.status(error.statusCode).json({ error: error.message });
+      }
+      throw error;
+    }
+  }));
+
+  // Mark the conversation read up to messageId, or up to the latest message
+  app.post("/api/jobs/:id/messages/read", requireAuth, asyncHandler(async (req, res) => {
+    const { messageId } = z.object({ messageId: z.string().uuid().optional() }).parse(req.body);
 
-    res.json(enrichedMessages);
+    try {
+      const position = await markConversationRead(req.params.id, req.session.userId!, messageId);
+      res.json(position);
+    } catch (error) {
+      if (error instanceof MessagingError) {
+        return res.status(error.statusCode).json({ error: error.message });
+      }
+      throw error;
+    }
   }));
 
-  app.post("/api/messages", asyncHandler(async (req, res) => {
-    const data = insertMessageSchema.parse(req.body);
-    const message = await storage.createMessage(data);
-    res.json(message);
+  // Signed upload URL for an attachment; send the uploaded URL in the message's attachments
+  app.post("/api/jobs/:id/messages/attachments", requireAuth, asyncHandler(async (req, res) => {
+    try {
+      const uploadURL = await createAttachmentUploadUrl(req.params.id, req.session.userId!);
+      res.json({ uploadURL });
+    } catch (error) {
+      if (error instanceof MessagingError) {
+        return res.status(error.statusCode).json({ error: error.message });
+      }
+      throw error;
+    }
   }));
 
-  app.get("/api/messages/conversations", requireAuth, asyncHandler(async (req, res) => {
-    const userId = req.session.userId!;
-    
-    // Get jobs for the user
-    const jobsList = await storage.getJobsByBuyerId(userId);
+  // The sender is always the session user
+  app.post("/api/messages", requireAuth, asyncHandler(async (req, res) => {
+    const data = sendMessageSchema.parse(req.body);
 
-    // Get last message and unread count for each
-    const conversations = await Promise.all(
-      jobsList.map(async (job) => {
-        const messagesList = await storage.getMessagesByJobId(job.id);
-        const lastMessage = messagesList[messagesList.length - 1];
-        return {
-          ...job,
-          lastMessage,
-          unreadCount: 0, // TODO: Implement read tracking
-        };
-      })
-    );
+    try {
+      const message = await sendMessage(data, req.session.userId!);
+      res.json(message);
+    } catch (error) {
+      if (error instanceof MessagingError) {
+        return res.status(error.statusCode).json({ error: error.message });
+      }
+      throw error;
+    }
+  }));
 
+  app.get("/api/messages/conversations", requireAuth, asyncHandler(async (req, res) => {
+    const conversations = await listConversations(req.session.userId!);
     res.json(conversations);
   }));
 
+  // Translation into the reader's language (users.locale), or ?to=fr|ar|en; the original is returned too
+  app.get("/api/messages/:id/translation", requireAuth, asyncHandler(async (req, res) => {
+    const { to } = z.object({ to: z.enum(["fr", "ar", "en"]).optional() }).parse(req.query);
+    const { translateMessage } = await import("./services/translation");
+
+    try {
+      const translation = await translateMessage(req.params.id, req.session.userId!, req.session.role, to);
+      res.json(translation);
+    } catch (error) {
+      if (error instanceof MessagingError) {
+        return res.status(error.statusCode).json({ error: error.message });
+      }
+      throw error;
+    }
+  }));
+
+  // Moderation queue: messages with contact details sent before an offer was accepted (?status=pending|confirmed|dismissed)
+  app.get("/api/moderation/messages", requireAuth, requireRole('admin'), asyncHandler(async (req, res) => {
+    const { status } = z.object({
+      status: z.enum(["pending", "confirmed", "dismissed"]).default("pending"),
+    }).parse(req.query);
+
+    const { listFlaggedMessages } = await import("./services/message-moderation");
+    const flagged = await listFlaggedMessages(status);
+    res.json(flagged);
+  }));
+
+  // Confirm a flag (text stays masked) or dismiss it as a false positive (original text restored)
+  app.post("/api/moderation/messages/:id/review", requireAuth, requireRole('admin'), asyncHandler(async (req, res) => {
+    const review = contactLeakReviewSchema.parse(req.body);
+    const { reviewFlaggedMessage, ModerationError } = await import("./services/message-moderation");
+
+    try {
+      const message = await reviewFlaggedMessage(req.params.id, req.session.userId!, review);
+      res.json(message);
+    } catch (error) {
+      if (error instanceof ModerationError) {
+        return res.status(error.statusCode).json({ error: error.message });
+      }
+      throw error;
+    }
+  }));
+
   // ===== RATING ROUTES =====
-  app.post("/api/ratings", asyncHandler(async (req, res) => {
-    const data = insertRatingSchema.parse(req.body);
+  // Only for completed jobs, between the buyer and the provider; the rater is the session user
+  app.post("/api/ratings", requireAuth, asyncHandler(async (req, res) => {
+    const data = insertRatingSchema.parse({ ...req.body, raterId: req.session.userId });
+
+    const { assertRatingAllowed, JobCompletionError } = await import("./services/job-completion");
+    try {
+      await assertRatingAllowed(data.jobId, data.raterId, data.rateeId);
+    } catch (error) {
+      if (error instanceof JobCompletionError) {
+        return res.status(error.statusCode).json({ error: error.message });
+      }
+      throw error;
+    }
+
     const rating = await storage.createRating(data);
 
     // Update provider average rating
@@ -580,23 +1028,83 @@ export async function registerRoutes(app: Express): Promise<Server> {
   }));
 
   // ===== FINANCING ROUTES =====
-  app.get("/api/financing/:jobId/offers", asyncHandler(async (req, res) => {
-    const offers = await storage.getFinancingOffersByJobId(req.params.jobId);
+  app.get("/api/financing/:jobId/offers", requireAuth, asyncHandler(async (req, res) => {
+    const job = await storage.getJob(req.params.jobId);
+    if (!job) {
+      return res.status(404).json({ error: "Job not found" });
+    }
+    if (job.buyerId !== req.session.userId && req.session.role !== 'admin') {
+      return res.status(403).json({ error: "Forbidden" });
+    }
+
+    const { getJobFinancingOffers } = await import("./services/financing");
+    const offers = await getJobFinancingOffers(job.id);
     res.json(offers);
   }));
 
-  app.post("/api/financing/prequal", asyncHandler(async (req, res) => {
-    // Mock pre-qualification (in production, integrate with lenders)
-    const { income, amount, term } = req.body;
-    
-    const dti = (amount / term) / income;
-    const prequal = dti < 0.4; // Simple DTI check
+  // Loan vs lease side by side, with the consent text the buyer agrees to when accepting
+  app.get("/api/financing/:jobId/comparison", requireAuth, asyncHandler(async (req, res) => {
+    const job = await storage.getJob(req.params.jobId);
+    if (!job) {
+      return res.status(404).json({ error: "Job not found" });
+    }
+    if (job.buyerId !== req.session.userId && req.session.role !== 'admin') {
+      return res.status(403).json({ error: "Forbidden" });
+    }
 
-    res.json({
-      prequalified: prequal,
-      maxAmount: prequal ? amount * 1.2 : amount * 0.8,
-      estimatedApr: prequal ? 7.5 : 9.5,
-    });
+    const { compareFinancingOffers } = await import("./services/financing");
+    res.json(await compareFinancingOffers(job.id));
+  }));
+
+  app.post("/api/financing/prequal", requireAuth, requireRole('buyer'), asyncHandler(async (req, res) => {
+    const request = financingPrequalSchema.parse(req.body);
+    const { prequalifyForFinancing, FinancingError } = await import("./services/financing");
+
+    try {
+      const result = await prequalifyForFinancing(req.session.userId!, request);
+      res.json(result);
+    } catch (error) {
+      if (error instanceof FinancingError) {
+        return res.status(error.statusCode).json({ error: error.message });
+      }
+      throw error;
+    }
+  }));
+
+  // Month-by-month amortization of an offer
+  app.get("/api/financing/offers/:id/schedule", requireAuth, asyncHandler(async (req, res) => {
+    const { getFinancingOffer, getOfferSchedule } = await import("./services/financing");
+    const found = await getFinancingOffer(req.params.id);
+    if (!found) {
+      return res.status(404).json({ error: "Financing offer not found" });
+    }
+    if (found.job.buyerId !== req.session.userId && req.session.role !== 'admin') {
+      return res.status(403).json({ error: "Forbidden" });
+    }
+
+    res.json({ offer: found.offer, schedule: getOfferSchedule(found.offer) });
+  }));
+
+  app.post("/api/financing/offers/:id/accept", requireAuth, requireRole('buyer'), asyncHandler(async (req, res) => {
+    const { consentVersion } = z.object({
+      consent: z.literal(true),
+      consentVersion: z.string(),
+    }).parse(req.body);
+    const { acceptFinancingOffer, FinancingError } = await import("./services/financing");
+
+    try {
+      const offer = await acceptFinancingOffer(req.params.id, req.session.userId!, {
+        consentVersion,
+        ipAddress: req.ip || req.socket.remoteAddress,
+        userAgent: req.get("user-agent"),
+      });
+      res.json(offer);
+    } catch (error) {
+      if (error instanceof FinancingError) {
+        return res.status(error.statusCode).json({ error: error.message });
+      }
+      throw error;
+    }
   }));
 
   // ===== PHASE 1: SUBSCRIPTION & PAYMENT ROUTES =====
@@ -610,8 +1118,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
       return res.status(404).json({ error: "Provider profile not found" });
     }
 
-    const subscription = await getOrCreateSubscription(provider.id);
+    // Eligibility first: it lapses expired cycles and resets the monthly counter
     const eligibility = await canProviderSubmitOffer(provider.id);
+    const subscription = await getOrCreateSubscription(provider.id);
 
     res.json({
       subscription,
@@ -619,7 +1128,23 @@ export async function registerRoutes(app: Express): Promise<Server> {
     });
   }));
 
-  // Purchase subscription (Basic or Pro)
+  // Price a tier change before buying it (prorated against the current cycle)
+  app.get("/api/subscription/quote", requireAuth, requireRole('provider'), asyncHandler(async (req, res) => {
+    const tier = req.query.tier;
+    if (tier !== 'basic' && tier !== 'pro') {
+      return res.status(400).json({ error: "Invalid tier. Must be 'basic' or 'pro'" });
+    }
+
+    const provider = await storage.getProviderByUserId(req.session.userId!);
+    if (!provider) {
+      return res.status(404).json({ error: "Provider profile not found" });
+    }
+
+    const { getSubscriptionQuote } = await import("./services/subscription-billing");
+    res.json(await getSubscriptionQuote(provider.id, tier));
+  }));
+
+  // Purchase subscription (Basic or Pro), or switch tiers mid-cycle
   app.post("/api/subscription/purchase", requireAuth, requireRole('provider'), asyncHandler(async (req, res) => {
     const { tier } = req.body;
     const userId = req.session.userId!;
@@ -633,25 +1158,66 @@ export async function registerRoutes(app: Express): Promise<Server> {
       return res.status(404).json({ error: "Provider profile not found" });
     }
 
-    // Import payment service dynamically to avoid circular deps
-    const { purchaseSubscription } = await import("./services/payment");
-    
-    // Initiate payment
-    const paymentResult = await purchaseSubscription(provider.id, tier);
+    // Import billing service dynamically to avoid circular deps
+    const { purchaseSubscription, SubscriptionError } = await import("./services/subscription-billing");
+
+    try {
+      const result = await purchaseSubscription(provider.id, tier);
 
-    if (!paymentResult.success) {
-      return res.status(500).json({ 
-        error: "Payment failed",
-        details: paymentResult.error,
+      // Downgrades and fully credited changes apply without a charge
+      if (!result.payment) {
+        return res.json({
+          success: true,
+          status: "completed",
+          quote: result.quote,
+          subscription: result.subscription,
+        });
+      }
+
+      if (!result.payment.success) {
+        return res.status(500).json({ 
+          error: "Payment failed",
+          details: result.payment.error,
+        });
+      }
+
+      res.json({
+        success: true,
+        transaction: result.payment.transactionId,
+        paymentUrl: result.payment.paymentUrl, // For redirect-based payments
+        status: result.payment.status,
+        quote: result.quote,
+        subscription: result.subscription,
       });
+    } catch (error) {
+      if (error instanceof SubscriptionError) {
+        return res.status(error.statusCode).json({ error: error.message });
+      }
+      throw error;
     }
+  }));
 
-    res.json({
-      success: true,
-      transaction: paymentResult.transactionId,
-      paymentUrl: paymentResult.paymentUrl, // For redirect-based payments
-      status: paymentResult.status,
-    });
+  // Turn automatic renewal on or off
+  app.patch("/api/subscription", requireAuth, requireRole('provider'), asyncHandler(async (req, res) => {
+    const { autoRenew } = z.object({ autoRenew: z.boolean() }).parse(req.body);
+    const userId = req.session.userId!;
+
+    const provider = await storage.getProviderByUserId(userId);
+    if (!provider) {
+      return res.status(404).json({ error: "Provider profile not found" });
+    }
+
+    const { setSubscriptionAutoRenew, SubscriptionError } = await import("./services/subscription-billing");
+
+    try {
+      const subscription = await setSubscriptionAutoRenew(provider.id, autoRenew, userId);
+      res.json({ subscription });
+    } catch (error) {
+      if (error instanceof SubscriptionError) {
+        return res.status(error.statusCode).json({ error: error.message });
+      }
+      throw error;
+    }
   }));
 
   // Provider earnings summary
@@ -663,15 +1229,198 @@ export async function registerRoutes(app: Express): Promise<Server> {
       return res.status(404).json({ error: "Provider profile not found" });
     }
 
-    const { getProviderEarningsSummary } = await import("./services/commission");
-    const summary = await getProviderEarningsSummary(provider.id);
+    const { getProviderEarningsSummary } = await import("./services/commission");
+    const summary = await getProviderEarningsSummary(provider.id);
+    const balance = await getPayoutBalance(provider.id);
+    const payouts = await getProviderPayouts(provider.id);
+
+    res.json({
+      ...summary,
+      payoutBalance: { grossMad: balance.grossMad, feeMad: balance.feeMad, netMad: balance.netMad },
+      payouts,
+    });
+  }));
+
+  // ===== PAYOUT ROUTES =====
+
+  app.get("/api/payouts/settings", requireAuth, requireRole('provider'), asyncHandler(async (req, res) => {
+    const provider = await storage.getProviderByUserId(req.session.userId!);
+    if (!provider) {
+      return res.status(404).json({ error: "Provider profile not found" });
+    }
+
+    const settings = await getPayoutSettings(provider.id);
+    res.json(settings);
+  }));
+
+  app.put("/api/payouts/settings", requireAuth, requireRole('provider'), asyncHandler(async (req, res) => {
+    const provider = await storage.getProviderByUserId(req.session.userId!);
+    if (!provider) {
+      return res.status(404).json({ error: "Provider profile not found" });
+    }
+
+    const validatedData = insertProviderPayoutSettingsSchema.parse({ ...req.body, providerId: provider.id });
+    const settings = await savePayoutSettings(validatedData, req.session.userId);
+    res.json(settings);
+  }));
+
+  // On-request providers ask to be included in the next payout batch
+  app.post("/api/payouts/request", requireAuth, requireRole('provider'), asyncHandler(async (req, res) => {
+    const provider = await storage.getProviderByUserId(req.session.userId!);
+    if (!provider) {
+      return res.status(404).json({ error: "Provider profile not found" });
+    }
+
+    try {
+      const balance = await requestPayout(provider.id, req.session.userId);
+      res.json({ requested: true, netMad: balance.netMad });
+    } catch (error) {
+      if (error instanceof PayoutError) {
+        return res.status(error.statusCode).json({ error: error.message });
+      }
+      throw error;
+    }
+  }));
+
+  app.get("/api/payouts", requireAuth, requireRole('provider'), asyncHandler(async (req, res) => {
+    const provider = await storage.getProviderByUserId(req.session.userId!);
+    if (!provider) {
+      return res.status(404).json({ error: "Provider profile not found" });
+    }
+
+    const payouts = await getProviderPayouts(provider.id);
+    res.json(payouts);
+  }));
+
+  // Admin: batches, bank files and transfer outcomes
+  app.get("/api/payout-batches", requireAuth, requireRole('admin'), asyncHandler(async (req, res) => {
+    const batches = await getPayoutBatches();
+    res.json(batches);
+  }));
+
+  app.post("/api/payout-batches", requireAuth, requireRole('admin'), asyncHandler(async (req, res) => {
+    const batch = await createPayoutBatch({ trigger: 'manual', createdBy: req.session.userId });
+    if (!batch) {
+      return res.status(409).json({ error: "No provider is due a payout" });
+    }
+    res.status(201).json(batch);
+  }));
+
+  app.get("/api/payout-batches/:id", requireAuth, requireRole('admin'), asyncHandler(async (req, res) => {
+    const result = await getPayoutBatch(req.params.id);
+    if (!result) {
+      return res.status(404).json({ error: "Payout batch not found" });
+    }
+    res.json({ ...result.batch, payouts: result.payouts });
+  }));
+
+  // Bank bulk-transfer file: ?format=csv (default) or ?format=fixed
+  app.get("/api/payout-batches/:id/export", requireAuth, requireRole('admin'), asyncHandler(async (req, res) => {
+    const format = z.enum(['csv', 'fixed']).default('csv').parse(req.query.format);
+
+    try {
+      const file = await exportPayoutBatch(req.params.id, format, req.session.userId);
+      res.setHeader("Content-Type", file.contentType);
+      res.setHeader("Content-Disposition", `attachment; filename="${file.filename}"`);
+      res.send(file.content);
+    } catch (error) {
+      if (error instanceof PayoutError) {
+        return res.status(error.statusCode).json({ error: error.message });
+      }
+      throw error;
+    }
+  }));
+
+  app.post("/api/payout-batches/:id/mark-paid", requireAuth, requireRole('admin'), asyncHandler(async (req, res) => {
+    try {
+      const batch = await markPayoutBatchPaid(req.params.id, req.session.userId);
+      res.json(batch);
+    } catch (error) {
+      if (error instanceof PayoutError) {
+        return res.status(error.statusCode).json({ error: error.message });
+      }
+      throw error;
+    }
+  }));
+
+  // A transfer the bank rejected; its funds roll into the provider's next payout
+  app.post("/api/payouts/:id/fail", requireAuth, requireRole('admin'), asyncHandler(async (req, res) => {
+    const { reason } = z.object({ reason: z.string().min(3) }).parse(req.body);
+
+    try {
+      const payout = await failPayout(req.params.id, reason, req.session.userId);
+      res.json(payout);
+    } catch (error) {
+      if (error instanceof PayoutError) {
+        return res.status(error.statusCode).json({ error: error.message });
+      }
+      throw error;
+    }
+  }));
+
+  // ===== COMMISSION RULE ROUTES =====
+
+  app.get("/api/commission-rules", requireAuth, requireRole('admin'), asyncHandler(async (req, res) => {
+    const rules = await listCommissionRules();
+    res.json(rules);
+  }));
+
+  app.post("/api/commission-rules", requireAuth, requireRole('admin'), asyncHandler(async (req, res) => {
+    const input = commissionRuleSchema.parse(req.body);
+
+    try {
+      const rule = await createCommissionRule(input, req.session.userId!);
+      res.status(201).json(rule);
+    } catch (error) {
+      if (error instanceof CommissionRuleError) {
+        return res.status(error.statusCode).json({ error: error.message });
+      }
+      throw error;
+    }
+  }));
+
+  // Dry run: which rule fires for an offer (?offerId=, optional ?at= to test promotion dates)
+  app.get("/api/commission-rules/dry-run", requireAuth, requireRole('admin'), asyncHandler(async (req, res) => {
+    const { offerId, at } = z.object({
+      offerId: z.string().uuid(),
+      at: z.coerce.date().optional(),
+    }).parse(req.query);
+
+    const offer = await storage.getOffer(offerId);
+    if (!offer) {
+      return res.status(404).json({ error: "Offer not found" });
+    }
+
+    const { previewOfferCommission } = await import("./services/commission");
+    const preview = await previewOfferCommission(offerId, at);
+    res.json(preview);
+  }));
 
-    res.json(summary);
+  // Partial update; set active: false to retire a rule
+  app.patch("/api/commission-rules/:id", requireAuth, requireRole('admin'), asyncHandler(async (req, res) => {
+    const changes = commissionRuleSchema.partial().parse(req.body);
+
+    try {
+      const rule = await updateCommissionRule(req.params.id, changes, req.session.userId!);
+      res.json(rule);
+    } catch (error) {
+      if (error instanceof CommissionRuleError) {
+        return res.status(error.statusCode).json({ error: error.message });
+      }
+      throw error;
+    }
   }));
 
   // Transaction history
-  app.get("/api/transactions", requireAuth, requireRole('provider'), asyncHandler(async (req, res) => {
+  app.get("/api/transactions", requireAuth, requireRole('provider', 'buyer'), asyncHandler(async (req, res) => {
     const userId = req.session.userId!;
+
+    // Buyers see the charges they paid
+    if (req.session.role === 'buyer') {
+      const charges = await storage.getTransactionsByBuyerId(userId);
+      return res.json(charges);
+    }
+
     const provider = await storage.getProviderByUserId(userId);
     
     if (!provider) {
@@ -684,25 +1433,89 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   // Payment callback webhook (called by PSP after payment)
   app.post("/api/payment/callback", asyncHandler(async (req, res) => {
-    const { transactionId, pspTransactionId, status, signature } = req.body;
-    
     const { handlePaymentCallback } = await import("./services/payment");
     
+    // The adapter of the transaction's PSP verifies the signature, some sign the raw body
     const result = await handlePaymentCallback({
-      transactionId,
-      pspTransactionId,
-      status,
-      signature,
-      callbackData: req.body,
+      headers: req.headers,
+      body: req.body,
+      rawBody: req.rawBody instanceof Buffer ? req.rawBody : undefined,
     });
 
+    // Duplicates and out-of-order events are acknowledged too, so the PSP stops retrying
     if (result.success) {
-      res.json({ success: true });
+      res.json({ success: true, outcome: result.outcome });
     } else {
       res.status(400).json({ error: result.error });
     }
   }));
 
+  // Callback inbox: raw PSP webhooks with their processing outcome (admin only)
+  app.get("/api/payment-callbacks", requireAuth, requireRole('admin'), asyncHandler(async (req, res) => {
+    const { getPaymentCallbackEvents } = await import("./services/payment");
+    const events = await getPaymentCallbackEvents(req.query.transactionId as string | undefined);
+    res.json(events);
+  }));
+
+  // Run payment reconciliation now instead of waiting for the scheduled job (admin only)
+  app.post("/api/payments/reconcile", requireAuth, requireRole('admin'), asyncHandler(async (req, res) => {
+    const { reconcilePendingPayments } = await import("./services/payment");
+    const summary = await reconcilePendingPayments();
+    res.json(summary);
+  }));
+
+  // Poll the PSP for the status of a pending payment
+  app.get("/api/payments/:id/status", requireAuth, asyncHandler(async (req, res) => {
+    const { getTransaction, pollPaymentStatus } = await import("./services/payment");
+
+    const transaction = await getTransaction(req.params.id);
+    if (!transaction) {
+      return res.status(404).json({ error: "Transaction not found" });
+    }
+
+    // The paying buyer, the provider being paid, or an admin
+    if (req.session.role !== 'admin' && transaction.buyerId !== req.session.userId) {
+      const provider = await storage.getProviderByUserId(req.session.userId!);
+      if (!provider || provider.id !== transaction.providerId) {
+        return res.status(403).json({ error: "Not authorized to view this transaction" });
+      }
+    }
+
+    const updated = await pollPaymentStatus(transaction.id);
+    res.json(updated);
+  }));
+
+  // Refund a completed payment through its PSP (admin only); held funds are settled in the escrow ledger too
+  app.post("/api/payments/:id/refund", requireAuth, requireRole('admin'), asyncHandler(async (req, res) => {
+    const { reason, amountMAD } = z.object({
+      reason: z.string().min(3),
+      amountMAD: z.number().int().positive().optional(),
+    }).parse(req.body);
+
+    const { refundPayment } = await import("./services/payment");
+    const { getHeldTransactionEscrow, refundEscrow, splitEscrow } = await import("./services/escrow");
+    try {
+      const held = await getHeldTransactionEscrow(req.params.id);
+      if (held?.disputeId) {
+        return res.status(409).json({ error: "This payment is frozen by a dispute; settle it from the dispute center" });
+      }
+
+      const refund = !held
+        ? await refundPayment(req.params.id, reason, amountMAD, req.session.userId)
+        : amountMAD === undefined || amountMAD === held.heldAmount
+          ? await refundEscrow(held.transactionId, reason, req.session.userId)
+          : await splitEscrow(held.transactionId, amountMAD, reason, req.session.userId);
+      res.json(refund);
+    } catch (error: any) {
+      res.status(409).json({ error: error.message });
+    }
+  }));
+
+  // Offline PayZone / MTC gateways for local end-to-end payment testing
+  if (process.env.PSP_SIMULATOR === 'true' || app.get("env") === "development") {
+    registerPspSimulator(app);
+  }
+
   // ===== MICE/B2B ROUTES =====
   
   // Get all venues (with filters)
@@ -2110,7 +2923,7 @@ END:VCALENDAR`;
     if (!pkg) {
       return res.status(404).json({ error: "Service package not found" });
     }
-    res.json(pkg);
+    res.json(await ensurePackageExtraIds(pkg));
   }));
 
   app.post("/api/service-packages", requireAuth, requireRole('provider'), asyncHandler(async (req, res) => {
@@ -2126,6 +2939,7 @@ END:VCALENDAR`;
       ...req.body,
       providerId: provider.id,
     });
+    validatedData.extras = normalizePackageExtras(validatedData.extras);
     
     const pkg = await storage.createServicePackage(validatedData);
     
@@ -2161,6 +2975,9 @@ END:VCALENDAR`;
     }
     
     const validatedData = insertServicePackageSchema.partial().parse(req.body);
+    if (validatedData.extras) {
+      validatedData.extras = normalizePackageExtras(validatedData.extras);
+    }
     const pkg = await storage.updateServicePackage(req.params.id, validatedData);
     
     await logAudit({
@@ -2282,18 +3099,23 @@ END:VCALENDAR`;
       return res.status(403).json({ error: "Invalid role for this operation" });
     }
     
-    res.json(orders);
+    res.json(orders.map((order) => ({
+      ...order,
+      allowedTransitions: getAllowedTransitions(order, role),
+    })));
   }));
 
   app.post("/api/orders", requireAuth, requireRole('buyer'), asyncHandler(async (req, res) => {
     const userId = req.session.userId!;
     const { packageId, tier, selectedExtras, requirements } = req.body;
+    const paymentPlan = paymentPlanSchema.optional().parse(req.body.paymentPlan);
     
     // Get package to calculate price
-    const pkg = await storage.getServicePackage(packageId);
-    if (!pkg) {
+    const existingPkg = await storage.getServicePackage(packageId);
+    if (!existingPkg) {
       return res.status(404).json({ error: "Service package not found" });
     }
+    const pkg = await ensurePackageExtraIds(existingPkg);
     
     // Calculate total price based on tier
     let totalPriceMad = 0;
@@ -2312,14 +3134,38 @@ END:VCALENDAR`;
       return res.status(400).json({ error: "Invalid tier selected" });
     }
     
-    // Add extras pricing if any
-    // This is simplified - in production you'd validate extras against pkg.extras
+    // Add extras pricing, snapshotting each extra so later package edits don't change the order
+    const selectedExtraIds = z.array(z.string()).optional().parse(selectedExtras) || [];
+    let pricedExtras;
+    try {
+      pricedExtras = priceSelectedExtras(pkg, selectedExtraIds);
+    } catch (error) {
+      if (error instanceof PackageExtraError) {
+        return res.status(400).json({ error: error.message, invalidExtraIds: error.invalidExtraIds });
+      }
+      throw error;
+    }
+    
+    totalPriceMad += pricedExtras.extrasPriceMad;
+    deliveryDays = Math.max(0, deliveryDays + pricedExtras.extraDeliveryDays);
+
+    // Check an installment plan against the total before anything is created
+    if (paymentPlan) {
+      try {
+        buildInstallments(totalPriceMad, paymentPlan);
+      } catch (error) {
+        if (error instanceof PaymentScheduleError) {
+          return res.status(error.statusCode).json({ error: error.message });
+        }
+        throw error;
+      }
+    }
     
     // Create a job first (linking to existing job system)
     const job = await storage.createJob({
       buyerId: userId,
       category: pkg.category as any,
-      spec: { packageOrder: true, packageId, tier, requirements },
+      spec: { packageOrder: true, packageId, tier, requirements, extraIds: pricedExtras.extras.map((extra) => extra.id) },
       budgetHintMad: totalPriceMad,
     });
     
@@ -2327,11 +3173,13 @@ END:VCALENDAR`;
     const deliveryDate = new Date();
     deliveryDate.setDate(deliveryDate.getDate() + deliveryDays);
     
+    // The order waits for the buyer's payment before the provider sees it as pending
     const validatedData = insertPackageOrderSchema.parse({
       jobId: job.id,
       packageId,
       tier,
-      selectedExtras: selectedExtras || [],
+      status: 'awaiting_payment',
+      selectedExtras: pricedExtras.extras,
       totalPriceMad,
       deliveryDate,
       requirements,
@@ -2346,11 +3194,33 @@ END:VCALENDAR`;
       action: AUDIT_ACTIONS.ORDER_CREATE,
       resourceType: 'package_order',
       resourceId: order.id,
-      changes: { packageId, tier, totalPriceMad },
+      changes: { packageId, tier, totalPriceMad, extras: pricedExtras.extras.map((extra) => extra.id) },
       req,
     });
-    
-    res.json(order);
+
+    const buyer = await storage.getUser(userId);
+    if (!buyer) {
+      return res.status(404).json({ error: "User not found" });
+    }
+
+    // The buyer pays first (the deposit of an installment plan); the order becomes pending
+    // once the funds are held in escrow
+    const schedule = paymentPlan ? await createPaymentSchedule(order, paymentPlan, userId) : undefined;
+    const { order: checkedOutOrder, payment } = await startOrderCheckout(order, pkg.providerId, buyer, schedule);
+
+    if (!payment.success) {
+      return res.status(402).json({ error: "Payment failed", details: payment.error, order: checkedOutOrder });
+    }
+
+    res.status(payment.status === "completed" ? 200 : 202).json({
+      ...checkedOutOrder,
+      paymentSchedule: schedule ? await storage.getPaymentSchedule(schedule.id) : undefined,
+      payment: {
+        transactionId: payment.transactionId,
+        status: payment.status,
+        paymentUrl: payment.paymentUrl,
+      },
+    });
   }));
 
   app.get("/api/orders/:id", requireAuth, asyncHandler(async (req, res) => {
@@ -2358,26 +3228,162 @@ END:VCALENDAR`;
     if (!order) {
       return res.status(404).json({ error: "Order not found" });
     }
-    res.json(order);
+
+    const parties = await getOrderParties(order);
+    const actor = getOrderActor(parties, req.session.userId!, req.session.role!);
+    if (!actor) {
+      return res.status(403).json({ error: "Not authorized to view this order" });
+    }
+
+    res.json({ ...order, allowedTransitions: getAllowedTransitions(order, actor) });
   }));
 
   app.patch("/api/orders/:id", requireAuth, asyncHandler(async (req, res) => {
     const userId = req.session.userId!;
     
-    // Note: In production, add ownership/role checks
-    const validatedData = insertPackageOrderSchema.partial().parse(req.body);
-    const order = await storage.updatePackageOrder(req.params.id, validatedData);
-    
-    await logAudit({
-      userId,
-      action: AUDIT_ACTIONS.ORDER_UPDATE,
-      resourceType: 'package_order',
-      resourceId: req.params.id,
-      changes: validatedData,
-      req,
-    });
-    
-    res.json(order);
+    const existingOrder = await storage.getPackageOrder(req.params.id);
+    if (!existingOrder) {
+      return res.status(404).json({ error: "Order not found" });
+    }
+
+    const parties = await getOrderParties(existingOrder);
+    const actor = getOrderActor(parties, userId, req.session.role!);
+    if (!actor) {
+      return res.status(403).json({ error: "Not authorized to update this order" });
+    }
+
+    const { status, deliverables, note } = z.object({
+      status: z.enum(["pending", "in_progress", "delivered", "revision", "completed", "cancelled"]),
+      deliverables: z.array(z.any()).optional(),
+      note: z.string().max(1000).optional(),
+    }).parse(req.body);
+
+    try {
+      const order = await transitionOrder({
+        order: existingOrder,
+        to: status,
+        actor,
+        userId,
+        parties,
+        deliverables,
+        note,
+        req,
+      });
+
+      res.json({ ...order, allowedTransitions: getAllowedTransitions(order, actor) });
+    } catch (error) {
+      if (error instanceof OrderTransitionError) {
+        return res.status(error.statusCode).json({
+          error: error.message,
+          currentStatus: existingOrder.status,
+          allowedTransitions: error.allowedTransitions,
+        });
+      }
+      throw error;
+    }
+  }));
+
+  // ===== DISPUTE ROUTES =====
+  // The parties' disputes, or every dispute for admins (?status=&subjectType=&subjectId=)
+  app.get("/api/disputes", requireAuth, asyncHandler(async (req, res) => {
+    const filters = z.object({
+      status: z.enum(["open", "under_review", "resolving", "resolved"]).optional(),
+      subjectType: z.enum(["job", "package_order", "bleisure_booking"]).optional(),
+      subjectId: z.string().uuid().optional(),
+    }).parse(req.query);
+
+    const { listDisputes } = await import("./services/disputes");
+    const disputes = await listDisputes(req.session.userId!, req.session.role, filters);
+    res.json(disputes);
+  }));
+
+  // Either party opens a dispute; the subject's escrowed funds are frozen until it is resolved
+  app.post("/api/disputes", requireAuth, asyncHandler(async (req, res) => {
+    const data = openDisputeSchema.parse(req.body);
+    const { openDispute, DisputeError } = await import("./services/disputes");
+
+    try {
+      const dispute = await openDispute(data, req.session.userId!);
+      res.status(201).json(dispute);
+    } catch (error) {
+      if (error instanceof DisputeError) {
+        return res.status(error.statusCode).json({ error: error.message });
+      }
+      throw error;
+    }
+  }));
+
+  // Signed upload URL for an evidence file; the file is attached by sending its URL with a dispute or message
+  app.post("/api/disputes/evidence/upload-url", requireAuth, asyncHandler(async (req, res) => {
+    const { createEvidenceUploadUrl } = await import("./services/disputes");
+    const uploadURL = await createEvidenceUploadUrl();
+    res.json({ uploadURL });
+  }));
+
+  app.get("/api/disputes/:id", requireAuth, asyncHandler(async (req, res) => {
+    const { getDispute, DisputeError } = await import("./services/disputes");
+
+    try {
+      const detail = await getDispute(req.params.id, req.session.userId!, req.session.role);
+      res.json(detail);
+    } catch (error) {
+      if (error instanceof DisputeError) {
+        return res.status(error.statusCode).json({ error: error.message });
+      }
+      throw error;
+    }
+  }));
+
+  app.post("/api/disputes/:id/messages", requireAuth, asyncHandler(async (req, res) => {
+    const data = disputeMessageSchema.parse(req.body);
+    const { postDisputeMessage, DisputeError } = await import("./services/disputes");
+
+    try {
+      const message = await postDisputeMessage(req.params.id, req.session.userId!, req.session.role, data);
+      res.status(201).json(message);
+    } catch (error) {
+      if (error instanceof DisputeError) {
+        return res.status(error.statusCode).json({ error: error.message });
+      }
+      throw error;
+    }
+  }));
+
+  // Admin: take the dispute on as mediator
+  app.post("/api/disputes/:id/assign", requireAuth, requireRole('admin'), asyncHandler(async (req, res) => {
+    const { assignMediator, DisputeError } = await import("./services/disputes");
+
+    try {
+      const dispute = await assignMediator(req.params.id, req.session.userId!);
+      res.json(dispute);
+    } catch (error) {
+      if (error instanceof DisputeError) {
+        return res.status(error.statusCode).json({ error: error.message });
+      }
+      throw error;
+    }
+  }));
+
+  // Admin: settle with a full refund, a partial split (refundAmountMad to the buyer) or a release to the provider
+  app.post("/api/disputes/:id/resolve", requireAuth, requireRole('admin'), asyncHandler(async (req, res) => {
+    const resolution = resolveDisputeSchema.parse(req.body);
+    const { resolveDispute, DisputeError } = await import("./services/disputes");
+
+    try {
+      const dispute = await resolveDispute(req.params.id, req.session.userId!, resolution);
+      res.json(dispute);
+    } catch (error) {
+      if (error instanceof DisputeError) {
+        return res.status(error.statusCode).json({ error: error.message });
+      }
+      throw error;
+    }
+  }));
+
+  app.get("/api/disputes/:id/audit", requireAuth, requireRole('admin'), asyncHandler(async (req, res) => {
+    const { getDisputeAuditTrail } = await import("./services/disputes");
+    const trail = await getDisputeAuditTrail(req.params.id);
+    res.json(trail);
   }));
 
   // ===== AUDIT LOGS ROUTES (ADMIN ONLY) =====
@@ -2403,26 +3409,187 @@ END:VCALENDAR`;
   app.get("/api/payment-schedules", requireAuth, asyncHandler(async (req, res) => {
     const { orderId } = req.query;
     if (orderId) {
-      const schedules = await storage.getPaymentSchedulesByOrderId(orderId as string);
+      const order = await storage.getPackageOrder(orderId as string);
+      if (!order) {
+        return res.status(404).json({ error: "Order not found" });
+      }
+
+      const parties = await getOrderParties(order);
+      if (!getOrderActor(parties, req.session.userId!, req.session.role!)) {
+        return res.status(403).json({ error: "Not authorized to view this order's payment schedule" });
+      }
+
+      const schedules = await storage.getPaymentSchedulesByOrderId(order.id);
       return res.json(schedules);
     }
     res.json([]);
   }));
 
-  app.post("/api/payment-schedules", requireAuth, asyncHandler(async (req, res) => {
-    const schedule = await storage.createPaymentSchedule(req.body);
-    res.json(schedule);
+  // Pay an unpaid order in installments: the deposit is charged now, the rest by the scheduler
+  app.post("/api/payment-schedules", requireAuth, requireRole('buyer', 'admin'), asyncHandler(async (req, res) => {
+    const userId = req.session.userId!;
+    const { orderId } = z.object({ orderId: z.string() }).parse(req.body);
+    const plan = paymentPlanSchema.parse(req.body);
+
+    const order = await storage.getPackageOrder(orderId);
+    if (!order) {
+      return res.status(404).json({ error: "Order not found" });
+    }
+
+    const { buyerId, providerId } = await getOrderParties(order);
+    if (req.session.role !== 'admin' && buyerId !== userId) {
+      return res.status(403).json({ error: "Not authorized to set up payments for this order" });
+    }
+
+    const buyer = buyerId ? await storage.getUser(buyerId) : undefined;
+    if (!buyer || !providerId) {
+      return res.status(404).json({ error: "Order buyer or provider not found" });
+    }
+
+    try {
+      const schedule = await createPaymentSchedule(order, plan, userId);
+      const { order: checkedOutOrder, payment } = await startOrderCheckout(order, providerId, buyer, schedule);
+
+      if (!payment.success) {
+        return res.status(402).json({ error: "Payment failed", details: payment.error, order: checkedOutOrder });
+      }
+
+      res.status(payment.status === "completed" ? 200 : 202).json({
+        ...(await storage.getPaymentSchedule(schedule.id)),
+        order: checkedOutOrder,
+        payment: {
+          transactionId: payment.transactionId,
+          status: payment.status,
+          paymentUrl: payment.paymentUrl,
+        },
+      });
+    } catch (error) {
+      if (error instanceof PaymentScheduleError) {
+        return res.status(error.statusCode).json({ error: error.message });
+      }
+      throw error;
+    }
+  }));
+
+  // Buyer pays a due, failed or upcoming installment now instead of waiting for the scheduler
+  app.post("/api/payment-schedules/:id/installments/:number/pay", requireAuth, requireRole('buyer', 'admin'), asyncHandler(async (req, res) => {
+    const userId = req.session.userId!;
+    const installmentNumber = parseInt(req.params.number, 10);
+
+    const schedule = await storage.getPaymentSchedule(req.params.id);
+    if (!schedule) {
+      return res.status(404).json({ error: "Payment schedule not found" });
+    }
+
+    const order = await storage.getPackageOrder(schedule.orderId);
+    if (!order) {
+      return res.status(404).json({ error: "Order not found" });
+    }
+
+    const { buyerId } = await getOrderParties(order);
+    if (req.session.role !== 'admin' && buyerId !== userId) {
+      return res.status(403).json({ error: "Not authorized to pay this installment" });
+    }
+
+    try {
+      const payment = await chargeInstallment(schedule.id, installmentNumber, userId);
+
+      if (!payment.success) {
+        return res.status(402).json({ error: "Payment failed", details: payment.error });
+      }
+
+      res.status(payment.status === "completed" ? 200 : 202).json({
+        ...(await storage.getPaymentSchedule(schedule.id)),
+        payment: {
+          transactionId: payment.transactionId,
+          status: payment.status,
+          paymentUrl: payment.paymentUrl,
+        },
+      });
+    } catch (error) {
+      if (error instanceof PaymentScheduleError) {
+        return res.status(error.statusCode).json({ error: error.message });
+      }
+      throw error;
+    }
   }));
 
-  app.get("/api/escrow/balance", requireAuth, asyncHandler(async (req, res) => {
-    res.json({ balance: 0 });
+  // Provider's funds currently held in escrow
+  app.get("/api/escrow/balance", requireAuth, requireRole('provider'), asyncHandler(async (req, res) => {
+    const userId = req.session.userId!;
+    const provider = await storage.getProviderByUserId(userId);
+    
+    if (!provider) {
+      return res.status(404).json({ error: "Provider profile not found" });
+    }
+
+    const balance = await getEscrowBalance(provider.id);
+    res.json({ balance });
   }));
 
-  app.post("/api/escrow/release", requireAuth, asyncHandler(async (req, res) => {
-    res.json({ success: true });
+  // Buyer (or admin) releases an order's held funds to the provider
+  app.post("/api/escrow/release", requireAuth, requireRole('buyer', 'admin'), asyncHandler(async (req, res) => {
+    const userId = req.session.userId!;
+    const { orderId, reason } = req.body;
+
+    if (!orderId) {
+      return res.status(400).json({ error: "orderId is required" });
+    }
+
+    const order = await storage.getPackageOrder(orderId);
+    if (!order) {
+      return res.status(404).json({ error: "Order not found" });
+    }
+
+    const parties = await getOrderParties(order);
+    const actor = getOrderActor(parties, userId, req.session.role!);
+    if (actor !== 'buyer' && actor !== 'admin') {
+      return res.status(403).json({ error: "Not authorized to release escrow for this order" });
+    }
+
+    // Releasing is accepting the delivery: the order completes and its escrow follows
+    if (order.status !== 'delivered') {
+      return res.status(409).json({ error: `Escrow is released once the order is delivered; this order is ${order.status}` });
+    }
+
+    const entries = await getHeldOrderEscrowEntries(order.id);
+    if (entries.length === 0) {
+      return res.status(404).json({ error: "No held escrow found for this order" });
+    }
+    const released = entries.reduce((sum, entry) => sum + entry.heldAmount, 0);
+
+    try {
+      await transitionOrder({ order, to: 'completed', actor, userId, parties, note: reason, req });
+    } catch (error) {
+      if (error instanceof OrderTransitionError || error instanceof EscrowFrozenError) {
+        return res.status(error.statusCode).json({ error: error.message });
+      }
+      throw error;
+    }
+
+    await logAudit({
+      userId,
+      action: AUDIT_ACTIONS.ESCROW_RELEASE,
+      resourceType: 'package_order',
+      resourceId: order.id,
+      changes: { escrowIds: entries.map((entry) => entry.id), amount: released, reason },
+      req,
+    });
+
+    res.json({ success: true, released });
   }));
 
   app.get("/api/invoices/:orderId", requireAuth, asyncHandler(async (req, res) => {
+    const order = await storage.getPackageOrder(req.params.orderId);
+    if (!order) {
+      return res.status(404).json({ error: "Order not found" });
+    }
+
+    const parties = await getOrderParties(order);
+    if (!getOrderActor(parties, req.session.userId!, req.session.role!)) {
+      return res.status(403).json({ error: "Not authorized to view this invoice" });
+    }
+
     const invoice = await storage.getInvoiceByOrderId(req.params.orderId);
     if (!invoice) {
       return res.status(404).json({ error: "Invoice not found" });
@@ -2430,10 +3597,163 @@ END:VCALENDAR`;
     res.json(invoice);
   }));
 
+  app.get("/api/invoices/:id/pdf", requireAuth, asyncHandler(async (req, res) => {
+    const invoice = await getInvoice(req.params.id);
+    if (!invoice) {
+      return res.status(404).json({ error: "Invoice not found" });
+    }
+
+    const order = await storage.getPackageOrder(invoice.orderId);
+    const parties = order ? await getOrderParties(order) : {};
+    if (!getOrderActor(parties, req.session.userId!, req.session.role!)) {
+      return res.status(403).json({ error: "Not authorized to view this invoice" });
+    }
+
+    // Renders and stores the PDF if generation failed earlier; /objects checks the PDF's ACL too
+    const pdfUrl = await ensureInvoicePdf(invoice.id);
+    res.redirect(pdfUrl);
+  }));
+
   app.post("/api/invoices/generate", requireAuth, asyncHandler(async (req, res) => {
-    const { orderId, locale, currency } = req.body;
-    const invoice = await storage.createInvoice({ orderId, locale, currency });
-    res.json(invoice);
+    const userId = req.session.userId!;
+    const { orderId, locale, currency } = z.object({
+      orderId: z.string().uuid(),
+      locale: z.enum(["fr-MA", "ar-MA", "en-US"]).optional(),
+      currency: z.enum(["MAD", "EUR"]).optional(),
+    }).parse(req.body);
+
+    const order = await storage.getPackageOrder(orderId);
+    if (!order) {
+      return res.status(404).json({ error: "Order not found" });
+    }
+
+    const parties = await getOrderParties(order);
+    if (!getOrderActor(parties, userId, req.session.role!)) {
+      return res.status(403).json({ error: "Not authorized to invoice this order" });
+    }
+
+    if (order.status === 'awaiting_payment' || order.status === 'pending' || order.status === 'cancelled') {
+      return res.status(409).json({ error: `Cannot invoice an order that is ${order.status.replace("_", " ")}` });
+    }
+
+    // Default to the buyer's language when none is requested
+    const buyer = parties.buyerId ? await storage.getUser(parties.buyerId) : undefined;
+    const buyerLocale = ["fr-MA", "ar-MA", "en-US"].includes(buyer?.locale || "")
+      ? buyer!.locale as "fr-MA" | "ar-MA" | "en-US"
+      : undefined;
+
+    const invoiceId = await generateInvoice(orderId, locale || buyerLocale, currency, userId);
+    res.json(await getInvoice(invoiceId));
+  }));
+
+  // Provider (as issuer) or admin may credit an invoice; omit amount for a full credit
+  app.post("/api/invoices/:id/credit-notes", requireAuth, requireRole('provider', 'admin'), asyncHandler(async (req, res) => {
+    const userId = req.session.userId!;
+    const { amount, reason } = z.object({
+      amount: z.number().int().positive().optional(),
+      reason: z.string().min(1).max(500),
+    }).parse(req.body);
+
+    const invoice = await getInvoice(req.params.id);
+    if (!invoice) {
+      return res.status(404).json({ error: "Invoice not found" });
+    }
+
+    const order = await storage.getPackageOrder(invoice.orderId);
+    const parties = order ? await getOrderParties(order) : {};
+    const actor = getOrderActor(parties, userId, req.session.role!);
+    if (actor !== 'admin' && actor !== 'provider') {
+      return res.status(403).json({ error: "Not authorized to credit this invoice" });
+    }
+
+    try {
+      const creditNote = await issueCreditNote({ invoiceId: invoice.id, amount, reason, userId });
+      res.json(creditNote);
+    } catch (error) {
+      if (error instanceof CreditNoteError) {
+        return res.status(409).json({ error: error.message });
+      }
+      throw error;
+    }
+  }));
+
+  app.get("/api/invoices/:id/credit-notes", requireAuth, asyncHandler(async (req, res) => {
+    const invoice = await getInvoice(req.params.id);
+    if (!invoice) {
+      return res.status(404).json({ error: "Invoice not found" });
+    }
+
+    const order = await storage.getPackageOrder(invoice.orderId);
+    const parties = order ? await getOrderParties(order) : {};
+    if (!getOrderActor(parties, req.session.userId!, req.session.role!)) {
+      return res.status(403).json({ error: "Not authorized to view this invoice" });
+    }
+
+    res.json(await getCreditNotesByInvoice(invoice.id));
+  }));
+
+  app.get("/api/credit-notes/:id/pdf", requireAuth, asyncHandler(async (req, res) => {
+    const creditNote = await getCreditNote(req.params.id);
+    if (!creditNote) {
+      return res.status(404).json({ error: "Credit note not found" });
+    }
+
+    const invoice = await getInvoice(creditNote.invoiceId);
+    const order = invoice ? await storage.getPackageOrder(invoice.orderId) : undefined;
+    const parties = order ? await getOrderParties(order) : {};
+    if (!getOrderActor(parties, req.session.userId!, req.session.role!)) {
+      return res.status(403).json({ error: "Not authorized to view this credit note" });
+    }
+
+    // Renders and stores the PDF if generation failed earlier; /objects checks the PDF's ACL too
+    const pdfUrl = await ensureCreditNotePdf(creditNote.id);
+    res.redirect(pdfUrl);
+  }));
+
+  // ===== BILLING PROFILE ROUTES =====
+  app.get("/api/billing-profile", requireAuth, asyncHandler(async (req, res) => {
+    const profile = await storage.getBillingProfile(req.session.userId!);
+    res.json(profile || null);
+  }));
+
+  app.put("/api/billing-profile", requireAuth, asyncHandler(async (req, res) => {
+    const userId = req.session.userId!;
+    const validatedData = insertBillingProfileSchema.parse({ ...req.body, userId });
+    const profile = await storage.upsertBillingProfile(validatedData);
+
+    await logAudit({
+      userId,
+      action: AUDIT_ACTIONS.BILLING_PROFILE_UPDATE,
+      resourceType: 'billing_profile',
+      resourceId: profile.id,
+      changes: validatedData,
+      req,
+    });
+
+    res.json(profile);
+  }));
+
+  // ===== OBJECT STORAGE ROUTES =====
+  // Private objects (invoices, documents) are served only if the object's ACL allows the caller
+  app.get("/objects/:objectPath(*)", requireAuth, asyncHandler(async (req, res) => {
+    const objectStorageService = new ObjectStorageService();
+    try {
+      const objectFile = await objectStorageService.getObjectEntityFile(req.path);
+      const canAccess = await objectStorageService.canAccessObjectEntity({
+        objectFile,
+        userId: req.session.userId,
+        requestedPermission: ObjectPermission.READ,
+      });
+      if (!canAccess) {
+        return res.status(403).json({ error: "Not authorized to access this file" });
+      }
+      objectStorageService.downloadObject(objectFile, res);
+    } catch (error) {
+      if (error instanceof ObjectNotFoundError) {
+        return res.status(404).json({ error: "File not found" });
+      }
+      throw error;
+    }
   }));
 
   const httpServer = createServer(app);
@@ -0,0 +1,54 @@
+// Periodic background jobs (escrow auto-release, sweepers, reconciliation)
+import { releaseDueEscrow } from "./services/escrow";
+import { processDueInstallments } from "./services/installments";
+import { expireStaleOffers } from "./services/offers";
+import { completeOverdueJobs } from "./services/job-completion";
+import { reconcilePendingPayments } from "./services/payment";
+import { runScheduledPayouts } from "./services/payouts";
+import { runSubscriptionBillingCycle } from "./services/subscription-billing";
+import { runDocumentExpiryCheck } from "./services/document-expiry";
+
+interface ScheduledJob {
+  name: string;
+  intervalMs: number;
+  run: () => Promise<unknown>;
+}
+
+const MINUTE = 60 * 1000;
+
+const JOBS: ScheduledJob[] = [
+  { name: "escrow-auto-release", intervalMs: 15 * MINUTE, run: () => releaseDueEscrow() },
+  { name: "payment-reconciliation", intervalMs: 10 * MINUTE, run: () => reconcilePendingPayments() },
+  { name: "weekly-payouts", intervalMs: 60 * MINUTE, run: () => runScheduledPayouts() },
+  { name: "installment-charges", intervalMs: 60 * MINUTE, run: () => processDueInstallments() },
+  { name: "subscription-billing", intervalMs: 60 * MINUTE, run: () => runSubscriptionBillingCycle() },
+  { name: "offer-expiry", intervalMs: 5 * MINUTE, run: () => expireStaleOffers() },
+  { name: "job-auto-completion", intervalMs: 15 * MINUTE, run: () => completeOverdueJobs() },
+  { name: "document-expiry", intervalMs: 60 * MINUTE, run: () => runDocumentExpiryCheck() },
+];
+
+// Runs each job on its own interval; a job never overlaps with itself
+export function startScheduledJobs() {
+  if (process.env.DISABLE_SCHEDULED_JOBS === "true") {
+    return;
+  }
+
+  for (const job of JOBS) {
+    let running = false;
+
+    const timer = setInterval(async () => {
+      if (running) return;
+      running = true;
+      try {
+        await job.run();
+      } catch (error) {
+        console.error(`Scheduled job "${job.name}" failed:`, error);
+      } finally {
+        running = false;
+      }
+    }, job.intervalMs);
+
+    // Don't keep the process alive just for background jobs
+    timer.unref();
+  }
+}
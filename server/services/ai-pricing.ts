@@ -1,5 +1,6 @@
 import Anthropic from "@anthropic-ai/sdk";
 import type { Job } from "../../shared/schema";
+import { calculateCompliance, calculateFit, scoreOffer as scoreOfferModel } from "../ai/scoring";
 
 /**
  * Phase 1 AI Pricing Service
@@ -189,6 +190,7 @@ export async function scoreOfferWithAI(params: {
   provider: {
     rating: string; // decimal stored as string
     verified: boolean;
+    reliability: number; // 0-1, on-time arrivals against promised ETAs (see calculateReliability)
   };
   priceBand: {
     minMAD: number;
@@ -225,10 +227,11 @@ export async function scoreOfferWithAI(params: {
 **Provider Profile:**
 - Rating: ${provider.rating}/5.0 stars
 - Verified: ${provider.verified ? 'Yes' : 'No'}
+- On-time reliability: ${provider.reliability.toFixed(2)} (0.0-1.0, tracked arrivals against promised ETAs)
 
 **Scoring Criteria:**
 1. **Price Fairness (40%)**: Is price within reasonable range?
-2. **Provider Quality (30%)**: Rating and verification status
+2. **Provider Quality (30%)**: Rating, verification status and on-time reliability
 3. **Response Time (20%)**: ETA competitiveness
 4. **Value Proposition (10%)**: Notes and overall fit
 
@@ -351,7 +354,8 @@ function scoreOfferHeuristic(params: {
   return { score, aiGenerated: false };
 }
 
-// Export scoring function for offer creation
+// Export scoring function for offer creation; without the AI, offers are ranked by the weighted
+// model in ai/scoring.ts, which accounts for the provider's on-time reliability
 export async function scoreOffer(params: {
   offer: {
     priceMad: number;
@@ -363,10 +367,15 @@ export async function scoreOffer(params: {
     city: string;
     description: string;
     budgetHintMad?: number;
+    spec?: unknown;
   };
   provider: {
     rating: string;
     verified: boolean;
+    reliability: number;
+    permits: Record<string, boolean>;
+    city?: string | null;
+    capacity?: number | null; // Passengers the provider's largest active vehicle seats
   };
   priceBand: {
     minMAD: number;
@@ -375,5 +384,20 @@ export async function scoreOffer(params: {
   };
 }): Promise<number> {
   const result = await scoreOfferWithAI(params);
-  return result.score;
+  if (result.aiGenerated) {
+    return result.score;
+  }
+
+  const { offer, job, provider, priceBand } = params;
+  return scoreOfferModel({
+    fit: calculateFit(job.spec || {}, { capacity: provider.capacity }),
+    eta: Math.min(offer.etaMin, 120) / 120, // Two hours or more counts as slowest
+    price: offer.priceMad,
+    fair: { low: priceBand.minMAD, high: priceBand.maxMAD },
+    rating: parseFloat(provider.rating) || 0,
+    reliability: provider.reliability,
+    compliance: calculateCompliance(provider.permits, provider.verified),
+    // Same city as the job is as close as we can tell without coordinates
+    distance: provider.city && job.city ? (provider.city === job.city ? 0 : 1) : 0.5,
+  });
 }
@@ -0,0 +1,373 @@
+import { db } from "../db";
+import {
+  offers,
+  jobs,
+  packageOrders,
+  trips,
+  escrowLedger,
+  type Job,
+  type Offer,
+  type PackageOrder,
+  type PaymentSchedule,
+  type Transaction,
+  type User,
+} from "../../shared/schema";
+import { and, eq, inArray } from "drizzle-orm";
+import { storage } from "../storage";
+import { logAudit, AUDIT_ACTIONS } from "../audit";
+import { holdJobPayment, holdOrderPayment } from "./escrow";
+import { notifySafely } from "./notifications";
+import { initiatePayment, type PaymentResponse } from "./payment";
+import { cancelPaymentSchedule, completeInstallmentPayment } from "./installments";
+
+/**
+ * Buyer Checkout Service - Charge buyers for accepted offers and package orders
+ * The offer (payment_pending) or order (awaiting_payment) is reserved while the PSP
+ * collects the payment, confirmed once the funds are held in escrow, and rolled back
+ * when the payment fails or is abandoned. Orders with a payment schedule only pay the
+ * deposit here; the later installments are charged by the installment scheduler.
+ */
+
+const APP_BASE_URL = process.env.APP_BASE_URL || "http://localhost:5000";
+
+export class CheckoutError extends Error {
+  constructor(message: string, public readonly statusCode: number) {
+    super(message);
+    this.name = "CheckoutError";
+    Object.setPrototypeOf(this, CheckoutError.prototype);
+  }
+}
+
+interface CheckoutMetadata {
+  offerId?: string;
+  jobId?: string;
+  orderId?: string;
+  scheduleId?: string;
+}
+
+// Reserve the offer and charge the buyer; the offer is accepted when the payment completes
+export async function startOfferCheckout(
+  offer: Offer,
+  job: Job,
+  buyer: User
+): Promise<{ offer: Offer; payment: PaymentResponse }> {
+  if (offer.status !== "pending") {
+    throw new CheckoutError(`Offer is ${offer.status.replace("_", " ")}`, 409);
+  }
+  if (job.status !== "open") {
+    throw new CheckoutError("Job is no longer open", 409);
+  }
+  if (!offer.priceMad || offer.priceMad <= 0) {
+    throw new CheckoutError("Offer has no price to pay", 400);
+  }
+  if (offer.expiresAt && offer.expiresAt <= new Date()) {
+    throw new CheckoutError("Offer has expired", 409);
+  }
+
+  // The buyer pays the offer's current (possibly counter-offered) terms
+  const { closeNegotiationForCheckout, OfferNegotiationError } = await import("./offers");
+  try {
+    await closeNegotiationForCheckout(offer.id);
+  } catch (error) {
+    if (error instanceof OfferNegotiationError) {
+      throw new CheckoutError(error.message, error.statusCode);
+    }
+    throw error;
+  }
+
+  // Only one offer per job can be in checkout at a time
+  const jobOffers = await storage.getOffersByJobId(job.id);
+  if (jobOffers.some((o) => o.status === "payment_pending")) {
+    throw new CheckoutError("Another offer for this job is awaiting payment", 409);
+  }
+
+  const [reserved] = await db
+    .update(offers)
+    .set({ status: "payment_pending" })
+    .where(and(eq(offers.id, offer.id), eq(offers.status, "pending")))
+    .returning();
+
+  if (!reserved) {
+    throw new CheckoutError("Offer is no longer available", 409);
+  }
+
+  await logAudit({
+    userId: buyer.id,
+    action: AUDIT_ACTIONS.CHECKOUT_START,
+    resourceType: "offer",
+    resourceId: offer.id,
+    changes: { jobId: job.id, amount: offer.priceMad },
+  });
+
+  // Completion and rollback run from the payment service once the PSP settles
+  const payment = await initiatePayment({
+    amountMAD: offer.priceMad,
+    providerId: offer.providerId,
+    buyerId: buyer.id,
+    type: "offer_payment",
+    metadata: { offerId: offer.id, jobId: job.id },
+    description: `Trip2work job ${job.category}`,
+    customer: { email: buyer.email || undefined },
+    returnUrl: `${APP_BASE_URL}/jobs/${job.id}`,
+  });
+
+  const current = await storage.getOffer(offer.id);
+  return { offer: current || reserved, payment };
+}
+
+// Create the order as awaiting_payment and charge the buyer (the deposit when paying by
+// schedule); it becomes pending when paid
+export async function startOrderCheckout(
+  order: PackageOrder,
+  providerId: string,
+  buyer: User,
+  schedule?: PaymentSchedule
+): Promise<{ order: PackageOrder; payment: PaymentResponse }> {
+  const deposit = schedule?.installments.find((installment) => installment.installmentNumber === 1);
+  const amountMAD = deposit ? deposit.amountMad : order.totalPriceMad;
+
+  await logAudit({
+    userId: buyer.id,
+    action: AUDIT_ACTIONS.CHECKOUT_START,
+    resourceType: "package_order",
+    resourceId: order.id,
+    changes: { amount: amountMAD, scheduleId: schedule?.id },
+  });
+
+  const payment = await initiatePayment({
+    amountMAD,
+    providerId,
+    buyerId: buyer.id,
+    type: "order_payment",
+    metadata: deposit
+      ? { orderId: order.id, scheduleId: schedule!.id, installmentNumber: deposit.installmentNumber }
+      : { orderId: order.id },
+    description: deposit ? `Trip2work order ${order.tier} deposit` : `Trip2work order ${order.tier}`,
+    customer: { email: buyer.email || undefined },
+    returnUrl: `${APP_BASE_URL}/orders`,
+  });
+
+  const current = await storage.getPackageOrder(order.id);
+  return { order: current || order, payment };
+}
+
+// Completed offer payment: accept the offer, hold the funds and close the job to other offers.
+// Each step is safe to repeat, so a retry after a failed side effect resumes where it stopped
+export async function completeOfferPayment(transaction: Transaction): Promise<void> {
+  const { offerId, jobId } = (transaction.metadata as CheckoutMetadata | null) || {};
+  if (!offerId || !jobId) {
+    return;
+  }
+
+  // Claim the job first so a late capture can't accept a second offer
+  const [claimed] = await db
+    .update(jobs)
+    .set({ status: "accepted" })
+    .where(and(eq(jobs.id, jobId), eq(jobs.status, "open")))
+    .returning();
+  const claimedJob = !!claimed;
+
+  const job = claimed || (await resumableOfferJob(transaction, jobId, offerId));
+  if (!job) {
+    await refundUnclaimedPayment(transaction, "Job is no longer open");
+    return;
+  }
+
+  // A resumed run finds its offer already accepted
+  const [offer] = await db
+    .update(offers)
+    .set({ status: "accepted" })
+    .where(and(
+      eq(offers.id, offerId),
+      inArray(offers.status, claimedJob ? ["payment_pending", "pending"] : ["accepted"])
+    ))
+    .returning();
+
+  if (!offer) {
+    await db.update(jobs).set({ status: "open" }).where(and(eq(jobs.id, jobId), eq(jobs.status, "accepted")));
+    await refundUnclaimedPayment(transaction, "Offer is no longer available");
+    return;
+  }
+
+  await holdJobPayment(jobId, transaction.id);
+
+  // Phase 1: Process commission and record earnings (once per offer)
+  const { processOfferAcceptance } = await import("./commission");
+  const fee = (await storage.getPlatformFeeByOfferId(offerId)) || (await processOfferAcceptance(offerId)).platformFee;
+
+  // Decline other offers for this job
+  const otherOffers = await storage.getOffersByJobId(jobId);
+  await Promise.all(
+    otherOffers
+      .filter((o) => o.id !== offerId && o.status === "pending")
+      .map((o) => storage.updateOffer(o.id, { status: "declined" }))
+  );
+
+  // The trip the provider carries out; completed when the buyer confirms the job
+  const [trip] = await db.select().from(trips).where(eq(trips.jobId, jobId));
+  if (!trip) {
+    await storage.createTrip({ jobId, offerId, providerId: offer.providerId, buyerId: job.buyerId });
+  }
+
+  await logAudit({
+    userId: transaction.buyerId || undefined,
+    action: AUDIT_ACTIONS.OFFER_ACCEPT,
+    resourceType: "offer",
+    resourceId: offerId,
+    changes: {
+      jobId,
+      status: "accepted",
+      transactionId: transaction.id,
+      platformCommission: fee.commissionAmountMad,
+      providerNet: fee.providerNetMad,
+      commissionRate: parseFloat(fee.commissionRate),
+    },
+  });
+
+  const provider = await storage.getProvider(offer.providerId);
+  if (provider) {
+    await notifySafely(provider.userId, {
+      eventType: "offer_accepted",
+      title: "Offer accepted",
+      message: `Your offer of ${offer.priceMad} MAD was accepted and paid. The funds are held until the job is completed.`,
+      data: { offerId, jobId, amountMad: transaction.amountMad },
+    });
+  }
+}
+
+// Completed order payment: hold the funds and release the order to the provider
+export async function completeOrderPayment(transaction: Transaction): Promise<void> {
+  const metadata = (transaction.metadata as CheckoutMetadata | null) || {};
+  const { orderId } = metadata;
+  if (!orderId) {
+    return;
+  }
+
+  const order = await storage.getPackageOrder(orderId);
+  if (!order) {
+    return;
+  }
+
+  if (order.status === "cancelled") {
+    await refundUnclaimedPayment(transaction, "Order was cancelled before the payment completed");
+    return;
+  }
+
+  const [confirmed] = await db
+    .update(packageOrders)
+    .set({ status: "pending", updatedAt: new Date() })
+    .where(and(eq(packageOrders.id, orderId), eq(packageOrders.status, "awaiting_payment")))
+    .returning();
+
+  await holdOrderPayment(orderId, transaction.id);
+
+  // The commission is fixed when the order is paid and withheld at payout
+  const { recordOrderPlatformFee } = await import("./commission");
+  await recordOrderPlatformFee(confirmed || order);
+
+  // Deposit of a payment schedule: the later installments are now owed
+  if (metadata.scheduleId) {
+    await completeInstallmentPayment(transaction);
+  }
+
+  if (!confirmed) {
+    return;
+  }
+
+  await logAudit({
+    userId: transaction.buyerId || undefined,
+    action: AUDIT_ACTIONS.ORDER_STATUS_CHANGE,
+    resourceType: "package_order",
+    resourceId: orderId,
+    changes: { from: "awaiting_payment", to: "pending", transactionId: transaction.id },
+  });
+
+  const provider = await storage.getProvider(transaction.providerId);
+  if (provider) {
+    await notifySafely(provider.userId, {
+      eventType: "order_status",
+      title: "New order",
+      message: `A new ${confirmed.tier} order of ${confirmed.totalPriceMad} MAD has been paid and is waiting for you to start.`,
+      data: { orderId, status: "pending", previousStatus: "awaiting_payment" },
+    });
+  }
+}
+
+// Failed or abandoned buyer payment: give the offer back or cancel the unpaid order
+export async function rollbackCheckout(transaction: Transaction, reason: string): Promise<void> {
+  const metadata = (transaction.metadata as CheckoutMetadata | null) || {};
+
+  if (transaction.type === "offer_payment" && metadata.offerId) {
+    const [offer] = await db
+      .update(offers)
+      .set({ status: "pending" })
+      .where(and(eq(offers.id, metadata.offerId), eq(offers.status, "payment_pending")))
+      .returning();
+
+    if (offer) {
+      await logAudit({
+        userId: transaction.buyerId || undefined,
+        action: AUDIT_ACTIONS.CHECKOUT_ROLLBACK,
+        resourceType: "offer",
+        resourceId: offer.id,
+        changes: { transactionId: transaction.id, status: "pending", reason },
+      });
+    }
+  }
+
+  if (transaction.type === "order_payment" && metadata.orderId) {
+    const [order] = await db
+      .update(packageOrders)
+      .set({ status: "cancelled", updatedAt: new Date() })
+      .where(and(eq(packageOrders.id, metadata.orderId), eq(packageOrders.status, "awaiting_payment")))
+      .returning();
+
+    if (order) {
+      await storage.updateJob(order.jobId, { status: "cancelled" });
+
+      if (metadata.scheduleId) {
+        await cancelPaymentSchedule(metadata.scheduleId, reason, transaction.buyerId || undefined);
+      }
+
+      await logAudit({
+        userId: transaction.buyerId || undefined,
+        action: AUDIT_ACTIONS.CHECKOUT_ROLLBACK,
+        resourceType: "package_order",
+        resourceId: order.id,
+        changes: { transactionId: transaction.id, status: "cancelled", reason },
+      });
+    }
+  }
+
+  if (transaction.buyerId) {
+    await notifySafely(transaction.buyerId, {
+      eventType: "payment_failed",
+      title: "Payment not completed",
+      message: `Your payment of ${transaction.amountMad} MAD did not go through (${reason}). Nothing was charged.`,
+      data: { transactionId: transaction.id, ...metadata },
+    });
+  }
+}
+
+// The job was already claimed: by this payment's own earlier, interrupted run (resume it), or by
+// another offer (the payment is refunded). Only this offer, accepted, with no other payment held
+async function resumableOfferJob(transaction: Transaction, jobId: string, offerId: string): Promise<Job | undefined> {
+  const job = await storage.getJob(jobId);
+  const offer = await storage.getOffer(offerId);
+  if (job?.status !== "accepted" || offer?.status !== "accepted") {
+    return undefined;
+  }
+
+  const held = await db.select().from(escrowLedger).where(eq(escrowLedger.jobId, jobId));
+  return held.every((entry) => entry.transactionId === transaction.id) ? job : undefined;
+}
+
+// Money arrived for something that can no longer be fulfilled: send it straight back
+async function refundUnclaimedPayment(transaction: Transaction, reason: string): Promise<void> {
+  try {
+    const { refundPayment } = await import("./payment");
+    await refundPayment(transaction.id, reason);
+  } catch (error) {
+    console.error(`Failed to refund unclaimed payment ${transaction.id}:`, error);
+  }
+}
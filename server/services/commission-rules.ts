@@ -0,0 +1,208 @@
+import { db } from "../db";
+import {
+  commissionRules,
+  partnerTiers,
+  type CommissionRule,
+  type CommissionRuleInput,
+  type PartnerTier,
+  type ProviderSubscription,
+} from "../../shared/schema";
+import { and, asc, desc, eq, gt, isNull, lte, or } from "drizzle-orm";
+import { logAudit, AUDIT_ACTIONS } from "../audit";
+
+/**
+ * Commission Rules - Admin-managed commission rates
+ * A rule matches on category, city, partner tier, subscription tier and provider (each optional)
+ * within an optional date range for promotions. The active matching rule with the highest
+ * priority fires; sales no rule matches keep the built-in rates (calculateCommission).
+ */
+
+export class CommissionRuleError extends Error {
+  constructor(message: string, public readonly statusCode: number) {
+    super(message);
+    this.name = "CommissionRuleError";
+    Object.setPrototypeOf(this, CommissionRuleError.prototype);
+  }
+}
+
+// What a rule is matched against
+export interface CommissionContext {
+  providerId: string;
+  category: string;
+  city: string | null;
+  subscriptionTier: ProviderSubscription["tier"];
+  partnerTiers: PartnerTier["tier"][]; // Partner tiers valid at `at`
+  at: Date;
+}
+
+export interface CommissionRuleEvaluation {
+  ruleId: string;
+  name: string;
+  priority: number;
+  matched: boolean;
+  mismatches: string[];
+}
+
+function normalizeCity(city: string | null): string {
+  return (city || "").trim().toLowerCase();
+}
+
+// Why a rule does not apply; empty when it matches
+function ruleMismatches(rule: CommissionRule, context: CommissionContext): string[] {
+  const mismatches: string[] = [];
+
+  if (rule.category && rule.category !== context.category) {
+    mismatches.push(`category is ${context.category}, rule needs ${rule.category}`);
+  }
+  if (rule.city && normalizeCity(rule.city) !== normalizeCity(context.city)) {
+    mismatches.push(`city is ${context.city || "unknown"}, rule needs ${rule.city}`);
+  }
+  if (rule.partnerTier && !context.partnerTiers.includes(rule.partnerTier)) {
+    mismatches.push(`provider has no ${rule.partnerTier} partner tier`);
+  }
+  if (rule.subscriptionTier && rule.subscriptionTier !== context.subscriptionTier) {
+    mismatches.push(`subscription is ${context.subscriptionTier}, rule needs ${rule.subscriptionTier}`);
+  }
+  if (rule.providerId && rule.providerId !== context.providerId) {
+    mismatches.push("override for another provider");
+  }
+  if (rule.validFrom && context.at < rule.validFrom) {
+    mismatches.push(`starts ${rule.validFrom.toISOString()}`);
+  }
+  if (rule.validUntil && context.at >= rule.validUntil) {
+    mismatches.push(`ended ${rule.validUntil.toISOString()}`);
+  }
+
+  return mismatches;
+}
+
+// Partner tiers in force for a provider at a given time
+export async function getActivePartnerTiers(providerId: string, at: Date = new Date()): Promise<PartnerTier["tier"][]> {
+  const rows = await db
+    .select({ tier: partnerTiers.tier })
+    .from(partnerTiers)
+    .where(and(
+      eq(partnerTiers.providerId, providerId),
+      lte(partnerTiers.validFrom, at),
+      or(isNull(partnerTiers.validUntil), gt(partnerTiers.validUntil, at))
+    ));
+
+  return Array.from(new Set(rows.map((row) => row.tier)));
+}
+
+// Evaluate active rules in priority order (oldest first on ties); the first match fires
+export async function findCommissionRule(
+  context: CommissionContext
+): Promise<{ rule: CommissionRule | null; evaluations: CommissionRuleEvaluation[] }> {
+  const rules = await db
+    .select()
+    .from(commissionRules)
+    .where(eq(commissionRules.active, true))
+    .orderBy(desc(commissionRules.priority), asc(commissionRules.createdAt));
+
+  let fired: CommissionRule | null = null;
+  const evaluations = rules.map((rule) => {
+    const mismatches = ruleMismatches(rule, context);
+    const matched = mismatches.length === 0;
+    if (matched && !fired) {
+      fired = rule;
+    }
+    return { ruleId: rule.id, name: rule.name, priority: rule.priority, matched, mismatches };
+  });
+
+  return { rule: fired, evaluations };
+}
+
+function assertValidRule(rule: CommissionRuleInput): void {
+  if (rule.validFrom && rule.validUntil && rule.validFrom >= rule.validUntil) {
+    throw new CommissionRuleError("validFrom must be before validUntil", 400);
+  }
+  if (rule.ruleType === "promotion" && !rule.validUntil) {
+    throw new CommissionRuleError("Promotions need a validUntil date", 400);
+  }
+  if (rule.ruleType === "provider_override" && !rule.providerId) {
+    throw new CommissionRuleError("Provider overrides need a providerId", 400);
+  }
+}
+
+function toRuleValues(rule: CommissionRuleInput) {
+  return {
+    ...rule,
+    commissionRate: rule.commissionRate.toString(),
+  };
+}
+
+function toRuleInput(rule: CommissionRule): CommissionRuleInput {
+  return {
+    name: rule.name,
+    description: rule.description,
+    ruleType: rule.ruleType,
+    priority: rule.priority,
+    commissionRate: parseFloat(rule.commissionRate),
+    category: rule.category,
+    city: rule.city,
+    partnerTier: rule.partnerTier,
+    subscriptionTier: rule.subscriptionTier,
+    providerId: rule.providerId,
+    validFrom: rule.validFrom,
+    validUntil: rule.validUntil,
+    active: rule.active,
+  };
+}
+
+export async function listCommissionRules(): Promise<CommissionRule[]> {
+  return db
+    .select()
+    .from(commissionRules)
+    .orderBy(desc(commissionRules.active), desc(commissionRules.priority), asc(commissionRules.createdAt));
+}
+
+export async function createCommissionRule(input: CommissionRuleInput, userId: string): Promise<CommissionRule> {
+  assertValidRule(input);
+
+  const [rule] = await db
+    .insert(commissionRules)
+    .values({ ...toRuleValues(input), createdBy: userId })
+    .returning();
+
+  await logAudit({
+    userId,
+    action: AUDIT_ACTIONS.COMMISSION_RULE_CREATE,
+    resourceType: "commission_rule",
+    resourceId: rule.id,
+    changes: { ...input },
+  });
+
+  return rule;
+}
+
+// Rules are never deleted, since platform fees point at them; deactivate them instead
+export async function updateCommissionRule(
+  ruleId: string,
+  changes: Partial<CommissionRuleInput>,
+  userId: string
+): Promise<CommissionRule> {
+  const [existing] = await db.select().from(commissionRules).where(eq(commissionRules.id, ruleId));
+  if (!existing) {
+    throw new CommissionRuleError("Commission rule not found", 404);
+  }
+
+  const merged = { ...toRuleInput(existing), ...changes };
+  assertValidRule(merged);
+
+  const [rule] = await db
+    .update(commissionRules)
+    .set({ ...toRuleValues(merged), updatedAt: new Date() })
+    .where(eq(commissionRules.id, ruleId))
+    .returning();
+
+  await logAudit({
+    userId,
+    action: AUDIT_ACTIONS.COMMISSION_RULE_UPDATE,
+    resourceType: "commission_rule",
+    resourceId: rule.id,
+    changes: { ...changes },
+  });
+
+  return rule;
+}
@@ -6,21 +6,82 @@ import {
   offers,
   jobs,
   providers,
+  servicePackages,
   COMMISSION_CONFIG,
   SUBSCRIPTION_TIERS,
+  DAY_MS,
   type InsertPlatformFee,
   type InsertProviderEarning,
   type InsertProviderSubscription,
+  type CommissionRule,
   type Job,
+  type Offer,
+  type PackageOrder,
+  type PlatformFee,
+  type ProviderSubscription,
 } from "../../shared/schema";
-import { eq, and, gte } from "drizzle-orm";
-import { logAudit } from "../audit";
+import { eq, and, gte, isNull } from "drizzle-orm";
+import { logAudit, AUDIT_ACTIONS } from "../audit";
+import { notifyUser } from "./notifications";
+import {
+  findCommissionRule,
+  getActivePartnerTiers,
+  type CommissionContext,
+  type CommissionRuleEvaluation,
+} from "./commission-rules";
 
 /**
  * Phase 1 Commission Service
  * Handles subscription tiers, free offer limits, and commission calculations
+ * (the renewal schedule lives in subscription-billing.ts, admin rate rules in commission-rules.ts)
  */
 
+type PaidTier = "basic" | "pro";
+
+// Tier order, to tell upgrades from downgrades
+const TIER_RANK: Record<ProviderSubscription["tier"], number> = { free: 0, basic: 1, pro: 2 };
+
+// Days an expired auto-renewing subscription keeps its tier while the renewal payment completes
+const SUBSCRIPTION_RENEWAL_GRACE_DAYS = parseInt(process.env.SUBSCRIPTION_RENEWAL_GRACE_DAYS || "3", 10);
+
+export interface SubscriptionQuote {
+  kind: "new" | "upgrade" | "downgrade" | "unchanged";
+  tier: PaidTier;
+  grossMad: number; // Prorated price before credit
+  creditAppliedMad: number; // Existing proration credit used towards the charge
+  creditAddedMad: number; // Unused value of the old tier credited by a downgrade
+  chargeMad: number; // What the provider pays now
+  expiresAt: Date; // End of the cycle once the change is applied
+}
+
+// A quote as stored on the payment for it, with the subscription state it was priced against
+export interface StoredSubscriptionQuote extends Omit<SubscriptionQuote, "expiresAt"> {
+  expiresAt: string;
+  basis: { tier: ProviderSubscription["tier"]; expiresAt: string | null };
+}
+
+export function storeSubscriptionQuote(subscription: ProviderSubscription, quote: SubscriptionQuote): StoredSubscriptionQuote {
+  return {
+    ...quote,
+    expiresAt: quote.expiresAt.toISOString(),
+    basis: { tier: subscription.tier, expiresAt: subscription.subscriptionExpiresAt?.toISOString() ?? null },
+  };
+}
+
+// The quote still prices the change: same tier and cycle as when it was made, and the cycle it
+// prorates against has not ended in the meantime
+function quoteStillApplies(subscription: ProviderSubscription, quote: StoredSubscriptionQuote, now: Date): boolean {
+  return quote.basis.tier === subscription.tier
+    && quote.basis.expiresAt === (subscription.subscriptionExpiresAt?.toISOString() ?? null)
+    && new Date(quote.expiresAt) > now;
+}
+
+function addCycle(date: Date): Date {
+  const next = new Date(date);
+  next.setMonth(next.getMonth() + 1); // Monthly billing cycle
+  return next;
+}
+
 // Get or create provider subscription (auto-creates on first call)
 export async function getOrCreateSubscription(providerId: string) {
   const [existing] = await db
@@ -54,9 +115,196 @@ export async function getOrCreateSubscription(providerId: string) {
   return created;
 }
 
+export function isSubscriptionActive(subscription: ProviderSubscription, now: Date = new Date()): boolean {
+  return subscription.tier !== "free"
+    && !!subscription.subscriptionExpiresAt
+    && subscription.subscriptionExpiresAt > now;
+}
+
+// Price of a tier for what is left of the current cycle
+function unusedCycleValue(subscription: ProviderSubscription, tier: PaidTier, now: Date): number {
+  const { subscriptionStartedAt: startedAt, subscriptionExpiresAt: expiresAt } = subscription;
+  if (!startedAt || !expiresAt || expiresAt <= now) {
+    return 0;
+  }
+
+  const cycleMs = expiresAt.getTime() - startedAt.getTime();
+  const remainingMs = Math.min(expiresAt.getTime() - now.getTime(), cycleMs);
+  return Math.round((SUBSCRIPTION_TIERS[tier].priceMAD * remainingMs) / cycleMs);
+}
+
+// Cost of moving to a tier now: a full cycle from free or a lapsed subscription, the prorated
+// price difference on a mid-cycle upgrade, a prorated credit on a mid-cycle downgrade
+export function quoteSubscriptionChange(
+  subscription: ProviderSubscription,
+  tier: PaidTier,
+  now: Date = new Date()
+): SubscriptionQuote {
+  const charge = (grossMad: number) => {
+    const creditAppliedMad = Math.min(subscription.prorationCreditMad, grossMad);
+    return { grossMad, creditAppliedMad, chargeMad: grossMad - creditAppliedMad };
+  };
+
+  if (!isSubscriptionActive(subscription, now)) {
+    return { kind: "new", tier, creditAddedMad: 0, expiresAt: addCycle(now), ...charge(SUBSCRIPTION_TIERS[tier].priceMAD) };
+  }
+
+  const currentTier = subscription.tier as PaidTier;
+  const expiresAt = subscription.subscriptionExpiresAt!;
+
+  if (tier === currentTier) {
+    return { kind: "unchanged", tier, grossMad: 0, creditAppliedMad: 0, creditAddedMad: 0, chargeMad: 0, expiresAt };
+  }
+
+  const difference = unusedCycleValue(subscription, tier, now) - unusedCycleValue(subscription, currentTier, now);
+
+  if (TIER_RANK[tier] > TIER_RANK[currentTier]) {
+    return { kind: "upgrade", tier, creditAddedMad: 0, expiresAt, ...charge(difference) };
+  }
+
+  return { kind: "downgrade", tier, grossMad: 0, creditAppliedMad: 0, creditAddedMad: -difference, chargeMad: 0, expiresAt };
+}
+
+// Next cycle of the current tier, less any proration credit
+export function quoteSubscriptionRenewal(subscription: ProviderSubscription): SubscriptionQuote {
+  const tier = subscription.tier as PaidTier;
+  const grossMad = SUBSCRIPTION_TIERS[tier].priceMAD;
+  const creditAppliedMad = Math.min(subscription.prorationCreditMad, grossMad);
+
+  return {
+    kind: "unchanged",
+    tier,
+    grossMad,
+    creditAppliedMad,
+    creditAddedMad: 0,
+    chargeMad: grossMad - creditAppliedMad,
+    expiresAt: addCycle(subscription.subscriptionExpiresAt || new Date()),
+  };
+}
+
+// Enforce the billing cycle: lapse expired subscriptions and open a new monthly offer window
+export async function refreshSubscriptionCycle(
+  subscription: ProviderSubscription,
+  now: Date = new Date()
+): Promise<ProviderSubscription> {
+  if (subscription.tier === "free") {
+    return subscription;
+  }
+
+  const expiresAt = subscription.subscriptionExpiresAt;
+  if (!expiresAt || expiresAt <= now) {
+    // Auto-renewing subscriptions keep their tier while the renewal payment is collected
+    const graceEndsAt = (expiresAt?.getTime() || 0) + SUBSCRIPTION_RENEWAL_GRACE_DAYS * DAY_MS;
+    if (subscription.autoRenew && now.getTime() < graceEndsAt) {
+      return subscription;
+    }
+    return lapseSubscription(subscription, subscription.autoRenew ? "Renewal payment not received" : "Subscription expired");
+  }
+
+  const windowStart = subscription.offerCounterResetAt || subscription.subscriptionStartedAt;
+  if (!windowStart || addCycle(windowStart) > now) {
+    return subscription;
+  }
+
+  let nextWindow = windowStart;
+  while (addCycle(nextWindow) <= now) {
+    nextWindow = addCycle(nextWindow);
+  }
+
+  // Conditional on the window we read, so concurrent refreshes reset once
+  const [reset] = await db
+    .update(providerSubscriptions)
+    .set({ paidOffersSubmitted: 0, offerCounterResetAt: nextWindow, updatedAt: now })
+    .where(and(
+      eq(providerSubscriptions.id, subscription.id),
+      subscription.offerCounterResetAt
+        ? eq(providerSubscriptions.offerCounterResetAt, subscription.offerCounterResetAt)
+        : isNull(providerSubscriptions.offerCounterResetAt)
+    ))
+    .returning();
+
+  if (!reset) {
+    return getOrCreateSubscription(subscription.providerId);
+  }
+
+  await logAudit({
+    userId: undefined,
+    action: AUDIT_ACTIONS.SUBSCRIPTION_COUNTER_RESET,
+    resourceType: "provider_subscription",
+    resourceId: subscription.id,
+    changes: {
+      tier: subscription.tier,
+      previousPaidOffersSubmitted: subscription.paidOffersSubmitted,
+      windowStart: nextWindow.toISOString(),
+    },
+  });
+
+  return reset;
+}
+
+// Drop an unpaid subscription back to the free tier
+export async function lapseSubscription(
+  subscription: ProviderSubscription,
+  reason: string
+): Promise<ProviderSubscription> {
+  const [lapsed] = await db
+    .update(providerSubscriptions)
+    .set({
+      tier: "free",
+      commissionRate: null,
+      paidOffersSubmitted: 0,
+      offerCounterResetAt: null,
+      autoRenew: false,
+      renewalTransactionId: null,
+      updatedAt: new Date(),
+    })
+    .where(and(
+      eq(providerSubscriptions.id, subscription.id),
+      eq(providerSubscriptions.tier, subscription.tier)
+    ))
+    .returning();
+
+  if (!lapsed) {
+    return getOrCreateSubscription(subscription.providerId);
+  }
+
+  await logAudit({
+    userId: undefined,
+    action: AUDIT_ACTIONS.SUBSCRIPTION_LAPSE,
+    resourceType: "provider_subscription",
+    resourceId: subscription.id,
+    changes: {
+      previousTier: subscription.tier,
+      newTier: "free",
+      expiredAt: subscription.subscriptionExpiresAt?.toISOString(),
+      reason,
+    },
+  });
+
+  const [provider] = await db
+    .select()
+    .from(providers)
+    .where(eq(providers.id, subscription.providerId));
+
+  if (provider) {
+    try {
+      await notifyUser(provider.userId, {
+        eventType: "subscription_lapsed",
+        title: "Subscription ended",
+        message: `Your ${SUBSCRIPTION_TIERS[subscription.tier].name} subscription has ended (${reason}). You are back on the ${SUBSCRIPTION_TIERS.free.name} plan.`,
+        data: { providerId: subscription.providerId, previousTier: subscription.tier, reason },
+      });
+    } catch (error) {
+      console.error(`Failed to notify provider ${provider.id} of lapsed subscription:`, error);
+    }
+  }
+
+  return lapsed;
+}
+
 // Check if provider can submit an offer
 export async function canProviderSubmitOffer(providerId: string) {
-  const subscription = await getOrCreateSubscription(providerId);
+  const subscription = await refreshSubscriptionCycle(await getOrCreateSubscription(providerId));
 
   const result = {
     allowed: false,
@@ -182,9 +430,55 @@ export function calculateCommission(
   };
 }
 
-// Process offer acceptance: Record commission and earnings
-export async function processOfferAcceptance(offerId: string) {
-  // Get offer with job and provider data
+export interface CommissionResolution {
+  commission: ReturnType<typeof calculateCommission>;
+  rule: CommissionRule | null; // Null when the built-in rates applied
+  context: CommissionContext;
+  evaluations: CommissionRuleEvaluation[];
+}
+
+// Commission on a provider's sale: the highest-priority matching rule, else the built-in rates
+export async function resolveCommission(
+  grossAmountMad: number,
+  sale: { providerId: string; category: string; city: string | null; at?: Date }
+): Promise<CommissionResolution> {
+  const at = sale.at || new Date();
+  const subscription = await getOrCreateSubscription(sale.providerId);
+  const context: CommissionContext = {
+    providerId: sale.providerId,
+    category: sale.category,
+    city: sale.city,
+    subscriptionTier: subscription.tier,
+    partnerTiers: await getActivePartnerTiers(sale.providerId, at),
+    at,
+  };
+
+  const { rule, evaluations } = await findCommissionRule(context);
+  if (!rule) {
+    return {
+      commission: calculateCommission(grossAmountMad, sale.category as Job["category"], subscription.tier),
+      rule: null,
+      context,
+      evaluations,
+    };
+  }
+
+  const commissionRate = parseFloat(rule.commissionRate);
+  const commissionAmountMad = Math.round(grossAmountMad * commissionRate);
+  return {
+    commission: {
+      grossAmountMad,
+      commissionRate,
+      commissionAmountMad,
+      providerNetMad: grossAmountMad - commissionAmountMad,
+    },
+    rule,
+    context,
+    evaluations,
+  };
+}
+
+async function loadOfferWithJob(offerId: string): Promise<{ offer: Offer; job: Job }> {
   const [offer] = await db
     .select()
     .from(offers)
@@ -203,15 +497,33 @@ export async function processOfferAcceptance(offerId: string) {
     throw new Error("Job not found");
   }
 
-  // Get provider subscription
-  const subscription = await getOrCreateSubscription(offer.providerId);
+  return { offer, job };
+}
 
-  // Calculate commission
-  const commission = calculateCommission(
-    offer.priceMad || 0,
-    job.category,
-    subscription.tier
-  );
+async function resolveOfferCommission(offer: Offer, job: Job, at?: Date): Promise<CommissionResolution> {
+  const [provider] = await db.select().from(providers).where(eq(providers.id, offer.providerId));
+  return resolveCommission(offer.priceMad || 0, {
+    providerId: offer.providerId,
+    category: job.category,
+    city: job.city || provider?.city || null,
+    at,
+  });
+}
+
+// Dry run: the commission an offer would be charged and which rule fires, without recording anything
+export async function previewOfferCommission(offerId: string, at?: Date) {
+  const { offer, job } = await loadOfferWithJob(offerId);
+  const resolution = await resolveOfferCommission(offer, job, at);
+  return { offerId: offer.id, jobId: job.id, ...resolution };
+}
+
+// Process offer acceptance: Record commission and earnings on the offer's price, which is the
+// accepted counter-offer's price when the terms were negotiated
+export async function processOfferAcceptance(offerId: string) {
+  const { offer, job } = await loadOfferWithJob(offerId);
+
+  // Calculate commission from the commission rules
+  const { commission, rule, context } = await resolveOfferCommission(offer, job);
 
   // Record platform fee
   const platformFee: InsertPlatformFee = {
@@ -222,13 +534,9 @@ export async function processOfferAcceptance(offerId: string) {
     commissionRate: commission.commissionRate.toString(),
     commissionAmountMad: commission.commissionAmountMad,
     providerNetMad: commission.providerNetMad,
+    commissionRuleId: rule?.id ?? null,
   };
 
-  const [createdFee] = await db
-    .insert(platformFees)
-    .values(platformFee)
-    .returning();
-
   // Record provider earnings
   const earning: InsertProviderEarning = {
     providerId: offer.providerId,
@@ -239,15 +547,17 @@ export async function processOfferAcceptance(offerId: string) {
     netAmountMad: commission.providerNetMad,
   };
 
-  const [createdEarning] = await db
-    .insert(providerEarnings)
-    .values(earning)
-    .returning();
+  // Together, so a retried acceptance finds both or neither
+  const { createdFee, createdEarning } = await db.transaction(async (tx) => {
+    const [createdFee] = await tx.insert(platformFees).values(platformFee).returning();
+    const [createdEarning] = await tx.insert(providerEarnings).values(earning).returning();
+    return { createdFee, createdEarning };
+  });
 
   // Audit log
   await logAudit({
     userId: undefined,
-    action: "commission_calculated",
+    action: AUDIT_ACTIONS.COMMISSION_CALCULATE,
     resourceType: "platform_fee",
     resourceId: createdFee.id,
     changes: {
@@ -257,7 +567,9 @@ export async function processOfferAcceptance(offerId: string) {
       commission: commission.commissionAmountMad,
       net: commission.providerNetMad,
       rate: commission.commissionRate,
-      tier: subscription.tier,
+      tier: context.subscriptionTier,
+      ruleId: rule?.id ?? null,
+      agreedRevisionId: offer.agreedRevisionId,
     },
   });
 
@@ -265,44 +577,162 @@ export async function processOfferAcceptance(offerId: string) {
     platformFee: createdFee,
     providerEarning: createdEarning,
     commission,
+    rule,
+  };
+}
+
+// Record the commission on a paid package order, from the rule that matched the order when it
+// was placed; payouts withhold it from each released payment. Once per order
+export async function recordOrderPlatformFee(order: PackageOrder): Promise<PlatformFee | undefined> {
+  const [existing] = await db.select().from(platformFees).where(eq(platformFees.orderId, order.id));
+  if (existing) {
+    return existing;
+  }
+
+  const [pkg] = await db.select().from(servicePackages).where(eq(servicePackages.id, order.packageId));
+  if (!pkg) {
+    return undefined;
+  }
+  const [job] = await db.select().from(jobs).where(eq(jobs.id, order.jobId));
+
+  const { commission, rule } = await resolveCommission(order.totalPriceMad, {
+    providerId: pkg.providerId,
+    category: pkg.category,
+    city: job?.city || null,
+    at: order.createdAt,
+  });
+
+  const platformFee: InsertPlatformFee = {
+    orderId: order.id,
+    jobId: order.jobId,
+    providerId: pkg.providerId,
+    grossAmountMad: commission.grossAmountMad,
+    commissionRate: commission.commissionRate.toString(),
+    commissionAmountMad: commission.commissionAmountMad,
+    providerNetMad: commission.providerNetMad,
+    commissionRuleId: rule?.id ?? null,
   };
+
+  const [createdFee] = await db
+    .insert(platformFees)
+    .values(platformFee)
+    .onConflictDoNothing({ target: platformFees.orderId })
+    .returning();
+
+  if (!createdFee) {
+    const [recorded] = await db.select().from(platformFees).where(eq(platformFees.orderId, order.id));
+    return recorded;
+  }
+
+  await logAudit({
+    userId: undefined,
+    action: AUDIT_ACTIONS.COMMISSION_CALCULATE,
+    resourceType: "platform_fee",
+    resourceId: createdFee.id,
+    changes: {
+      orderId: order.id,
+      providerId: pkg.providerId,
+      gross: commission.grossAmountMad,
+      commission: commission.commissionAmountMad,
+      net: commission.providerNetMad,
+      rate: commission.commissionRate,
+      ruleId: rule?.id ?? null,
+    },
+  });
+
+  return createdFee;
+}
+
+// Close the order's fee with the order: collected from the released funds, or failed when the
+// buyer got everything back
+export async function settleOrderPlatformFee(orderId: string, collected: boolean): Promise<void> {
+  await db
+    .update(platformFees)
+    .set(collected ? { status: "collected", paidAt: new Date() } : { status: "failed" })
+    .where(and(eq(platformFees.orderId, orderId), eq(platformFees.status, "pending")));
 }
 
-// Upgrade subscription
+// Apply a paid (or fully credited) subscription change. New subscriptions and renewals start a
+// new cycle and reset the monthly counter; mid-cycle upgrades and downgrades keep the cycle,
+// with the prorated difference charged up front or credited to the next charge.
+// The change is applied as quoted when it was paid; when the subscription changed in between
+// (another purchase, a renewal, the cycle ended) it is priced again and paid from the amount
+// charged, any surplus credited, or the payment refunded when it no longer buys the change.
 export async function upgradeSubscription(
   providerId: string,
   newTier: "basic" | "pro",
-  transactionId?: string
+  transactionId?: string,
+  options: { renewal?: boolean; quote?: StoredSubscriptionQuote; creditAppliedMad?: number } = {}
 ) {
   const subscription = await getOrCreateSubscription(providerId);
 
   const tierConfig = SUBSCRIPTION_TIERS[newTier];
   const now = new Date();
-  const expiresAt = new Date(now);
-  expiresAt.setMonth(expiresAt.getMonth() + 1); // 1 month subscription
+
+  // A renewal only extends the tier still in force; after a lapse it is a new subscription
+  const renewal = !!options.renewal && subscription.tier === newTier && !!subscription.subscriptionExpiresAt;
+  let quote = renewal ? quoteSubscriptionRenewal(subscription) : quoteSubscriptionChange(subscription, newTier, now);
+  let creditAppliedMad = options.creditAppliedMad || 0;
+  let creditSurplusMad = 0;
+
+  const paid = options.quote;
+  if (paid && quoteStillApplies(subscription, paid, now)) {
+    quote = { ...paid, expiresAt: new Date(paid.expiresAt) };
+    creditAppliedMad = paid.creditAppliedMad;
+  } else if (paid) {
+    creditAppliedMad = Math.max(0, quote.grossMad - paid.chargeMad);
+    creditSurplusMad = Math.max(0, paid.chargeMad - quote.grossMad);
+
+    if (renewal || quote.kind === "unchanged" || quote.kind === "downgrade"
+      || creditAppliedMad > subscription.prorationCreditMad) {
+      await refundUnappliedSubscriptionPayment(subscription, newTier, transactionId, paid);
+      return null;
+    }
+  }
+
+  const newCycle = renewal || quote.kind === "new";
+
+  const startedAt = renewal
+    ? subscription.subscriptionExpiresAt!
+    : newCycle ? now : subscription.subscriptionStartedAt || now;
+  const expiresAt = quote.expiresAt;
+
+  const prorationCreditMad = Math.max(
+    0,
+    subscription.prorationCreditMad - creditAppliedMad + quote.creditAddedMad + creditSurplusMad
+  );
 
   await db
     .update(providerSubscriptions)
     .set({
       tier: newTier,
       commissionRate: tierConfig.commissionRate?.toString() || null,
-      subscriptionStartedAt: now,
+      subscriptionStartedAt: startedAt,
       subscriptionExpiresAt: expiresAt,
-      paidOffersSubmitted: 0, // Reset monthly counter
+      ...(newCycle ? { paidOffersSubmitted: 0, offerCounterResetAt: startedAt } : {}), // Reset monthly counter
+      prorationCreditMad,
+      renewalTransactionId: null,
       updatedAt: now,
     })
     .where(eq(providerSubscriptions.providerId, providerId));
 
   await logAudit({
     userId: undefined,
-    action: "subscription_upgraded",
+    action: renewal
+      ? AUDIT_ACTIONS.SUBSCRIPTION_RENEW
+      : quote.kind === "downgrade" ? AUDIT_ACTIONS.SUBSCRIPTION_DOWNGRADE : AUDIT_ACTIONS.SUBSCRIPTION_UPGRADE,
     resourceType: "provider_subscription",
     resourceId: subscription.id,
     changes: {
       previousTier: subscription.tier,
       newTier,
+      kind: renewal ? "renewal" : quote.kind,
       transactionId,
+      startedAt: startedAt.toISOString(),
       expiresAt: expiresAt.toISOString(),
+      creditAppliedMad,
+      creditAddedMad: quote.creditAddedMad + creditSurplusMad,
+      prorationCreditMad,
     },
   });
 
@@ -310,9 +740,53 @@ export async function upgradeSubscription(
     tier: newTier,
     expiresAt,
     commissionRate: tierConfig.commissionRate,
+    prorationCreditMad,
   };
 }
 
+// A subscription payment that no longer buys the change it was quoted for goes back to the provider
+async function refundUnappliedSubscriptionPayment(
+  subscription: ProviderSubscription,
+  tier: PaidTier,
+  transactionId: string | undefined,
+  quote: StoredSubscriptionQuote
+): Promise<void> {
+  await logAudit({
+    userId: undefined,
+    action: AUDIT_ACTIONS.SUBSCRIPTION_PAYMENT_REFUND,
+    resourceType: "provider_subscription",
+    resourceId: subscription.id,
+    changes: {
+      tier,
+      kind: quote.kind,
+      transactionId,
+      chargeMad: quote.chargeMad,
+      quotedFromTier: quote.basis.tier,
+      currentTier: subscription.tier,
+    },
+  });
+
+  if (!transactionId) {
+    return;
+  }
+
+  // A refunded renewal no longer blocks the next one
+  await db
+    .update(providerSubscriptions)
+    .set({ renewalTransactionId: null, updatedAt: new Date() })
+    .where(and(
+      eq(providerSubscriptions.id, subscription.id),
+      eq(providerSubscriptions.renewalTransactionId, transactionId)
+    ));
+
+  try {
+    const { refundPayment } = await import("./payment");
+    await refundPayment(transactionId, "Subscription changed before the payment completed");
+  } catch (error) {
+    console.error(`Failed to refund unapplied subscription payment ${transactionId}:`, error);
+  }
+}
+
 // Get provider's earnings summary
 export async function getProviderEarningsSummary(providerId: string) {
   const earnings = await db
@@ -0,0 +1,234 @@
+import type { ContactLeakKind } from "../../shared/schema";
+
+/**
+ * Contact Detection - Finds phone numbers, emails and WhatsApp links in free text
+ * Covers Moroccan numbers (+212 / 00212 / 05-06-07...), plain and "at"/"dot" emails and
+ * wa.me / whatsapp.com links, including digits spelled out in French, English or Arabic,
+ * French pairs of digits ("zéro six douze trente-quatre...") and digits split by spaces,
+ * dots or dashes. Used to keep deals on the platform.
+ */
+
+export interface ContactMatch {
+  kind: ContactLeakKind;
+  start: number;
+  end: number;
+  text: string;
+  obfuscated: boolean;
+}
+
+export const CONTACT_MASK = "[•••]";
+
+// Spelled-out digits, compared without accents, harakat/hamza and case
+const DIGIT_WORDS: Record<string, string> = {
+  // French
+  zero: "0", un: "1", deux: "2", trois: "3", quatre: "4", cinq: "5", six: "6", sept: "7", huit: "8", neuf: "9",
+  // English
+  oh: "0", one: "1", two: "2", three: "3", four: "4", five: "5", seven: "7", eight: "8", nine: "9",
+  // Arabic
+  "صفر": "0", "واحد": "1", "اثنين": "2", "اثنان": "2", "ثلاثة": "3", "ثلاث": "3", "اربعة": "4", "اربع": "4",
+  "خمسة": "5", "خمس": "5", "ستة": "6", "ست": "6", "سبعة": "7", "سبع": "7",
+  "ثمانية": "8", "ثمان": "8", "تسعة": "9", "تسع": "9",
+};
+
+// French numbers from ten up, as phone numbers are read out two digits at a time; the units
+// complete them: "trente-quatre" 34, "soixante-dix-sept" 77, "quatre-vingt-un" 81, "vingt et un" 21
+const FRENCH_NUMBER_WORDS: Record<string, number> = {
+  dix: 10, onze: 11, douze: 12, treize: 13, quatorze: 14, quinze: 15, seize: 16,
+  vingt: 20, vingts: 20, trente: 30, quarante: 40, cinquante: 50, soixante: 60,
+};
+// Between the parts of a French number: "trente-quatre", "trente quatre", "vingt et un"
+const FRENCH_NUMBER_JOIN = /^(?:[\s-]*|[\s-]+et[\s-]+)$/i;
+
+const PLUS_WORDS = new Set(["+", "plus", "زائد"]);
+
+// Characters people put between digits to dodge filters
+const DIGIT_SEPARATOR = /^[\s.\-_/\\()*,|~]*$/;
+// Numerals (Western and Arabic-Indic), a plus sign, or a Latin/Arabic word
+const DIGIT_TOKEN = /[0-9٠-٩۰-۹]+|\+|[A-Za-zÀ-ÖØ-öø-ÿ\u0621-\u065f\u0670-\u06d3]+/g;
+
+// +212 6XXXXXXXX, 00212..., 212..., 06XXXXXXXX; landlines (05) included
+const MOROCCAN_PHONE = /^(?:00212|212|0)[5-7]\d{8}$/;
+const MAX_PHONE_DIGITS = 14;
+
+const EMAIL = /[a-z0-9._%+-]+@[a-z0-9-]+(?:\.[a-z0-9-]+)*\.[a-z]{2,}/gi;
+
+const AT = String.raw`\s*(?:\[\s*(?:at|@)\s*\]|\(\s*(?:at|@)\s*\)|\{\s*(?:at|@)\s*\})\s*|\s+(?:at|arobase|arrobase|chez|@)\s+`;
+const DOT = String.raw`\s*(?:\[\s*(?:dot|point|\.)\s*\]|\(\s*(?:dot|point|\.)\s*\))\s*|\s+(?:dot|point|نقطة)\s+`;
+const OBFUSCATED_EMAIL = new RegExp(
+  String.raw`[a-z0-9._%+-]+(?:(?:${DOT})[a-z0-9._%+-]+)*(?:${AT})[a-z0-9-]+(?:(?:${DOT})[a-z0-9-]+)*(?:${DOT})(?:com|ma|fr|net|org|io|co|me|info|biz)\b`,
+  "gi"
+);
+
+const WHATSAPP_LINK = /(?:https?:\/\/)?(?:wa\.me|api\.whatsapp\.com|chat\.whatsapp\.com|(?:web\.)?whatsapp\.com\/send)\S*/gi;
+
+function normalizeWord(word: string): string {
+  return word.normalize("NFD").replace(/[\u0300-\u036f\u064b-\u065f\u0670]/g, "").toLowerCase();
+}
+
+function toAsciiDigits(digits: string): string {
+  return digits.replace(/[٠-٩۰-۹]/g, (char) => String(char.charCodeAt(0) & 0xf));
+}
+
+// Digits a token stands for, "" for a plus sign, null if it isn't part of a number
+function tokenDigits(token: string): string | null {
+  if (/^[0-9٠-٩۰-۹]+$/.test(token)) {
+    return toAsciiDigits(token);
+  }
+  const word = normalizeWord(token);
+  if (PLUS_WORDS.has(word)) {
+    return "";
+  }
+  if (word in FRENCH_NUMBER_WORDS) {
+    return String(FRENCH_NUMBER_WORDS[word]);
+  }
+  // Arabic "and" is written attached: وستة
+  return DIGIT_WORDS[word] ?? (word.startsWith("و") ? DIGIT_WORDS[word.slice(1)] ?? null : null);
+}
+
+interface DigitToken {
+  start: number;
+  end: number;
+  digits: string;
+  spelled: boolean;
+  word?: string; // Normalized, for spelled tokens
+}
+
+// Fold a spelled token into the French number before it ("soixante" + "douze" = 72); false when
+// the two don't form one number
+function joinFrenchNumber(previous: DigitToken, word: string, end: number): boolean {
+  const value = parseInt(previous.digits, 10);
+  let joined: number | null = null;
+
+  if (previous.word === "quatre" && (word === "vingt" || word === "vingts")) {
+    joined = 80;
+  } else if (previous.spelled && previous.digits.length === 2 && value % 10 === 0) {
+    const next = FRENCH_NUMBER_WORDS[word] ?? (DIGIT_WORDS[word] ? parseInt(DIGIT_WORDS[word], 10) : 0);
+    if (next >= 1 && next <= 9) {
+      joined = value + next;
+    } else if ((value === 60 || value === 80) && next >= 10 && next <= 16) {
+      joined = value + next;
+    }
+  }
+
+  if (joined === null) {
+    return false;
+  }
+  previous.digits = String(joined);
+  previous.word = joined % 10 === 0 ? word : undefined;
+  previous.end = end;
+  return true;
+}
+
+// Runs of consecutive digit tokens (numerals or digit words) separated only by filler characters
+function findDigitRuns(text: string): DigitToken[][] {
+  const runs: DigitToken[][] = [];
+  let current: DigitToken[] = [];
+
+  for (const match of Array.from(text.matchAll(DIGIT_TOKEN))) {
+    const start = match.index!;
+    const digits = tokenDigits(match[0]);
+    const previous = current[current.length - 1];
+    const word = normalizeWord(match[0]);
+
+    if (digits !== null && previous?.spelled && FRENCH_NUMBER_JOIN.test(text.slice(previous.end, start))
+      && joinFrenchNumber(previous, word, start + match[0].length)) {
+      continue;
+    }
+    // "vingt et un": the "et" belongs to the number
+    if (word === "et" && previous?.word && /^[2-6]0$/.test(previous.digits)
+      && FRENCH_NUMBER_JOIN.test(text.slice(previous.end, start))) {
+      continue;
+    }
+
+    if (digits === null || (previous && !DIGIT_SEPARATOR.test(text.slice(previous.end, start)))) {
+      if (current.length > 0) runs.push(current);
+      current = [];
+    }
+    if (digits !== null) {
+      const spelled = !/^[0-9٠-٩۰-۹+]+$/.test(match[0]);
+      current.push({ start, end: start + match[0].length, digits, spelled, word: spelled ? word : undefined });
+    }
+  }
+  if (current.length > 0) runs.push(current);
+
+  return runs;
+}
+
+// Phone numbers must start and end on token boundaries, so "600 700 800 900" isn't read as 0700800900
+function findPhones(text: string): ContactMatch[] {
+  const phones: ContactMatch[] = [];
+
+  for (const run of findDigitRuns(text)) {
+    let i = 0;
+    while (i < run.length) {
+      let digits = "";
+      let end = -1;
+      for (let j = i; j < run.length && digits.length <= MAX_PHONE_DIGITS; j++) {
+        digits += run[j].digits;
+        if (MOROCCAN_PHONE.test(digits)) {
+          end = j;
+          break;
+        }
+      }
+
+      if (end === -1) {
+        i++;
+        continue;
+      }
+
+      const tokens = run.slice(i, end + 1);
+      const singleDigits = tokens.filter((token) => token.digits.length === 1).length;
+      phones.push({
+        kind: "phone",
+        start: run[i].start,
+        end: run[end].end,
+        text: text.slice(run[i].start, run[end].end),
+        // Spelled-out digits, or a number broken into single digits
+        obfuscated: tokens.some((token) => token.spelled) || singleDigits >= 3,
+      });
+      i = end + 1;
+    }
+  }
+
+  return phones;
+}
+
+function findPattern(text: string, pattern: RegExp, kind: ContactLeakKind, obfuscated: boolean): ContactMatch[] {
+  return Array.from(text.matchAll(pattern)).map((match) => ({
+    kind,
+    start: match.index!,
+    end: match.index! + match[0].length,
+    text: match[0],
+    obfuscated,
+  }));
+}
+
+// Contact details in the text, in order; overlapping matches (a number inside a wa.me link) are merged
+export function detectContactInfo(text: string): ContactMatch[] {
+  const matches = [
+    ...findPattern(text, WHATSAPP_LINK, "whatsapp", false),
+    ...findPattern(text, EMAIL, "email", false),
+    ...findPattern(text, OBFUSCATED_EMAIL, "email", true),
+    ...findPhones(text),
+  ].sort((a, b) => a.start - b.start || (b.end - b.start) - (a.end - a.start));
+
+  const kept: ContactMatch[] = [];
+  for (const match of matches) {
+    const previous = kept[kept.length - 1];
+    if (previous && match.start < previous.end) {
+      previous.end = Math.max(previous.end, match.end);
+      previous.text = text.slice(previous.start, previous.end);
+      continue;
+    }
+    kept.push({ ...match });
+  }
+  return kept;
+}
+
+export function maskContactInfo(text: string, matches: ContactMatch[]): string {
+  let masked = text;
+  for (const match of [...matches].sort((a, b) => b.start - a.start)) {
+    masked = masked.slice(0, match.start) + CONTACT_MASK + masked.slice(match.end);
+  }
+  return masked;
+}
@@ -0,0 +1,244 @@
+import { db } from "../db";
+import { invoices, creditNotes, type CreditNote, type Invoice } from "../../shared/schema";
+import { eq, desc } from "drizzle-orm";
+import { logAudit, AUDIT_ACTIONS } from "../audit";
+import { ObjectStorageService } from "../objectStorage";
+import {
+  calculateVAT,
+  getInvoice,
+  getInvoiceByOrderId,
+  nextDocumentNumber,
+  summarizeVat,
+  buildDocumentAclPolicy,
+  type DbTransaction,
+  type InvoiceMetadata,
+} from "./invoice";
+import { renderInvoicePdf, type InvoiceLine } from "./invoice-pdf";
+
+/**
+ * Credit Note Service - Avoirs against issued invoices
+ * Full or partial credits reverse VAT, use their own gap-free series (CN-2025-000001)
+ * and are issued automatically when an invoiced order is refunded or cancelled
+ */
+
+export class CreditNoteError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "CreditNoteError";
+    Object.setPrototypeOf(this, CreditNoteError.prototype);
+  }
+}
+
+export async function getCreditNotesByInvoice(invoiceId: string): Promise<CreditNote[]> {
+  return db
+    .select()
+    .from(creditNotes)
+    .where(eq(creditNotes.invoiceId, invoiceId))
+    .orderBy(desc(creditNotes.createdAt));
+}
+
+export async function getCreditNote(creditNoteId: string): Promise<CreditNote | null> {
+  const [creditNote] = await db
+    .select()
+    .from(creditNotes)
+    .where(eq(creditNotes.id, creditNoteId));
+
+  return creditNote || null;
+}
+
+// What can still be credited on an invoice (excluding and including VAT)
+export async function getCreditableBalance(
+  invoice: Invoice,
+  executor: typeof db | DbTransaction = db
+): Promise<{ subtotal: number; vatAmount: number }> {
+  const existing = await executor
+    .select({ subtotal: creditNotes.subtotal, vatAmount: creditNotes.vatAmount })
+    .from(creditNotes)
+    .where(eq(creditNotes.invoiceId, invoice.id));
+
+  return {
+    subtotal: invoice.subtotal - existing.reduce((total, note) => total + note.subtotal, 0),
+    vatAmount: invoice.vatAmount - existing.reduce((total, note) => total + note.vatAmount, 0),
+  };
+}
+
+// Issue a credit note; omit `amount` (excl. VAT, invoice currency) to credit the full remaining balance
+export async function issueCreditNote(params: {
+  invoiceId: string;
+  reason: string;
+  amount?: number;
+  userId?: string;
+}): Promise<CreditNote> {
+  const { invoiceId, reason, amount, userId } = params;
+
+  const { creditNote, invoice } = await db.transaction(async (tx) => {
+    // The invoice row is locked so concurrent credits see each other's balance
+    const [invoice] = await tx
+      .select()
+      .from(invoices)
+      .where(eq(invoices.id, invoiceId))
+      .for("update");
+    if (!invoice) {
+      throw new Error('Invoice not found');
+    }
+
+    const remaining = await getCreditableBalance(invoice, tx);
+    if (remaining.subtotal <= 0) {
+      throw new CreditNoteError('Invoice has already been fully credited');
+    }
+
+    const subtotal = amount ?? remaining.subtotal;
+    if (subtotal <= 0 || subtotal > remaining.subtotal) {
+      throw new CreditNoteError(`Credit amount must be between 1 and ${remaining.subtotal} ${invoice.currency}`);
+    }
+
+    const fullCredit = subtotal === remaining.subtotal;
+    const metadata = invoice.metadata as InvoiceMetadata;
+
+    // A full credit of an untouched invoice mirrors its lines; anything else is a single adjustment line
+    const lines: InvoiceLine[] = fullCredit && remaining.subtotal === invoice.subtotal
+      ? metadata.lines
+      : [{
+          description: `${fullCredit ? 'Balance' : 'Partial'} credit on ${invoice.invoiceNumber}`,
+          quantity: 1,
+          unitPrice: subtotal,
+          vatRate: metadata.lines[0]?.vatRate ?? 0.20,
+          amount: subtotal,
+          // The last credit takes whatever VAT is left so rounding never leaves a residue
+          vatAmount: fullCredit ? remaining.vatAmount : calculateVAT(subtotal),
+        }];
+
+    const vatAmount = lines.reduce((total, line) => total + line.vatAmount, 0);
+    const creditNoteNumber = await nextDocumentNumber(tx, 'CN');
+
+    const [created] = await tx
+      .insert(creditNotes)
+      .values({
+        invoiceId,
+        creditNoteNumber,
+        reason,
+        locale: invoice.locale,
+        currency: invoice.currency,
+        subtotal,
+        vatAmount,
+        total: subtotal + vatAmount,
+        pdfUrl: null,
+        metadata: {
+          buyerUserId: metadata.buyerUserId,
+          providerUserId: metadata.providerUserId,
+          seller: metadata.seller,
+          buyer: metadata.buyer,
+          lines,
+          vatBreakdown: summarizeVat(lines),
+        },
+        createdBy: userId || null,
+      })
+      .returning();
+
+    await tx
+      .update(invoices)
+      .set({ status: fullCredit ? 'cancelled' : 'partially_credited' })
+      .where(eq(invoices.id, invoiceId));
+
+    return { creditNote: created, invoice };
+  });
+
+  try {
+    await ensureCreditNotePdf(creditNote.id);
+  } catch (error) {
+    console.error(`Failed to render PDF for credit note ${creditNote.creditNoteNumber}:`, error);
+  }
+
+  await logAudit({
+    userId,
+    action: AUDIT_ACTIONS.CREDIT_NOTE_ISSUE,
+    resourceType: 'credit_note',
+    resourceId: creditNote.id,
+    changes: {
+      invoiceId,
+      invoiceNumber: invoice.invoiceNumber,
+      creditNoteNumber: creditNote.creditNoteNumber,
+      total: creditNote.total,
+      reason,
+    },
+  });
+
+  return creditNote;
+}
+
+// Credit what was refunded on an order (MAD), or whatever is left on its invoice when no amount
+// is given; no-op if the order was never invoiced
+export async function creditOrderInvoice(orderId: string, reason: string, refundedMad?: number): Promise<CreditNote | null> {
+  const invoice = await getInvoiceByOrderId(orderId);
+  if (!invoice) {
+    return null;
+  }
+
+  const remaining = await getCreditableBalance(invoice);
+  if (remaining.subtotal <= 0) {
+    return null;
+  }
+
+  // Refunds are in MAD while the invoice may be in EUR
+  const { exchangeRate } = invoice.metadata as InvoiceMetadata;
+  const amount = refundedMad === undefined ? undefined : Math.round(refundedMad * (exchangeRate || 1));
+  if (amount === 0) {
+    return null;
+  }
+
+  // Anything reaching the remaining balance credits it in full so no VAT residue is left
+  return issueCreditNote({
+    invoiceId: invoice.id,
+    reason,
+    amount: amount !== undefined && amount < remaining.subtotal ? amount : undefined,
+  });
+}
+
+// Render and store the credit note PDF if it hasn't been stored yet; returns its /objects path
+export async function ensureCreditNotePdf(creditNoteId: string): Promise<string> {
+  const creditNote = await getCreditNote(creditNoteId);
+  if (!creditNote) {
+    throw new Error('Credit note not found');
+  }
+
+  if (creditNote.pdfUrl) {
+    return creditNote.pdfUrl;
+  }
+
+  const invoice = await getInvoice(creditNote.invoiceId);
+  if (!invoice) {
+    throw new Error('Invoice not found');
+  }
+
+  const metadata = creditNote.metadata as InvoiceMetadata;
+  const pdf = await renderInvoicePdf({
+    kind: 'credit_note',
+    number: creditNote.creditNoteNumber,
+    issueDate: creditNote.createdAt,
+    locale: creditNote.locale,
+    currency: creditNote.currency,
+    seller: metadata.seller,
+    buyer: metadata.buyer,
+    lines: metadata.lines,
+    vatBreakdown: metadata.vatBreakdown,
+    subtotal: creditNote.subtotal,
+    vatAmount: creditNote.vatAmount,
+    total: creditNote.total,
+    reference: invoice.invoiceNumber,
+    notes: creditNote.reason,
+  });
+
+  const pdfUrl = await new ObjectStorageService().uploadObjectEntity({
+    entityId: `credit-notes/${creditNote.creditNoteNumber}.pdf`,
+    data: pdf,
+    contentType: 'application/pdf',
+    aclPolicy: buildDocumentAclPolicy(metadata),
+  });
+
+  await db
+    .update(creditNotes)
+    .set({ pdfUrl })
+    .where(eq(creditNotes.id, creditNote.id));
+
+  return pdfUrl;
+}
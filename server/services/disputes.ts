@@ -0,0 +1,635 @@
+import { randomUUID } from "crypto";
+import { db } from "../db";
+import {
+  bleisureBookings,
+  disputeMessages,
+  disputes,
+  escrowLedger,
+  jobs,
+  offers,
+  packageOrders,
+  type BleisureBooking,
+  type Dispute,
+  type DisputeMessage,
+  type DisputeSubjectType,
+  type EscrowLedger,
+  type Job,
+  type MessageAttachment,
+  type OpenDispute,
+  type PackageOrder,
+  type ResolveDispute,
+} from "../../shared/schema";
+import { and, asc, desc, eq, inArray, ne, or } from "drizzle-orm";
+import { storage } from "../storage";
+import { logAudit, queryAuditTrail, AUDIT_ACTIONS } from "../audit";
+import {
+  freezeEscrow,
+  refundEscrow,
+  refundOrderEscrow,
+  releaseFromEscrow,
+  releaseOrderEscrow,
+  splitEscrow,
+} from "./escrow";
+import { settleOrderPlatformFee } from "./commission";
+import { closeDisputedJob } from "./job-completion";
+import { ALLOWED_ATTACHMENT_TYPES } from "./messaging";
+import { notifySafely } from "./notifications";
+import { ObjectStorageService, ObjectNotFoundError } from "../objectStorage";
+import {
+  ObjectAccessGroupType,
+  ObjectPermission,
+  getObjectAclPolicy,
+  setObjectAclPolicy,
+  type ObjectAclPolicy,
+} from "../objectAcl";
+
+/**
+ * Dispute Center - Contested jobs, package orders and bleisure bookings, mediated by an admin
+ * Either party opens a dispute with a reason code and evidence; the subject's held escrow is
+ * frozen and jobs and orders move to "disputed". Both parties and the admin mediator discuss it
+ * in a thread with evidence files. The mediator settles it with a full refund, a partial split or
+ * a release to the provider: refunds go back through the PSP and the escrow ledger records who got
+ * what. Every step is written to the audit log under the dispute.
+ * Bleisure bookings are not paid through escrow; their outcome is recorded on the booking and
+ * any refund is paid out by the operator.
+ */
+
+const DISPUTE_EVIDENCE_MAX_BYTES = parseInt(process.env.DISPUTE_EVIDENCE_MAX_MB || "10", 10) * 1024 * 1024;
+
+// Subject statuses a dispute can be opened from
+const DISPUTABLE_STATUSES: Record<DisputeSubjectType, string[]> = {
+  job: ["accepted", "delivered"],
+  package_order: ["pending", "in_progress", "delivered", "revision", "on_hold"],
+  bleisure_booking: ["confirmed", "completed"],
+};
+
+export class DisputeError extends Error {
+  constructor(message: string, public readonly statusCode: number) {
+    super(message);
+    this.name = "DisputeError";
+    Object.setPrototypeOf(this, DisputeError.prototype);
+  }
+}
+
+export type DisputeMessageWithSender = DisputeMessage & { senderName: string };
+
+export interface DisputeDetail {
+  dispute: Dispute;
+  messages: DisputeMessageWithSender[];
+}
+
+// The subject's status keeps the type of its own table
+type DisputeSubject = {
+  buyerId: string;
+  providerUserId: string;
+  priceMad: number;
+} & (
+  | { subjectType: "job"; status: Job["status"] }
+  | { subjectType: "package_order"; status: PackageOrder["status"] }
+  | { subjectType: "bleisure_booking"; status: BleisureBooking["status"] }
+);
+
+// The buyer, provider and price behind a disputed record
+async function loadSubject(subjectType: DisputeSubjectType, subjectId: string): Promise<DisputeSubject> {
+  if (subjectType === "job") {
+    const job = await storage.getJob(subjectId);
+    const [offer] = job
+      ? await db.select().from(offers).where(and(eq(offers.jobId, job.id), eq(offers.status, "accepted")))
+      : [];
+    const provider = offer ? await storage.getProvider(offer.providerId) : undefined;
+    if (!job || !offer || !provider) {
+      throw new DisputeError("Job not found or has no accepted offer", 404);
+    }
+    return { subjectType, buyerId: job.buyerId, providerUserId: provider.userId, status: job.status, priceMad: offer.priceMad || 0 };
+  }
+
+  if (subjectType === "package_order") {
+    const order = await storage.getPackageOrder(subjectId);
+    const job = order ? await storage.getJob(order.jobId) : undefined;
+    const pkg = order ? await storage.getServicePackage(order.packageId) : undefined;
+    const provider = pkg ? await storage.getProvider(pkg.providerId) : undefined;
+    if (!order || !job || !provider) {
+      throw new DisputeError("Order not found", 404);
+    }
+    return { subjectType, buyerId: job.buyerId, providerUserId: provider.userId, status: order.status, priceMad: order.totalPriceMad };
+  }
+
+  const booking = await storage.getBleisureBooking(subjectId);
+  const pkg = booking ? await storage.getBleisurePackage(booking.packageId) : undefined;
+  const provider = pkg ? await storage.getProvider(pkg.providerId) : undefined;
+  if (!booking || !provider) {
+    throw new DisputeError("Booking not found", 404);
+  }
+  return { subjectType, buyerId: booking.userId, providerUserId: provider.userId, status: booking.status, priceMad: booking.totalCostMad };
+}
+
+// Move a job or order to "disputed", unless it changed status in the meantime
+async function markSubjectDisputed(subjectId: string, subject: DisputeSubject): Promise<boolean> {
+  if (subject.subjectType === "job") {
+    const [updated] = await db
+      .update(jobs)
+      .set({ status: "disputed", confirmationDueAt: null })
+      .where(and(eq(jobs.id, subjectId), eq(jobs.status, subject.status)))
+      .returning();
+    return !!updated;
+  }
+
+  if (subject.subjectType === "package_order") {
+    const [updated] = await db
+      .update(packageOrders)
+      .set({ status: "disputed", updatedAt: new Date() })
+      .where(and(eq(packageOrders.id, subjectId), eq(packageOrders.status, subject.status)))
+      .returning();
+    return !!updated;
+  }
+
+  return true;
+}
+
+function partyRole(dispute: Dispute, userId: string): "buyer" | "provider" | null {
+  if (dispute.buyerId === userId) return "buyer";
+  if (dispute.providerUserId === userId) return "provider";
+  return null;
+}
+
+export async function isDisputeParticipant(disputeId: string, userId: string): Promise<boolean> {
+  const [dispute] = await db.select().from(disputes).where(eq(disputes.id, disputeId));
+  return !!dispute && (partyRole(dispute, userId) !== null || dispute.mediatorId === userId);
+}
+
+async function loadDispute(disputeId: string, userId: string, role?: string): Promise<Dispute> {
+  const [dispute] = await db.select().from(disputes).where(eq(disputes.id, disputeId));
+  if (!dispute) {
+    throw new DisputeError("Dispute not found", 404);
+  }
+  if (role !== "admin" && !partyRole(dispute, userId)) {
+    throw new DisputeError("Only the parties to this dispute and admins can access it", 403);
+  }
+  return dispute;
+}
+
+// Signed URL the client PUTs an evidence file to before attaching it
+export async function createEvidenceUploadUrl(): Promise<string> {
+  return new ObjectStorageService().getObjectEntityUploadURL();
+}
+
+// Take ownership of an uploaded evidence file and scope its ACL to the dispute
+async function claimEvidence(
+  disputeId: string,
+  senderId: string,
+  evidence: { url: string; name: string }
+): Promise<MessageAttachment> {
+  const objectStorageService = new ObjectStorageService();
+  const objectPath = objectStorageService.normalizeObjectEntityPath(evidence.url);
+  if (!objectPath.startsWith("/objects/uploads/")) {
+    throw new DisputeError("Evidence must be uploaded through the evidence upload URL", 400);
+  }
+
+  let objectFile;
+  try {
+    objectFile = await objectStorageService.getObjectEntityFile(objectPath);
+  } catch (error) {
+    if (error instanceof ObjectNotFoundError) {
+      throw new DisputeError(`Evidence ${evidence.name} was not uploaded`, 400);
+    }
+    throw error;
+  }
+
+  const existingPolicy = await getObjectAclPolicy(objectFile);
+  const scopedHere = existingPolicy?.aclRules?.some((rule) =>
+    rule.group.type === ObjectAccessGroupType.DISPUTE && rule.group.id === disputeId
+  );
+  if (existingPolicy && (existingPolicy.owner !== senderId || !scopedHere)) {
+    throw new DisputeError(`Evidence ${evidence.name} can't be shared in this dispute`, 403);
+  }
+
+  const [metadata] = await objectFile.getMetadata();
+  const sizeBytes = Number(metadata.size || 0);
+  const contentType = metadata.contentType || "application/octet-stream";
+
+  if (sizeBytes > DISPUTE_EVIDENCE_MAX_BYTES) {
+    throw new DisputeError(`Evidence ${evidence.name} is larger than ${DISPUTE_EVIDENCE_MAX_BYTES / 1024 / 1024} MB`, 400);
+  }
+  if (!ALLOWED_ATTACHMENT_TYPES.some((pattern) => pattern.test(contentType))) {
+    throw new DisputeError(`Evidence of type ${contentType} is not allowed`, 400);
+  }
+
+  const aclPolicy: ObjectAclPolicy = {
+    owner: senderId,
+    visibility: "private",
+    aclRules: [
+      { group: { type: ObjectAccessGroupType.DISPUTE, id: disputeId }, permission: ObjectPermission.READ },
+      { group: { type: ObjectAccessGroupType.ROLE, id: "admin" }, permission: ObjectPermission.READ },
+    ],
+  };
+  await setObjectAclPolicy(objectFile, aclPolicy);
+
+  return { url: objectPath, name: evidence.name, contentType, sizeBytes };
+}
+
+async function claimAllEvidence(
+  disputeId: string,
+  senderId: string,
+  evidence: OpenDispute["evidence"]
+): Promise<MessageAttachment[]> {
+  const claimed: MessageAttachment[] = [];
+  for (const file of evidence) {
+    claimed.push(await claimEvidence(disputeId, senderId, file));
+  }
+  return claimed;
+}
+
+async function withSenderName(message: DisputeMessage): Promise<DisputeMessageWithSender> {
+  const sender = await storage.getUser(message.senderId);
+  return { ...message, senderName: sender?.email || 'Unknown' };
+}
+
+// Either party: contest a job, order or booking; the funds held for it are frozen
+export async function openDispute(input: OpenDispute, userId: string): Promise<Dispute> {
+  const subject = await loadSubject(input.subjectType, input.subjectId);
+  const openerRole = subject.buyerId === userId ? "buyer" : subject.providerUserId === userId ? "provider" : null;
+  if (!openerRole) {
+    throw new DisputeError("Only the buyer and the provider can dispute this", 403);
+  }
+  if (!DISPUTABLE_STATUSES[input.subjectType].includes(subject.status)) {
+    throw new DisputeError(`Cannot dispute a ${input.subjectType.replace("_", " ")} that is ${subject.status}`, 409);
+  }
+
+  const [unresolved] = await db
+    .select({ id: disputes.id })
+    .from(disputes)
+    .where(and(
+      eq(disputes.subjectType, input.subjectType),
+      eq(disputes.subjectId, input.subjectId),
+      ne(disputes.status, "resolved")
+    ));
+  if (unresolved) {
+    throw new DisputeError("There is already an open dispute for this", 409);
+  }
+
+  // Evidence is claimed before anything changes, so a bad upload leaves no half-opened dispute
+  const disputeId = randomUUID();
+  const evidence = await claimAllEvidence(disputeId, userId, input.evidence);
+
+  if (!(await markSubjectDisputed(input.subjectId, subject))) {
+    throw new DisputeError("This changed status while the dispute was being opened; please try again", 409);
+  }
+
+  const [dispute] = await db
+    .insert(disputes)
+    .values({
+      id: disputeId,
+      subjectType: input.subjectType,
+      subjectId: input.subjectId,
+      openedBy: userId,
+      buyerId: subject.buyerId,
+      providerUserId: subject.providerUserId,
+      reasonCode: input.reasonCode,
+      description: input.description,
+      amountMad: subject.priceMad,
+      subjectStatus: subject.status,
+    })
+    .returning()
+    .catch((error) => {
+      // The partial unique index lets only one unresolved dispute per subject through
+      if (error.code === "23505") {
+        throw new DisputeError("There is already an open dispute for this", 409);
+      }
+      throw error;
+    });
+
+  let frozen: EscrowLedger[] = [];
+  if (input.subjectType !== "bleisure_booking") {
+    frozen = await freezeEscrow(
+      input.subjectType === "job" ? { jobId: input.subjectId } : { orderId: input.subjectId },
+      dispute.id
+    );
+  }
+
+  // What is at stake is what the buyer actually paid into escrow, when they did
+  const heldMad = frozen.reduce((sum, entry) => sum + entry.heldAmount, 0);
+  const [opened] = heldMad > 0
+    ? await db.update(disputes).set({ amountMad: heldMad }).where(eq(disputes.id, dispute.id)).returning()
+    : [dispute];
+
+  await db.insert(disputeMessages).values({
+    disputeId: dispute.id,
+    senderId: userId,
+    senderRole: openerRole,
+    body: input.description,
+    evidence,
+  });
+
+  await logAudit({
+    userId,
+    action: AUDIT_ACTIONS.DISPUTE_OPEN,
+    resourceType: "dispute",
+    resourceId: dispute.id,
+    changes: {
+      subjectType: input.subjectType,
+      subjectId: input.subjectId,
+      subjectStatus: subject.status,
+      reasonCode: input.reasonCode,
+      openedAs: openerRole,
+      amountMad: opened.amountMad,
+      frozenEscrowIds: frozen.map((entry) => entry.id),
+      evidenceCount: evidence.length,
+    },
+  });
+
+  const counterpartId = openerRole === "buyer" ? subject.providerUserId : subject.buyerId;
+  await notifySafely(counterpartId, {
+    eventType: "dispute_opened",
+    title: "Dispute opened",
+    message: `The ${openerRole} opened a dispute (${input.reasonCode.replace(/_/g, " ")}). The payment stays on hold until a mediator resolves it.`,
+    data: { disputeId: dispute.id, subjectType: input.subjectType, subjectId: input.subjectId, reasonCode: input.reasonCode, description: input.description },
+  });
+
+  return opened;
+}
+
+// Disputes the user is a party to, or every dispute for admins
+export async function listDisputes(
+  userId: string,
+  role: string | undefined,
+  filters: { status?: Dispute["status"]; subjectType?: DisputeSubjectType; subjectId?: string } = {}
+): Promise<Dispute[]> {
+  return db
+    .select()
+    .from(disputes)
+    .where(and(
+      role === "admin" ? undefined : or(eq(disputes.buyerId, userId), eq(disputes.providerUserId, userId)),
+      filters.status ? eq(disputes.status, filters.status) : undefined,
+      filters.subjectType ? eq(disputes.subjectType, filters.subjectType) : undefined,
+      filters.subjectId ? eq(disputes.subjectId, filters.subjectId) : undefined
+    ))
+    .orderBy(desc(disputes.createdAt));
+}
+
+export async function getDispute(disputeId: string, userId: string, role?: string): Promise<DisputeDetail> {
+  const dispute = await loadDispute(disputeId, userId, role);
+  const thread = await db
+    .select()
+    .from(disputeMessages)
+    .where(eq(disputeMessages.disputeId, disputeId))
+    .orderBy(asc(disputeMessages.createdAt));
+
+  return { dispute, messages: await Promise.all(thread.map(withSenderName)) };
+}
+
+// Every audited step of a dispute, newest first
+export async function getDisputeAuditTrail(disputeId: string) {
+  return queryAuditTrail({ resourceType: "dispute", resourceId: disputeId });
+}
+
+// Parties and admins add to the thread until the dispute is resolved; admins post as mediator
+export async function postDisputeMessage(
+  disputeId: string,
+  userId: string,
+  role: string | undefined,
+  input: { body: string; evidence: OpenDispute["evidence"] }
+): Promise<DisputeMessageWithSender> {
+  const dispute = await loadDispute(disputeId, userId, role);
+  if (dispute.status === "resolved") {
+    throw new DisputeError("This dispute is resolved", 409);
+  }
+
+  const senderRole = partyRole(dispute, userId) || "mediator";
+  const evidence = await claimAllEvidence(disputeId, userId, input.evidence);
+
+  const [message] = await db
+    .insert(disputeMessages)
+    .values({ disputeId, senderId: userId, senderRole, body: input.body.trim(), evidence })
+    .returning();
+
+  await db.update(disputes).set({ updatedAt: new Date() }).where(eq(disputes.id, disputeId));
+
+  await logAudit({
+    userId,
+    action: AUDIT_ACTIONS.DISPUTE_MESSAGE,
+    resourceType: "dispute",
+    resourceId: disputeId,
+    changes: { messageId: message.id, senderRole, evidenceCount: evidence.length },
+  });
+
+  const recipients = [dispute.buyerId, dispute.providerUserId, dispute.mediatorId].filter(
+    (recipientId): recipientId is string => !!recipientId && recipientId !== userId
+  );
+  for (const recipientId of recipients) {
+    await notifySafely(recipientId, {
+      eventType: "dispute_message",
+      title: senderRole === "mediator" ? "Message from the mediator" : "New message in your dispute",
+      message: input.body.length > 140 ? `${input.body.slice(0, 140)}…` : input.body,
+      data: { disputeId, messageId: message.id, senderRole },
+    });
+  }
+
+  return withSenderName(message);
+}
+
+// Admin: take the dispute on as its mediator
+export async function assignMediator(disputeId: string, adminId: string): Promise<Dispute> {
+  const [dispute] = await db
+    .update(disputes)
+    .set({ mediatorId: adminId, status: "under_review", updatedAt: new Date() })
+    .where(and(eq(disputes.id, disputeId), inArray(disputes.status, ["open", "under_review"])))
+    .returning();
+
+  if (!dispute) {
+    throw new DisputeError("Dispute not found or already being resolved", 409);
+  }
+
+  await logAudit({
+    userId: adminId,
+    action: AUDIT_ACTIONS.DISPUTE_ASSIGN,
+    resourceType: "dispute",
+    resourceId: disputeId,
+    changes: { mediatorId: adminId },
+  });
+
+  for (const partyId of [dispute.buyerId, dispute.providerUserId]) {
+    await notifySafely(partyId, {
+      eventType: "dispute_message",
+      title: "A mediator is reviewing your dispute",
+      message: "A mediator has taken on your dispute and may ask both sides for more details.",
+      data: { disputeId, senderRole: "mediator" },
+    });
+  }
+
+  return dispute;
+}
+
+// Split the buyer's refund over the frozen entries, oldest payment first
+function allocateRefund(entries: EscrowLedger[], refundMad: number): Array<{ entry: EscrowLedger; refundMad: number }> {
+  let remaining = refundMad;
+  return [...entries]
+    .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime())
+    .map((entry) => {
+      const share = Math.min(remaining, entry.heldAmount);
+      remaining -= share;
+      return { entry, refundMad: share };
+    });
+}
+
+// Settle each frozen escrow entry; the buyer's share goes back through the PSP.
+// Entries keep the dispute once settled, so the allocation is the same on a retry and the
+// entries an earlier attempt already settled are skipped.
+async function settleEscrow(dispute: Dispute, refundMad: number, adminId: string): Promise<Array<{ escrowId: string; refundMad: number }>> {
+  const frozen = await db.select().from(escrowLedger).where(eq(escrowLedger.disputeId, dispute.id));
+  const allocation = allocateRefund(frozen, refundMad);
+  const reason = `Dispute ${dispute.id.slice(0, 8)} resolved`;
+
+  for (const { entry, refundMad: share } of allocation) {
+    if (entry.status !== "held") continue;
+    if (share === 0) {
+      await releaseFromEscrow(entry.transactionId, reason, dispute.id);
+      continue;
+    }
+    try {
+      if (share === entry.heldAmount) {
+        await refundEscrow(entry.transactionId, reason, adminId, dispute.id);
+      } else {
+        await splitEscrow(entry.transactionId, share, reason, adminId, dispute.id);
+      }
+    } catch (error) {
+      throw new DisputeError(`Refund of ${share} MAD on transaction ${entry.transactionId} failed: ${(error as Error).message}`, 502);
+    }
+  }
+
+  return allocation.map(({ entry, refundMad: share }) => ({ escrowId: entry.id, refundMad: share }));
+}
+
+// Close the disputed record: anything the provider is paid for counts as completed
+async function closeSubject(dispute: Dispute, outcome: ResolveDispute["outcome"], refundMad: number): Promise<void> {
+  const providerPaid = outcome !== "full_refund";
+
+  if (dispute.subjectType === "job") {
+    await closeDisputedJob(dispute.subjectId, providerPaid);
+    return;
+  }
+
+  if (dispute.subjectType === "package_order") {
+    await db
+      .update(packageOrders)
+      .set({ status: providerPaid ? "completed" : "cancelled", updatedAt: new Date() })
+      .where(and(eq(packageOrders.id, dispute.subjectId), eq(packageOrders.status, "disputed")));
+
+    // Installments captured while the dispute was open were never frozen; they follow the outcome
+    const reason = `Dispute ${dispute.id.slice(0, 8)} resolved`;
+    if (providerPaid) {
+      await releaseOrderEscrow(dispute.subjectId, reason);
+    } else {
+      await refundOrderEscrow(dispute.subjectId, reason);
+    }
+    await settleOrderPlatformFee(dispute.subjectId, providerPaid);
+    return;
+  }
+
+  const booking = await storage.getBleisureBooking(dispute.subjectId);
+  if (booking) {
+    await storage.updateBleisureBooking(booking.id, {
+      ...(!providerPaid && { status: "cancelled", paymentStatus: "refunded" }),
+      metadata: {
+        ...(booking.metadata as Record<string, unknown>),
+        dispute: { id: dispute.id, outcome, refundAmountMad: refundMad },
+      },
+    });
+  }
+}
+
+// Admin: settle the dispute and move the money accordingly
+export async function resolveDispute(disputeId: string, adminId: string, resolution: ResolveDispute): Promise<Dispute> {
+  const [dispute] = await db.select().from(disputes).where(eq(disputes.id, disputeId));
+  if (!dispute) {
+    throw new DisputeError("Dispute not found", 404);
+  }
+  if (dispute.status === "resolved") {
+    throw new DisputeError("This dispute is already resolved", 409);
+  }
+
+  const refundMad = resolution.outcome === "full_refund"
+    ? dispute.amountMad
+    : resolution.outcome === "partial_split" ? resolution.refundAmountMad! : 0;
+  if (refundMad > dispute.amountMad || (resolution.outcome === "partial_split" && refundMad === dispute.amountMad)) {
+    throw new DisputeError(`A partial refund must be below the disputed ${dispute.amountMad} MAD`, 400);
+  }
+
+  // An earlier attempt that failed half way may have moved money already; it is finished the same way
+  if (dispute.outcome && (dispute.outcome !== resolution.outcome || dispute.refundAmountMad !== refundMad)) {
+    throw new DisputeError(`This dispute is partly settled as ${dispute.outcome.replace(/_/g, " ")} with ${dispute.refundAmountMad} MAD refunded; resolve it the same way`, 409);
+  }
+
+  // Claim the dispute before any money moves, so concurrent resolves can't both refund
+  const [claimed] = await db
+    .update(disputes)
+    .set({
+      status: "resolving",
+      outcome: resolution.outcome,
+      refundAmountMad: refundMad,
+      releaseAmountMad: dispute.amountMad - refundMad,
+      mediatorId: dispute.mediatorId || adminId,
+      updatedAt: new Date(),
+    })
+    .where(and(eq(disputes.id, disputeId), inArray(disputes.status, ["open", "under_review"])))
+    .returning();
+
+  if (!claimed) {
+    throw new DisputeError("This dispute is already being resolved", 409);
+  }
+
+  let escrow: Array<{ escrowId: string; refundMad: number }>;
+  try {
+    escrow = dispute.subjectType === "bleisure_booking" ? [] : await settleEscrow(claimed, refundMad, adminId);
+    await closeSubject(claimed, resolution.outcome, refundMad);
+  } catch (error) {
+    // Back to the mediator for a retry; the outcome stays recorded and settled entries stay settled
+    await db
+      .update(disputes)
+      .set({ status: "under_review", updatedAt: new Date() })
+      .where(and(eq(disputes.id, disputeId), eq(disputes.status, "resolving")));
+    throw error;
+  }
+
+  const resolvedAt = new Date();
+  const [resolved] = await db
+    .update(disputes)
+    .set({
+      status: "resolved",
+      resolutionNote: resolution.note,
+      resolvedAt,
+      updatedAt: resolvedAt,
+    })
+    .where(and(eq(disputes.id, disputeId), eq(disputes.status, "resolving")))
+    .returning();
+
+  await logAudit({
+    userId: adminId,
+    action: AUDIT_ACTIONS.DISPUTE_RESOLVE,
+    resourceType: "dispute",
+    resourceId: disputeId,
+    changes: {
+      outcome: resolution.outcome,
+      refundAmountMad: refundMad,
+      releaseAmountMad: resolved.releaseAmountMad,
+      note: resolution.note,
+      escrow,
+    },
+  });
+
+  for (const partyId of [dispute.buyerId, dispute.providerUserId]) {
+    await notifySafely(partyId, {
+      eventType: "dispute_resolved",
+      title: "Dispute resolved",
+      message: resolution.note,
+      data: {
+        disputeId,
+        outcome: resolution.outcome,
+        refundAmountMad: refundMad,
+        releaseAmountMad: resolved.releaseAmountMad,
+        note: resolution.note,
+      },
+    });
+  }
+
+  return resolved;
+}
@@ -0,0 +1,164 @@
+import { db } from "../db";
+import { providerDocuments, providers, DAY_MS, type ProviderDocument } from "../../shared/schema";
+import { and, eq, gt, inArray, isNull, lte, ne, or } from "drizzle-orm";
+import { logAudit, AUDIT_ACTIONS } from "../audit";
+import { getPausedCategories, recomputeProviderVerification } from "./provider-kyc";
+import { notifySafely } from "./notifications";
+
+/**
+ * Document Expiry - Warnings and de-verification for expiring provider documents
+ * Providers are warned 30, 7 and 1 days before a verified document expires, unless a renewed copy
+ * is already verified. Once past its date the document is marked `expired` and the provider's
+ * permits and verified flag are derived again, which pauses their offers in the job categories
+ * that need the document until a replacement is verified (see getPausedCategories).
+ */
+
+// Days before expiry at which the provider is warned, longest first
+const WARNING_DAYS = [30, 7, 1];
+
+const typeLabel = (type: ProviderDocument["type"]) => type.replace(/_/g, " ");
+
+// A verified copy of the same document that stays valid for longer
+async function hasRenewal(document: ProviderDocument): Promise<boolean> {
+  const [renewal] = await db
+    .select({ id: providerDocuments.id })
+    .from(providerDocuments)
+    .where(and(
+      eq(providerDocuments.providerId, document.providerId),
+      eq(providerDocuments.type, document.type),
+      eq(providerDocuments.status, "verified"),
+      ne(providerDocuments.id, document.id),
+      or(isNull(providerDocuments.expiresAt), gt(providerDocuments.expiresAt, document.expiresAt!))
+    ))
+    .limit(1);
+  return !!renewal;
+}
+
+async function sendExpiryWarnings(now: Date): Promise<number> {
+  const horizon = new Date(now.getTime() + WARNING_DAYS[0] * DAY_MS);
+  const expiring = await db
+    .select({ document: providerDocuments, userId: providers.userId })
+    .from(providerDocuments)
+    .innerJoin(providers, eq(providerDocuments.providerId, providers.id))
+    .where(and(
+      eq(providerDocuments.status, "verified"),
+      gt(providerDocuments.expiresAt, now),
+      lte(providerDocuments.expiresAt, horizon)
+    ));
+
+  let warned = 0;
+  for (const { document, userId } of expiring) {
+    const daysLeft = Math.ceil((document.expiresAt!.getTime() - now.getTime()) / DAY_MS);
+    // The closest warning point not yet passed, e.g. 7 for 5 days left
+    const warningDays = [...WARNING_DAYS].reverse().find((days) => daysLeft <= days)!;
+    if (document.expiryWarningDays !== null && document.expiryWarningDays <= warningDays) {
+      continue;
+    }
+    if (await hasRenewal(document)) {
+      continue;
+    }
+
+    // Conditional on the column so overlapping runs warn once
+    const [marked] = await db
+      .update(providerDocuments)
+      .set({ expiryWarningDays: warningDays })
+      .where(and(
+        eq(providerDocuments.id, document.id),
+        or(isNull(providerDocuments.expiryWarningDays), gt(providerDocuments.expiryWarningDays, warningDays))
+      ))
+      .returning();
+    if (!marked) {
+      continue;
+    }
+
+    await notifySafely(userId, {
+      eventType: "document_expiring",
+      title: "Document expiring soon",
+      message: `Your ${typeLabel(document.type)} expires in ${daysLeft} day${daysLeft === 1 ? "" : "s"}. Upload a renewed copy to stay verified.`,
+      data: {
+        documentId: document.id,
+        type: document.type,
+        documentNumber: document.documentNumber,
+        expiresAt: document.expiresAt!.toISOString().slice(0, 10),
+        daysLeft,
+      },
+    });
+    warned++;
+  }
+  return warned;
+}
+
+async function expireDocuments(now: Date): Promise<{ expired: number; providersUpdated: number }> {
+  // Pending documents that ran out before review can't be approved anymore either
+  const expired = await db
+    .update(providerDocuments)
+    .set({ status: "expired", updatedAt: now })
+    .where(and(inArray(providerDocuments.status, ["pending", "verified"]), lte(providerDocuments.expiresAt, now)))
+    .returning();
+
+  for (const document of expired) {
+    await logAudit({
+      action: AUDIT_ACTIONS.PROVIDER_DOCUMENT_EXPIRE,
+      resourceType: "provider_document",
+      resourceId: document.id,
+      changes: { providerId: document.providerId, type: document.type, expiresAt: document.expiresAt, wasVerified: document.verifiedAt !== null },
+    });
+  }
+
+  // Providers still marked verified with an expired document, in case their recompute failed on an
+  // earlier run; the recompute leaves those with a valid renewal unchanged
+  const stale = await db
+    .selectDistinct({ providerId: providerDocuments.providerId })
+    .from(providerDocuments)
+    .innerJoin(providers, eq(providerDocuments.providerId, providers.id))
+    .where(and(eq(providerDocuments.status, "expired"), eq(providers.verified, true)));
+
+  const providerIds = Array.from(new Set([
+    ...expired.map((document) => document.providerId),
+    ...stale.map(({ providerId }) => providerId),
+  ]));
+  for (const providerId of providerIds) {
+    try {
+      const { verified } = await recomputeProviderVerification(providerId);
+      const newlyExpired = expired.filter((doc) => doc.providerId === providerId);
+      if (newlyExpired.length === 0) continue;
+
+      const paused = await getPausedCategories(providerId, now);
+      const pausedCategories = Object.keys(paused);
+
+      const [provider] = await db.select({ userId: providers.userId }).from(providers).where(eq(providers.id, providerId));
+      if (!provider) continue;
+
+      for (const document of newlyExpired) {
+        await notifySafely(provider.userId, {
+          eventType: "document_expired",
+          title: "Document expired",
+          message: pausedCategories.length > 0
+            ? `Your ${typeLabel(document.type)} has expired. Offers for ${pausedCategories.join(", ")} jobs are paused until a renewed copy is verified.`
+            : `Your ${typeLabel(document.type)} has expired. Upload a renewed copy from your documents page.`,
+          data: {
+            documentId: document.id,
+            type: document.type,
+            documentNumber: document.documentNumber,
+            expiresAt: document.expiresAt!.toISOString().slice(0, 10),
+            pausedCategories,
+            verified,
+          },
+        });
+      }
+    } catch (error) {
+      console.error(`Document expiry failed for provider ${providerId}:`, error);
+    }
+  }
+
+  return { expired: expired.length, providersUpdated: providerIds.length };
+}
+
+// Scheduled hourly job; warnings are sent once per warning point and documents expire once, so a rerun is harmless
+export async function runDocumentExpiryCheck(
+  now: Date = new Date()
+): Promise<{ warned: number; expired: number; providersUpdated: number }> {
+  const warned = await sendExpiryWarnings(now);
+  const { expired, providersUpdated } = await expireDocuments(now);
+  return { warned, expired, providersUpdated };
+}
@@ -1,20 +1,38 @@
 import { db } from "../db";
-import { escrowLedger, transactions, type InsertEscrowLedger } from "../../shared/schema";
-import { eq, and, sum } from "drizzle-orm";
+import { escrowLedger, transactions, packageOrders, type InsertEscrowLedger, type EscrowLedger } from "../../shared/schema";
+import { eq, and, sum, lte, isNotNull, isNull } from "drizzle-orm";
 import { logAudit, AUDIT_ACTIONS } from "../audit";
+import type { RefundRecord } from "./payment";
 
 /**
  * Escrow Service - Hold and release funds for secure transactions
  * Morocco Payment Protection System
+ * Funds under an open dispute are frozen: only the dispute's resolution can release or refund
+ * them (see disputes.ts), and settled entries keep the dispute they were settled by.
  */
 
+export class EscrowFrozenError extends Error {
+  constructor(message: string, public readonly statusCode: number) {
+    super(message);
+    this.name = "EscrowFrozenError";
+    Object.setPrototypeOf(this, EscrowFrozenError.prototype);
+  }
+}
+
+// Days after delivery before held order funds are released without buyer action
+const ESCROW_AUTO_RELEASE_DAYS = parseInt(process.env.ESCROW_AUTO_RELEASE_DAYS || "3", 10);
+
 export async function holdInEscrow(
   transactionId: string, 
   amount: number,
-  releaseDate?: Date
+  releaseDate?: Date,
+  orderId?: string,
+  jobId?: string
 ): Promise<string> {
   const escrowEntry: InsertEscrowLedger = {
     transactionId,
+    orderId: orderId || null,
+    jobId: jobId || null,
     heldAmount: amount,
     releaseDate: releaseDate || null,
   };
@@ -30,6 +48,8 @@ export async function holdInEscrow(
     resourceId: entry.id,
     changes: {
       transactionId,
+      orderId,
+      jobId,
       amount,
       releaseDate,
     },
@@ -40,7 +60,8 @@ export async function holdInEscrow(
 
 export async function releaseFromEscrow(
   transactionId: string,
-  reason?: string
+  reason?: string,
+  disputeId?: string
 ): Promise<boolean> {
   const [entry] = await db
     .select()
@@ -55,6 +76,7 @@ export async function releaseFromEscrow(
   if (!entry) {
     throw new Error('No held escrow found for this transaction');
   }
+  assertNotFrozen(entry, disputeId);
 
   await db
     .update(escrowLedger)
@@ -79,6 +101,13 @@ export async function releaseFromEscrow(
   return true;
 }
 
+// Frozen funds only move as part of settling the dispute that froze them
+function assertNotFrozen(entry: EscrowLedger, disputeId?: string): void {
+  if (entry.disputeId && entry.disputeId !== disputeId) {
+    throw new EscrowFrozenError(`Escrow is frozen by dispute ${entry.disputeId}`, 409);
+  }
+}
+
 export async function getEscrowBalance(providerId: string): Promise<number> {
   const result = await db
     .select({
@@ -96,10 +125,13 @@ export async function getEscrowBalance(providerId: string): Promise<number> {
   return result[0]?.total ? parseInt(result[0].total as string, 10) : 0;
 }
 
+// Give a held payment back to the buyer through the PSP that collected it
 export async function refundEscrow(
   transactionId: string,
-  reason: string
-): Promise<boolean> {
+  reason: string,
+  userId?: string,
+  disputeId?: string
+): Promise<RefundRecord> {
   const [entry] = await db
     .select()
     .from(escrowLedger)
@@ -113,6 +145,9 @@ export async function refundEscrow(
   if (!entry) {
     throw new Error('No held escrow found for this transaction');
   }
+  assertNotFrozen(entry, disputeId);
+
+  const refund = await refundThroughPsp(entry, entry.heldAmount, reason, userId);
 
   await db
     .update(escrowLedger)
@@ -124,6 +159,7 @@ export async function refundEscrow(
     .where(eq(escrowLedger.id, entry.id));
 
   await logAudit({
+    userId,
     action: AUDIT_ACTIONS.PAYMENT_REFUND,
     resourceType: 'escrow',
     resourceId: entry.id,
@@ -134,5 +170,388 @@ export async function refundEscrow(
     },
   });
 
-  return true;
+  if (entry.orderId) {
+    await creditInvoicedOrder(entry.orderId, reason, entry.heldAmount);
+  }
+
+  return refund;
+}
+
+// The ledger only moves once the PSP accepted the refund
+async function refundThroughPsp(
+  entry: EscrowLedger,
+  amount: number,
+  reason: string,
+  userId?: string
+): Promise<RefundRecord> {
+  const { refundPayment } = await import("./payment");
+  const refund = await refundPayment(entry.transactionId, reason, amount, userId);
+  if (refund.status === 'failed') {
+    throw new Error(`PSP refused the refund of ${amount} MAD on transaction ${entry.transactionId}`);
+  }
+  return refund;
+}
+
+// Refunded or cancelled orders that were already invoiced get a credit note for what was
+// refunded, or for the remainder when nothing was paid back
+async function creditInvoicedOrder(orderId: string, reason: string, refundedMad?: number): Promise<void> {
+  try {
+    const { creditOrderInvoice } = await import("./credit-notes");
+    await creditOrderInvoice(orderId, reason, refundedMad);
+  } catch (error) {
+    console.error(`Failed to issue credit note for order ${orderId}:`, error);
+  }
+}
+
+export async function getHeldTransactionEscrow(transactionId: string): Promise<EscrowLedger | null> {
+  const [entry] = await db
+    .select()
+    .from(escrowLedger)
+    .where(
+      and(
+        eq(escrowLedger.transactionId, transactionId),
+        eq(escrowLedger.status, 'held')
+      )
+    );
+
+  return entry || null;
+}
+
+// ========================================
+// Package order escrow
+// ========================================
+
+export async function getHeldOrderEscrow(orderId: string): Promise<EscrowLedger | null> {
+  const [entry] = await db
+    .select()
+    .from(escrowLedger)
+    .where(
+      and(
+        eq(escrowLedger.orderId, orderId),
+        eq(escrowLedger.status, 'held')
+      )
+    );
+
+  return entry || null;
+}
+
+// Orders paid in installments hold one entry per payment
+export async function getHeldOrderEscrowEntries(orderId: string): Promise<EscrowLedger[]> {
+  return db
+    .select()
+    .from(escrowLedger)
+    .where(
+      and(
+        eq(escrowLedger.orderId, orderId),
+        eq(escrowLedger.status, 'held')
+      )
+    );
+}
+
+export async function getOrderEscrowEntries(orderId: string): Promise<EscrowLedger[]> {
+  return db
+    .select()
+    .from(escrowLedger)
+    .where(eq(escrowLedger.orderId, orderId));
+}
+
+// Hold a completed buyer payment for a package order (idempotent per transaction)
+export async function holdOrderPayment(orderId: string, transactionId: string): Promise<string> {
+  return holdBuyerPayment(transactionId, { orderId });
+}
+
+// Hold a completed buyer payment for a job's accepted offer (idempotent per transaction)
+export async function holdJobPayment(jobId: string, transactionId: string): Promise<string> {
+  return holdBuyerPayment(transactionId, { jobId });
+}
+
+async function holdBuyerPayment(
+  transactionId: string,
+  target: { orderId?: string; jobId?: string }
+): Promise<string> {
+  const [existing] = await db
+    .select()
+    .from(escrowLedger)
+    .where(eq(escrowLedger.transactionId, transactionId));
+
+  if (existing) {
+    return existing.id;
+  }
+
+  const [transaction] = await db
+    .select()
+    .from(transactions)
+    .where(eq(transactions.id, transactionId));
+
+  if (!transaction) {
+    throw new Error('Transaction not found');
+  }
+
+  return holdInEscrow(transactionId, transaction.amountMad, undefined, target.orderId, target.jobId);
+}
+
+export async function releaseOrderEscrow(orderId: string, reason: string): Promise<boolean> {
+  const entries = await getHeldOrderEscrowEntries(orderId);
+  for (const entry of entries) {
+    await releaseFromEscrow(entry.transactionId, reason);
+  }
+
+  return entries.length > 0;
+}
+
+// Release the buyer's payment for a job once the buyer confirmed (or the confirmation window passed)
+export async function releaseJobEscrow(jobId: string, reason: string): Promise<boolean> {
+  const entries = await db
+    .select()
+    .from(escrowLedger)
+    .where(
+      and(
+        eq(escrowLedger.jobId, jobId),
+        eq(escrowLedger.status, 'held')
+      )
+    );
+
+  for (const entry of entries) {
+    await releaseFromEscrow(entry.transactionId, reason);
+  }
+
+  return entries.length > 0;
+}
+
+// Give the buyer's payment for a job back when the job is cancelled after acceptance
+export async function refundJobEscrow(jobId: string, reason: string, userId?: string): Promise<boolean> {
+  const entries = await db
+    .select()
+    .from(escrowLedger)
+    .where(
+      and(
+        eq(escrowLedger.jobId, jobId),
+        eq(escrowLedger.status, 'held')
+      )
+    );
+
+  for (const entry of entries) {
+    await refundEscrow(entry.transactionId, reason, userId);
+  }
+
+  return entries.length > 0;
+}
+
+export async function refundOrderEscrow(orderId: string, reason: string): Promise<boolean> {
+  const entries = await getHeldOrderEscrowEntries(orderId);
+  for (const entry of entries) {
+    await refundEscrow(entry.transactionId, reason);
+  }
+
+  return entries.length > 0;
+}
+
+// Start the auto-release window once the provider has delivered
+export async function scheduleOrderEscrowRelease(orderId: string, deliveredAt: Date = new Date()): Promise<Date | null> {
+  const entry = await getHeldOrderEscrow(orderId);
+  if (!entry) {
+    return null;
+  }
+
+  const releaseDate = new Date(deliveredAt);
+  releaseDate.setDate(releaseDate.getDate() + ESCROW_AUTO_RELEASE_DAYS);
+
+  await db
+    .update(escrowLedger)
+    .set({ releaseDate })
+    .where(
+      and(
+        eq(escrowLedger.orderId, orderId),
+        eq(escrowLedger.status, 'held')
+      )
+    );
+
+  return releaseDate;
+}
+
+// Keep the order's escrow in step with its status
+export async function syncOrderEscrow(
+  orderId: string,
+  previousStatus: string,
+  newStatus: string
+): Promise<void> {
+  if (previousStatus === newStatus) {
+    return;
+  }
+
+  switch (newStatus) {
+    case 'delivered':
+      await scheduleOrderEscrowRelease(orderId);
+      break;
+    case 'revision':
+    case 'on_hold':
+      // Buyer asked for changes or fell behind on installments: stop the auto-release clock
+      await clearOrderEscrowReleaseDate(orderId);
+      break;
+    case 'completed':
+      await releaseOrderEscrow(orderId, 'Order completed');
+      break;
+    case 'cancelled':
+      // Unpaid but invoiced orders have nothing to refund and still need a credit note
+      if (!(await refundOrderEscrow(orderId, 'Order cancelled'))) {
+        await creditInvoicedOrder(orderId, 'Order cancelled');
+      }
+      break;
+  }
+
+  if (newStatus === 'completed' || newStatus === 'cancelled') {
+    const { settleOrderPlatformFee } = await import('./commission');
+    await settleOrderPlatformFee(orderId, newStatus === 'completed');
+  }
+}
+
+async function clearOrderEscrowReleaseDate(orderId: string): Promise<void> {
+  await db
+    .update(escrowLedger)
+    .set({ releaseDate: null })
+    .where(
+      and(
+        eq(escrowLedger.orderId, orderId),
+        eq(escrowLedger.status, 'held')
+      )
+    );
+}
+
+// Release order funds whose auto-release window has passed and close the order
+export async function releaseDueEscrow(now: Date = new Date()): Promise<number> {
+  const dueEntries = await db
+    .select()
+    .from(escrowLedger)
+    .where(
+      and(
+        eq(escrowLedger.status, 'held'),
+        isNotNull(escrowLedger.orderId),
+        isNull(escrowLedger.disputeId),
+        lte(escrowLedger.releaseDate, now)
+      )
+    );
+
+  let released = 0;
+
+  for (const entry of dueEntries) {
+    try {
+      await releaseFromEscrow(entry.transactionId, 'Auto-release window elapsed');
+
+      await db
+        .update(packageOrders)
+        .set({ status: 'completed', updatedAt: now })
+        .where(
+          and(
+            eq(packageOrders.id, entry.orderId!),
+            eq(packageOrders.status, 'delivered')
+          )
+        );
+
+      released++;
+    } catch (error) {
+      console.error(`Escrow auto-release failed for entry ${entry.id}:`, error);
+    }
+  }
+
+  return released;
+}
+
+// ========================================
+// Disputes
+// ========================================
+
+// Freeze the held funds of a disputed job or order; the auto-release clock stops too
+export async function freezeEscrow(
+  target: { jobId?: string; orderId?: string },
+  disputeId: string
+): Promise<EscrowLedger[]> {
+  const subject = target.orderId
+    ? eq(escrowLedger.orderId, target.orderId)
+    : eq(escrowLedger.jobId, target.jobId!);
+
+  const frozen = await db
+    .update(escrowLedger)
+    .set({ disputeId, releaseDate: null })
+    .where(
+      and(
+        subject,
+        eq(escrowLedger.status, 'held'),
+        isNull(escrowLedger.disputeId)
+      )
+    )
+    .returning();
+
+  for (const entry of frozen) {
+    await logAudit({
+      action: AUDIT_ACTIONS.ESCROW_FREEZE,
+      resourceType: 'escrow',
+      resourceId: entry.id,
+      changes: {
+        transactionId: entry.transactionId,
+        disputeId,
+        amount: entry.heldAmount,
+      },
+    });
+  }
+
+  return frozen;
+}
+
+// Return part of a held payment to the buyer and release the rest to the provider
+export async function splitEscrow(
+  transactionId: string,
+  refundAmount: number,
+  reason: string,
+  userId?: string,
+  disputeId?: string
+): Promise<RefundRecord> {
+  const [entry] = await db
+    .select()
+    .from(escrowLedger)
+    .where(
+      and(
+        eq(escrowLedger.transactionId, transactionId),
+        eq(escrowLedger.status, 'held')
+      )
+    );
+
+  if (!entry) {
+    throw new Error('No held escrow found for this transaction');
+  }
+  assertNotFrozen(entry, disputeId);
+
+  if (refundAmount <= 0 || refundAmount >= entry.heldAmount) {
+    throw new Error(`Split refund must be between 1 and ${entry.heldAmount - 1} MAD`);
+  }
+
+  const refund = await refundThroughPsp(entry, refundAmount, reason, userId);
+
+  await db
+    .update(escrowLedger)
+    .set({
+      status: 'released',
+      refundedAmount: refundAmount,
+      releasedAt: new Date(),
+      releaseReason: reason,
+    })
+    .where(eq(escrowLedger.id, entry.id));
+
+  await logAudit({
+    userId,
+    action: AUDIT_ACTIONS.ESCROW_RELEASE,
+    resourceType: 'escrow',
+    resourceId: entry.id,
+    changes: {
+      transactionId,
+      reason,
+      amount: entry.heldAmount - refundAmount,
+      refundedAmount: refundAmount,
+    },
+  });
+
+  if (entry.orderId) {
+    await creditInvoicedOrder(entry.orderId, reason, refundAmount);
+  }
+
+  return refund;
 }
@@ -0,0 +1,420 @@
+import { db } from "../db";
+import {
+  financingOffers,
+  jobs,
+  DAY_MS,
+  type FinancingConsent,
+  type FinancingOffer,
+  type FinancingPrequalRequest,
+  type InsertFinancingOffer,
+  type Job,
+} from "../../shared/schema";
+import { and, eq, lte, ne } from "drizzle-orm";
+import { logAudit, AUDIT_ACTIONS } from "../audit";
+import { getEnabledLenders, getLenderAdapter, type LenderAcceptResult, type LenderQuote } from "./lenders";
+
+/**
+ * Financing Service - Pre-qualification, loan vs lease comparison and acceptance
+ * Every enabled lender adapter quotes terms for a buyer's job; the amortization calculator
+ * turns those terms into down payment, monthly payment and total cost. Buyers accept one
+ * offer before it expires, with their consent to the credit terms recorded on the offer.
+ */
+
+export const FINANCING_CONSENT_VERSION = "2025-01";
+export const FINANCING_CONSENT_TEXT =
+  "I agree to the financing terms shown, authorize Trip2work to share my application with the lender, " +
+  "and understand that the lender will confirm the final contract.";
+
+export class FinancingError extends Error {
+  constructor(message: string, public readonly statusCode: number) {
+    super(message);
+    this.name = "FinancingError";
+    Object.setPrototypeOf(this, FinancingError.prototype);
+  }
+}
+
+export interface AmortizationInput {
+  principalMad: number;
+  apr: number;
+  termMonths: number;
+  residualMad?: number; // Balance left for a lease buyout at the end of the term
+}
+
+export interface AmortizationRow {
+  month: number;
+  paymentMad: number;
+  interestMad: number;
+  principalMad: number;
+  balanceMad: number;
+}
+
+export interface FinancingOfferSummary {
+  id: string;
+  lenderCode: string;
+  type: "loan" | "lease";
+  apr: number;
+  termMonths: number;
+  downPaymentMad: number;
+  monthlyMad: number;
+  residualMad: number;
+  totalCostMad: number;
+  totalInterestMad: number;
+  expiresAt: Date | null;
+}
+
+export interface FinancingComparison {
+  jobId: string;
+  loan: FinancingOfferSummary | null; // Cheapest loan
+  lease: FinancingOfferSummary | null; // Cheapest lease
+  difference: { upfrontMad: number; monthlyMad: number; totalCostMad: number } | null; // Lease minus loan
+  recommendation: "loan" | "lease" | null; // Lower total cost of ownership
+  offers: FinancingOfferSummary[];
+  accepted: FinancingOfferSummary | null;
+  consent: { version: string; text: string };
+}
+
+// Level monthly payment (in arrears) that pays the principal down to the residual, rounded up to the dirham
+export function calculateMonthlyPayment({ principalMad, apr, termMonths, residualMad = 0 }: AmortizationInput): number {
+  const rate = apr / 100 / 12;
+  if (rate === 0) {
+    return Math.ceil((principalMad - residualMad) / termMonths);
+  }
+  const discount = Math.pow(1 + rate, -termMonths);
+  return Math.ceil(((principalMad - residualMad * discount) * rate) / (1 - discount));
+}
+
+// Month-by-month split of each payment; the last payment absorbs rounding so the balance ends at the residual
+export function buildAmortizationSchedule(input: AmortizationInput): AmortizationRow[] {
+  const rate = input.apr / 100 / 12;
+  const residualMad = input.residualMad || 0;
+  const payment = calculateMonthlyPayment(input);
+  const rows: AmortizationRow[] = [];
+  let balance = input.principalMad;
+
+  for (let month = 1; month <= input.termMonths; month++) {
+    const interestMad = Math.round(balance * rate);
+    const principalMad = month === input.termMonths ? balance - residualMad : payment - interestMad;
+    balance -= principalMad;
+    rows.push({ month, paymentMad: interestMad + principalMad, interestMad, principalMad, balanceMad: balance });
+  }
+
+  return rows;
+}
+
+// Turn a lender's terms into amounts for the buyer's request
+function priceQuote(quote: LenderQuote, request: FinancingPrequalRequest) {
+  const downPaymentMad = Math.min(
+    Math.max(request.downPaymentMad || 0, Math.ceil(request.amountMad * quote.minDownPaymentPct)),
+    request.amountMad
+  );
+  const principalMad = request.amountMad - downPaymentMad;
+  const residualMad = Math.min(Math.round(request.amountMad * quote.residualPct), principalMad);
+  const schedule = buildAmortizationSchedule({ principalMad, apr: quote.apr, termMonths: quote.termMonths, residualMad });
+  const paidMad = schedule.reduce((sum, row) => sum + row.paymentMad, 0);
+
+  return {
+    principalMad,
+    downPaymentMad,
+    residualMad,
+    monthlyMad: schedule.length > 0 ? schedule[0].paymentMad : 0,
+    totalCostMad: downPaymentMad + paidMad + residualMad,
+  };
+}
+
+async function getBuyerJob(jobId: string, buyerId: string): Promise<Job> {
+  const [job] = await db.select().from(jobs).where(eq(jobs.id, jobId));
+  if (!job) {
+    throw new FinancingError("Job not found", 404);
+  }
+  if (job.buyerId !== buyerId) {
+    throw new FinancingError("Only the job's buyer can apply for financing", 403);
+  }
+  return job;
+}
+
+// Offers past their expiry can no longer be accepted
+async function expireStaleOffers(jobId: string): Promise<void> {
+  await db
+    .update(financingOffers)
+    .set({ status: "expired" })
+    .where(and(
+      eq(financingOffers.jobId, jobId),
+      eq(financingOffers.status, "offered"),
+      lte(financingOffers.expiresAt, new Date())
+    ));
+}
+
+function summarizeOffer(offer: FinancingOffer): FinancingOfferSummary {
+  const downPaymentMad = offer.downPaymentMad || 0;
+  const totalCostMad = offer.totalCostMad || 0;
+  return {
+    id: offer.id,
+    lenderCode: offer.lenderCode,
+    type: offer.type,
+    apr: parseFloat(offer.apr || "0"),
+    termMonths: offer.termMonths || 0,
+    downPaymentMad,
+    monthlyMad: offer.monthlyMad || 0,
+    residualMad: offer.residualMad || 0,
+    totalCostMad,
+    totalInterestMad: totalCostMad - downPaymentMad - (offer.principalMad || 0),
+    expiresAt: offer.expiresAt,
+  };
+}
+
+// Ask every enabled lender; replaces the job's earlier open offers
+export async function prequalifyForFinancing(buyerId: string, request: FinancingPrequalRequest) {
+  const job = await getBuyerJob(request.jobId, buyerId);
+
+  const [accepted] = await db
+    .select()
+    .from(financingOffers)
+    .where(and(eq(financingOffers.jobId, job.id), eq(financingOffers.status, "accepted")));
+  if (accepted) {
+    throw new FinancingError("Financing was already accepted for this job", 409);
+  }
+
+  await db
+    .update(financingOffers)
+    .set({ status: "expired" })
+    .where(and(eq(financingOffers.jobId, job.id), eq(financingOffers.status, "offered")));
+
+  const now = new Date();
+  const created: FinancingOffer[] = [];
+
+  for (const lender of getEnabledLenders()) {
+    let quotes: LenderQuote[];
+    try {
+      quotes = await lender.quote({
+        reference: job.id,
+        amountMad: request.amountMad,
+        termMonths: request.termMonths,
+        monthlyIncomeMad: request.monthlyIncomeMad,
+        downPaymentMad: request.downPaymentMad,
+        category: job.category,
+        city: job.city,
+      });
+    } catch (error) {
+      console.error(`Lender ${lender.code} failed to quote job ${job.id}:`, error);
+      continue;
+    }
+
+    for (const quote of quotes) {
+      const values: InsertFinancingOffer = {
+        jobId: job.id,
+        lenderCode: lender.code,
+        lenderReference: quote.lenderReference,
+        type: quote.type,
+        termMonths: quote.termMonths,
+        conditions: quote.conditions,
+        prequal: quote.approved,
+        status: quote.approved ? "offered" : "declined",
+      };
+
+      if (quote.approved) {
+        Object.assign(values, priceQuote(quote, request), {
+          apr: quote.apr.toFixed(2),
+          expiresAt: new Date(now.getTime() + quote.validForDays * DAY_MS),
+        });
+      }
+
+      const [offer] = await db.insert(financingOffers).values(values).returning();
+      created.push(offer);
+    }
+  }
+
+  const offered = created.filter((offer) => offer.status === "offered");
+
+  await logAudit({
+    userId: buyerId,
+    action: AUDIT_ACTIONS.FINANCING_PREQUAL,
+    resourceType: "job",
+    resourceId: job.id,
+    changes: {
+      amountMad: request.amountMad,
+      termMonths: request.termMonths,
+      offers: offered.length,
+      declined: created.length - offered.length,
+    },
+  });
+
+  return {
+    prequalified: offered.length > 0,
+    offers: created,
+    comparison: await compareFinancingOffers(job.id),
+  };
+}
+
+export async function getJobFinancingOffers(jobId: string): Promise<FinancingOffer[]> {
+  await expireStaleOffers(jobId);
+  return db.select().from(financingOffers).where(eq(financingOffers.jobId, jobId));
+}
+
+// Side by side: the cheapest loan and lease still open for a job
+export async function compareFinancingOffers(jobId: string): Promise<FinancingComparison> {
+  const offers = await getJobFinancingOffers(jobId);
+  const open = offers
+    .filter((offer) => offer.status === "offered")
+    .map(summarizeOffer)
+    .sort((a, b) => a.totalCostMad - b.totalCostMad);
+  const acceptedOffer = offers.find((offer) => offer.status === "accepted");
+
+  const loan = open.find((offer) => offer.type === "loan") || null;
+  const lease = open.find((offer) => offer.type === "lease") || null;
+
+  return {
+    jobId,
+    loan,
+    lease,
+    difference: loan && lease
+      ? {
+          upfrontMad: lease.downPaymentMad - loan.downPaymentMad,
+          monthlyMad: lease.monthlyMad - loan.monthlyMad,
+          totalCostMad: lease.totalCostMad - loan.totalCostMad,
+        }
+      : null,
+    recommendation: loan && lease
+      ? (lease.totalCostMad < loan.totalCostMad ? "lease" : "loan")
+      : loan ? "loan" : lease ? "lease" : null,
+    offers: open,
+    accepted: acceptedOffer ? summarizeOffer(acceptedOffer) : null,
+    consent: { version: FINANCING_CONSENT_VERSION, text: FINANCING_CONSENT_TEXT },
+  };
+}
+
+export async function getFinancingOffer(offerId: string): Promise<{ offer: FinancingOffer; job: Job } | undefined> {
+  const [offer] = await db.select().from(financingOffers).where(eq(financingOffers.id, offerId));
+  if (!offer) {
+    return undefined;
+  }
+  const [job] = await db.select().from(jobs).where(eq(jobs.id, offer.jobId));
+  return job ? { offer, job } : undefined;
+}
+
+export function getOfferSchedule(offer: FinancingOffer): AmortizationRow[] {
+  if (!offer.prequal || offer.principalMad == null || !offer.termMonths) {
+    return [];
+  }
+  return buildAmortizationSchedule({
+    principalMad: offer.principalMad,
+    apr: parseFloat(offer.apr || "0"),
+    termMonths: offer.termMonths,
+    residualMad: offer.residualMad || 0,
+  });
+}
+
+// Buyer accepts an offer: record consent, confirm with the lender, decline the job's other offers
+// The lender did not take the offer: open it again for the buyer
+async function releaseClaimedOffer(offerId: string): Promise<void> {
+  await db
+    .update(financingOffers)
+    .set({ status: "offered", acceptedBy: null, acceptedAt: null, consent: null })
+    .where(and(eq(financingOffers.id, offerId), eq(financingOffers.status, "accepted")));
+}
+
+export async function acceptFinancingOffer(
+  offerId: string,
+  buyerId: string,
+  client: { consentVersion: string; ipAddress?: string; userAgent?: string }
+): Promise<FinancingOffer> {
+  const found = await getFinancingOffer(offerId);
+  if (!found) {
+    throw new FinancingError("Financing offer not found", 404);
+  }
+  const { offer, job } = found;
+
+  if (job.buyerId !== buyerId) {
+    throw new FinancingError("Only the job's buyer can accept financing", 403);
+  }
+  if (client.consentVersion !== FINANCING_CONSENT_VERSION) {
+    throw new FinancingError("The financing terms have changed; review them and consent again", 409);
+  }
+  if (offer.status !== "offered") {
+    throw new FinancingError(`Financing offer is ${offer.status}`, 409);
+  }
+  if (offer.expiresAt && offer.expiresAt <= new Date()) {
+    await expireStaleOffers(job.id);
+    throw new FinancingError("Financing offer has expired", 409);
+  }
+
+  const acceptedAt = new Date();
+  const consent: FinancingConsent = {
+    version: FINANCING_CONSENT_VERSION,
+    text: FINANCING_CONSENT_TEXT,
+    acceptedAt: acceptedAt.toISOString(),
+    ipAddress: client.ipAddress,
+    userAgent: client.userAgent,
+  };
+
+  // Claim the offer before the lender is asked: conditional on it still being open, and the
+  // partial unique index lets only one accepted offer per job through
+  const [claimed] = await db
+    .update(financingOffers)
+    .set({ status: "accepted", acceptedBy: buyerId, acceptedAt, consent })
+    .where(and(eq(financingOffers.id, offer.id), eq(financingOffers.status, "offered")))
+    .returning()
+    .catch((error) => {
+      if (error.code === "23505") {
+        throw new FinancingError("Financing was already accepted for this job", 409);
+      }
+      throw error;
+    });
+
+  if (!claimed) {
+    throw new FinancingError("Financing offer is no longer open", 409);
+  }
+
+  let result: LenderAcceptResult;
+  try {
+    const lender = getLenderAdapter(offer.lenderCode);
+    result = await lender.acceptOffer({
+      lenderReference: offer.lenderReference || offer.id,
+      principalMad: offer.principalMad || 0,
+      downPaymentMad: offer.downPaymentMad || 0,
+      monthlyMad: offer.monthlyMad || 0,
+      consentVersion: FINANCING_CONSENT_VERSION,
+    });
+  } catch (error) {
+    await releaseClaimedOffer(offer.id);
+    throw error;
+  }
+
+  if (result.status !== "accepted") {
+    await releaseClaimedOffer(offer.id);
+    throw new FinancingError(`The lender declined: ${result.reason || "offer no longer available"}`, 409);
+  }
+
+  const [accepted] = await db
+    .update(financingOffers)
+    .set({ contractReference: result.contractReference })
+    .where(eq(financingOffers.id, offer.id))
+    .returning();
+
+  await db
+    .update(financingOffers)
+    .set({ status: "declined" })
+    .where(and(
+      eq(financingOffers.jobId, job.id),
+      eq(financingOffers.status, "offered"),
+      ne(financingOffers.id, offer.id)
+    ));
+
+  await logAudit({
+    userId: buyerId,
+    action: AUDIT_ACTIONS.FINANCING_OFFER_ACCEPT,
+    resourceType: "financing_offer",
+    resourceId: offer.id,
+    changes: {
+      jobId: job.id,
+      lenderCode: offer.lenderCode,
+      type: offer.type,
+      monthlyMad: offer.monthlyMad,
+      termMonths: offer.termMonths,
+      contractReference: result.contractReference,
+      consentVersion: FINANCING_CONSENT_VERSION,
+      ipAddress: client.ipAddress,
+    },
+  });
+
+  return accepted;
+}
@@ -0,0 +1,671 @@
+import { db } from "../db";
+import {
+  paymentSchedules,
+  packageOrders,
+  transactions,
+  DAY_MS,
+  type PackageOrder,
+  type PaymentInstallment,
+  type PaymentPlan,
+  type PaymentSchedule,
+  type Transaction,
+} from "../../shared/schema";
+import { and, eq, sql } from "drizzle-orm";
+import { storage } from "../storage";
+import { logAudit, AUDIT_ACTIONS } from "../audit";
+import { holdOrderPayment, releaseFromEscrow, syncOrderEscrow } from "./escrow";
+import { getOrderParties } from "./orders";
+import { notifySafely } from "./notifications";
+import { initiatePayment, type PaymentResponse } from "./payment";
+
+/**
+ * Installment Service - Pay package orders through a payment schedule
+ * Installment 1 is the deposit, charged by the order checkout (see checkout.ts); the
+ * scheduler charges the later installments as they fall due, retries failures with
+ * dunning notices, puts the order on_hold while an installment is overdue and completes
+ * the schedule once everything is paid. Every payment is held in escrow for the order.
+ */
+
+const APP_BASE_URL = process.env.APP_BASE_URL || "http://localhost:5000";
+
+// Days after each failed attempt before the next retry; no automatic retry after the last one
+const INSTALLMENT_RETRY_DAYS = (process.env.INSTALLMENT_RETRY_DAYS || "1,3,7")
+  .split(",")
+  .map((days) => parseInt(days, 10))
+  .filter((days) => days > 0);
+
+// Days an installment may stay unpaid past its due date before the order is put on hold
+const INSTALLMENT_GRACE_DAYS = parseInt(process.env.INSTALLMENT_GRACE_DAYS || "7", 10);
+
+// Orders that can be put on hold (and the status they go back to afterwards)
+const HOLDABLE_ORDER_STATUSES = ["pending", "in_progress", "delivered", "revision"] as const;
+type HoldableOrderStatus = typeof HOLDABLE_ORDER_STATUSES[number];
+
+export class PaymentScheduleError extends Error {
+  constructor(message: string, public readonly statusCode: number) {
+    super(message);
+    this.name = "PaymentScheduleError";
+    Object.setPrototypeOf(this, PaymentScheduleError.prototype);
+  }
+}
+
+interface InstallmentMetadata {
+  scheduleId?: string;
+  orderId?: string;
+  installmentNumber?: number;
+}
+
+// Turn a buyer's plan into installments: the deposit due now, then the rest of the total
+export function buildInstallments(totalMad: number, plan: PaymentPlan, now: Date = new Date()): PaymentInstallment[] {
+  const depositMad = Math.round((totalMad * plan.depositPct) / 100);
+  const remainingMad = totalMad - depositMad;
+
+  let rest: { dueDate: Date; amountMad: number }[];
+  if (plan.installments) {
+    rest = [...plan.installments].sort((a, b) => a.dueDate.getTime() - b.dueDate.getTime());
+    if (rest.some((installment) => installment.dueDate <= now)) {
+      throw new PaymentScheduleError("Installment due dates must be in the future", 400);
+    }
+  } else {
+    // Even monthly split, the rounding remainder on the last installment
+    const count = plan.installmentCount!;
+    const baseMad = Math.floor(remainingMad / count);
+    rest = Array.from({ length: count }, (_, i) => {
+      const dueDate = new Date(now);
+      dueDate.setMonth(dueDate.getMonth() + i + 1);
+      return { dueDate, amountMad: i === count - 1 ? remainingMad - baseMad * (count - 1) : baseMad };
+    });
+  }
+
+  const installments: PaymentInstallment[] = [
+    { installmentNumber: 1, dueDate: now.toISOString(), amountMad: depositMad, status: "pending", attempts: 0 },
+    ...rest.map((installment, i): PaymentInstallment => ({
+      installmentNumber: i + 2,
+      dueDate: installment.dueDate.toISOString(),
+      amountMad: installment.amountMad,
+      status: "pending",
+      attempts: 0,
+    })),
+  ];
+
+  if (installments.some((installment) => installment.amountMad <= 0)) {
+    throw new PaymentScheduleError("Every installment must be at least 1 MAD", 400);
+  }
+
+  const scheduledMad = installments.reduce((sum, installment) => sum + installment.amountMad, 0);
+  if (scheduledMad !== totalMad) {
+    throw new PaymentScheduleError(
+      `Deposit and installments add up to ${scheduledMad} MAD but the order total is ${totalMad} MAD`,
+      400
+    );
+  }
+
+  return installments;
+}
+
+// Create the schedule for an order that hasn't been charged yet
+export async function createPaymentSchedule(
+  order: PackageOrder,
+  plan: PaymentPlan,
+  userId?: string
+): Promise<PaymentSchedule> {
+  if (order.status !== "awaiting_payment") {
+    throw new PaymentScheduleError("A payment schedule can only be set up before the order is paid", 409);
+  }
+
+  const existing = await storage.getPaymentSchedulesByOrderId(order.id);
+  if (existing.some((schedule) => schedule.status !== "cancelled")) {
+    throw new PaymentScheduleError("Order already has a payment schedule", 409);
+  }
+
+  // An order whose full checkout already started would be charged twice
+  const [checkout] = await db
+    .select({ id: transactions.id })
+    .from(transactions)
+    .where(and(
+      eq(transactions.type, "order_payment"),
+      sql`${transactions.metadata}->>'orderId' = ${order.id}`
+    ))
+    .limit(1);
+
+  if (checkout) {
+    throw new PaymentScheduleError("Order checkout already started; choose a payment plan when placing the order", 409);
+  }
+
+  const installments = buildInstallments(order.totalPriceMad, plan);
+
+  const [schedule] = await db
+    .insert(paymentSchedules)
+    .values({
+      orderId: order.id,
+      depositPct: plan.depositPct,
+      installments,
+      totalMad: order.totalPriceMad,
+    })
+    .returning();
+
+  await logAudit({
+    userId,
+    action: AUDIT_ACTIONS.SCHEDULE_CREATE,
+    resourceType: "payment_schedule",
+    resourceId: schedule.id,
+    changes: {
+      orderId: order.id,
+      depositPct: plan.depositPct,
+      totalMad: order.totalPriceMad,
+      installments: installments.map(({ installmentNumber, dueDate, amountMad }) => ({ installmentNumber, dueDate, amountMad })),
+    },
+  });
+
+  return schedule;
+}
+
+// Read-modify-write one installment under a row lock; mutate returns false to leave it untouched
+async function updateInstallment(
+  scheduleId: string,
+  installmentNumber: number,
+  mutate: (schedule: PaymentSchedule, installment: PaymentInstallment) => boolean | void
+): Promise<{ schedule: PaymentSchedule; installment: PaymentInstallment; applied: boolean }> {
+  return db.transaction(async (tx) => {
+    const [schedule] = await tx
+      .select()
+      .from(paymentSchedules)
+      .where(eq(paymentSchedules.id, scheduleId))
+      .for("update");
+
+    if (!schedule) {
+      throw new PaymentScheduleError("Payment schedule not found", 404);
+    }
+
+    const installments = schedule.installments.map((installment) => ({ ...installment }));
+    const installment = installments.find((i) => i.installmentNumber === installmentNumber);
+    if (!installment) {
+      throw new PaymentScheduleError("Installment not found", 404);
+    }
+
+    if (mutate(schedule, installment) === false) {
+      return { schedule, installment, applied: false };
+    }
+
+    const [updated] = await tx
+      .update(paymentSchedules)
+      .set({ installments, updatedAt: new Date() })
+      .where(eq(paymentSchedules.id, scheduleId))
+      .returning();
+
+    return { schedule: updated, installment, applied: true };
+  });
+}
+
+// Charge a later installment (scheduler when due or on retry, or the buyer paying it now)
+export async function chargeInstallment(
+  scheduleId: string,
+  installmentNumber: number,
+  userId?: string
+): Promise<PaymentResponse> {
+  if (installmentNumber === 1) {
+    throw new PaymentScheduleError("The deposit is paid at checkout", 400);
+  }
+
+  const current = await storage.getPaymentSchedule(scheduleId) as PaymentSchedule | undefined;
+  if (!current) {
+    throw new PaymentScheduleError("Payment schedule not found", 404);
+  }
+
+  const order = await storage.getPackageOrder(current.orderId);
+  if (!order) {
+    throw new PaymentScheduleError("Order not found", 404);
+  }
+
+  const { buyerId, providerId } = await getOrderParties(order);
+  const buyer = buyerId ? await storage.getUser(buyerId) : undefined;
+  if (!buyer || !providerId) {
+    throw new PaymentScheduleError("Order buyer or provider not found", 404);
+  }
+
+  let previous: PaymentInstallment | undefined;
+  const { installment } = await updateInstallment(scheduleId, installmentNumber, (schedule, installment) => {
+    if (schedule.status !== "active") {
+      throw new PaymentScheduleError(`Payment schedule is ${schedule.status}`, 409);
+    }
+    if (installment.status === "paid" || installment.status === "processing") {
+      throw new PaymentScheduleError(`Installment is already ${installment.status}`, 409);
+    }
+
+    previous = { ...installment };
+    installment.status = "processing";
+    installment.attempts += 1;
+    installment.lastAttemptAt = new Date().toISOString();
+    delete installment.transactionId;
+    delete installment.nextAttemptAt;
+    delete installment.failureReason;
+  });
+
+  let payment: PaymentResponse;
+  try {
+    payment = await initiatePayment({
+      amountMAD: installment.amountMad,
+      providerId,
+      buyerId: buyer.id,
+      type: "installment_payment",
+      metadata: { scheduleId, orderId: order.id, installmentNumber },
+      description: `Trip2work order ${order.tier} installment ${installmentNumber}`,
+      customer: { email: buyer.email || undefined },
+      returnUrl: `${APP_BASE_URL}/orders`,
+    });
+  } catch (error) {
+    // No charge was started: put the installment back as it was so it can be charged again
+    await updateInstallment(scheduleId, installmentNumber, (_, latest) => {
+      if (latest.status !== "processing" || latest.transactionId) {
+        return false;
+      }
+      Object.assign(latest, previous);
+    });
+    throw error;
+  }
+
+  // Link the charge unless a synchronous settlement already recorded it
+  await updateInstallment(scheduleId, installmentNumber, (_, latest) => {
+    if (latest.transactionId) {
+      return false;
+    }
+    latest.transactionId = payment.transactionId;
+  });
+
+  await logAudit({
+    userId,
+    action: AUDIT_ACTIONS.SCHEDULE_PAYMENT_PROCESS,
+    resourceType: "payment_schedule",
+    resourceId: scheduleId,
+    changes: {
+      installmentNumber,
+      amount: installment.amountMad,
+      attempt: installment.attempts,
+      transactionId: payment.transactionId,
+      status: payment.status,
+    },
+  });
+
+  // Redirect-based PSPs need the buyer to finish the payment from the link
+  if (payment.status === "pending" || payment.status === "processing") {
+    await notifySafely(buyer.id, {
+      eventType: "installment_due",
+      title: `Installment ${installmentNumber} due`,
+      message: `Installment ${installmentNumber} of ${installment.amountMad} MAD for your order is due.`,
+      data: {
+        orderId: order.id,
+        installmentNumber,
+        amount: installment.amountMad,
+        dueDate: new Date(installment.dueDate).toDateString(),
+        paymentUrl: payment.paymentUrl,
+      },
+    });
+  }
+
+  return payment;
+}
+
+// Completed deposit or installment charge: mark it paid and hold the funds for the order
+export async function completeInstallmentPayment(transaction: Transaction): Promise<void> {
+  const { scheduleId, orderId, installmentNumber } = (transaction.metadata as InstallmentMetadata | null) || {};
+  if (!scheduleId || !orderId || !installmentNumber) {
+    return;
+  }
+
+  const order = await storage.getPackageOrder(orderId);
+  if (!order) {
+    return;
+  }
+
+  const { schedule, installment, applied } = await updateInstallment(scheduleId, installmentNumber, (schedule, installment) => {
+    if (schedule.status === "cancelled" || order.status === "cancelled" || installment.status === "paid") {
+      return false;
+    }
+
+    installment.status = "paid";
+    installment.paidAt = new Date().toISOString();
+    installment.transactionId = transaction.id;
+    delete installment.nextAttemptAt;
+    delete installment.failureReason;
+  });
+
+  if (!applied) {
+    // Paid twice or paid after the order was cancelled: send the money back
+    const owed = schedule.status !== "cancelled" && order.status !== "cancelled";
+    if (transaction.type === "installment_payment" && (!owed || installment.transactionId !== transaction.id)) {
+      await refundUnclaimedPayment(transaction, "Installment is no longer owed");
+    }
+    return;
+  }
+
+  await holdOrderPayment(orderId, transaction.id);
+
+  // The order closed before this installment came in, so there is nothing left to wait for
+  if (order.status === "completed") {
+    await releaseFromEscrow(transaction.id, "Installment paid after order completion");
+  }
+
+  await logAudit({
+    userId: transaction.buyerId || undefined,
+    action: AUDIT_ACTIONS.SCHEDULE_PAYMENT_PROCESS,
+    resourceType: "payment_schedule",
+    resourceId: scheduleId,
+    changes: { installmentNumber, amount: installment.amountMad, transactionId: transaction.id, status: "paid" },
+  });
+
+  if (transaction.type === "installment_payment" && transaction.buyerId) {
+    await notifySafely(transaction.buyerId, {
+      eventType: "payment_received",
+      title: `Installment ${installmentNumber} paid`,
+      message: `We received installment ${installmentNumber} of ${installment.amountMad} MAD for your order.`,
+      data: { amount: installment.amountMad, transactionId: transaction.id, date: new Date().toDateString(), orderId },
+    });
+  }
+
+  await syncScheduleState(schedule);
+}
+
+// Failed installment charge: schedule the next dunning retry, or hold the order when retries run out
+export async function failInstallmentPayment(transaction: Transaction, reason: string): Promise<void> {
+  const { scheduleId, orderId, installmentNumber } = (transaction.metadata as InstallmentMetadata | null) || {};
+  if (!scheduleId || !orderId || !installmentNumber) {
+    return;
+  }
+
+  const { schedule, installment, applied } = await updateInstallment(scheduleId, installmentNumber, (_, installment) => {
+    // Only the attempt in flight can fail; late reports for older attempts are ignored
+    if (installment.status !== "processing") {
+      return false;
+    }
+    if (installment.transactionId && installment.transactionId !== transaction.id) {
+      return false;
+    }
+
+    const retryDays = INSTALLMENT_RETRY_DAYS[installment.attempts - 1];
+    installment.status = "failed";
+    installment.transactionId = transaction.id;
+    installment.failureReason = reason;
+    if (retryDays) {
+      installment.nextAttemptAt = new Date(Date.now() + retryDays * DAY_MS).toISOString();
+    } else {
+      delete installment.nextAttemptAt;
+    }
+  });
+
+  if (!applied) {
+    return;
+  }
+
+  const finalNotice = !installment.nextAttemptAt;
+
+  await logAudit({
+    userId: transaction.buyerId || undefined,
+    action: AUDIT_ACTIONS.SCHEDULE_PAYMENT_FAIL,
+    resourceType: "payment_schedule",
+    resourceId: scheduleId,
+    changes: {
+      installmentNumber,
+      transactionId: transaction.id,
+      attempt: installment.attempts,
+      reason,
+      nextAttemptAt: installment.nextAttemptAt || null,
+    },
+  });
+
+  if (transaction.buyerId) {
+    await notifySafely(transaction.buyerId, {
+      eventType: "payment_dunning",
+      title: finalNotice ? `Final notice: installment ${installmentNumber} unpaid` : `Installment ${installmentNumber} payment failed`,
+      message: finalNotice
+        ? `We could not collect installment ${installmentNumber} of ${installment.amountMad} MAD. Your order is on hold until it is paid.`
+        : `We could not collect installment ${installmentNumber} of ${installment.amountMad} MAD and will try again on ${new Date(installment.nextAttemptAt!).toDateString()}.`,
+      data: {
+        orderId,
+        installmentNumber,
+        amount: installment.amountMad,
+        reason,
+        nextAttemptAt: installment.nextAttemptAt ? new Date(installment.nextAttemptAt).toDateString() : null,
+        finalNotice,
+      },
+    }, { emailFallback: true });
+  }
+
+  await syncScheduleState(schedule);
+}
+
+// Stop charging a schedule whose order is gone (checkout rolled back or order cancelled)
+export async function cancelPaymentSchedule(scheduleId: string, reason: string, userId?: string): Promise<boolean> {
+  const [cancelled] = await db
+    .update(paymentSchedules)
+    .set({ status: "cancelled", updatedAt: new Date() })
+    .where(and(eq(paymentSchedules.id, scheduleId), eq(paymentSchedules.status, "active")))
+    .returning();
+
+  if (!cancelled) {
+    return false;
+  }
+
+  await logAudit({
+    userId,
+    action: AUDIT_ACTIONS.SCHEDULE_CANCEL,
+    resourceType: "payment_schedule",
+    resourceId: scheduleId,
+    changes: { orderId: cancelled.orderId, reason },
+  });
+
+  return true;
+}
+
+// Unpaid past the grace period, or out of automatic retries
+function isOverdue(installment: PaymentInstallment, now: Date): boolean {
+  if (installment.status === "paid") {
+    return false;
+  }
+  if (installment.status === "failed" && !installment.nextAttemptAt) {
+    return true;
+  }
+  return new Date(installment.dueDate).getTime() + INSTALLMENT_GRACE_DAYS * DAY_MS <= now.getTime();
+}
+
+// Due for a first attempt or a dunning retry (the deposit belongs to the checkout)
+function isChargeable(installment: PaymentInstallment, now: Date): boolean {
+  if (installment.installmentNumber === 1) {
+    return false;
+  }
+  if (installment.status === "pending") {
+    return new Date(installment.dueDate) <= now;
+  }
+  if (installment.status === "failed" && installment.nextAttemptAt) {
+    return new Date(installment.nextAttemptAt) <= now;
+  }
+  return false;
+}
+
+// Complete a fully paid schedule, hold the order while anything is overdue, resume it otherwise
+async function syncScheduleState(
+  schedule: PaymentSchedule,
+  now: Date = new Date()
+): Promise<"completed" | "held" | null> {
+  if (schedule.status !== "active") {
+    return null;
+  }
+
+  if (schedule.installments.every((installment) => installment.status === "paid")) {
+    const [completed] = await db
+      .update(paymentSchedules)
+      .set({ status: "completed", updatedAt: now })
+      .where(and(eq(paymentSchedules.id, schedule.id), eq(paymentSchedules.status, "active")))
+      .returning();
+
+    if (!completed) {
+      return null;
+    }
+
+    await logAudit({
+      action: AUDIT_ACTIONS.SCHEDULE_COMPLETE,
+      resourceType: "payment_schedule",
+      resourceId: schedule.id,
+      changes: { orderId: schedule.orderId, totalMad: schedule.totalMad },
+    });
+
+    await resumeOrder(schedule);
+    return "completed";
+  }
+
+  const overdue = schedule.installments.find((installment) => isOverdue(installment, now));
+  if (overdue) {
+    return (await holdOrder(schedule, overdue)) ? "held" : null;
+  }
+
+  await resumeOrder(schedule);
+  return null;
+}
+
+async function holdOrder(schedule: PaymentSchedule, overdue: PaymentInstallment): Promise<boolean> {
+  const order = await storage.getPackageOrder(schedule.orderId);
+  if (!order || !HOLDABLE_ORDER_STATUSES.includes(order.status as HoldableOrderStatus)) {
+    return false;
+  }
+  const previousStatus = order.status as HoldableOrderStatus;
+
+  const [held] = await db
+    .update(packageOrders)
+    .set({ status: "on_hold", updatedAt: new Date() })
+    .where(and(eq(packageOrders.id, order.id), eq(packageOrders.status, previousStatus)))
+    .returning();
+
+  if (!held) {
+    return false;
+  }
+
+  await db
+    .update(paymentSchedules)
+    .set({ heldOrderStatus: previousStatus, updatedAt: new Date() })
+    .where(eq(paymentSchedules.id, schedule.id));
+
+  await syncOrderEscrow(order.id, previousStatus, "on_hold");
+
+  await logAudit({
+    action: AUDIT_ACTIONS.SCHEDULE_ORDER_HOLD,
+    resourceType: "package_order",
+    resourceId: order.id,
+    changes: {
+      from: previousStatus,
+      to: "on_hold",
+      scheduleId: schedule.id,
+      installmentNumber: overdue.installmentNumber,
+    },
+  });
+
+  const { buyerId, providerUserId } = await getOrderParties(order);
+  for (const userId of [buyerId, providerUserId]) {
+    if (userId) {
+      await notifySafely(userId, {
+        eventType: "order_status",
+        title: "Order on hold",
+        message: `The order is on hold because installment ${overdue.installmentNumber} of ${overdue.amountMad} MAD is overdue.`,
+        data: { orderId: order.id, status: "on_hold", previousStatus, updatedAt: new Date().toISOString() },
+      });
+    }
+  }
+
+  return true;
+}
+
+async function resumeOrder(schedule: PaymentSchedule): Promise<void> {
+  const restoredStatus = schedule.heldOrderStatus;
+  if (!restoredStatus) {
+    return;
+  }
+
+  const [resumed] = await db
+    .update(packageOrders)
+    .set({ status: restoredStatus, updatedAt: new Date() })
+    .where(and(eq(packageOrders.id, schedule.orderId), eq(packageOrders.status, "on_hold")))
+    .returning();
+
+  await db
+    .update(paymentSchedules)
+    .set({ heldOrderStatus: null, updatedAt: new Date() })
+    .where(eq(paymentSchedules.id, schedule.id));
+
+  if (!resumed) {
+    return;
+  }
+
+  await syncOrderEscrow(resumed.id, "on_hold", restoredStatus);
+
+  await logAudit({
+    action: AUDIT_ACTIONS.SCHEDULE_ORDER_RESUME,
+    resourceType: "package_order",
+    resourceId: resumed.id,
+    changes: { from: "on_hold", to: restoredStatus, scheduleId: schedule.id },
+  });
+
+  const { buyerId, providerUserId } = await getOrderParties(resumed);
+  for (const userId of [buyerId, providerUserId]) {
+    if (userId) {
+      await notifySafely(userId, {
+        eventType: "order_status",
+        title: "Order resumed",
+        message: "The overdue installment has been paid and the order is active again.",
+        data: { orderId: resumed.id, status: restoredStatus, previousStatus: "on_hold", updatedAt: new Date().toISOString() },
+      });
+    }
+  }
+}
+
+// Scheduler entry point: charge due installments and keep schedules and orders in step
+export async function processDueInstallments(
+  now: Date = new Date()
+): Promise<{ charged: number; held: number; completed: number }> {
+  const active: PaymentSchedule[] = await db
+    .select()
+    .from(paymentSchedules)
+    .where(eq(paymentSchedules.status, "active"));
+
+  let charged = 0;
+  let held = 0;
+  let completed = 0;
+
+  for (const schedule of active) {
+    try {
+      const order = await storage.getPackageOrder(schedule.orderId);
+      if (!order || order.status === "cancelled") {
+        await cancelPaymentSchedule(schedule.id, "Order cancelled");
+        continue;
+      }
+
+      // The deposit is still in checkout, or the order's money is with the dispute center
+      if (order.status === "awaiting_payment" || order.status === "disputed") {
+        continue;
+      }
+
+      // One charge per schedule per run, oldest installment first
+      const due = schedule.installments.find((installment) => isChargeable(installment, now));
+      if (due) {
+        await chargeInstallment(schedule.id, due.installmentNumber);
+        charged++;
+      }
+
+      const latest = await storage.getPaymentSchedule(schedule.id) as PaymentSchedule | undefined;
+      const state = latest ? await syncScheduleState(latest, now) : null;
+      if (state === "held") held++;
+      if (state === "completed") completed++;
+    } catch (error) {
+      console.error(`Installment processing failed for schedule ${schedule.id}:`, error);
+    }
+  }
+
+  return { charged, held, completed };
+}
+
+// Money arrived for an installment that is no longer owed: send it straight back
+async function refundUnclaimedPayment(transaction: Transaction, reason: string): Promise<void> {
+  try {
+    const { refundPayment } = await import("./payment");
+    await refundPayment(transaction.id, reason);
+  } catch (error) {
+    console.error(`Failed to refund unclaimed installment ${transaction.id}:`, error);
+  }
+}
@@ -0,0 +1,302 @@
+import PDFDocument from "pdfkit";
+import { createRequire } from "module";
+
+/**
+ * Invoice PDF Renderer - Moroccan-compliant invoice layout
+ * fr-MA / en-US render left-to-right, ar-MA renders right-to-left with an Arabic font
+ */
+
+const require = createRequire(import.meta.url);
+
+// Arabic glyphs aren't in the standard PDF fonts; override with INVOICE_ARABIC_FONT_PATH if needed
+const ARABIC_FONT_PATH = process.env.INVOICE_ARABIC_FONT_PATH ||
+  require.resolve("@fontsource/noto-sans-arabic/files/noto-sans-arabic-arabic-400-normal.woff");
+
+const ARABIC_PATTERN = /[؀-ۿ]/;
+
+export type InvoiceLocale = "fr-MA" | "ar-MA" | "en-US";
+
+export interface InvoiceParty {
+  name: string;
+  ice?: string | null;
+  ifNumber?: string | null;
+  rcNumber?: string | null;
+  address?: string | null;
+  city?: string | null;
+}
+
+export interface InvoiceLine {
+  description: string;
+  quantity: number;
+  unitPrice: number;
+  vatRate: number;
+  amount: number; // Excluding VAT
+  vatAmount: number;
+}
+
+export interface InvoiceVatBreakdown {
+  rate: number;
+  base: number;
+  vat: number;
+}
+
+export interface InvoicePdfData {
+  kind: "invoice" | "credit_note";
+  number: string;
+  issueDate: Date;
+  locale: InvoiceLocale;
+  currency: string;
+  seller: InvoiceParty;
+  buyer: InvoiceParty;
+  lines: InvoiceLine[];
+  vatBreakdown: InvoiceVatBreakdown[];
+  subtotal: number;
+  vatAmount: number;
+  total: number;
+  reference?: string; // Order reference, or the original invoice for a credit note
+  notes?: string;
+}
+
+const TEMPLATES = {
+  'fr-MA': {
+    invoice: 'FACTURE',
+    credit_note: 'AVOIR',
+    number: 'Numéro',
+    date: 'Date',
+    reference: 'Référence',
+    seller: 'Prestataire',
+    buyer: 'Client',
+    ice: 'ICE',
+    if: 'IF',
+    rc: 'RC',
+    description: 'Désignation',
+    quantity: 'Qté',
+    unitPrice: 'P.U. HT',
+    vatRate: 'TVA',
+    amount: 'Montant HT',
+    vatBreakdown: 'Détail TVA',
+    base: 'Base HT',
+    subtotal: 'Total HT',
+    vat: 'TVA',
+    total: 'Total TTC',
+  },
+  'ar-MA': {
+    invoice: 'فاتورة',
+    credit_note: 'إشعار دائن',
+    number: 'الرقم',
+    date: 'التاريخ',
+    reference: 'المرجع',
+    seller: 'مقدم الخدمة',
+    buyer: 'الزبون',
+    ice: 'ICE',
+    if: 'IF',
+    rc: 'RC',
+    description: 'البيان',
+    quantity: 'الكمية',
+    unitPrice: 'سعر الوحدة',
+    vatRate: 'الضريبة',
+    amount: 'المبلغ دون ضريبة',
+    vatBreakdown: 'تفصيل الضريبة على القيمة المضافة',
+    base: 'الأساس',
+    subtotal: 'المجموع دون ضريبة',
+    vat: 'الضريبة على القيمة المضافة',
+    total: 'المجموع مع الضريبة',
+  },
+  'en-US': {
+    invoice: 'INVOICE',
+    credit_note: 'CREDIT NOTE',
+    number: 'Number',
+    date: 'Date',
+    reference: 'Reference',
+    seller: 'Provider',
+    buyer: 'Customer',
+    ice: 'ICE',
+    if: 'IF',
+    rc: 'RC',
+    description: 'Description',
+    quantity: 'Qty',
+    unitPrice: 'Unit price',
+    vatRate: 'VAT',
+    amount: 'Amount excl. VAT',
+    vatBreakdown: 'VAT breakdown',
+    base: 'Taxable base',
+    subtotal: 'Subtotal',
+    vat: 'VAT',
+    total: 'Total incl. VAT',
+  },
+};
+
+const PAGE_MARGIN = 50;
+
+function formatAmount(amount: number, currency: string): string {
+  return `${amount.toFixed(2)} ${currency}`;
+}
+
+function formatDate(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+export async function renderInvoicePdf(data: InvoicePdfData): Promise<Buffer> {
+  const t = TEMPLATES[data.locale] || TEMPLATES['fr-MA'];
+  const rtl = data.locale === 'ar-MA';
+
+  const doc = new PDFDocument({
+    size: 'A4',
+    margin: PAGE_MARGIN,
+    info: { Title: `${t[data.kind]} ${data.number}` },
+  });
+  doc.registerFont('Arabic', ARABIC_FONT_PATH);
+
+  const chunks: Buffer[] = [];
+  doc.on('data', (chunk: Buffer) => chunks.push(chunk));
+  const finished = new Promise<Buffer>((resolve, reject) => {
+    doc.on('end', () => resolve(Buffer.concat(chunks)));
+    doc.on('error', reject);
+  });
+
+  const contentWidth = doc.page.width - PAGE_MARGIN * 2;
+
+  // Mirror x positions for right-to-left layouts
+  const xFor = (offset: number, width: number) =>
+    rtl ? PAGE_MARGIN + contentWidth - offset - width : PAGE_MARGIN + offset;
+
+  const write = (
+    value: string,
+    offset: number,
+    y: number,
+    width: number,
+    options: { size?: number; bold?: boolean; align?: 'left' | 'right' } = {}
+  ) => {
+    const arabic = ARABIC_PATTERN.test(value);
+    doc
+      .font(arabic ? 'Arabic' : options.bold ? 'Helvetica-Bold' : 'Helvetica')
+      .fontSize(options.size || 9)
+      .text(value, xFor(offset, width), y, {
+        width,
+        align: options.align || (rtl ? 'right' : 'left'),
+        features: arabic ? ['rtla'] : undefined,
+      });
+  };
+
+  // Labels and values are written separately so Arabic labels never share a run with Latin values
+  const writeField = (
+    label: string,
+    value: string,
+    offset: number,
+    y: number,
+    width: number,
+    options: { bold?: boolean } = {}
+  ) => {
+    const labelWidth = width * 0.4;
+    write(label, offset, y, labelWidth, options);
+    write(value, offset + labelWidth, y, width - labelWidth, options);
+  };
+
+  // Header
+  let y = PAGE_MARGIN;
+  write(t[data.kind], 0, y, contentWidth / 2, { size: 20, bold: true });
+  writeField(t.number, data.number, contentWidth / 2, y, contentWidth / 2, { bold: true });
+  writeField(t.date, formatDate(data.issueDate), contentWidth / 2, y + 14, contentWidth / 2);
+  if (data.reference) {
+    writeField(t.reference, data.reference, contentWidth / 2, y + 28, contentWidth / 2);
+  }
+
+  // Parties, with the identifiers Moroccan invoices must carry
+  y += 60;
+  const partyWidth = contentWidth / 2 - 10;
+  const writeParty = (title: string, party: InvoiceParty, offset: number) => {
+    let py = y;
+    write(title, offset, py, partyWidth, { size: 11, bold: true });
+    py += 16;
+    for (const row of [party.name, party.address, party.city]) {
+      if (!row) continue;
+      write(row, offset, py, partyWidth);
+      py += 13;
+    }
+    const identifiers: Array<[string, string | null | undefined]> = [
+      [t.ice, party.ice],
+      [t.if, party.ifNumber],
+      [t.rc, party.rcNumber],
+    ];
+    for (const [label, value] of identifiers) {
+      if (!value) continue;
+      writeField(label, value, offset, py, partyWidth);
+      py += 13;
+    }
+    return py;
+  };
+  y = Math.max(
+    writeParty(t.seller, data.seller, 0),
+    writeParty(t.buyer, data.buyer, contentWidth / 2 + 10)
+  ) + 20;
+
+  // Line items
+  const columns = [
+    { key: 'description', width: contentWidth * 0.4 },
+    { key: 'quantity', width: contentWidth * 0.1 },
+    { key: 'unitPrice', width: contentWidth * 0.18 },
+    { key: 'vatRate', width: contentWidth * 0.1 },
+    { key: 'amount', width: contentWidth * 0.22 },
+  ] as const;
+
+  const writeRow = (values: string[], rowY: number, bold = false) => {
+    let offset = 0;
+    columns.forEach((column, index) => {
+      write(values[index], offset, rowY, column.width - 4, {
+        bold,
+        align: index === 0 ? undefined : 'right',
+      });
+      offset += column.width;
+    });
+  };
+
+  writeRow(columns.map((column) => t[column.key]), y, true);
+  y += 16;
+  doc.moveTo(PAGE_MARGIN, y - 3).lineTo(PAGE_MARGIN + contentWidth, y - 3).stroke();
+
+  for (const line of data.lines) {
+    writeRow([
+      line.description,
+      String(line.quantity),
+      formatAmount(line.unitPrice, data.currency),
+      `${Math.round(line.vatRate * 100)}%`,
+      formatAmount(line.amount, data.currency),
+    ], y);
+    y += Math.max(16, doc.heightOfString(line.description, { width: columns[0].width - 4 }) + 4);
+  }
+
+  // VAT breakdown and totals
+  y += 16;
+  const summaryWidth = contentWidth / 2;
+  const breakdownWidth = summaryWidth / 3;
+  write(t.vatBreakdown, 0, y, summaryWidth, { bold: true });
+  write(t.vatRate, 0, y + 16, breakdownWidth - 4, { bold: true });
+  write(t.base, breakdownWidth, y + 16, breakdownWidth - 4, { bold: true, align: 'right' });
+  write(t.vat, breakdownWidth * 2, y + 16, breakdownWidth - 4, { bold: true, align: 'right' });
+  let by = y + 32;
+  for (const entry of data.vatBreakdown) {
+    write(`${Math.round(entry.rate * 100)}%`, 0, by, breakdownWidth - 4);
+    write(formatAmount(entry.base, data.currency), breakdownWidth, by, breakdownWidth - 4, { align: 'right' });
+    write(formatAmount(entry.vat, data.currency), breakdownWidth * 2, by, breakdownWidth - 4, { align: 'right' });
+    by += 13;
+  }
+
+  const totals: Array<[string, number, boolean]> = [
+    [t.subtotal, data.subtotal, false],
+    [t.vat, data.vatAmount, false],
+    [t.total, data.total, true],
+  ];
+  let ty = y;
+  for (const [label, amount, bold] of totals) {
+    write(label, summaryWidth, ty, summaryWidth / 2, { bold });
+    write(formatAmount(amount, data.currency), summaryWidth * 1.5, ty, summaryWidth / 2, { bold, align: 'right' });
+    ty += 16;
+  }
+
+  if (data.notes) {
+    write(data.notes, 0, Math.max(by, ty) + 20, contentWidth);
+  }
+
+  doc.end();
+  return finished;
+}
@@ -1,17 +1,46 @@
 import { db } from "../db";
-import { invoices, currencyRates, packageOrders, type InsertInvoice, type InsertCurrencyRate } from "../../shared/schema";
-import { eq, and, desc } from "drizzle-orm";
+import {
+  invoices, currencyRates, packageOrders, documentSequences,
+  type Invoice, type InsertCurrencyRate, type PackageOrder, type SelectedPackageExtra,
+} from "../../shared/schema";
+import { eq, and, desc, sql, TransactionRollbackError } from "drizzle-orm";
 import { logAudit, AUDIT_ACTIONS } from "../audit";
+import { storage } from "../storage";
+import { ObjectStorageService } from "../objectStorage";
+import { ObjectAccessGroupType, ObjectPermission, type ObjectAclPolicy } from "../objectAcl";
+import { getOrderParties } from "./orders";
+import {
+  renderInvoicePdf,
+  type InvoiceLine,
+  type InvoiceLocale,
+  type InvoiceParty,
+  type InvoiceVatBreakdown,
+} from "./invoice-pdf";
 
 /**
  * Invoice Service - Multi-currency invoicing with VAT
  * Supports FR/AR/EN locales with RTL for Arabic
  * Morocco VAT = 20%
+ * Numbers are gap-free per year (INV-2025-000001) and PDFs live in object storage
  */
 
 const MOROCCO_VAT_RATE = 0.20; // 20% VAT
 const DEFAULT_MAD_TO_EUR = 0.092; // Default exchange rate
 
+export type DbTransaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+// Snapshot stored in invoices.metadata so the document can be re-rendered exactly as issued
+export interface InvoiceMetadata {
+  originalAmountMAD: number;
+  exchangeRate: number;
+  buyerUserId?: string;
+  providerUserId?: string;
+  seller: InvoiceParty;
+  buyer: InvoiceParty;
+  lines: InvoiceLine[];
+  vatBreakdown: InvoiceVatBreakdown[];
+}
+
 export function calculateVAT(amount: number, country: string = 'MA'): number {
   if (country === 'MA' || country === 'Morocco') {
     return Math.round(amount * MOROCCO_VAT_RATE);
@@ -59,10 +88,92 @@ export async function updateCurrencyRate(
   await db.insert(currencyRates).values(rateEntry);
 }
 
+// Next number in a gap-free yearly series. The counter row is locked by the upsert
+// and rolls back with the surrounding transaction, so a failed insert never burns a number.
+export async function nextDocumentNumber(
+  tx: DbTransaction,
+  series: "INV" | "CN" | "PAY",
+  issuedAt: Date = new Date()
+): Promise<string> {
+  const key = `${series}-${issuedAt.getFullYear()}`;
+
+  const [sequence] = await tx
+    .insert(documentSequences)
+    .values({ key, lastNumber: 1 })
+    .onConflictDoUpdate({
+      target: documentSequences.key,
+      set: {
+        lastNumber: sql`${documentSequences.lastNumber} + 1`,
+        updatedAt: new Date(),
+      },
+    })
+    .returning();
+
+  return `${key}-${String(sequence.lastNumber).padStart(6, '0')}`;
+}
+
+// Legal identity of a user for the invoice header, falling back to what the platform knows
+async function getInvoiceParty(userId: string | undefined, fallbackName: string): Promise<InvoiceParty> {
+  const profile = userId ? await storage.getBillingProfile(userId) : undefined;
+  if (!profile) {
+    return { name: fallbackName };
+  }
+
+  return {
+    name: profile.legalName,
+    ice: profile.ice,
+    ifNumber: profile.ifNumber,
+    rcNumber: profile.rcNumber,
+    address: profile.address,
+    city: profile.city,
+  };
+}
+
+export function summarizeVat(lines: InvoiceLine[]): InvoiceVatBreakdown[] {
+  const byRate = new Map<number, InvoiceVatBreakdown>();
+  for (const line of lines) {
+    const entry = byRate.get(line.vatRate) || { rate: line.vatRate, base: 0, vat: 0 };
+    entry.base += line.amount;
+    entry.vat += line.vatAmount;
+    byRate.set(line.vatRate, entry);
+  }
+  return Array.from(byRate.values());
+}
+
+// One line for the package tier plus one per extra in the order's snapshot
+async function buildOrderLines(order: PackageOrder, exchangeRate: number): Promise<InvoiceLine[]> {
+  const pkg = await storage.getServicePackage(order.packageId);
+  const extras = (Array.isArray(order.selectedExtras) ? order.selectedExtras : [])
+    .filter((extra): extra is SelectedPackageExtra => typeof extra === 'object' && extra !== null);
+  const extrasTotal = extras.reduce((total, extra) => total + extra.priceMad, 0);
+
+  const tierTitle = pkg
+    ? (order.tier === 'premium' ? pkg.premiumTitle : order.tier === 'standard' ? pkg.standardTitle : pkg.basicTitle) || order.tier
+    : order.tier;
+
+  const items = [
+    { description: pkg ? `${pkg.name} - ${tierTitle}` : `Package order (${order.tier})`, amountMad: order.totalPriceMad - extrasTotal },
+    ...extras.map((extra) => ({ description: extra.title, amountMad: extra.priceMad })),
+  ];
+
+  return items.map((item) => {
+    const amount = Math.round(item.amountMad * exchangeRate);
+    return {
+      description: item.description,
+      quantity: 1,
+      unitPrice: amount,
+      vatRate: MOROCCO_VAT_RATE,
+      amount,
+      vatAmount: calculateVAT(amount),
+    };
+  });
+}
+
 export async function generateInvoice(
   orderId: string,
-  locale: "fr-MA" | "ar-MA" | "en-US" = "fr-MA",
-  currency: "MAD" | "EUR" = "MAD"
+  locale: InvoiceLocale = "fr-MA",
+  currency: "MAD" | "EUR" = "MAD",
+  userId?: string
 ): Promise<string> {
   const [order] = await db
     .select()
@@ -73,52 +184,88 @@ export async function generateInvoice(
     throw new Error('Order not found');
   }
 
-  const subtotal = order.totalPriceMad;
-  let convertedSubtotal = subtotal;
-
-  if (currency === 'EUR') {
-    convertedSubtotal = await convertCurrency(subtotal, 'MAD', 'EUR');
+  // One invoice per order; corrections go through credit notes
+  const existing = await getInvoiceByOrderId(orderId);
+  if (existing) {
+    return existing.id;
   }
 
-  const vatAmount = calculateVAT(convertedSubtotal);
-  const total = convertedSubtotal + vatAmount;
-
-  const invoiceNumber = `INV-${Date.now()}-${Math.random().toString(36).substr(2, 9).toUpperCase()}`;
-
-  const invoiceData: InsertInvoice = {
-    orderId,
-    invoiceNumber,
-    locale,
-    currency,
-    subtotal: convertedSubtotal,
-    vatAmount,
-    total,
-    pdfUrl: null,
-    metadata: {
-      originalAmountMAD: subtotal,
-      exchangeRate: currency === 'EUR' ? await getLatestRate('MAD', 'EUR') : 1,
-    },
+  const parties = await getOrderParties(order);
+  const provider = parties.providerId ? await storage.getProvider(parties.providerId) : undefined;
+  const buyerUser = parties.buyerId ? await storage.getUser(parties.buyerId) : undefined;
+
+  const exchangeRate = currency === 'EUR' ? await getLatestRate('MAD', 'EUR') : 1;
+  const lines = await buildOrderLines(order, exchangeRate);
+  const vatBreakdown = summarizeVat(lines);
+  const subtotal = lines.reduce((total, line) => total + line.amount, 0);
+  const vatAmount = lines.reduce((total, line) => total + line.vatAmount, 0);
+  const total = subtotal + vatAmount;
+
+  const metadata: InvoiceMetadata = {
+    originalAmountMAD: order.totalPriceMad,
+    exchangeRate,
+    buyerUserId: parties.buyerId,
+    providerUserId: parties.providerUserId,
+    seller: await getInvoiceParty(parties.providerUserId, provider?.displayName || 'Provider'),
+    buyer: await getInvoiceParty(parties.buyerId, buyerUser?.email || 'Customer'),
+    lines,
+    vatBreakdown,
   };
 
-  const [invoice] = await db
-    .insert(invoices)
-    .values(invoiceData)
-    .returning();
-
-  const pdfUrl = await generateInvoicePDF(invoice.id, locale);
+  let invoice: typeof invoices.$inferSelect;
+  try {
+    invoice = await db.transaction(async (tx) => {
+      const invoiceNumber = await nextDocumentNumber(tx, 'INV');
+
+      const invoiceData: typeof invoices.$inferInsert = {
+        orderId,
+        invoiceNumber,
+        locale,
+        currency,
+        subtotal,
+        vatAmount,
+        total,
+        pdfUrl: null,
+        metadata,
+      };
+
+      const [created] = await tx
+        .insert(invoices)
+        .values(invoiceData)
+        .onConflictDoNothing({ target: invoices.orderId })
+        .returning();
+
+      // A concurrent completion invoiced the order first: roll back so the number isn't used up
+      if (!created) {
+        tx.rollback();
+      }
+      return created;
+    });
+  } catch (error) {
+    if (error instanceof TransactionRollbackError) {
+      const concurrent = await getInvoiceByOrderId(orderId);
+      if (concurrent) {
+        return concurrent.id;
+      }
+    }
+    throw error;
+  }
 
-  await db
-    .update(invoices)
-    .set({ pdfUrl })
-    .where(eq(invoices.id, invoice.id));
+  // The invoice exists even if rendering fails; the PDF is rebuilt on first download
+  try {
+    await ensureInvoicePdf(invoice.id);
+  } catch (error) {
+    console.error(`Failed to render PDF for invoice ${invoice.invoiceNumber}:`, error);
+  }
 
   await logAudit({
+    userId,
     action: AUDIT_ACTIONS.INVOICE_GENERATE,
     resourceType: 'invoice',
     resourceId: invoice.id,
     changes: {
       orderId,
-      invoiceNumber,
+      invoiceNumber: invoice.invoiceNumber,
       total,
       currency,
       locale,
@@ -128,23 +275,22 @@ export async function generateInvoice(
   return invoice.id;
 }
 
-async function getLatestRate(fromCurrency: string, toCurrency: string): Promise<number> {
-  const [rate] = await db
-    .select()
-    .from(currencyRates)
-    .where(
-      and(
-        eq(currencyRates.fromCurrency, fromCurrency),
-        eq(currencyRates.toCurrency, toCurrency)
-      )
-    )
-    .orderBy(desc(currencyRates.effectiveDate))
-    .limit(1);
-
-  return rate ? parseFloat(rate.rate) : DEFAULT_MAD_TO_EUR;
+// Buyer owns the file; the provider and admins may read it
+export function buildDocumentAclPolicy(metadata: Pick<InvoiceMetadata, 'buyerUserId' | 'providerUserId'>): ObjectAclPolicy {
+  return {
+    owner: metadata.buyerUserId || '',
+    visibility: 'private',
+    aclRules: [
+      ...(metadata.providerUserId
+        ? [{ group: { type: ObjectAccessGroupType.USER, id: metadata.providerUserId }, permission: ObjectPermission.READ }]
+        : []),
+      { group: { type: ObjectAccessGroupType.ROLE, id: 'admin' }, permission: ObjectPermission.READ },
+    ],
+  };
 }
 
-async function generateInvoicePDF(invoiceId: string, locale: string): Promise<string> {
+// Render and store the invoice PDF if it hasn't been stored yet; returns its /objects path
+export async function ensureInvoicePdf(invoiceId: string): Promise<string> {
   const [invoice] = await db
     .select()
     .from(invoices)
@@ -154,45 +300,65 @@ async function generateInvoicePDF(invoiceId: string, locale: string): Promise<st
     throw new Error('Invoice not found');
   }
 
-  const templates = {
-    'fr-MA': {
-      title: 'FACTURE',
-      subtotal: 'Sous-total',
-      vat: 'TVA (20%)',
-      total: 'Total',
-      invoiceNum: 'Numéro de facture',
-    },
-    'ar-MA': {
-      title: 'فاتورة',
-      subtotal: 'المجموع الفرعي',
-      vat: 'ضريبة القيمة المضافة (20%)',
-      total: 'المجموع',
-      invoiceNum: 'رقم الفاتورة',
-    },
-    'en-US': {
-      title: 'INVOICE',
-      subtotal: 'Subtotal',
-      vat: 'VAT (20%)',
-      total: 'Total',
-      invoiceNum: 'Invoice Number',
-    },
-  };
+  if (invoice.pdfUrl) {
+    return invoice.pdfUrl;
+  }
 
-  const t = templates[locale as keyof typeof templates] || templates['fr-MA'];
+  const metadata = invoice.metadata as InvoiceMetadata;
+  const pdf = await renderInvoicePdf({
+    kind: 'invoice',
+    number: invoice.invoiceNumber,
+    issueDate: invoice.createdAt,
+    locale: invoice.locale,
+    currency: invoice.currency,
+    seller: metadata.seller,
+    buyer: metadata.buyer,
+    lines: metadata.lines,
+    vatBreakdown: metadata.vatBreakdown,
+    subtotal: invoice.subtotal,
+    vatAmount: invoice.vatAmount,
+    total: invoice.total,
+    reference: invoice.orderId.slice(0, 8).toUpperCase(),
+  });
 
-  const textInvoice = `
-${t.title}
-${t.invoiceNum}: ${invoice.invoiceNumber}
-Date: ${new Date().toLocaleDateString()}
+  const pdfUrl = await new ObjectStorageService().uploadObjectEntity({
+    entityId: `invoices/${invoice.invoiceNumber}.pdf`,
+    data: pdf,
+    contentType: 'application/pdf',
+    aclPolicy: buildDocumentAclPolicy(metadata),
+  });
 
-${t.subtotal}: ${invoice.subtotal / 100} ${invoice.currency}
-${t.vat}: ${invoice.vatAmount / 100} ${invoice.currency}
-${t.total}: ${invoice.total / 100} ${invoice.currency}
-  `.trim();
+  await db
+    .update(invoices)
+    .set({ pdfUrl })
+    .where(eq(invoices.id, invoice.id));
 
-  console.log('Generated invoice (text-based):', textInvoice);
+  return pdfUrl;
+}
 
-  return `/invoices/${invoice.id}.pdf`;
+export async function getInvoice(invoiceId: string): Promise<Invoice | null> {
+  const [invoice] = await db
+    .select()
+    .from(invoices)
+    .where(eq(invoices.id, invoiceId));
+
+  return invoice || null;
+}
+
+async function getLatestRate(fromCurrency: string, toCurrency: string): Promise<number> {
+  const [rate] = await db
+    .select()
+    .from(currencyRates)
+    .where(
+      and(
+        eq(currencyRates.fromCurrency, fromCurrency),
+        eq(currencyRates.toCurrency, toCurrency)
+      )
+    )
+    .orderBy(desc(currencyRates.effectiveDate))
+    .limit(1);
+
+  return rate ? parseFloat(rate.rate) : DEFAULT_MAD_TO_EUR;
 }
 
 export async function getInvoiceByOrderId(orderId: string) {
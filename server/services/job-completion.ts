@@ -0,0 +1,298 @@
+import { db } from "../db";
+import { jobs, offers, platformFees, trips, type Job, type Offer, type Trip } from "../../shared/schema";
+import { and, eq, lte } from "drizzle-orm";
+import { storage } from "../storage";
+import { logAudit, AUDIT_ACTIONS } from "../audit";
+import { refundJobEscrow, releaseJobEscrow } from "./escrow";
+import { finishTrip } from "./trip-tracking";
+import { notifySafely } from "./notifications";
+
+/**
+ * Job Completion Service - From an accepted offer to a completed job
+ * The provider marks the job delivered; the buyer then confirms or disputes it within
+ * JOB_CONFIRMATION_WINDOW_HOURS, after which it completes on its own. Completion closes
+ * the trip (see trip-tracking.ts), releases the escrowed payment, collects the platform fee and opens ratings.
+ * Either party can dispute the job instead (see disputes.ts); its funds stay frozen in escrow
+ * until an admin mediator settles the dispute. The buyer can cancel an open job, or an accepted
+ * one before delivery, which refunds the payment and cancels the trip.
+ */
+
+const CONFIRMATION_WINDOW_HOURS = parseInt(process.env.JOB_CONFIRMATION_WINDOW_HOURS || "72", 10);
+
+export class JobCompletionError extends Error {
+  constructor(message: string, public readonly statusCode: number) {
+    super(message);
+    this.name = "JobCompletionError";
+    Object.setPrototypeOf(this, JobCompletionError.prototype);
+  }
+}
+
+async function loadJobWithOffer(jobId: string): Promise<{ job: Job; offer: Offer; providerUserId: string }> {
+  const job = await storage.getJob(jobId);
+  if (!job) {
+    throw new JobCompletionError("Job not found", 404);
+  }
+
+  const [offer] = await db
+    .select()
+    .from(offers)
+    .where(and(eq(offers.jobId, jobId), eq(offers.status, "accepted")));
+  const provider = offer ? await storage.getProvider(offer.providerId) : undefined;
+  if (!offer || !provider) {
+    throw new JobCompletionError("Job has no accepted offer", 409);
+  }
+
+  return { job, offer, providerUserId: provider.userId };
+}
+
+// The trip created at acceptance; jobs accepted before trips were recorded get one now
+async function ensureTrip(job: Job, offer: Offer): Promise<Trip> {
+  const [trip] = await db.select().from(trips).where(and(eq(trips.jobId, job.id), eq(trips.offerId, offer.id)));
+  return trip || storage.createTrip({ jobId: job.id, offerId: offer.id, providerId: offer.providerId, buyerId: job.buyerId });
+}
+
+// Provider: the work is done; starts the buyer's confirmation window
+export async function markJobDelivered(jobId: string, userId: string): Promise<Job> {
+  const { job, offer, providerUserId } = await loadJobWithOffer(jobId);
+  if (providerUserId !== userId) {
+    throw new JobCompletionError("Only the provider of the accepted offer can mark this job done", 403);
+  }
+
+  const deliveredAt = new Date();
+  const confirmationDueAt = new Date(deliveredAt.getTime() + CONFIRMATION_WINDOW_HOURS * 60 * 60 * 1000);
+
+  const [delivered] = await db
+    .update(jobs)
+    .set({ status: "delivered", deliveredAt, confirmationDueAt })
+    .where(and(eq(jobs.id, jobId), eq(jobs.status, "accepted")))
+    .returning();
+
+  if (!delivered) {
+    throw new JobCompletionError(`Job is ${job.status}, not in progress`, 409);
+  }
+
+  await ensureTrip(job, offer);
+
+  await logAudit({
+    userId,
+    action: AUDIT_ACTIONS.JOB_DELIVER,
+    resourceType: "job",
+    resourceId: jobId,
+    changes: { offerId: offer.id, confirmationDueAt },
+  });
+
+  await notifySafely(job.buyerId, {
+    eventType: "job_delivered",
+    title: "Job marked as done",
+    message: `The provider marked your ${job.category} job as done. Confirm or report a problem before ${confirmationDueAt.toISOString()}.`,
+    data: { jobId, confirmationDueAt: confirmationDueAt.toISOString(), windowHours: CONFIRMATION_WINDOW_HOURS },
+  });
+
+  return delivered;
+}
+
+// Buyer: withdraw an open job, or call off an accepted one before it is delivered
+export async function cancelJob(jobId: string, userId: string): Promise<Job> {
+  const job = await storage.getJob(jobId);
+  if (!job) {
+    throw new JobCompletionError("Job not found", 404);
+  }
+  if (job.buyerId !== userId) {
+    throw new JobCompletionError("Not authorized to cancel this job", 403);
+  }
+  if (job.status !== "open" && job.status !== "accepted") {
+    throw new JobCompletionError(`Job is ${job.status} and can no longer be cancelled`, 409);
+  }
+
+  // Accepted jobs need their offer for the refund, the trip and the fee
+  const accepted = job.status === "accepted" ? await loadJobWithOffer(jobId) : null;
+
+  // Conditional on the status we checked, so a concurrent delivery or acceptance wins or loses cleanly
+  const [cancelled] = await db
+    .update(jobs)
+    .set({ status: "cancelled" })
+    .where(and(eq(jobs.id, jobId), eq(jobs.status, job.status)))
+    .returning();
+
+  if (!cancelled) {
+    throw new JobCompletionError("Job changed status in the meantime", 409);
+  }
+
+  if (accepted) {
+    try {
+      await refundJobEscrow(jobId, "Job cancelled by the buyer", userId);
+    } catch (error) {
+      // Money still held: the job stays accepted so the cancellation can be retried
+      await db.update(jobs).set({ status: "accepted" }).where(and(eq(jobs.id, jobId), eq(jobs.status, "cancelled")));
+      throw new JobCompletionError(`Refund failed: ${(error as Error).message}`, 502);
+    }
+
+    const trip = await ensureTrip(job, accepted.offer);
+    await storage.updateTrip(trip.id, { status: "cancelled", updatedAt: new Date() });
+
+    // Nothing is left to take the commission from
+    await db
+      .update(platformFees)
+      .set({ status: "failed" })
+      .where(and(eq(platformFees.jobId, jobId), eq(platformFees.offerId, accepted.offer.id), eq(platformFees.status, "pending")));
+  }
+
+  await logAudit({
+    userId,
+    action: AUDIT_ACTIONS.JOB_CANCEL,
+    resourceType: "job",
+    resourceId: jobId,
+    changes: { from: job.status, offerId: accepted?.offer.id },
+  });
+
+  if (accepted) {
+    await notifySafely(accepted.providerUserId, {
+      eventType: "job_cancelled",
+      title: "Job cancelled",
+      message: `The buyer cancelled your ${job.category} job. Their payment has been refunded.`,
+      data: { jobId, offerId: accepted.offer.id },
+    });
+  }
+
+  return cancelled;
+}
+
+// Buyer (or the scheduler once the window has passed): complete the job and pay the provider
+export async function confirmJobCompletion(jobId: string, userId: string | null): Promise<Job> {
+  const { job, offer, providerUserId } = await loadJobWithOffer(jobId);
+  if (userId && job.buyerId !== userId) {
+    throw new JobCompletionError("Only the buyer can confirm this job", 403);
+  }
+
+  const completedAt = new Date();
+  const [completed] = await db
+    .update(jobs)
+    .set({ status: "completed", completedAt, confirmationDueAt: null })
+    .where(and(eq(jobs.id, jobId), eq(jobs.status, "delivered")))
+    .returning();
+
+  if (!completed) {
+    throw new JobCompletionError(`Job is ${job.status}, not awaiting confirmation`, 409);
+  }
+
+  const reason = userId ? "Buyer confirmed completion" : "Confirmation window elapsed";
+  try {
+    await releaseJobEscrow(jobId, reason);
+  } catch (error) {
+    // Money still held: the job goes back to awaiting confirmation so it can be retried
+    await db
+      .update(jobs)
+      .set({ status: "delivered", completedAt: null, confirmationDueAt: job.confirmationDueAt })
+      .where(and(eq(jobs.id, jobId), eq(jobs.status, "completed")));
+    throw new JobCompletionError(`Release failed: ${(error as Error).message}`, 502);
+  }
+
+  // Trips the provider did not complete themselves end when the work was delivered
+  const trip = await ensureTrip(job, offer);
+  if (trip.status !== "completed") {
+    await finishTrip(trip, job.deliveredAt || completedAt);
+  }
+
+  // The commission is withheld from the released funds
+  await db
+    .update(platformFees)
+    .set({ status: "collected", paidAt: completedAt })
+    .where(and(eq(platformFees.jobId, jobId), eq(platformFees.offerId, offer.id), eq(platformFees.status, "pending")));
+
+  await logAudit({
+    userId: userId || undefined,
+    action: AUDIT_ACTIONS.JOB_COMPLETE,
+    resourceType: "job",
+    resourceId: jobId,
+    changes: { offerId: offer.id, tripId: trip.id, automatic: !userId },
+  });
+
+  await notifySafely(providerUserId, {
+    eventType: "job_completed",
+    title: "Job completed",
+    message: `Your ${job.category} job is complete and the payment has been released for your next payout.`,
+    data: { jobId, offerId: offer.id, automatic: !userId },
+  });
+
+  return completed;
+}
+
+// Close a job once its dispute is settled: completed when the provider is paid in full or in
+// part, cancelled when the buyer got everything back. Money moves in disputes.ts
+export async function closeDisputedJob(jobId: string, completed: boolean): Promise<Job> {
+  const { job, offer } = await loadJobWithOffer(jobId);
+  const closedAt = new Date();
+
+  const [updated] = await db
+    .update(jobs)
+    .set(completed ? { status: "completed", completedAt: closedAt } : { status: "cancelled" })
+    .where(and(eq(jobs.id, jobId), eq(jobs.status, "disputed")))
+    .returning();
+
+  // A retried resolution finds the job already closed the same way and finishes the rest
+  const closed = updated || (job.status === (completed ? "completed" : "cancelled") ? job : undefined);
+  if (!closed) {
+    throw new JobCompletionError(`Job is ${job.status}, not disputed`, 409);
+  }
+
+  const trip = await ensureTrip(job, offer);
+  if (!completed) {
+    await storage.updateTrip(trip.id, { status: "cancelled", updatedAt: closedAt });
+  } else if (trip.status !== "completed") {
+    await finishTrip(trip, job.deliveredAt || closedAt);
+  }
+
+  // A full refund leaves nothing to take the commission from
+  await db
+    .update(platformFees)
+    .set(completed ? { status: "collected", paidAt: closedAt } : { status: "failed" })
+    .where(and(eq(platformFees.jobId, jobId), eq(platformFees.offerId, offer.id), eq(platformFees.status, "pending")));
+
+  return closed;
+}
+
+// Complete delivered jobs whose confirmation window has passed
+export async function completeOverdueJobs(now: Date = new Date()): Promise<number> {
+  const overdue = await db
+    .select({ id: jobs.id })
+    .from(jobs)
+    .where(and(eq(jobs.status, "delivered"), lte(jobs.confirmationDueAt, now)));
+
+  let completed = 0;
+  for (const { id } of overdue) {
+    try {
+      await confirmJobCompletion(id, null);
+      completed++;
+    } catch (error) {
+      console.error(`Automatic completion of job ${id} failed:`, error);
+    }
+  }
+
+  return completed;
+}
+
+// Ratings open once the job is completed: the buyer rates the provider and the provider rates
+// the buyer, once each
+export async function assertRatingAllowed(jobId: string, raterId: string, rateeId: string): Promise<void> {
+  const job = await storage.getJob(jobId);
+  if (!job) {
+    throw new JobCompletionError("Job not found", 404);
+  }
+  if (job.status !== "completed") {
+    throw new JobCompletionError("Ratings open once the job is completed", 409);
+  }
+
+  const { providerUserId } = await loadJobWithOffer(jobId);
+  const counterpart = raterId === job.buyerId ? providerUserId : raterId === providerUserId ? job.buyerId : null;
+  if (!counterpart) {
+    throw new JobCompletionError("Only the buyer and the provider of this job can rate it", 403);
+  }
+  if (rateeId !== counterpart) {
+    throw new JobCompletionError("You can only rate the other party of this job", 400);
+  }
+
+  const existing = await storage.getRatingsByJobId(jobId);
+  if (existing.some((rating) => rating.raterId === raterId)) {
+    throw new JobCompletionError("You already rated this job", 409);
+  }
+}
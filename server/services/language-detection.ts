@@ -0,0 +1,77 @@
+import type { MessageLanguage } from "../../shared/schema";
+
+/**
+ * Language Detection - Tags short chat messages as French, Arabic or English
+ * Arabic script (MSA or Darija) is Arabic. Latin text is scored on common words; Darija
+ * written in Latin letters ("salam, wach kayn chi taxi?", "3afak") counts as Arabic.
+ * Messages too short or too mixed to call are left undetermined (null).
+ */
+
+const ARABIC_LETTER = /[\u0621-\u064a\u0671-\u06d3]/g;
+const LATIN_LETTER = /[a-zà-ÿ]/gi;
+
+const COMMON_WORDS: Record<MessageLanguage, Set<string>> = {
+  fr: new Set([
+    "le", "la", "les", "un", "une", "des", "du", "de", "et", "est", "je", "vous", "nous", "il", "elle", "pour",
+    "avec", "dans", "sur", "pas", "ne", "que", "qui", "bonjour", "merci", "oui", "non", "demain", "combien",
+    "prix", "votre", "notre", "mon", "ma", "mes", "ce", "cette", "c'est", "suis", "sont", "au", "aux", "à",
+    "très", "bien", "aéroport", "heure", "heures", "voiture", "chauffeur", "disponible", "d'accord", "bonsoir",
+  ]),
+  en: new Set([
+    "the", "a", "an", "and", "is", "are", "i", "you", "we", "he", "she", "it", "for", "with", "in", "on",
+    "not", "do", "does", "what", "how", "hello", "hi", "thanks", "thank", "yes", "no", "tomorrow", "much",
+    "price", "your", "our", "my", "this", "that", "can", "will", "would", "please", "at", "to", "of",
+    "airport", "hour", "hours", "car", "driver", "available", "ok", "okay", "there", "be", "have",
+  ]),
+  ar: new Set([
+    "salam", "slm", "wach", "wash", "labas", "bghit", "bghina", "kayn", "kayna", "chi", "shi", "wakha", "safi",
+    "chokran", "shukran", "choukran", "bzaf", "mzyan", "mezyan", "ghda", "lyoum", "daba", "fin", "chhal",
+    "shhal", "ana", "nta", "nti", "howa", "hiya", "hna", "hadi", "hada", "dyal", "dial", "ila", "insha", "inchallah",
+    "flous", "drham", "tomobil", "tonobil", "sa3a", "3afak", "m3a", "wa3er", "ma3lich", "mashi", "machi",
+  ]),
+};
+
+// Arabizi: digits standing in for Arabic letters inside a word (3afak, m3a, 7ta, sa3a)
+const ARABIZI_WORD = /^[a-z]*[a-z][2379][a-z]*$|^[2379][a-z]+$/;
+
+const MIN_LETTERS = 3;
+
+export function detectLanguage(text: string): MessageLanguage | null {
+  // Links and masked contact details say nothing about the language
+  const cleaned = text.replace(/https?:\/\/\S+|\[•••\]/g, " ");
+
+  const arabicLetters = (cleaned.match(ARABIC_LETTER) || []).length;
+  const latinLetters = (cleaned.match(LATIN_LETTER) || []).length;
+  if (arabicLetters + latinLetters < MIN_LETTERS) {
+    return null;
+  }
+  if (arabicLetters > latinLetters) {
+    return "ar";
+  }
+
+  const words = cleaned.toLowerCase().match(/[a-zà-ÿ0-9']+/g) || [];
+  const scores: Record<MessageLanguage, number> = { fr: 0, en: 0, ar: 0 };
+  for (const word of words) {
+    for (const language of Object.keys(COMMON_WORDS) as MessageLanguage[]) {
+      if (COMMON_WORDS[language].has(word)) {
+        scores[language]++;
+      }
+    }
+    if (ARABIZI_WORD.test(word)) {
+      scores.ar++;
+    }
+  }
+
+  const ranked = (Object.entries(scores) as [MessageLanguage, number][]).sort((a, b) => b[1] - a[1]);
+  const [best, runnerUp] = ranked;
+  if (best[1] === 0 || best[1] === runnerUp[1]) {
+    return null;
+  }
+  return best[0];
+}
+
+// "fr-MA" -> "fr"; users.locale is one of the app's FR/AR/EN locales
+export function localeLanguage(locale: string | null | undefined): MessageLanguage {
+  const language = (locale || "fr").slice(0, 2).toLowerCase();
+  return language === "ar" || language === "en" ? language : "fr";
+}
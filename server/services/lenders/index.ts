@@ -0,0 +1,26 @@
+import { mockLender } from "./mock";
+import type { LenderAdapter, LenderCode } from "./types";
+
+export * from "./types";
+
+const LENDER_ADAPTERS: Record<LenderCode, LenderAdapter> = {
+  mock: mockLender,
+};
+
+// Lenders asked for every pre-qualification, from FINANCING_LENDERS (comma-separated codes)
+export function getEnabledLenders(): LenderAdapter[] {
+  const codes = (process.env.FINANCING_LENDERS || "mock")
+    .split(",")
+    .map((code) => code.trim())
+    .filter(Boolean);
+
+  return codes.map((code) => getLenderAdapter(code));
+}
+
+export function getLenderAdapter(code: string): LenderAdapter {
+  const adapter = LENDER_ADAPTERS[code as LenderCode];
+  if (!adapter) {
+    throw new Error(`Unsupported lender: ${code}`);
+  }
+  return adapter;
+}
@@ -0,0 +1,76 @@
+import { randomUUID } from "crypto";
+import type { LenderAdapter, LenderQuote, LenderQuoteRequest } from "./types";
+
+/**
+ * Mock lender - local stand-in for a financing partner (development and demos)
+ * Underwrites on the debt-to-income ratio of a straight monthly split: under 40% is approved
+ * at the prime rate, up to 50% at a higher rate with a larger down payment, above that declined.
+ * Offers both a loan and a lease with a 20% residual.
+ */
+
+const MAX_DTI = 0.5;
+const PRIME_DTI = 0.4;
+
+// Offers accepted here are remembered so a second acceptance is refused, like a real lender would
+const acceptedReferences = new Set<string>();
+
+function quoteTerms(request: LenderQuoteRequest): { approved: boolean; apr: number; minDownPaymentPct: number; dti: number } {
+  const financed = request.amountMad - (request.downPaymentMad || 0);
+  const dti = financed / request.termMonths / request.monthlyIncomeMad;
+
+  if (dti < PRIME_DTI) {
+    return { approved: true, apr: 7.5, minDownPaymentPct: 0.1, dti };
+  }
+  if (dti <= MAX_DTI) {
+    return { approved: true, apr: 9.5, minDownPaymentPct: 0.2, dti };
+  }
+  return { approved: false, apr: 0, minDownPaymentPct: 0, dti };
+}
+
+export const mockLender: LenderAdapter = {
+  code: "mock",
+  name: "Mock Lender",
+
+  async quote(request) {
+    const terms = quoteTerms(request);
+    const conditions = {
+      dti: Math.round(terms.dti * 1000) / 1000,
+      ...(terms.approved ? {} : { reason: "Debt-to-income ratio too high" }),
+    };
+
+    const loan: LenderQuote = {
+      lenderReference: `mock_loan_${randomUUID()}`,
+      type: "loan",
+      approved: terms.approved,
+      apr: terms.apr,
+      termMonths: request.termMonths,
+      minDownPaymentPct: terms.minDownPaymentPct,
+      residualPct: 0,
+      validForDays: 14,
+      conditions,
+    };
+
+    // Leases carry a 20% buyout and a slightly lower rate, as the asset secures the residual
+    const lease: LenderQuote = {
+      lenderReference: `mock_lease_${randomUUID()}`,
+      type: "lease",
+      approved: terms.approved,
+      apr: terms.approved ? terms.apr - 1 : 0,
+      termMonths: request.termMonths,
+      minDownPaymentPct: terms.minDownPaymentPct,
+      residualPct: 0.2,
+      validForDays: 14,
+      conditions,
+    };
+
+    return [loan, lease];
+  },
+
+  async acceptOffer(request) {
+    if (acceptedReferences.has(request.lenderReference)) {
+      return { status: "rejected", reason: "Offer already accepted" };
+    }
+    acceptedReferences.add(request.lenderReference);
+    return { status: "accepted", contractReference: `MOCK-${Date.now().toString(36).toUpperCase()}` };
+  },
+};
@@ -0,0 +1,51 @@
+/**
+ * Lender adapter contract
+ * Each financing partner underwrites a pre-qualification request into loan and/or lease terms
+ * (rate, term, down payment and residual shares) and confirms offers the buyer accepts.
+ * Payment amounts are computed by our amortization calculator, not by the lender.
+ */
+
+export type LenderCode = "mock";
+
+export interface LenderQuoteRequest {
+  reference: string; // Our job id
+  amountMad: number;
+  termMonths: number;
+  monthlyIncomeMad: number;
+  downPaymentMad?: number; // Buyer's preferred down payment; lenders may require more
+  category: string;
+  city: string | null;
+}
+
+export interface LenderQuote {
+  lenderReference: string;
+  type: "loan" | "lease";
+  approved: boolean;
+  apr: number; // Annual percentage rate, e.g. 7.5
+  termMonths: number;
+  minDownPaymentPct: number; // 0-1 share of the amount
+  residualPct: number; // 0-1 share of the amount owed at lease end; 0 for loans
+  validForDays: number;
+  conditions: Record<string, any>;
+}
+
+export interface LenderAcceptRequest {
+  lenderReference: string;
+  principalMad: number;
+  downPaymentMad: number;
+  monthlyMad: number;
+  consentVersion: string;
+}
+
+export interface LenderAcceptResult {
+  status: "accepted" | "rejected";
+  contractReference?: string;
+  reason?: string;
+}
+
+export interface LenderAdapter {
+  readonly code: LenderCode;
+  readonly name: string;
+  quote(request: LenderQuoteRequest): Promise<LenderQuote[]>;
+  acceptOffer(request: LenderAcceptRequest): Promise<LenderAcceptResult>;
+}
@@ -0,0 +1,18 @@
+import { passthroughMatcher } from "./passthrough";
+import type { MapMatchingBackend, MapMatcherCode } from "./types";
+
+export * from "./types";
+
+const MAP_MATCHING_BACKENDS: Record<MapMatcherCode, MapMatchingBackend> = {
+  passthrough: passthroughMatcher,
+};
+
+// Backend selected with MAP_MATCHING_BACKEND
+export function getMapMatchingBackend(): MapMatchingBackend {
+  const code = process.env.MAP_MATCHING_BACKEND || "passthrough";
+  const backend = MAP_MATCHING_BACKENDS[code as MapMatcherCode];
+  if (!backend) {
+    throw new Error(`Unsupported map matching backend: ${code}`);
+  }
+  return backend;
+}
@@ -0,0 +1,15 @@
+import type { TripRoutePoint } from "../../../shared/schema";
+import type { MapMatchingBackend } from "./types";
+
+/**
+ * Passthrough matcher - stand-in until a road network service is configured
+ * Returns the track as recorded; outliers are already dropped by the track processing pipeline.
+ */
+
+export const passthroughMatcher: MapMatchingBackend = {
+  code: "passthrough",
+
+  async match(points: TripRoutePoint[]): Promise<TripRoutePoint[]> {
+    return points;
+  },
+};
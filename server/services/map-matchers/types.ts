@@ -0,0 +1,14 @@
+import type { TripRoutePoint } from "../../../shared/schema";
+
+/**
+ * Map-matching backend contract
+ * A backend snaps a cleaned GPS track onto the road network. It receives the points in
+ * chronological order and returns them in the same order, possibly fewer or moved.
+ */
+
+export type MapMatcherCode = "passthrough";
+
+export interface MapMatchingBackend {
+  code: MapMatcherCode;
+  match(points: TripRoutePoint[]): Promise<TripRoutePoint[]>;
+}
@@ -0,0 +1,111 @@
+import { db } from "../db";
+import { jobs, messages, users, type ContactLeakFlag, type Message } from "../../shared/schema";
+import { desc, eq, sql } from "drizzle-orm";
+import { logAudit, AUDIT_ACTIONS } from "../audit";
+import { detectLanguage } from "./language-detection";
+
+/**
+ * Message Moderation - Admin queue for messages flagged with contact details
+ * Messages sent before a job had an accepted offer are masked and flagged on send
+ * (messaging.ts). Admins confirm a flag (the text stays masked) or dismiss it as a
+ * false positive, which restores the original text.
+ */
+
+export class ModerationError extends Error {
+  constructor(message: string, public readonly statusCode: number) {
+    super(message);
+    this.name = "ModerationError";
+    Object.setPrototypeOf(this, ModerationError.prototype);
+  }
+}
+
+export interface FlaggedMessage {
+  message: Message;
+  flag: ContactLeakFlag;
+  senderEmail: string | null;
+  jobCategory: string;
+  jobCity: string | null;
+  senderFlagCount: number; // Flagged messages by the same sender, for spotting repeat offenders
+}
+
+const QUEUE_LIMIT = 100;
+
+// Flagged messages by review status, newest first
+export async function listFlaggedMessages(
+  reviewStatus: ContactLeakFlag["reviewStatus"] = "pending"
+): Promise<FlaggedMessage[]> {
+  const rows = await db
+    .select({
+      message: messages,
+      senderEmail: users.email,
+      jobCategory: jobs.category,
+      jobCity: jobs.city,
+    })
+    .from(messages)
+    .innerJoin(jobs, eq(messages.jobId, jobs.id))
+    .leftJoin(users, eq(messages.senderId, users.id))
+    .where(sql`${messages.meta}->'contactLeak'->>'reviewStatus' = ${reviewStatus}`)
+    .orderBy(desc(messages.createdAt))
+    .limit(QUEUE_LIMIT);
+
+  const flagCounts = await db
+    .select({ senderId: messages.senderId, count: sql<number>`count(*)::int` })
+    .from(messages)
+    .where(sql`${messages.meta} ? 'contactLeak'`)
+    .groupBy(messages.senderId);
+  const countBySender = new Map(flagCounts.map((row) => [row.senderId, row.count]));
+
+  return rows.map((row) => ({
+    message: row.message,
+    flag: row.message.meta!.contactLeak!,
+    senderEmail: row.senderEmail,
+    jobCategory: row.jobCategory,
+    jobCity: row.jobCity,
+    senderFlagCount: countBySender.get(row.message.senderId) || 0,
+  }));
+}
+
+export async function reviewFlaggedMessage(
+  messageId: string,
+  adminId: string,
+  review: { decision: "confirm" | "dismiss"; note?: string }
+): Promise<Message> {
+  const [message] = await db.select().from(messages).where(eq(messages.id, messageId));
+  const flag = message?.meta?.contactLeak;
+  if (!message || !flag) {
+    throw new ModerationError("Flagged message not found", 404);
+  }
+  if (flag.reviewStatus !== "pending") {
+    throw new ModerationError(`Flag was already ${flag.reviewStatus}`, 409);
+  }
+
+  const dismissed = review.decision === "dismiss";
+  const reviewedFlag: ContactLeakFlag = {
+    ...flag,
+    reviewStatus: dismissed ? "dismissed" : "confirmed",
+    reviewedBy: adminId,
+    reviewedAt: new Date().toISOString(),
+    reviewNote: review.note,
+  };
+
+  // A false positive gets its original text back; translations of the masked text are dropped
+  const restoredBody = dismissed && flag.originalBody !== undefined ? flag.originalBody : null;
+
+  const [updated] = await db
+    .update(messages)
+    .set(restoredBody !== null
+      ? { body: restoredBody, language: detectLanguage(restoredBody), meta: { contactLeak: reviewedFlag } }
+      : { meta: { ...message.meta, contactLeak: reviewedFlag } })
+    .where(eq(messages.id, messageId))
+    .returning();
+
+  await logAudit({
+    userId: adminId,
+    action: AUDIT_ACTIONS.CONTACT_LEAK_REVIEW,
+    resourceType: 'message',
+    resourceId: messageId,
+    changes: { decision: review.decision, note: review.note, senderId: message.senderId },
+  });
+
+  return updated;
+}
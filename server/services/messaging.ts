@@ -0,0 +1,358 @@
+import { db } from "../db";
+import {
+  jobs,
+  messages,
+  messageReads,
+  offers,
+  providers,
+  type Job,
+  type Message,
+  type MessageAttachment,
+  type MessageMeta,
+  type MessageRead,
+  type SendMessage,
+} from "../../shared/schema";
+import { and, desc, eq, lt } from "drizzle-orm";
+import { storage } from "../storage";
+import { publishToUsers } from "../realtime";
+import { logAudit, AUDIT_ACTIONS } from "../audit";
+import { detectContactInfo, maskContactInfo } from "./contact-detection";
+import { detectLanguage } from "./language-detection";
+import { ObjectStorageService, ObjectNotFoundError } from "../objectStorage";
+import {
+  ObjectAccessGroupType,
+  ObjectPermission,
+  getObjectAclPolicy,
+  setObjectAclPolicy,
+  type ObjectAclPolicy,
+} from "../objectAcl";
+
+/**
+ * Messaging Service - Job conversations between a buyer and the providers bidding on the job
+ * Participants are the job's buyer and every provider with an offer on it; only they (and admins,
+ * read-only) see a conversation. Each participant has a read position per conversation, and
+ * attachments are private objects readable by whoever is a participant at the time of access.
+ * Until the job has an accepted offer, contact details in a message are masked and the message is
+ * flagged for the admin moderation queue (see message-moderation.ts). Messages are tagged with
+ * their detected language for on-demand translation (see translation.ts).
+ * New messages, typing indicators and read receipts are pushed over the realtime channel.
+ */
+
+const MESSAGE_ATTACHMENT_MAX_BYTES = parseInt(process.env.MESSAGE_ATTACHMENT_MAX_MB || "10", 10) * 1024 * 1024;
+
+// Photos, PDFs and office documents
+export const ALLOWED_ATTACHMENT_TYPES = [
+  /^image\/(jpeg|png|webp|gif|heic|heif)$/,
+  /^application\/pdf$/,
+  /^text\/plain$/,
+  /^application\/(msword|vnd\.ms-excel|vnd\.openxmlformats-officedocument\.[\w.]+)$/,
+];
+
+export class MessagingError extends Error {
+  constructor(message: string, public readonly statusCode: number) {
+    super(message);
+    this.name = "MessagingError";
+    Object.setPrototypeOf(this, MessagingError.prototype);
+  }
+}
+
+export type MessageWithSender = Message & { senderName: string };
+
+export interface ConversationSummary extends Job {
+  lastMessage?: Message;
+  unreadCount: number;
+  readAt: Date | null;
+}
+
+// User ids of everyone in a job's conversation
+export async function getJobParticipantIds(jobId: string): Promise<string[]> {
+  const [job] = await db.select({ buyerId: jobs.buyerId }).from(jobs).where(eq(jobs.id, jobId));
+  if (!job) {
+    return [];
+  }
+
+  const bidders = await db
+    .select({ userId: providers.userId })
+    .from(offers)
+    .innerJoin(providers, eq(offers.providerId, providers.id))
+    .where(eq(offers.jobId, jobId));
+
+  return Array.from(new Set([job.buyerId, ...bidders.map((bidder) => bidder.userId)]));
+}
+
+export async function isJobParticipant(jobId: string, userId: string): Promise<boolean> {
+  const participantIds = await getJobParticipantIds(jobId);
+  return participantIds.includes(userId);
+}
+
+export async function assertParticipant(jobId: string, userId: string, role?: string): Promise<string[]> {
+  const job = await storage.getJob(jobId);
+  if (!job) {
+    throw new MessagingError("Job not found", 404);
+  }
+
+  const participantIds = await getJobParticipantIds(jobId);
+  if (!participantIds.includes(userId) && role !== "admin") {
+    throw new MessagingError("Only the buyer and providers with an offer on this job can access its messages", 403);
+  }
+  return participantIds;
+}
+
+// The unmasked text of a flagged message stays server-side; admins read it from the moderation queue
+function publicMeta(meta: MessageMeta | null): MessageMeta | null {
+  if (!meta?.contactLeak) {
+    return meta;
+  }
+  const { originalBody, ...contactLeak } = meta.contactLeak;
+  return { ...meta, contactLeak };
+}
+
+export async function withSenderName(message: Message): Promise<MessageWithSender> {
+  const sender = await storage.getUser(message.senderId);
+  return { ...message, meta: publicMeta(message.meta), senderName: sender?.email || 'Unknown' };
+}
+
+// Mask contact details sent before an offer is accepted, so the deal can't move off-platform
+async function screenContactInfo(jobId: string, body: string): Promise<{ body: string; meta: MessageMeta | null }> {
+  const matches = detectContactInfo(body);
+  if (matches.length === 0) {
+    return { body, meta: null };
+  }
+
+  const [acceptedOffer] = await db
+    .select({ id: offers.id })
+    .from(offers)
+    .where(and(eq(offers.jobId, jobId), eq(offers.status, "accepted")))
+    .limit(1);
+  if (acceptedOffer) {
+    return { body, meta: null };
+  }
+
+  return {
+    body: maskContactInfo(body, matches),
+    meta: {
+      contactLeak: {
+        kinds: Array.from(new Set(matches.map((match) => match.kind))),
+        matchCount: matches.length,
+        obfuscated: matches.some((match) => match.obfuscated),
+        originalBody: body,
+        detectedAt: new Date().toISOString(),
+        reviewStatus: "pending",
+      },
+    },
+  };
+}
+
+// Signed URL the client PUTs a file to before sending it as an attachment
+export async function createAttachmentUploadUrl(jobId: string, userId: string): Promise<string> {
+  await assertParticipant(jobId, userId);
+  return new ObjectStorageService().getObjectEntityUploadURL();
+}
+
+// Take ownership of an uploaded file and scope its ACL to the conversation
+async function claimAttachment(
+  jobId: string,
+  senderId: string,
+  attachment: SendMessage["attachments"][number]
+): Promise<MessageAttachment> {
+  const objectStorageService = new ObjectStorageService();
+  const objectPath = objectStorageService.normalizeObjectEntityPath(attachment.url);
+  if (!objectPath.startsWith("/objects/uploads/")) {
+    throw new MessagingError("Attachments must be uploaded through the attachment upload URL", 400);
+  }
+
+  let objectFile;
+  try {
+    objectFile = await objectStorageService.getObjectEntityFile(objectPath);
+  } catch (error) {
+    if (error instanceof ObjectNotFoundError) {
+      throw new MessagingError(`Attachment ${attachment.name} was not uploaded`, 400);
+    }
+    throw error;
+  }
+
+  // Fresh uploads have no policy yet; anything else must already be this sender's file in this conversation
+  const existingPolicy = await getObjectAclPolicy(objectFile);
+  const scopedHere = existingPolicy?.aclRules?.some((rule) =>
+    rule.group.type === ObjectAccessGroupType.JOB_CONVERSATION && rule.group.id === jobId
+  );
+  if (existingPolicy && (existingPolicy.owner !== senderId || !scopedHere)) {
+    throw new MessagingError(`Attachment ${attachment.name} can't be shared in this conversation`, 403);
+  }
+
+  const [metadata] = await objectFile.getMetadata();
+  const sizeBytes = Number(metadata.size || 0);
+  const contentType = metadata.contentType || "application/octet-stream";
+
+  if (sizeBytes > MESSAGE_ATTACHMENT_MAX_BYTES) {
+    throw new MessagingError(`Attachment ${attachment.name} is larger than ${MESSAGE_ATTACHMENT_MAX_BYTES / 1024 / 1024} MB`, 400);
+  }
+  if (!ALLOWED_ATTACHMENT_TYPES.some((pattern) => pattern.test(contentType))) {
+    throw new MessagingError(`Attachments of type ${contentType} are not allowed`, 400);
+  }
+
+  const aclPolicy: ObjectAclPolicy = {
+    owner: senderId,
+    visibility: "private",
+    aclRules: [
+      { group: { type: ObjectAccessGroupType.JOB_CONVERSATION, id: jobId }, permission: ObjectPermission.READ },
+      { group: { type: ObjectAccessGroupType.ROLE, id: "admin" }, permission: ObjectPermission.READ },
+    ],
+  };
+  await setObjectAclPolicy(objectFile, aclPolicy);
+
+  return { url: objectPath, name: attachment.name, contentType, sizeBytes };
+}
+
+export async function getConversationMessages(jobId: string, userId: string, role?: string): Promise<MessageWithSender[]> {
+  await assertParticipant(jobId, userId, role);
+  const messagesList = await storage.getMessagesByJobId(jobId);
+  return Promise.all(messagesList.map(withSenderName));
+}
+
+// Store a participant's message and push it to everyone in the conversation
+export async function sendMessage(input: SendMessage, senderId: string): Promise<MessageWithSender> {
+  const participantIds = await assertParticipant(input.jobId, senderId);
+
+  const attachments: MessageAttachment[] = [];
+  for (const attachment of input.attachments) {
+    attachments.push(await claimAttachment(input.jobId, senderId, attachment));
+  }
+
+  const screened = await screenContactInfo(input.jobId, input.body.trim());
+
+  const message = await storage.createMessage({
+    jobId: input.jobId,
+    senderId,
+    body: screened.body,
+    attachments,
+    language: detectLanguage(screened.body),
+    meta: screened.meta,
+  });
+
+  if (screened.meta?.contactLeak) {
+    await logAudit({
+      userId: senderId,
+      action: AUDIT_ACTIONS.CONTENT_FLAG,
+      resourceType: 'message',
+      resourceId: message.id,
+      changes: {
+        jobId: message.jobId,
+        reason: 'contact_leak',
+        kinds: screened.meta.contactLeak.kinds,
+        obfuscated: screened.meta.contactLeak.obfuscated,
+      },
+    });
+  }
+
+  // Senders have read their own message
+  await saveReadPosition(input.jobId, senderId, message);
+
+  const enriched = await withSenderName(message);
+  publishToUsers(participantIds, { type: "message", jobId: message.jobId, message: enriched });
+  return enriched;
+}
+
+// Move a participant's read position forward (never back) to the given message
+async function saveReadPosition(jobId: string, userId: string, message: Message): Promise<void> {
+  await db
+    .insert(messageReads)
+    .values({ jobId, userId, lastReadMessageId: message.id, readAt: message.createdAt })
+    .onConflictDoUpdate({
+      target: [messageReads.jobId, messageReads.userId],
+      set: { lastReadMessageId: message.id, readAt: message.createdAt },
+      setWhere: lt(messageReads.readAt, message.createdAt),
+    });
+}
+
+// Mark a conversation read up to a message (the latest one if omitted) and send the read receipt
+export async function markConversationRead(jobId: string, userId: string, messageId?: string): Promise<MessageRead | null> {
+  const participantIds = await assertParticipant(jobId, userId);
+
+  const [message] = await db
+    .select()
+    .from(messages)
+    .where(messageId ? and(eq(messages.jobId, jobId), eq(messages.id, messageId)) : eq(messages.jobId, jobId))
+    .orderBy(desc(messages.createdAt))
+    .limit(1);
+
+  if (!message) {
+    if (messageId) {
+      throw new MessagingError("Message not found in this conversation", 404);
+    }
+    return null;
+  }
+
+  await saveReadPosition(jobId, userId, message);
+
+  const [position] = await db
+    .select()
+    .from(messageReads)
+    .where(and(eq(messageReads.jobId, jobId), eq(messageReads.userId, userId)));
+
+  if (position?.lastReadMessageId) {
+    publishToUsers(
+      participantIds,
+      {
+        type: "read",
+        jobId,
+        userId,
+        messageId: position.lastReadMessageId,
+        readAt: position.readAt.toISOString(),
+      },
+      { excludeUserId: userId }
+    );
+  }
+
+  return position || null;
+}
+
+// Every participant's read position, for "seen" markers after a reload
+export async function getConversationReads(jobId: string, userId: string, role?: string): Promise<MessageRead[]> {
+  await assertParticipant(jobId, userId, role);
+  return db.select().from(messageReads).where(eq(messageReads.jobId, jobId));
+}
+
+// Jobs the user buys or has bid on, with the last message and the user's unread count
+export async function listConversations(userId: string): Promise<ConversationSummary[]> {
+  const jobsById = new Map<string, Job>();
+  for (const job of await storage.getJobsByBuyerId(userId)) {
+    jobsById.set(job.id, job);
+  }
+
+  const provider = await storage.getProviderByUserId(userId);
+  if (provider) {
+    const bidJobs = await db
+      .select({ job: jobs })
+      .from(offers)
+      .innerJoin(jobs, eq(offers.jobId, jobs.id))
+      .where(eq(offers.providerId, provider.id));
+    for (const { job } of bidJobs) {
+      jobsById.set(job.id, job);
+    }
+  }
+
+  const positions = await db.select().from(messageReads).where(eq(messageReads.userId, userId));
+  const readAtByJob = new Map(positions.map((position) => [position.jobId, position.readAt]));
+
+  const conversations = await Promise.all(
+    Array.from(jobsById.values()).map(async (job) => {
+      const messagesList = await storage.getMessagesByJobId(job.id);
+      const readAt = readAtByJob.get(job.id) || null;
+      const lastMessage = messagesList[messagesList.length - 1];
+      return {
+        ...job,
+        lastMessage: lastMessage && { ...lastMessage, meta: publicMeta(lastMessage.meta) },
+        unreadCount: messagesList.filter((message) =>
+          message.senderId !== userId && (!readAt || message.createdAt > readAt)
+        ).length,
+        readAt,
+      };
+    })
+  );
+
+  // Most recent activity first
+  const lastActivity = (conversation: ConversationSummary) =>
+    (conversation.lastMessage?.createdAt || conversation.createdAt).getTime();
+  return conversations.sort((a, b) => lastActivity(b) - lastActivity(a));
+}
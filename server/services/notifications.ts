@@ -1,4 +1,5 @@
 import type { NotificationPreference } from "@shared/schema";
+import { storage } from "../storage";
 
 export interface NotificationPayload {
   eventType: string;
@@ -58,6 +59,237 @@ Date: ${data.date}
 
 Thank you for your business!
 
+Best regards,
+SoukMatch Team
+    `.trim(),
+  },
+  installment_due: {
+    subject: (data: any) => `Installment ${data.installmentNumber} Due: ${data.amount} MAD`,
+    body: (data: any) => `
+Dear ${data.recipientName || 'Customer'},
+
+Installment ${data.installmentNumber} of your payment plan is due.
+
+Order ID: ${data.orderId}
+Amount: ${data.amount} MAD
+Due date: ${data.dueDate}
+${data.paymentUrl ? `\nComplete the payment here: ${data.paymentUrl}\n` : ''}
+Best regards,
+SoukMatch Team
+    `.trim(),
+  },
+  payment_dunning: {
+    subject: (data: any) => data.finalNotice
+      ? `Final Notice: Installment ${data.installmentNumber} Unpaid`
+      : `Payment Failed: Installment ${data.installmentNumber}`,
+    body: (data: any) => `
+Dear ${data.recipientName || 'Customer'},
+
+We could not collect installment ${data.installmentNumber} of your payment plan.
+
+Order ID: ${data.orderId}
+Amount: ${data.amount} MAD
+Reason: ${data.reason || 'Payment declined'}
+${data.nextAttemptAt ? `Next attempt: ${data.nextAttemptAt}` : 'Your order is on hold until this installment is paid.'}
+
+Please check your payment method or pay the installment from your orders page.
+
+Best regards,
+SoukMatch Team
+    `.trim(),
+  },
+  subscription_renewal: {
+    subject: (data: any) => `Subscription Renewal: ${data.amount} MAD`,
+    body: (data: any) => `
+Dear ${data.recipientName || 'Provider'},
+
+Your ${data.tier} subscription has reached the end of its cycle and is up for renewal.
+
+Amount: ${data.amount} MAD
+${data.paymentUrl ? `\nComplete the payment here: ${data.paymentUrl}\n` : ''}
+If the payment is not completed, your account will return to the Free plan.
+
+Best regards,
+SoukMatch Team
+    `.trim(),
+  },
+  subscription_lapsed: {
+    subject: () => `Your Subscription Has Ended`,
+    body: (data: any) => `
+Dear ${data.recipientName || 'Provider'},
+
+Your ${data.previousTier} subscription has ended: ${data.reason}.
+Your account is now on the Free plan. You can subscribe again at any time from your dashboard.
+
+Best regards,
+SoukMatch Team
+    `.trim(),
+  },
+  offer_countered: {
+    subject: (data: any) => `New Counter-Offer: ${data.priceMad} MAD`,
+    body: (data: any) => `
+Dear ${data.recipientName || 'User'},
+
+A counter-offer was made in round ${data.round} of your offer negotiation.
+
+Price: ${data.priceMad} MAD
+${data.etaMin ? `ETA: ${data.etaMin} minutes\n` : ''}
+Please accept, reject or counter it from the job page.
+
+Best regards,
+SoukMatch Team
+    `.trim(),
+  },
+  offer_counter_response: {
+    subject: (data: any) => `Counter-Offer ${data.decision === 'accept' ? 'Accepted' : 'Rejected'}`,
+    body: (data: any) => `
+Dear ${data.recipientName || 'User'},
+
+Your counter-offer of ${data.priceMad} MAD (round ${data.round}) was ${data.decision === 'accept' ? 'accepted' : 'rejected'}.
+
+Best regards,
+SoukMatch Team
+    `.trim(),
+  },
+  offer_expired: {
+    subject: () => `Your Offer Has Expired`,
+    body: (data: any) => `
+Dear ${data.recipientName || 'Provider'},
+
+Your offer${data.priceMad ? ` of ${data.priceMad} MAD` : ''} expired before the buyer accepted it.
+You can submit a new offer if the job is still open.
+
+Best regards,
+SoukMatch Team
+    `.trim(),
+  },
+  job_delivered: {
+    subject: () => `Please Confirm Your Completed Job`,
+    body: (data: any) => `
+Dear ${data.recipientName || 'Customer'},
+
+Your provider has marked the job as done.
+
+Please confirm it, or report a problem, before ${data.confirmationDueAt}.
+If we don't hear from you within ${data.windowHours} hours, the job will be completed and the payment released to the provider.
+
+Best regards,
+SoukMatch Team
+    `.trim(),
+  },
+  dispute_opened: {
+    subject: () => `A Dispute Was Opened`,
+    body: (data: any) => `
+Dear ${data.recipientName || 'Customer'},
+
+A dispute was opened about your ${String(data.subjectType || '').replace('_', ' ')} (${String(data.reasonCode || '').replace(/_/g, ' ')}):
+
+${data.description}
+
+The payment stays on hold while a mediator reviews the case. You can reply and add evidence in the dispute thread.
+
+Best regards,
+SoukMatch Team
+    `.trim(),
+  },
+  dispute_message: {
+    subject: () => `New Message in Your Dispute`,
+    body: (data: any) => `
+Dear ${data.recipientName || 'Customer'},
+
+There is a new message from the ${data.senderRole} in your dispute.
+Please read it and reply in the dispute thread.
+
+Best regards,
+SoukMatch Team
+    `.trim(),
+  },
+  dispute_resolved: {
+    subject: () => `Your Dispute Has Been Resolved`,
+    body: (data: any) => `
+Dear ${data.recipientName || 'Customer'},
+
+The mediator has resolved your dispute.
+
+Refunded to the buyer: ${data.refundAmountMad} MAD
+Released to the provider: ${data.releaseAmountMad} MAD
+
+${data.note}
+
+Best regards,
+SoukMatch Team
+    `.trim(),
+  },
+  driver_approaching: {
+    subject: () => `Your Driver Is Almost There`,
+    body: (data: any) => `
+Dear ${data.recipientName || 'Customer'},
+
+Your driver is about ${data.minutes} minutes away. Please get ready.
+
+Best regards,
+SoukMatch Team
+    `.trim(),
+  },
+  driver_arrived: {
+    subject: () => `Your Driver Has Arrived`,
+    body: (data: any) => `
+Dear ${data.recipientName || 'Customer'},
+
+Your driver has arrived at the pickup location.
+
+Best regards,
+SoukMatch Team
+    `.trim(),
+  },
+  provider_document_approved: {
+    subject: () => `Your Document Has Been Approved`,
+    body: (data: any) => `
+Dear ${data.recipientName || 'Provider'},
+
+Your ${String(data.type).replace(/_/g, ' ')} has been reviewed and approved.
+${data.verified ? '\nYour provider account is now verified.\n' : ''}
+Best regards,
+SoukMatch Team
+    `.trim(),
+  },
+  provider_document_rejected: {
+    subject: () => `Your Document Was Rejected`,
+    body: (data: any) => `
+Dear ${data.recipientName || 'Provider'},
+
+Your ${String(data.type).replace(/_/g, ' ')} could not be approved:
+
+${data.reason}
+
+Please upload a new copy from your documents page.
+
+Best regards,
+SoukMatch Team
+    `.trim(),
+  },
+  document_expiring: {
+    subject: (data: any) => `Your ${String(data.type).replace(/_/g, ' ')} Expires in ${data.daysLeft} Day${data.daysLeft === 1 ? '' : 's'}`,
+    body: (data: any) => `
+Dear ${data.recipientName || 'Provider'},
+
+Your ${String(data.type).replace(/_/g, ' ')}${data.documentNumber ? ` (No. ${data.documentNumber})` : ''} expires on ${data.expiresAt}.
+
+Upload a renewed copy from your documents page before then so your account stays verified.
+
+Best regards,
+SoukMatch Team
+    `.trim(),
+  },
+  document_expired: {
+    subject: (data: any) => `Your ${String(data.type).replace(/_/g, ' ')} Has Expired`,
+    body: (data: any) => `
+Dear ${data.recipientName || 'Provider'},
+
+Your ${String(data.type).replace(/_/g, ' ')}${data.documentNumber ? ` (No. ${data.documentNumber})` : ''} expired on ${data.expiresAt}.
+${data.pausedCategories?.length ? `\nUntil a renewed copy is verified you can't submit offers for ${data.pausedCategories.join(', ')} jobs.\n` : ''}
+Upload a renewed copy from your documents page.
+
 Best regards,
 SoukMatch Team
     `.trim(),
@@ -205,3 +437,88 @@ export async function dispatchNotification(
       return false;
   }
 }
+
+// Notify a platform user through their own preferences, falling back to email
+// (mandatory notices such as dunning still go out by email when no channel delivered them)
+export async function notifyUser(
+  userId: string,
+  payload: NotificationPayload,
+  options: { emailFallback?: boolean } = {}
+): Promise<boolean> {
+  const user = await storage.getUser(userId);
+  if (!user) {
+    return false;
+  }
+
+  const recipientPayload: NotificationPayload = {
+    ...payload,
+    recipientEmail: payload.recipientEmail || user.email || undefined,
+  };
+
+  const preferences = await storage.getNotificationPreferencesByUserId(userId);
+
+  if (preferences.length === 0) {
+    if (!recipientPayload.recipientEmail) {
+      return false;
+    }
+
+    const sent = await sendEmailNotification(recipientPayload.recipientEmail, recipientPayload);
+    await recordNotification(userId, null, 'email', recipientPayload, sent);
+    return sent;
+  }
+
+  let delivered = false;
+  for (const preference of preferences) {
+    let sent = false;
+    try {
+      sent = await dispatchNotification(preference, recipientPayload);
+    } catch (error) {
+      console.error(`Notification via ${preference.channel} failed:`, error);
+    }
+    await recordNotification(userId, preference.id, preference.channel, recipientPayload, sent);
+    delivered = delivered || sent;
+  }
+
+  if (!delivered && options.emailFallback && recipientPayload.recipientEmail) {
+    delivered = await sendEmailNotification(recipientPayload.recipientEmail, recipientPayload);
+    await recordNotification(userId, null, 'email', recipientPayload, delivered);
+  }
+
+  return delivered;
+}
+
+// For callers whose own work must not fail because a notification could not be sent
+export async function notifySafely(
+  userId: string,
+  payload: NotificationPayload,
+  options: { emailFallback?: boolean } = {}
+): Promise<void> {
+  try {
+    await notifyUser(userId, payload, options);
+  } catch (error) {
+    console.error(`Failed to notify user ${userId}:`, error);
+  }
+}
+
+async function recordNotification(
+  recipientId: string,
+  preferenceId: string | null,
+  channel: NotificationPreference['channel'],
+  payload: NotificationPayload,
+  sent: boolean
+): Promise<void> {
+  try {
+    await storage.createNotificationHistory({
+      preferenceId,
+      recipientId,
+      eventType: payload.eventType,
+      channel,
+      subject: payload.title,
+      message: payload.message,
+      metadata: payload.data || {},
+      status: sent ? 'sent' : 'failed',
+    });
+  } catch (error) {
+    console.error('Failed to record notification history:', error);
+  }
+}
@@ -0,0 +1,346 @@
+import { db } from "../db";
+import {
+  offers,
+  offerRevisions,
+  jobs,
+  providers,
+  type CounterOffer,
+  type Job,
+  type Offer,
+  type OfferRevision,
+} from "../../shared/schema";
+import { and, asc, eq, lt, inArray } from "drizzle-orm";
+import { storage } from "../storage";
+import { logAudit, AUDIT_ACTIONS } from "../audit";
+import { notifySafely } from "./notifications";
+
+/**
+ * Offer Service - Offer expiry and counter-offer negotiation
+ * Pending offers expire at expiresAt (24 hours after submission or the last counter-offer);
+ * the sweeper marks them expired and tells the provider. While an offer is pending, the buyer
+ * and the provider can take turns proposing new terms, up to OFFER_MAX_COUNTER_ROUNDS
+ * counter-offers. Accepted terms are copied onto the offer, so checkout charges and
+ * commission is calculated on the agreed price.
+ */
+
+export const OFFER_TTL_MS = 24 * 60 * 60 * 1000;
+const MAX_COUNTER_ROUNDS = parseInt(process.env.OFFER_MAX_COUNTER_ROUNDS || "3", 10);
+
+export class OfferNegotiationError extends Error {
+  constructor(message: string, public readonly statusCode: number) {
+    super(message);
+    this.name = "OfferNegotiationError";
+    Object.setPrototypeOf(this, OfferNegotiationError.prototype);
+  }
+}
+
+type NegotiationSide = OfferRevision["proposedBy"];
+
+export interface OfferNegotiation {
+  offer: Offer;
+  revisions: OfferRevision[];
+  openRevision: OfferRevision | null;
+  agreedRevision: OfferRevision | null;
+  roundsUsed: number;
+  roundsRemaining: number;
+  awaiting: NegotiationSide | null; // Who has to answer the open counter-offer
+}
+
+async function loadOffer(offerId: string): Promise<{ offer: Offer; job: Job; providerUserId: string }> {
+  const offer = await storage.getOffer(offerId);
+  if (!offer) {
+    throw new OfferNegotiationError("Offer not found", 404);
+  }
+  const job = await storage.getJob(offer.jobId);
+  const provider = await storage.getProvider(offer.providerId);
+  if (!job || !provider) {
+    throw new OfferNegotiationError("Job not found", 404);
+  }
+  return { offer, job, providerUserId: provider.userId };
+}
+
+// The buyer of the job or the provider who made the offer; admins may only read
+function sideOf(job: Job, providerUserId: string, userId: string): NegotiationSide | null {
+  if (job.buyerId === userId) return "buyer";
+  if (providerUserId === userId) return "provider";
+  return null;
+}
+
+async function getRevisions(offerId: string): Promise<OfferRevision[]> {
+  return db.select().from(offerRevisions).where(eq(offerRevisions.offerId, offerId)).orderBy(asc(offerRevisions.round));
+}
+
+function summarize(offer: Offer, revisions: OfferRevision[]): OfferNegotiation {
+  const openRevision = revisions.find((revision) => revision.status === "open") || null;
+  const roundsUsed = revisions.filter((revision) => revision.round > 0).length;
+  return {
+    offer,
+    revisions,
+    openRevision,
+    agreedRevision: revisions.find((revision) => revision.id === offer.agreedRevisionId) || null,
+    roundsUsed,
+    roundsRemaining: Math.max(0, MAX_COUNTER_ROUNDS - roundsUsed),
+    awaiting: openRevision ? (openRevision.proposedBy === "buyer" ? "provider" : "buyer") : null,
+  };
+}
+
+function assertNegotiable(offer: Offer, job: Job) {
+  if (offer.status !== "pending") {
+    throw new OfferNegotiationError(`Offer is ${offer.status.replace("_", " ")}`, 409);
+  }
+  if (job.status !== "open") {
+    throw new OfferNegotiationError("Job is no longer open", 409);
+  }
+  if (offer.expiresAt && offer.expiresAt <= new Date()) {
+    throw new OfferNegotiationError("Offer has expired", 409);
+  }
+}
+
+export async function getOfferNegotiation(offerId: string, userId: string, role?: string): Promise<OfferNegotiation> {
+  const { offer, job, providerUserId } = await loadOffer(offerId);
+  if (!sideOf(job, providerUserId, userId) && role !== "admin") {
+    throw new OfferNegotiationError("Not authorized to view this negotiation", 403);
+  }
+  return summarize(offer, await getRevisions(offerId));
+}
+
+// Propose new terms. The buyer opens the negotiation; after that the sides take turns
+export async function proposeCounterOffer(offerId: string, userId: string, terms: CounterOffer): Promise<OfferNegotiation> {
+  const { offer, job, providerUserId } = await loadOffer(offerId);
+  const side = sideOf(job, providerUserId, userId);
+  if (!side) {
+    throw new OfferNegotiationError("Only the buyer and the provider can negotiate this offer", 403);
+  }
+  assertNegotiable(offer, job);
+
+  const revisions = await getRevisions(offerId);
+  const { openRevision, roundsUsed } = summarize(offer, revisions);
+
+  if (offer.agreedRevisionId) {
+    throw new OfferNegotiationError("Terms were already agreed; the buyer can accept the offer", 409);
+  }
+  if (revisions.length === 0 && side !== "buyer") {
+    throw new OfferNegotiationError("The buyer makes the first counter-offer", 409);
+  }
+  if (openRevision?.proposedBy === side) {
+    throw new OfferNegotiationError("Waiting for a response to your counter-offer", 409);
+  }
+  if (roundsUsed >= MAX_COUNTER_ROUNDS) {
+    throw new OfferNegotiationError(`The ${MAX_COUNTER_ROUNDS} counter-offer rounds are used up; accept or leave the current terms`, 409);
+  }
+
+  const now = new Date();
+  const [revision] = await db.transaction(async (tx) => {
+    if (revisions.length === 0) {
+      // Keep the provider's original terms as round 0 of the thread
+      if (!offer.priceMad) {
+        throw new OfferNegotiationError("Offer has no price to negotiate", 400);
+      }
+      await tx.insert(offerRevisions).values({
+        offerId,
+        round: 0,
+        proposedBy: "provider",
+        proposedByUserId: providerUserId,
+        priceMad: offer.priceMad,
+        etaMin: offer.etaMin,
+        notes: offer.notes,
+        status: "countered",
+        respondedAt: now,
+        createdAt: offer.createdAt,
+      });
+    } else if (openRevision) {
+      await tx
+        .update(offerRevisions)
+        .set({ status: "countered", respondedAt: now })
+        .where(and(eq(offerRevisions.id, openRevision.id), eq(offerRevisions.status, "open")));
+    }
+
+    // A live negotiation keeps the offer from expiring under it
+    await tx.update(offers).set({ expiresAt: new Date(now.getTime() + OFFER_TTL_MS) }).where(eq(offers.id, offerId));
+
+    // The unique (offer, round) index rejects a concurrent counter for the same round
+    return tx
+      .insert(offerRevisions)
+      .values({
+        offerId,
+        round: roundsUsed + 1,
+        proposedBy: side,
+        proposedByUserId: userId,
+        priceMad: terms.priceMad,
+        etaMin: terms.etaMin ?? null,
+        notes: terms.notes ?? null,
+      })
+      .returning();
+  }).catch((error) => {
+    if (error.code === "23505") {
+      throw new OfferNegotiationError("Counter-offer was already made for this round", 409);
+    }
+    throw error;
+  });
+
+  await logAudit({
+    userId,
+    action: AUDIT_ACTIONS.OFFER_COUNTER,
+    resourceType: "offer",
+    resourceId: offerId,
+    changes: { revisionId: revision.id, round: revision.round, side, priceMad: terms.priceMad, etaMin: terms.etaMin },
+  });
+
+  await notifySafely(side === "buyer" ? providerUserId : job.buyerId, {
+    eventType: "offer_countered",
+    title: "New counter-offer",
+    message: `A counter-offer of ${terms.priceMad} MAD was made on your ${job.category} job offer.`,
+    data: { offerId, jobId: job.id, round: revision.round, priceMad: terms.priceMad, etaMin: terms.etaMin },
+  });
+
+  return summarize((await storage.getOffer(offerId)) || offer, await getRevisions(offerId));
+}
+
+// Accept or reject the open counter-offer made by the other side
+export async function respondToCounterOffer(
+  offerId: string,
+  revisionId: string,
+  userId: string,
+  decision: "accept" | "reject"
+): Promise<OfferNegotiation> {
+  const { offer, job, providerUserId } = await loadOffer(offerId);
+  const side = sideOf(job, providerUserId, userId);
+  if (!side) {
+    throw new OfferNegotiationError("Only the buyer and the provider can negotiate this offer", 403);
+  }
+  assertNegotiable(offer, job);
+
+  const [revision] = await db
+    .select()
+    .from(offerRevisions)
+    .where(and(eq(offerRevisions.id, revisionId), eq(offerRevisions.offerId, offerId)));
+  if (!revision) {
+    throw new OfferNegotiationError("Counter-offer not found", 404);
+  }
+  if (revision.status !== "open") {
+    throw new OfferNegotiationError(`Counter-offer was already ${revision.status}`, 409);
+  }
+  if (revision.proposedBy === side) {
+    throw new OfferNegotiationError("You can't answer your own counter-offer", 403);
+  }
+
+  const now = new Date();
+  const accepted = decision === "accept";
+  await db.transaction(async (tx) => {
+    const [answered] = await tx
+      .update(offerRevisions)
+      .set({ status: accepted ? "accepted" : "rejected", respondedAt: now })
+      .where(and(eq(offerRevisions.id, revisionId), eq(offerRevisions.status, "open")))
+      .returning();
+    if (!answered) {
+      throw new OfferNegotiationError("Counter-offer was already answered", 409);
+    }
+
+    if (accepted) {
+      // The agreed terms become the offer's terms: what the buyer pays and commission is charged on
+      await tx
+        .update(offers)
+        .set({
+          priceMad: revision.priceMad,
+          etaMin: revision.etaMin ?? offer.etaMin,
+          notes: revision.notes ?? offer.notes,
+          agreedRevisionId: revision.id,
+          expiresAt: new Date(now.getTime() + OFFER_TTL_MS),
+        })
+        .where(and(eq(offers.id, offerId), eq(offers.status, "pending")));
+    }
+  });
+
+  await logAudit({
+    userId,
+    action: AUDIT_ACTIONS.OFFER_COUNTER_RESPOND,
+    resourceType: "offer",
+    resourceId: offerId,
+    changes: { revisionId, round: revision.round, decision, priceMad: revision.priceMad },
+  });
+
+  await notifySafely(revision.proposedByUserId, {
+    eventType: "offer_counter_response",
+    title: accepted ? "Counter-offer accepted" : "Counter-offer rejected",
+    message: accepted
+      ? `Your counter-offer of ${revision.priceMad} MAD was accepted.`
+      : `Your counter-offer of ${revision.priceMad} MAD was rejected.`,
+    data: { offerId, jobId: job.id, round: revision.round, decision, priceMad: revision.priceMad },
+  });
+
+  return summarize((await storage.getOffer(offerId)) || offer, await getRevisions(offerId));
+}
+
+// Before the buyer pays: withdraw the buyer's own unanswered counter-offer, but a provider's
+// counter-offer has to be answered first so the buyer doesn't pay terms the provider changed
+export async function closeNegotiationForCheckout(offerId: string): Promise<void> {
+  const [openRevision] = await db
+    .select()
+    .from(offerRevisions)
+    .where(and(eq(offerRevisions.offerId, offerId), eq(offerRevisions.status, "open")));
+
+  if (!openRevision) {
+    return;
+  }
+  if (openRevision.proposedBy === "provider") {
+    throw new OfferNegotiationError("Answer the provider's counter-offer before accepting", 409);
+  }
+
+  await db
+    .update(offerRevisions)
+    .set({ status: "withdrawn", respondedAt: new Date() })
+    .where(and(eq(offerRevisions.id, openRevision.id), eq(offerRevisions.status, "open")));
+}
+
+// Expire pending offers past expiresAt, close their open counter-offers and tell the providers
+export async function expireStaleOffers(now: Date = new Date()): Promise<{ expired: number }> {
+  const expiredOffers = await db
+    .update(offers)
+    .set({ status: "expired" })
+    .where(and(eq(offers.status, "pending"), lt(offers.expiresAt, now)))
+    .returning();
+
+  if (expiredOffers.length === 0) {
+    return { expired: 0 };
+  }
+
+  const offerIds = expiredOffers.map((offer) => offer.id);
+  await db
+    .update(offerRevisions)
+    .set({ status: "expired", respondedAt: now })
+    .where(and(inArray(offerRevisions.offerId, offerIds), eq(offerRevisions.status, "open")));
+
+  const providerRows = await db
+    .select({ id: providers.id, userId: providers.userId })
+    .from(providers)
+    .where(inArray(providers.id, Array.from(new Set(expiredOffers.map((offer) => offer.providerId)))));
+  const providerUserIds = new Map(providerRows.map((row) => [row.id, row.userId]));
+
+  const jobRows = await db
+    .select({ id: jobs.id, category: jobs.category })
+    .from(jobs)
+    .where(inArray(jobs.id, Array.from(new Set(expiredOffers.map((offer) => offer.jobId)))));
+  const jobCategories = new Map(jobRows.map((row) => [row.id, row.category]));
+
+  for (const offer of expiredOffers) {
+    await logAudit({
+      userId: undefined,
+      action: AUDIT_ACTIONS.OFFER_EXPIRE,
+      resourceType: "offer",
+      resourceId: offer.id,
+      changes: { jobId: offer.jobId, providerId: offer.providerId, expiresAt: offer.expiresAt },
+    });
+
+    const providerUserId = providerUserIds.get(offer.providerId);
+    if (providerUserId) {
+      await notifySafely(providerUserId, {
+        eventType: "offer_expired",
+        title: "Offer expired",
+        message: `Your offer on a ${jobCategories.get(offer.jobId) || ""} job expired without being accepted.`,
+        data: { offerId: offer.id, jobId: offer.jobId, priceMad: offer.priceMad },
+      });
+    }
+  }
+
+  return { expired: expiredOffers.length };
+}
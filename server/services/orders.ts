@@ -0,0 +1,199 @@
+import type { Request } from "express";
+import { db } from "../db";
+import { packageOrders, type PackageOrder } from "../../shared/schema";
+import { and, eq } from "drizzle-orm";
+import { storage } from "../storage";
+import { logAudit, AUDIT_ACTIONS } from "../audit";
+import { syncOrderEscrow } from "./escrow";
+import { notifyUser } from "./notifications";
+
+/**
+ * Package Order Service - Lifecycle state machine for marketplace orders
+ * pending → in_progress → delivered → revision → completed / cancelled
+ * (awaiting_payment → pending / cancelled is driven by the buyer checkout, see checkout.ts;
+ * on_hold is set and lifted by the installment scheduler, see installments.ts;
+ * disputed is entered and left only through the dispute center, see disputes.ts)
+ */
+
+export type OrderStatus = PackageOrder["status"];
+export type OrderActor = "buyer" | "provider" | "admin";
+
+// Allowed next states per status, and which party may move the order there
+export const ORDER_TRANSITIONS: Record<OrderStatus, Partial<Record<OrderStatus, OrderActor[]>>> = {
+  awaiting_payment: {},
+  pending: { in_progress: ["provider"], cancelled: ["buyer", "provider", "admin"] },
+  in_progress: { delivered: ["provider"], cancelled: ["provider", "admin"] },
+  delivered: { revision: ["buyer"], completed: ["buyer", "admin"] },
+  revision: { delivered: ["provider"], cancelled: ["admin"] },
+  on_hold: { cancelled: ["admin"] },
+  disputed: {},
+  completed: {},
+  cancelled: {},
+};
+
+export class OrderTransitionError extends Error {
+  constructor(
+    message: string,
+    public readonly statusCode: number,
+    public readonly allowedTransitions: OrderStatus[]
+  ) {
+    super(message);
+    this.name = "OrderTransitionError";
+    Object.setPrototypeOf(this, OrderTransitionError.prototype);
+  }
+}
+
+export interface OrderParties {
+  buyerId?: string;
+  providerId?: string;
+  providerUserId?: string;
+}
+
+// Resolve the buyer and provider behind an order (orders link to both via job and package)
+export async function getOrderParties(order: PackageOrder): Promise<OrderParties> {
+  const job = await storage.getJob(order.jobId);
+  const pkg = await storage.getServicePackage(order.packageId);
+  const provider = pkg ? await storage.getProvider(pkg.providerId) : undefined;
+
+  return {
+    buyerId: job?.buyerId,
+    providerId: provider?.id,
+    providerUserId: provider?.userId,
+  };
+}
+
+// Work out which side of the order a user is on; null if they are not a party
+export function getOrderActor(
+  parties: OrderParties,
+  userId: string,
+  role: string
+): OrderActor | null {
+  if (role === "admin") return "admin";
+  if (parties.buyerId === userId) return "buyer";
+  if (parties.providerUserId === userId) return "provider";
+  return null;
+}
+
+// Next states the given actor may move the order to right now
+export function getAllowedTransitions(order: PackageOrder, actor: OrderActor): OrderStatus[] {
+  const transitions = ORDER_TRANSITIONS[order.status] || {};
+
+  return (Object.keys(transitions) as OrderStatus[]).filter((next) => {
+    if (!transitions[next]!.includes(actor)) return false;
+    if (next === "revision" && order.revisions >= order.maxRevisions) return false;
+    return true;
+  });
+}
+
+interface TransitionParams {
+  order: PackageOrder;
+  to: OrderStatus;
+  actor: OrderActor;
+  userId: string;
+  parties: OrderParties;
+  deliverables?: unknown[];
+  note?: string;
+  req?: Request;
+}
+
+// Move an order to a new status, enforcing the state machine and notifying the other party
+export async function transitionOrder(params: TransitionParams): Promise<PackageOrder> {
+  const { order, to, actor, userId, parties, deliverables, note, req } = params;
+  const from = order.status;
+  const allowedTransitions = getAllowedTransitions(order, actor);
+  const permittedActors = ORDER_TRANSITIONS[from]?.[to];
+
+  if (!permittedActors) {
+    throw new OrderTransitionError(
+      `Cannot move order from ${from} to ${to}`,
+      409,
+      allowedTransitions
+    );
+  }
+
+  if (!permittedActors.includes(actor)) {
+    throw new OrderTransitionError(
+      `Only the ${permittedActors.join(" or ")} can move this order to ${to}`,
+      403,
+      allowedTransitions
+    );
+  }
+
+  if (to === "revision" && order.revisions >= order.maxRevisions) {
+    throw new OrderTransitionError(
+      `Revision limit of ${order.maxRevisions} reached for this order`,
+      409,
+      allowedTransitions
+    );
+  }
+
+  const updates: Partial<PackageOrder> = { status: to, updatedAt: new Date() };
+  if (to === "revision") {
+    updates.revisions = order.revisions + 1;
+  }
+  if (to === "delivered" && deliverables) {
+    updates.deliverables = deliverables;
+  }
+
+  // Conditional on the status we checked, so concurrent transitions can't both apply
+  const [updated] = await db
+    .update(packageOrders)
+    .set(updates)
+    .where(and(eq(packageOrders.id, order.id), eq(packageOrders.status, from)))
+    .returning();
+  if (!updated) {
+    throw new OrderTransitionError(
+      `Order ${order.id.slice(0, 8)} changed status in the meantime`,
+      409,
+      allowedTransitions
+    );
+  }
+
+  await syncOrderEscrow(updated.id, from, updated.status);
+
+  await logAudit({
+    userId,
+    action: AUDIT_ACTIONS.ORDER_STATUS_CHANGE,
+    resourceType: "package_order",
+    resourceId: updated.id,
+    changes: {
+      from,
+      to,
+      actor,
+      ...(note && { note }),
+      ...(to === "revision" && { revisions: updated.revisions }),
+    },
+    req,
+  });
+
+  // Tell the counterparty; admin actions go to both sides
+  const recipients = actor === "buyer"
+    ? [parties.providerUserId]
+    : actor === "provider"
+      ? [parties.buyerId]
+      : [parties.buyerId, parties.providerUserId];
+
+  const message = note || `Order ${updated.id.slice(0, 8)} moved from ${from} to ${to}.`;
+
+  for (const recipientId of recipients) {
+    if (!recipientId) continue;
+    try {
+      await notifyUser(recipientId, {
+        eventType: "order_status",
+        title: `Order ${to.replace("_", " ")}`,
+        message,
+        data: {
+          orderId: updated.id,
+          status: to,
+          previousStatus: from,
+          updatedAt: updated.updatedAt.toISOString(),
+          message,
+        },
+      });
+    } catch (error) {
+      console.error(`Failed to notify ${recipientId} about order ${updated.id}:`, error);
+    }
+  }
+
+  return updated;
+}
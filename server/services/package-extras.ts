@@ -0,0 +1,80 @@
+import { randomUUID } from "crypto";
+import type { ServicePackage, PackageExtra, SelectedPackageExtra } from "../../shared/schema";
+import { storage } from "../storage";
+
+/**
+ * Package Extras Service - Stable extra ids, validation and pricing for package orders
+ */
+
+export class PackageExtraError extends Error {
+  constructor(message: string, public readonly invalidExtraIds: string[]) {
+    super(message);
+    this.name = "PackageExtraError";
+    Object.setPrototypeOf(this, PackageExtraError.prototype);
+  }
+}
+
+export interface PricedExtras {
+  extras: SelectedPackageExtra[];
+  extrasPriceMad: number;
+  extraDeliveryDays: number;
+}
+
+// Give every extra an id, keeping the ones it already has
+export function normalizePackageExtras(extras: unknown): PackageExtra[] {
+  if (!Array.isArray(extras)) return [];
+
+  const seen = new Set<string>();
+  return extras.map((extra: any) => {
+    const id = extra.id && !seen.has(extra.id) ? extra.id : randomUUID();
+    seen.add(id);
+    return { ...extra, id };
+  });
+}
+
+// Backfill ids on packages whose extras were saved before ids existed
+export async function ensurePackageExtraIds(pkg: ServicePackage): Promise<ServicePackage> {
+  const extras = Array.isArray(pkg.extras) ? (pkg.extras as any[]) : [];
+  if (extras.every((extra) => extra.id)) {
+    return pkg;
+  }
+
+  const updated = await storage.updateServicePackage(pkg.id, {
+    extras: normalizePackageExtras(extras),
+  });
+  return updated || pkg;
+}
+
+// Check selected extra ids against the package and snapshot what the buyer pays for
+export function priceSelectedExtras(pkg: ServicePackage, selectedExtraIds: string[]): PricedExtras {
+  const available = new Map(
+    (Array.isArray(pkg.extras) ? (pkg.extras as PackageExtra[]) : [])
+      .filter((extra) => extra.id)
+      .map((extra) => [extra.id, extra])
+  );
+
+  const uniqueIds = Array.from(new Set(selectedExtraIds));
+  const invalidIds = uniqueIds.filter((id) => !available.has(id));
+  if (invalidIds.length > 0) {
+    throw new PackageExtraError(
+      `Unknown extras for this package: ${invalidIds.join(", ")}`,
+      invalidIds
+    );
+  }
+
+  const extras: SelectedPackageExtra[] = uniqueIds.map((id) => {
+    const extra = available.get(id)!;
+    return {
+      id: extra.id,
+      title: extra.title,
+      priceMad: extra.priceMad,
+      deliveryDays: extra.deliveryDays || 0,
+    };
+  });
+
+  return {
+    extras,
+    extrasPriceMad: extras.reduce((total, extra) => total + extra.priceMad, 0),
+    extraDeliveryDays: extras.reduce((total, extra) => total + extra.deliveryDays, 0),
+  };
+}
@@ -1,35 +1,68 @@
-import crypto from "crypto";
 import { db } from "../db";
 import { 
   transactions, 
-  providerSubscriptions,
-  paymentSchedules,
-  SUBSCRIPTION_TIERS,
+  pspCallbackEvents,
+  type Transaction,
   type InsertTransaction,
-  type InsertPaymentSchedule,
 } from "../../shared/schema";
-import { eq } from "drizzle-orm";
+import { and, desc, eq, inArray, isNotNull, isNull, lt } from "drizzle-orm";
 import { logAudit, AUDIT_ACTIONS } from "../audit";
+import {
+  getPspAdapter,
+  findCallbackTransactionId,
+  PspSignatureError,
+  type PspCallbackRequest,
+  type PspCallbackResult,
+  type PSPProvider,
+} from "./psp";
+import type { StoredSubscriptionQuote } from "./commission";
+
+export type { PSPProvider } from "./psp";
+export { verifyCallbackSignature } from "./psp/cmi";
 
 /**
  * Phase 1 Payment Service Provider (PSP) Integration
- * Supports Moroccan payment gateways: CMI, PayZone, MTC
+ * Supports Moroccan payment gateways: CMI, PayZone, MTC (adapters in ./psp)
  * Uses test mode when PSP_PROVIDER=test
  */
 
-const PSP_PROVIDER = process.env.PSP_PROVIDER || "test";
-const PSP_MERCHANT_ID = process.env.PSP_MERCHANT_ID || "test_merchant";
-const PSP_SECRET_KEY = process.env.PSP_SECRET_KEY || "test_secret_key";
-const PSP_API_URL = process.env.PSP_API_URL || "https://test.payment.example";
+const PSP_PROVIDER = (process.env.PSP_PROVIDER || "test") as PSPProvider;
 const PSP_CALLBACK_URL = process.env.PSP_CALLBACK_URL || "http://localhost:5000/api/payment/callback";
+const PSP_RETURN_URL = process.env.PSP_RETURN_URL || "http://localhost:5000/dashboard";
+const PAYMENT_RECONCILE_AFTER_MINUTES = parseInt(process.env.PAYMENT_RECONCILE_AFTER_MINUTES || "15", 10);
+const PAYMENT_ABANDON_AFTER_HOURS = parseInt(process.env.PAYMENT_ABANDON_AFTER_HOURS || "24", 10);
+const CHECKOUT_TIMEOUT_MINUTES = parseInt(process.env.CHECKOUT_TIMEOUT_MINUTES || "30", 10);
 
-export type PSPProvider = "CMI" | "PayZone" | "MTC" | "test";
+// Installment charges are paid from an emailed link, so they stay open longer than a checkout
+const INSTALLMENT_PAYMENT_WINDOW_HOURS = parseInt(process.env.INSTALLMENT_PAYMENT_WINDOW_HOURS || "48", 10);
+
+// Buyer charges reserve an offer or order while they are open
+const BUYER_CHARGE_TYPES: Transaction["type"][] = ["offer_payment", "order_payment"];
+
+type TransactionStatus = Transaction["status"];
+
+// Forward-only status moves; anything else is a replayed or out-of-order PSP event.
+// failed -> completed stays open so a late capture after a timeout report is still recorded.
+const SETTLEMENT_TRANSITIONS: Record<TransactionStatus, TransactionStatus[]> = {
+  pending: ["processing", "completed", "failed"],
+  processing: ["completed", "failed"],
+  failed: ["completed"],
+  completed: [],
+  refunded: [],
+};
+
+// Headers never worth keeping in the callback inbox
+const UNSTORED_CALLBACK_HEADERS = ["cookie", "authorization"];
 
 export interface PaymentRequest {
   amountMAD: number;
   providerId: string;
-  type: "subscription_payment" | "provider_payout" | "refund";
+  buyerId?: string; // Buyer charges only
+  type: Transaction["type"];
   metadata?: Record<string, any>;
+  description?: string;
+  customer?: { email?: string; phone?: string };
+  returnUrl?: string;
 }
 
 export interface PaymentResponse {
@@ -41,52 +74,87 @@ export interface PaymentResponse {
   error?: string;
 }
 
-// Generate HMAC signature for PSP requests
-function generateSignature(data: string, secretKey: string): string {
-  return crypto
-    .createHmac("sha256", secretKey)
-    .update(data)
-    .digest("hex");
+export interface RefundRecord {
+  refundId: string;
+  amountMAD: number;
+  reason: string;
+  status: "pending" | "completed" | "failed";
+  createdAt: string;
 }
 
-// Verify PSP callback signature
-export function verifyCallbackSignature(
-  callbackData: Record<string, any>,
-  signature: string
-): boolean {
-  try {
-    // Recreate the signature from callback data
-    const dataString = JSON.stringify(callbackData);
-    const expectedSignature = generateSignature(dataString, PSP_SECRET_KEY);
-    
-    const signatureBuffer = Buffer.from(signature);
-    const expectedBuffer = Buffer.from(expectedSignature);
-    
-    // Check equal length before timingSafeEqual to prevent DoS
-    if (signatureBuffer.length !== expectedBuffer.length) {
-      return false;
+// Side effects of a successful payment, keyed on transaction type
+async function applyCompletedPayment(transaction: Transaction): Promise<void> {
+  const metadata = transaction.metadata as {
+    tier?: string;
+    orderId?: string;
+    renewal?: boolean;
+    quote?: StoredSubscriptionQuote;
+    creditAppliedMad?: number; // Payments started before the quote was stored
+  } | null;
+
+  // Subscription payment: activate the purchased tier, prorated change or renewal
+  if (transaction.type === "subscription_payment") {
+    const tier = metadata?.tier as "basic" | "pro" | undefined;
+    if (tier && (tier === "basic" || tier === "pro")) {
+      const { upgradeSubscription } = await import("./commission");
+      await upgradeSubscription(transaction.providerId, tier, transaction.id, {
+        renewal: metadata?.renewal,
+        quote: metadata?.quote,
+        creditAppliedMad: metadata?.creditAppliedMad,
+      });
     }
-    
-    return crypto.timingSafeEqual(signatureBuffer, expectedBuffer);
-  } catch (error) {
-    // Return false on any errors instead of crashing the callback handler
-    console.error('Signature verification error:', error);
-    return false;
+  }
+
+  // Buyer payment for an offer or package order: hold funds and confirm the acceptance
+  if (transaction.type === "offer_payment") {
+    const { completeOfferPayment } = await import("./checkout");
+    await completeOfferPayment(transaction);
+  }
+
+  if (transaction.type === "order_payment" && metadata?.orderId) {
+    const { completeOrderPayment } = await import("./checkout");
+    await completeOrderPayment(transaction);
+  }
+
+  // Later installment of an order's payment schedule
+  if (transaction.type === "installment_payment") {
+    const { completeInstallmentPayment } = await import("./installments");
+    await completeInstallmentPayment(transaction);
   }
 }
 
-// Test mode PSP (for development)
-async function processTestPayment(
+// Side effects of a failed payment: buyer checkouts give back what they reserved,
+// failed installments go into dunning, failed renewals end the subscription
+async function applyFailedPayment(transaction: Transaction, reason: string): Promise<void> {
+  if (transaction.type === "subscription_payment") {
+    const { failSubscriptionPayment } = await import("./subscription-billing");
+    await failSubscriptionPayment(transaction, reason);
+  }
+
+  if (BUYER_CHARGE_TYPES.includes(transaction.type)) {
+    const { rollbackCheckout } = await import("./checkout");
+    await rollbackCheckout(transaction, reason);
+  }
+
+  if (transaction.type === "installment_payment") {
+    const { failInstallmentPayment } = await import("./installments");
+    await failInstallmentPayment(transaction, reason);
+  }
+}
+
+// Main payment processing function: routes to the adapter of the configured PSP
+export async function initiatePayment(
   request: PaymentRequest
 ): Promise<PaymentResponse> {
-  // Create transaction record
+  const adapter = getPspAdapter(PSP_PROVIDER);
+
   const transactionData: InsertTransaction = {
     providerId: request.providerId,
-    type: request.type as "subscription_payment" | "provider_payout" | "refund",
+    buyerId: request.buyerId,
+    type: request.type,
     amountMad: request.amountMAD,
     currency: "MAD",
-    pspProvider: "test",
-    pspTransactionId: `test_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+    pspProvider: adapter.name,
     metadata: request.metadata as any,
   };
 
@@ -95,333 +163,510 @@ async function processTestPayment(
     .values(transactionData as any)
     .returning();
 
-  // Simulate instant success in test mode
-  await db
-    .update(transactions)
-    .set({ 
-      status: "completed",
-      completedAt: new Date(),
-    })
-    .where(eq(transactions.id, transaction.id));
-
-  await logAudit({
-    userId: undefined,
-    action: "payment_test_completed",
-    resourceType: "transaction",
-    resourceId: transaction.id,
-    changes: { 
-      amount: request.amountMAD,
-      type: request.type,
-      providerId: request.providerId,
-    },
-  });
-
-  return {
-    success: true,
-    transactionId: transaction.id,
-    status: "completed",
-    pspTransactionId: transactionData.pspTransactionId || undefined,
-  };
-}
-
-// CMI Payment Gateway (Morocco)
-async function processCMIPayment(
-  request: PaymentRequest
-): Promise<PaymentResponse> {
   try {
-    // Create transaction record
-    const transactionData: InsertTransaction = {
-      providerId: request.providerId,
-      type: request.type as "subscription_payment" | "provider_payout" | "refund",
-      amountMad: request.amountMAD,
-      currency: "MAD",
-      pspProvider: "CMI",
-      metadata: request.metadata as any,
-    };
-
-    const [transaction] = await db
-      .insert(transactions)
-      .values(transactionData as any)
-      .returning();
-
-    // CMI API request payload
-    const payload = {
-      merchantId: PSP_MERCHANT_ID,
-      amount: (request.amountMAD * 100).toString(), // Convert to cents
-      currency: "504", // MAD currency code
-      orderId: transaction.id,
+    const result = await adapter.initiatePayment({
+      transactionId: transaction.id,
+      amountMAD: request.amountMAD,
+      description: request.description || `Trip2work ${request.type.replace("_", " ")}`,
       callbackUrl: PSP_CALLBACK_URL,
-      metadata: request.metadata,
-    };
+      returnUrl: request.returnUrl || PSP_RETURN_URL,
+      customer: request.customer,
+    });
 
-    // Generate signature
-    const dataToSign = `${payload.merchantId}|${payload.amount}|${payload.currency}|${payload.orderId}`;
-    const signature = generateSignature(dataToSign, PSP_SECRET_KEY);
+    // Through the settlement guard, in case the PSP's callback already beat us here
+    await settleTransaction(transaction, result.status, {
+      pspTransactionId: result.pspTransactionId,
+      pspResponse: result.raw,
+      source: "initiation",
+    });
 
-    // Make API request to CMI
-    const response = await fetch(`${PSP_API_URL}/init`, {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-        "X-Signature": signature,
+    await logAudit({
+      action: AUDIT_ACTIONS.PAYMENT_INITIATE,
+      resourceType: "transaction",
+      resourceId: transaction.id,
+      changes: {
+        amount: request.amountMAD,
+        type: request.type,
+        providerId: request.providerId,
+        pspProvider: adapter.name,
+        pspTransactionId: result.pspTransactionId,
       },
-      body: JSON.stringify(payload),
     });
 
-    if (!response.ok) {
-      throw new Error(`CMI API error: ${response.statusText}`);
-    }
-
-    const result = await response.json();
-
-    // Update transaction with PSP transaction ID
-    await db
-      .update(transactions)
-      .set({
-        pspTransactionId: result.transactionId,
-        pspResponse: result,
-        status: "processing",
-      })
-      .where(eq(transactions.id, transaction.id));
-
     return {
-      success: true,
+      success: result.status !== "failed",
       transactionId: transaction.id,
       paymentUrl: result.paymentUrl,
-      status: "processing",
-      pspTransactionId: result.transactionId,
+      status: result.status,
+      pspTransactionId: result.pspTransactionId,
     };
 
   } catch (error: any) {
-    console.error("CMI payment failed:", error);
+    console.error(`${adapter.name} payment failed:`, error);
+
+    await settleTransaction(transaction, "failed", {
+      pspResponse: { error: error.message },
+      source: "initiation",
+      audit: { error: error.message },
+    });
+
     return {
       success: false,
-      transactionId: "",
+      transactionId: transaction.id,
       status: "failed",
       error: error.message,
     };
   }
 }
 
-// Main payment processing function
-export async function initiatePayment(
-  request: PaymentRequest
-): Promise<PaymentResponse> {
-  // Use test mode if configured
-  if (PSP_PROVIDER === "test") {
-    return processTestPayment(request);
+// Set the idempotency key on an inbox event; false when another event already holds it.
+// A holder whose processing failed gives the key up, so the PSP's retry is processed in its place.
+async function claimEventKey(
+  eventId: string,
+  eventKey: string,
+  details: { pspProvider: string | null; transactionId: string; callbackStatus: string }
+): Promise<boolean> {
+  const claim = () =>
+    db
+      .update(pspCallbackEvents)
+      .set({ eventKey, ...details })
+      .where(eq(pspCallbackEvents.id, eventId));
+
+  try {
+    await claim();
+    return true;
+  } catch (error: any) {
+    if (error.code !== "23505") {
+      throw error;
+    }
   }
 
-  // Route to appropriate PSP
-  switch (PSP_PROVIDER) {
-    case "CMI":
-      return processCMIPayment(request);
-    
-    case "PayZone":
-      // TODO: Implement PayZone integration
-      throw new Error("PayZone integration not yet implemented. Use PSP_PROVIDER=test for now.");
-    
-    case "MTC":
-      // TODO: Implement MTC Touch integration
-      throw new Error("MTC integration not yet implemented. Use PSP_PROVIDER=test for now.");
-    
-    default:
-      throw new Error(`Unsupported PSP provider: ${PSP_PROVIDER}`);
+  const released = await db
+    .update(pspCallbackEvents)
+    .set({ eventKey: null })
+    .where(and(eq(pspCallbackEvents.eventKey, eventKey), eq(pspCallbackEvents.status, "failed")))
+    .returning();
+  if (released.length === 0) {
+    return false;
   }
-}
 
-// Handle PSP callback (webhook)
-export async function handlePaymentCallback(params: {
-  transactionId: string;
-  pspTransactionId: string;
-  status: "completed" | "failed";
-  signature: string;
-  callbackData: Record<string, any>;
-}): Promise<{ success: boolean; error?: string }> {
   try {
-    // Verify signature (skip in test mode)
-    if (PSP_PROVIDER !== "test") {
-      const isValid = verifyCallbackSignature(params.callbackData, params.signature);
-      if (!isValid) {
-        throw new Error("Invalid callback signature");
-      }
+    await claim();
+    return true;
+  } catch (error: any) {
+    if (error.code !== "23505") {
+      throw error;
     }
+    return false;
+  }
+}
 
-    // Find transaction
-    const [transaction] = await db
-      .select()
-      .from(transactions)
-      .where(eq(transactions.id, params.transactionId));
+export interface PaymentCallbackResult {
+  success: boolean;
+  outcome?: "processed" | "duplicate" | "ignored";
+  error?: string;
+}
 
-    if (!transaction) {
-      throw new Error("Transaction not found");
+// Move a transaction to a PSP-reported status exactly once and apply its side effects.
+// Returns null when the move would regress the transaction or another event already made it.
+async function settleTransaction(
+  transaction: Transaction,
+  status: "processing" | "completed" | "failed",
+  details: { pspTransactionId?: string; pspResponse?: unknown; source: string; audit?: Record<string, any> }
+): Promise<Transaction | null> {
+  const allowedFrom = (Object.keys(SETTLEMENT_TRANSITIONS) as TransactionStatus[])
+    .filter((from) => SETTLEMENT_TRANSITIONS[from].includes(status));
+
+  if (!allowedFrom.includes(transaction.status)) {
+    return null;
+  }
+
+  // Conditional on the current status so concurrent events can't both settle
+  const [updated] = await db
+    .update(transactions)
+    .set({
+      status,
+      pspTransactionId: details.pspTransactionId || transaction.pspTransactionId,
+      completedAt: status === "completed" ? new Date() : undefined,
+      pspResponse: details.pspResponse ?? transaction.pspResponse,
+    })
+    .where(and(eq(transactions.id, transaction.id), inArray(transactions.status, allowedFrom)))
+    .returning();
+
+  if (!updated) {
+    return null;
+  }
+
+  try {
+    if (status === "completed") {
+      await applyCompletedPayment(updated);
     }
 
-    // Update transaction status
+    if (status === "failed") {
+      await applyFailedPayment(updated, details.audit?.reason || details.audit?.error || `payment failed (${details.source})`);
+    }
+  } catch (error) {
+    // Put the transaction back so a retry of the same event settles it again
     await db
       .update(transactions)
       .set({
-        status: params.status,
-        completedAt: params.status === "completed" ? new Date() : undefined,
-        pspResponse: params.callbackData,
+        status: transaction.status,
+        pspTransactionId: transaction.pspTransactionId,
+        completedAt: transaction.completedAt,
+        pspResponse: transaction.pspResponse,
       })
-      .where(eq(transactions.id, params.transactionId));
-
-    // If subscription payment succeeded, activate subscription
-    if (params.status === "completed" && transaction.type === "subscription_payment") {
-      const metadata = transaction.metadata as { tier?: string } | null;
-      const tier = metadata?.tier as "basic" | "pro" | undefined;
-      if (tier && (tier === "basic" || tier === "pro")) {
-        const { upgradeSubscription } = await import("./commission");
-        await upgradeSubscription(transaction.providerId, tier, params.transactionId);
-      }
-    }
+      .where(and(eq(transactions.id, transaction.id), eq(transactions.status, status)));
+    throw error;
+  }
 
+  if (status !== "processing") {
     await logAudit({
-      userId: undefined,
-      action: "payment_callback_processed",
+      action: status === "completed" ? AUDIT_ACTIONS.PAYMENT_COMPLETE : AUDIT_ACTIONS.PAYMENT_FAIL,
       resourceType: "transaction",
-      resourceId: params.transactionId,
+      resourceId: transaction.id,
       changes: {
-        status: params.status,
-        pspTransactionId: params.pspTransactionId,
+        from: transaction.status,
+        status,
+        pspProvider: transaction.pspProvider,
+        pspTransactionId: updated.pspTransactionId,
+        source: details.source,
+        ...details.audit,
       },
     });
+  }
 
-    return { success: true };
+  return updated;
+}
 
+// Handle PSP callback (webhook); the transaction's own PSP verifies the payload.
+// Every callback lands in the inbox first, PSP retries are acknowledged without reprocessing
+// unless the earlier attempt failed.
+export async function handlePaymentCallback(
+  request: PspCallbackRequest
+): Promise<PaymentCallbackResult> {
+  const storedHeaders = Object.fromEntries(
+    Object.entries(request.headers).filter(([name]) => !UNSTORED_CALLBACK_HEADERS.includes(name.toLowerCase()))
+  );
+
+  const [event] = await db
+    .insert(pspCallbackEvents)
+    .values({
+      headers: storedHeaders,
+      payload: request.body,
+      rawBody: request.rawBody?.toString("utf8"),
+    })
+    .returning();
+
+  const closeEvent = (status: "processed" | "ignored" | "rejected" | "failed", error?: string) =>
+    db
+      .update(pspCallbackEvents)
+      .set({ status, error, processedAt: new Date() })
+      .where(eq(pspCallbackEvents.id, event.id));
+
+  let transaction: Transaction | undefined;
+  let callback: PspCallbackResult;
+
+  try {
+    const transactionId = findCallbackTransactionId(request.body);
+    if (!transactionId) {
+      throw new Error("Unrecognised callback payload");
+    }
+
+    // Find transaction
+    [transaction] = await db
+      .select()
+      .from(transactions)
+      .where(eq(transactions.id, transactionId));
+
+    if (!transaction) {
+      throw new Error("Transaction not found");
+    }
+
+    const adapter = getPspAdapter(transaction.pspProvider);
+    callback = adapter.verifyCallback(request);
+
+    if (callback.transactionId !== transaction.id) {
+      throw new Error("Callback does not match transaction");
+    }
   } catch (error: any) {
-    console.error("Payment callback handling failed:", error);
+    if (!(error instanceof PspSignatureError)) {
+      console.error("Payment callback rejected:", error);
+    }
+    await db
+      .update(pspCallbackEvents)
+      .set({ pspProvider: transaction?.pspProvider, transactionId: transaction?.id })
+      .where(eq(pspCallbackEvents.id, event.id));
+    await closeEvent("rejected", error.message);
     return { success: false, error: error.message };
   }
-}
 
-// Purchase subscription
-export async function purchaseSubscription(
-  providerId: string,
-  tier: "basic" | "pro"
-): Promise<PaymentResponse> {
-  const tierConfig = SUBSCRIPTION_TIERS[tier];
+  // A verified callback for another amount is treated as a failed payment
+  const amountMismatch = callback.amountMAD !== undefined && callback.amountMAD !== transaction.amountMad;
+  const status = amountMismatch ? "failed" : callback.status;
 
-  return initiatePayment({
-    amountMAD: tierConfig.priceMAD,
-    providerId,
-    type: "subscription_payment",
-    metadata: { tier },
+  // Claim the idempotency key of this PSP event; a retry of a seen event stops here
+  const eventKey = `${transaction.pspProvider}:${callback.pspTransactionId || transaction.id}:${status}`;
+  const claimed = await claimEventKey(event.id, eventKey, {
+    pspProvider: transaction.pspProvider,
+    transactionId: transaction.id,
+    callbackStatus: status,
   });
-}
+  if (!claimed) {
+    await db
+      .update(pspCallbackEvents)
+      .set({ pspProvider: transaction.pspProvider, transactionId: transaction.id, callbackStatus: status })
+      .where(eq(pspCallbackEvents.id, event.id));
+    await closeEvent("ignored", `Duplicate of event ${eventKey}`);
+    return { success: true, outcome: "duplicate" };
+  }
 
-// Get transaction by ID
-export async function getTransaction(transactionId: string) {
-  const [transaction] = await db
-    .select()
-    .from(transactions)
-    .where(eq(transactions.id, transactionId));
+  try {
+    const settled = await settleTransaction(transaction, status, {
+      pspTransactionId: callback.pspTransactionId,
+      pspResponse: callback.raw,
+      source: "callback",
+      audit: amountMismatch ? { amountMismatch: { expected: transaction.amountMad, received: callback.amountMAD } } : undefined,
+    });
 
-  return transaction;
-}
+    // Acknowledged so the PSP stops retrying, but the transaction keeps its state
+    if (!settled) {
+      await closeEvent("ignored", `Out-of-order status ${status} for transaction in ${transaction.status}`);
+      return { success: true, outcome: "ignored" };
+    }
 
-// Get transactions for a provider
-export async function getProviderTransactions(providerId: string) {
-  return db
-    .select()
-    .from(transactions)
-    .where(eq(transactions.providerId, providerId));
+    await closeEvent("processed", amountMismatch ? "Callback amount does not match transaction" : undefined);
+    return amountMismatch
+      ? { success: false, error: "Callback amount does not match transaction" }
+      : { success: true, outcome: "processed" };
+
+  } catch (error: any) {
+    console.error("Payment callback handling failed:", error);
+    await closeEvent("failed", error.message);
+    return { success: false, error: error.message };
+  }
 }
 
-// ========================================
-// SPRINT 1-2: Payment Schedule Functions
-// ========================================
-
-export async function createPaymentSchedule(
-  orderId: string,
-  depositPct: number,
-  installmentCount: number
-): Promise<string> {
-  const installments = [];
-  const installmentPct = (100 - depositPct) / installmentCount;
-  
-  for (let i = 0; i < installmentCount; i++) {
-    const dueDate = new Date();
-    dueDate.setMonth(dueDate.getMonth() + i + 1);
-    
-    installments.push({
-      installmentNumber: i + 1,
-      dueDate: dueDate.toISOString(),
-      percentage: installmentPct,
-      status: 'pending',
-    });
+// Refund a completed payment through the PSP that collected it (full refund by default)
+export async function refundPayment(
+  transactionId: string,
+  reason: string,
+  amountMAD?: number,
+  userId?: string
+): Promise<RefundRecord> {
+  const transaction = await getTransaction(transactionId);
+  if (!transaction) {
+    throw new Error("Transaction not found");
   }
+  if (transaction.status !== "completed" || !transaction.pspTransactionId) {
+    throw new Error(`Cannot refund a transaction in status ${transaction.status}`);
+  }
+
+  const metadata = (transaction.metadata as Record<string, any> | null) || {};
+  const previousRefunds: RefundRecord[] = metadata.refunds || [];
+  const refunded = previousRefunds
+    .filter((refund) => refund.status !== "failed")
+    .reduce((sum, refund) => sum + refund.amountMAD, 0);
+  const amount = amountMAD ?? transaction.amountMad - refunded;
+
+  if (amount <= 0 || refunded + amount > transaction.amountMad) {
+    throw new Error(`Refund amount must be between 1 and ${transaction.amountMad - refunded} MAD`);
+  }
+
+  const adapter = getPspAdapter(transaction.pspProvider);
+  const result = await adapter.refund(transaction.pspTransactionId, amount, reason);
 
-  const scheduleData: InsertPaymentSchedule = {
-    orderId,
-    depositPct,
-    installments: installments as any,
-    totalMad: 0,
+  const refund: RefundRecord = {
+    refundId: result.refundId,
+    amountMAD: amount,
+    reason,
+    status: result.status,
+    createdAt: new Date().toISOString(),
   };
+  const fullyRefunded = result.status !== "failed" && refunded + amount === transaction.amountMad;
 
-  const [schedule] = await db
-    .insert(paymentSchedules)
-    .values(scheduleData)
-    .returning();
+  await db
+    .update(transactions)
+    .set({
+      status: fullyRefunded ? "refunded" : transaction.status,
+      metadata: { ...metadata, refunds: [...previousRefunds, refund] },
+    })
+    .where(eq(transactions.id, transaction.id));
 
   await logAudit({
-    action: AUDIT_ACTIONS.SCHEDULE_CREATE,
-    resourceType: 'payment_schedule',
-    resourceId: schedule.id,
-    changes: {
-      orderId,
-      depositPct,
-      installmentCount,
-    },
+    userId,
+    action: AUDIT_ACTIONS.PAYMENT_REFUND,
+    resourceType: "transaction",
+    resourceId: transaction.id,
+    changes: { ...refund, pspProvider: adapter.name },
   });
 
-  return schedule.id;
+  return refund;
 }
 
-export async function processScheduledPayment(
-  scheduleId: string,
-  installmentIndex: number
-): Promise<PaymentResponse> {
-  const [schedule] = await db
-    .select()
-    .from(paymentSchedules)
-    .where(eq(paymentSchedules.id, scheduleId));
+// Ask the PSP for the current state of an unsettled payment and apply it
+export async function pollPaymentStatus(transactionId: string, source = "status_poll"): Promise<Transaction> {
+  const transaction = await getTransaction(transactionId);
+  if (!transaction) {
+    throw new Error("Transaction not found");
+  }
+  if ((transaction.status !== "pending" && transaction.status !== "processing") || !transaction.pspTransactionId) {
+    return transaction;
+  }
+
+  const adapter = getPspAdapter(transaction.pspProvider);
+  const result = await adapter.getPaymentStatus(transaction.pspTransactionId);
 
-  if (!schedule) {
-    throw new Error('Payment schedule not found');
+  if (result.status !== "completed" && result.status !== "failed") {
+    return transaction;
   }
 
-  const installments = schedule.installments as any[];
-  if (installmentIndex >= installments.length) {
-    throw new Error('Invalid installment index');
+  const settled = await settleTransaction(transaction, result.status, {
+    pspResponse: result.raw,
+    source,
+  });
+
+  return settled || (await getTransaction(transactionId));
+}
+
+// Settle payments the PSP never called back about: poll stale pending/processing transactions,
+// and fail PSP payments whose initiation never reached the PSP
+export async function reconcilePendingPayments(): Promise<{ checked: number; settled: number; abandoned: number }> {
+  const staleBefore = new Date(Date.now() - PAYMENT_RECONCILE_AFTER_MINUTES * 60 * 1000);
+  const abandonedBefore = new Date(Date.now() - PAYMENT_ABANDON_AFTER_HOURS * 60 * 60 * 1000);
+
+  const stale = await db
+    .select()
+    .from(transactions)
+    .where(and(
+      inArray(transactions.status, ["pending", "processing"]),
+      isNotNull(transactions.pspTransactionId),
+      lt(transactions.createdAt, staleBefore)
+    ));
+
+  let settled = 0;
+  for (const transaction of stale) {
+    try {
+      const updated = await pollPaymentStatus(transaction.id, "reconciliation");
+      if (updated.status !== transaction.status) {
+        settled++;
+      }
+    } catch (error) {
+      console.error(`Payment reconciliation failed for transaction ${transaction.id}:`, error);
+    }
   }
 
-  const installment = installments[installmentIndex];
-  const amount = Math.round((schedule.totalMad * installment.percentage) / 100);
+  const abandoned = await db
+    .select()
+    .from(transactions)
+    .where(and(
+      eq(transactions.status, "pending"),
+      isNull(transactions.pspTransactionId),
+      inArray(transactions.type, ["subscription_payment", "installment_payment", ...BUYER_CHARGE_TYPES]),
+      lt(transactions.createdAt, abandonedBefore)
+    ));
+
+  let failed = 0;
+  for (const transaction of abandoned) {
+    try {
+      if (await settleTransaction(transaction, "failed", {
+        source: "reconciliation",
+        audit: { reason: "Payment was never registered with the PSP" },
+      })) {
+        failed++;
+      }
+    } catch (error) {
+      console.error(`Payment reconciliation failed for transaction ${transaction.id}:`, error);
+    }
+  }
 
-  await logAudit({
-    action: AUDIT_ACTIONS.SCHEDULE_PAYMENT_PROCESS,
-    resourceType: 'payment_schedule',
-    resourceId: scheduleId,
-    changes: {
-      installmentIndex,
-      amount,
-    },
-  });
+  // Buyers who never finished the PSP checkout: fail the charge so the reservation is released
+  const checkoutExpiredBefore = new Date(Date.now() - CHECKOUT_TIMEOUT_MINUTES * 60 * 1000);
+  const expiredCheckouts = await db
+    .select()
+    .from(transactions)
+    .where(and(
+      inArray(transactions.status, ["pending", "processing"]),
+      inArray(transactions.type, BUYER_CHARGE_TYPES),
+      lt(transactions.createdAt, checkoutExpiredBefore)
+    ));
+
+  for (const transaction of expiredCheckouts) {
+    try {
+      // The buyer may have paid without the callback reaching us: ask the PSP before failing
+      const current = await pollPaymentStatus(transaction.id, "reconciliation");
+      if (current.status !== "pending" && current.status !== "processing") {
+        continue;
+      }
+      if (await settleTransaction(current, "failed", {
+        source: "reconciliation",
+        audit: { reason: "Checkout abandoned" },
+      })) {
+        failed++;
+      }
+    } catch (error) {
+      console.error(`Payment reconciliation failed for transaction ${transaction.id}:`, error);
+    }
+  }
+
+  // Installment links the buyer never paid: fail them so dunning retries or holds the order
+  const installmentExpiredBefore = new Date(Date.now() - INSTALLMENT_PAYMENT_WINDOW_HOURS * 60 * 60 * 1000);
+  const expiredInstallments = await db
+    .select()
+    .from(transactions)
+    .where(and(
+      inArray(transactions.status, ["pending", "processing"]),
+      eq(transactions.type, "installment_payment"),
+      lt(transactions.createdAt, installmentExpiredBefore)
+    ));
+
+  for (const transaction of expiredInstallments) {
+    try {
+      const current = await pollPaymentStatus(transaction.id, "reconciliation");
+      if (current.status !== "pending" && current.status !== "processing") {
+        continue;
+      }
+      if (await settleTransaction(current, "failed", {
+        source: "reconciliation",
+        audit: { reason: "Installment payment link expired" },
+      })) {
+        failed++;
+      }
+    } catch (error) {
+      console.error(`Payment reconciliation failed for transaction ${transaction.id}:`, error);
+    }
+  }
 
   return {
-    success: true,
-    transactionId: `schedule_${scheduleId}_${installmentIndex}`,
-    status: 'completed',
+    checked: stale.length,
+    settled,
+    abandoned: failed,
   };
 }
 
-export async function getPaymentSchedule(scheduleId: string) {
-  const [schedule] = await db
+// Callback inbox entries, newest first
+export async function getPaymentCallbackEvents(transactionId?: string) {
+  return db
+    .select()
+    .from(pspCallbackEvents)
+    .where(transactionId ? eq(pspCallbackEvents.transactionId, transactionId) : undefined)
+    .orderBy(desc(pspCallbackEvents.receivedAt))
+    .limit(200);
+}
+
+// Get transaction by ID
+export async function getTransaction(transactionId: string) {
+  const [transaction] = await db
     .select()
-    .from(paymentSchedules)
-    .where(eq(paymentSchedules.id, scheduleId));
+    .from(transactions)
+    .where(eq(transactions.id, transactionId));
+
+  return transaction;
+}
 
-  return schedule || null;
+// Get transactions for a provider
+export async function getProviderTransactions(providerId: string) {
+  return db
+    .select()
+    .from(transactions)
+    .where(eq(transactions.providerId, providerId));
 }
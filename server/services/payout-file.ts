@@ -0,0 +1,125 @@
+import { isValidRib, type PayoutBatch, type ProviderPayout } from "../../shared/schema";
+
+/**
+ * Bank bulk-transfer files (virements de masse) for provider payout batches
+ * CSV for review and banks with a spreadsheet upload; fixed-width for the 160-character
+ * three-record layout most Moroccan banks ingest:
+ *   01 header (ordering account, batch reference, execution date, count, total)
+ *   02 one record per transfer
+ *   03 trailer (count, total)
+ * Amounts are written in centimes.
+ */
+
+export type PayoutFileFormat = "csv" | "fixed";
+
+export interface PayoutFile {
+  filename: string;
+  contentType: string;
+  content: string;
+}
+
+const PAYOUT_ORDERING_RIB = (process.env.PAYOUT_ORDERING_RIB || "").replace(/\s/g, "");
+const PAYOUT_ORDERING_NAME = process.env.PAYOUT_ORDERING_NAME || "TRIP2WORK";
+
+const RECORD_LENGTH = 160;
+
+// Banks only accept unaccented upper-case ASCII in name and label fields
+function bankText(value: string, length: number): string {
+  const cleaned = value
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toUpperCase()
+    .replace(/[^A-Z0-9 .\-/]/g, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+  return cleaned.slice(0, length).padEnd(length, " ");
+}
+
+function zeroPad(value: number, length: number): string {
+  return String(value).padStart(length, "0");
+}
+
+function formatDate(date: Date): string {
+  return `${date.getFullYear()}${zeroPad(date.getMonth() + 1, 2)}${zeroPad(date.getDate(), 2)}`;
+}
+
+function transferReference(batch: PayoutBatch, index: number): string {
+  return `${batch.reference}-${zeroPad(index + 1, 3)}`;
+}
+
+function renderFixedWidth(batch: PayoutBatch, payouts: ProviderPayout[], executionDate: Date): string {
+  if (!isValidRib(PAYOUT_ORDERING_RIB)) {
+    throw new Error("PAYOUT_ORDERING_RIB must be set to a valid 24-digit RIB to export fixed-width files");
+  }
+
+  const totalCentimes = payouts.reduce((sum, payout) => sum + payout.netAmountMad * 100, 0);
+
+  const header = "01"
+    + PAYOUT_ORDERING_RIB
+    + bankText(PAYOUT_ORDERING_NAME, 35)
+    + bankText(batch.reference, 16)
+    + formatDate(executionDate)
+    + zeroPad(payouts.length, 6)
+    + zeroPad(totalCentimes, 15);
+
+  const details = payouts.map((payout, index) => "02"
+    + payout.rib
+    + bankText(payout.accountHolder, 35)
+    + zeroPad(payout.netAmountMad * 100, 15)
+    + bankText(transferReference(batch, index), 20)
+    + bankText(`${PAYOUT_ORDERING_NAME} PAYOUT ${batch.reference}`, 35));
+
+  const trailer = "03"
+    + zeroPad(payouts.length, 6)
+    + zeroPad(totalCentimes, 15);
+
+  return [header, ...details, trailer]
+    .map((record) => record.padEnd(RECORD_LENGTH, " "))
+    .join("\r\n") + "\r\n";
+}
+
+function renderCsv(batch: PayoutBatch, payouts: ProviderPayout[], executionDate: Date): string {
+  const rows = [
+    ["reference", "beneficiary", "rib", "bank_code", "city_code", "amount", "currency", "execution_date", "label"],
+    ...payouts.map((payout, index) => [
+      transferReference(batch, index),
+      bankText(payout.accountHolder, 35).trim(),
+      payout.rib,
+      payout.rib.slice(0, 3),
+      payout.rib.slice(3, 6),
+      payout.netAmountMad.toFixed(2),
+      "MAD",
+      formatDate(executionDate),
+      `${PAYOUT_ORDERING_NAME} PAYOUT ${batch.reference}`,
+    ]),
+  ];
+
+  // Semicolons, as expected by French-locale spreadsheets and bank portals
+  return rows.map((row) => row.join(";")).join("\r\n") + "\r\n";
+}
+
+export function renderPayoutFile(
+  batch: PayoutBatch,
+  payouts: ProviderPayout[],
+  format: PayoutFileFormat,
+  executionDate: Date = new Date()
+): PayoutFile {
+  const invalid = payouts.filter((payout) => !isValidRib(payout.rib));
+  if (invalid.length > 0) {
+    throw new Error(`Invalid RIB on payouts: ${invalid.map((payout) => payout.id).join(", ")}`);
+  }
+
+  if (format === "fixed") {
+    return {
+      filename: `${batch.reference}.txt`,
+      contentType: "text/plain; charset=us-ascii",
+      content: renderFixedWidth(batch, payouts, executionDate),
+    };
+  }
+
+  return {
+    filename: `${batch.reference}.csv`,
+    contentType: "text/csv; charset=utf-8",
+    content: renderCsv(batch, payouts, executionDate),
+  };
+}
@@ -0,0 +1,588 @@
+import { db } from "../db";
+import {
+  escrowLedger,
+  transactions,
+  platformFees,
+  providerEarnings,
+  providerPayoutSettings,
+  payoutBatches,
+  providerPayouts,
+  type EscrowLedger,
+  type PayoutBatch,
+  type PayoutItem,
+  type ProviderPayout,
+  type ProviderPayoutSettings,
+  type InsertProviderPayoutSettings,
+  type Transaction,
+} from "../../shared/schema";
+import { and, desc, eq, gte, inArray, isNull } from "drizzle-orm";
+import { storage } from "../storage";
+import { logAudit, AUDIT_ACTIONS } from "../audit";
+import { recordOrderPlatformFee } from "./commission";
+import { nextDocumentNumber } from "./invoice";
+import { notifyUser } from "./notifications";
+import { renderPayoutFile, type PayoutFile, type PayoutFileFormat } from "./payout-file";
+
+/**
+ * Payout Service - Pay providers their released escrow, net of platform fees
+ * Weekly batches (or on request) roll up each provider's released funds into one
+ * provider_payout transaction and one line of a bank bulk-transfer file.
+ */
+
+// Day of the week scheduled batches run (0 = Sunday, 1 = Monday)
+const PAYOUT_WEEKDAY = parseInt(process.env.PAYOUT_WEEKDAY || "1", 10);
+
+export class PayoutError extends Error {
+  constructor(message: string, public readonly statusCode: number) {
+    super(message);
+    this.name = "PayoutError";
+    Object.setPrototypeOf(this, PayoutError.prototype);
+  }
+}
+
+export interface PayoutBalance {
+  grossMad: number;
+  feeMad: number;
+  netMad: number;
+  items: PayoutItem[];
+}
+
+// ========================================
+// Settings
+// ========================================
+
+export async function getPayoutSettings(providerId: string): Promise<ProviderPayoutSettings | null> {
+  const [settings] = await db
+    .select()
+    .from(providerPayoutSettings)
+    .where(eq(providerPayoutSettings.providerId, providerId));
+
+  return settings || null;
+}
+
+export async function savePayoutSettings(
+  data: InsertProviderPayoutSettings,
+  userId?: string
+): Promise<ProviderPayoutSettings> {
+  const [settings] = await db
+    .insert(providerPayoutSettings)
+    .values(data)
+    .onConflictDoUpdate({
+      target: providerPayoutSettings.providerId,
+      set: { ...data, updatedAt: new Date() },
+    })
+    .returning();
+
+  await logAudit({
+    userId,
+    action: AUDIT_ACTIONS.PAYOUT_SETTINGS_UPDATE,
+    resourceType: "provider",
+    resourceId: data.providerId,
+    changes: {
+      schedule: data.schedule,
+      minimumPayoutMad: data.minimumPayoutMad,
+      rib: data.rib ? `****${data.rib.slice(-4)}` : null,
+    },
+  });
+
+  return settings;
+}
+
+// On-request providers ask to be included in the next batch
+export async function requestPayout(providerId: string, userId?: string): Promise<PayoutBalance> {
+  const settings = await getPayoutSettings(providerId);
+  if (!settings?.rib || !settings.accountHolder) {
+    throw new PayoutError("Add your bank details before requesting a payout", 400);
+  }
+
+  const balance = await getPayoutBalance(providerId);
+  if (balance.netMad < settings.minimumPayoutMad) {
+    throw new PayoutError(`Balance of ${balance.netMad} MAD is below your ${settings.minimumPayoutMad} MAD minimum`, 409);
+  }
+
+  await db
+    .update(providerPayoutSettings)
+    .set({ payoutRequestedAt: new Date(), updatedAt: new Date() })
+    .where(eq(providerPayoutSettings.providerId, providerId));
+
+  await logAudit({
+    userId,
+    action: AUDIT_ACTIONS.PAYOUT_REQUEST,
+    resourceType: "provider",
+    resourceId: providerId,
+    changes: { netMad: balance.netMad },
+  });
+
+  return balance;
+}
+
+// ========================================
+// Balances
+// ========================================
+
+// Released buyer funds that are not in a payout yet
+async function getUnpaidReleasedEscrow(providerId?: string) {
+  return db
+    .select({ entry: escrowLedger, transaction: transactions })
+    .from(escrowLedger)
+    .innerJoin(transactions, eq(escrowLedger.transactionId, transactions.id))
+    .where(and(
+      eq(escrowLedger.status, "released"),
+      isNull(escrowLedger.payoutId),
+      inArray(transactions.type, ["offer_payment", "order_payment", "installment_payment"]),
+      providerId ? eq(transactions.providerId, providerId) : undefined
+    ));
+}
+
+// Platform commission on one escrow entry: the fee recorded at offer acceptance, or the rate of
+// the fee recorded when the package order was paid, applied to this payment of the order
+async function getPlatformFee(entry: EscrowLedger, transaction: Transaction): Promise<number> {
+  if (entry.jobId) {
+    const [fee] = await db
+      .select()
+      .from(platformFees)
+      .where(and(eq(platformFees.jobId, entry.jobId), eq(platformFees.providerId, transaction.providerId)));
+
+    if (fee) {
+      return fee.commissionAmountMad;
+    }
+  }
+
+  if (entry.orderId) {
+    const order = await storage.getPackageOrder(entry.orderId);
+    // Orders paid before their fee was recorded get it now
+    const fee = order ? await recordOrderPlatformFee(order) : undefined;
+    if (fee) {
+      return Math.round(entry.heldAmount * parseFloat(fee.commissionRate));
+    }
+  }
+
+  return 0;
+}
+
+async function toPayoutItems(rows: Array<{ entry: EscrowLedger; transaction: Transaction }>): Promise<PayoutItem[]> {
+  const items: PayoutItem[] = [];
+
+  for (const { entry, transaction } of rows) {
+    // Disputes settled with a partial split only release what wasn't refunded to the buyer
+    const grossMad = entry.heldAmount - entry.refundedAmount;
+    const feeMad = Math.min(await getPlatformFee(entry, transaction), grossMad);
+    items.push({
+      escrowId: entry.id,
+      transactionId: transaction.id,
+      orderId: entry.orderId,
+      jobId: entry.jobId,
+      grossMad,
+      feeMad,
+      netMad: grossMad - feeMad,
+    });
+  }
+
+  return items;
+}
+
+function summarize(items: PayoutItem[]): PayoutBalance {
+  return {
+    grossMad: items.reduce((sum, item) => sum + item.grossMad, 0),
+    feeMad: items.reduce((sum, item) => sum + item.feeMad, 0),
+    netMad: items.reduce((sum, item) => sum + item.netMad, 0),
+    items,
+  };
+}
+
+export async function getPayoutBalance(providerId: string): Promise<PayoutBalance> {
+  return summarize(await toPayoutItems(await getUnpaidReleasedEscrow(providerId)));
+}
+
+// ========================================
+// Batches
+// ========================================
+
+// Roll every eligible provider's released funds into a new batch; null when nobody is due
+export async function createPayoutBatch(options: {
+  trigger: PayoutBatch["trigger"];
+  createdBy?: string;
+}): Promise<PayoutBatch | null> {
+  const rows = await getUnpaidReleasedEscrow();
+
+  const rowsByProvider = new Map<string, typeof rows>();
+  for (const row of rows) {
+    const providerRows = rowsByProvider.get(row.transaction.providerId) || [];
+    providerRows.push(row);
+    rowsByProvider.set(row.transaction.providerId, providerRows);
+  }
+
+  if (rowsByProvider.size === 0) {
+    return null;
+  }
+
+  const settingsList = await db
+    .select()
+    .from(providerPayoutSettings)
+    .where(inArray(providerPayoutSettings.providerId, Array.from(rowsByProvider.keys())));
+  const settingsByProvider = new Map(settingsList.map((settings) => [settings.providerId, settings]));
+
+  const candidates: Array<{ settings: ProviderPayoutSettings; balance: PayoutBalance }> = [];
+
+  for (const [providerId, providerRows] of Array.from(rowsByProvider.entries())) {
+    const settings = settingsByProvider.get(providerId);
+
+    // No bank details, no transfer: the funds wait for the next batch
+    if (!settings?.rib || !settings.accountHolder) continue;
+    if (settings.schedule === "on_request" && !settings.payoutRequestedAt) continue;
+
+    const balance = summarize(await toPayoutItems(providerRows));
+    if (balance.netMad <= 0 || balance.netMad < settings.minimumPayoutMad) continue;
+
+    candidates.push({ settings, balance });
+  }
+
+  if (candidates.length === 0) {
+    return null;
+  }
+
+  const batch = await db.transaction(async (tx) => {
+    const reference = await nextDocumentNumber(tx, "PAY");
+
+    const [created] = await tx
+      .insert(payoutBatches)
+      .values({
+        reference,
+        trigger: options.trigger,
+        payoutCount: candidates.length,
+        totalGrossMad: candidates.reduce((sum, c) => sum + c.balance.grossMad, 0),
+        totalFeesMad: candidates.reduce((sum, c) => sum + c.balance.feeMad, 0),
+        totalNetMad: candidates.reduce((sum, c) => sum + c.balance.netMad, 0),
+        createdBy: options.createdBy,
+      })
+      .returning();
+
+    for (const { settings, balance } of candidates) {
+      const [payoutTransaction] = await tx
+        .insert(transactions)
+        .values({
+          providerId: settings.providerId,
+          type: "provider_payout",
+          amountMad: balance.netMad,
+          currency: "MAD",
+          status: "processing",
+          metadata: { batchId: created.id, batchReference: reference },
+        })
+        .returning();
+
+      const [payout] = await tx
+        .insert(providerPayouts)
+        .values({
+          batchId: created.id,
+          providerId: settings.providerId,
+          transactionId: payoutTransaction.id,
+          grossAmountMad: balance.grossMad,
+          feeAmountMad: balance.feeMad,
+          netAmountMad: balance.netMad,
+          accountHolder: settings.accountHolder!,
+          rib: settings.rib!,
+          items: balance.items,
+        })
+        .returning();
+
+      // Claim the escrow entries; a concurrent batch that got there first aborts this one
+      const escrowIds = balance.items.map((item) => item.escrowId);
+      const claimed = await tx
+        .update(escrowLedger)
+        .set({ payoutId: payout.id })
+        .where(and(inArray(escrowLedger.id, escrowIds), isNull(escrowLedger.payoutId)))
+        .returning();
+
+      if (claimed.length !== escrowIds.length) {
+        throw new Error("Escrow entries changed while building the payout batch");
+      }
+
+      const jobIds = balance.items.map((item) => item.jobId).filter((jobId): jobId is string => !!jobId);
+      if (jobIds.length > 0) {
+        await tx
+          .update(platformFees)
+          .set({ status: "collected", paidAt: new Date() })
+          .where(and(
+            inArray(platformFees.jobId, jobIds),
+            eq(platformFees.providerId, settings.providerId),
+            eq(platformFees.status, "pending") // Fees of confirmed jobs were collected when escrow was released
+          ));
+      }
+
+      await tx
+        .update(providerPayoutSettings)
+        .set({ payoutRequestedAt: null })
+        .where(eq(providerPayoutSettings.providerId, settings.providerId));
+    }
+
+    return created;
+  });
+
+  await logAudit({
+    userId: options.createdBy,
+    action: AUDIT_ACTIONS.PAYOUT_BATCH_CREATE,
+    resourceType: "payout_batch",
+    resourceId: batch.id,
+    changes: {
+      reference: batch.reference,
+      trigger: batch.trigger,
+      payoutCount: batch.payoutCount,
+      totalNetMad: batch.totalNetMad,
+    },
+  });
+
+  return batch;
+}
+
+// Scheduled job: one batch on the payout weekday
+export async function runScheduledPayouts(now: Date = new Date()): Promise<PayoutBatch | null> {
+  if (now.getDay() !== PAYOUT_WEEKDAY) {
+    return null;
+  }
+
+  const startOfDay = new Date(now);
+  startOfDay.setHours(0, 0, 0, 0);
+
+  const [todaysBatch] = await db
+    .select()
+    .from(payoutBatches)
+    .where(and(eq(payoutBatches.trigger, "scheduled"), gte(payoutBatches.createdAt, startOfDay)));
+
+  if (todaysBatch) {
+    return null;
+  }
+
+  return createPayoutBatch({ trigger: "scheduled" });
+}
+
+export async function getPayoutBatches(): Promise<PayoutBatch[]> {
+  return db
+    .select()
+    .from(payoutBatches)
+    .orderBy(desc(payoutBatches.createdAt));
+}
+
+export async function getPayoutBatch(batchId: string): Promise<{ batch: PayoutBatch; payouts: ProviderPayout[] } | null> {
+  const [batch] = await db
+    .select()
+    .from(payoutBatches)
+    .where(eq(payoutBatches.id, batchId));
+
+  if (!batch) {
+    return null;
+  }
+
+  const payouts = await db
+    .select()
+    .from(providerPayouts)
+    .where(eq(providerPayouts.batchId, batchId))
+    .orderBy(providerPayouts.createdAt);
+
+  return { batch, payouts };
+}
+
+// Bank file for finance to upload; the first export moves the batch to exported
+export async function exportPayoutBatch(
+  batchId: string,
+  format: PayoutFileFormat,
+  userId?: string
+): Promise<PayoutFile> {
+  const result = await getPayoutBatch(batchId);
+  if (!result) {
+    throw new PayoutError("Payout batch not found", 404);
+  }
+  if (result.batch.status === "cancelled") {
+    throw new PayoutError("Payout batch was cancelled", 409);
+  }
+
+  const file = renderPayoutFile(
+    result.batch,
+    result.payouts.filter((payout) => payout.status !== "failed"),
+    format
+  );
+
+  if (result.batch.status === "pending") {
+    await db
+      .update(payoutBatches)
+      .set({ status: "exported", exportedAt: new Date() })
+      .where(eq(payoutBatches.id, batchId));
+  }
+
+  await logAudit({
+    userId,
+    action: AUDIT_ACTIONS.PAYOUT_BATCH_EXPORT,
+    resourceType: "payout_batch",
+    resourceId: batchId,
+    changes: { format, filename: file.filename },
+  });
+
+  return file;
+}
+
+// Finance confirms the bank executed the transfers
+export async function markPayoutBatchPaid(batchId: string, userId?: string): Promise<PayoutBatch> {
+  const result = await getPayoutBatch(batchId);
+  if (!result) {
+    throw new PayoutError("Payout batch not found", 404);
+  }
+  if (result.batch.status !== "exported") {
+    throw new PayoutError(`Only exported batches can be marked paid (batch is ${result.batch.status})`, 409);
+  }
+
+  const paidAt = new Date();
+  const pending = result.payouts.filter((payout) => payout.status === "pending");
+
+  const batch = await db.transaction(async (tx) => {
+    for (const payout of pending) {
+      await tx
+        .update(providerPayouts)
+        .set({ status: "paid", paidAt })
+        .where(eq(providerPayouts.id, payout.id));
+
+      if (payout.transactionId) {
+        await tx
+          .update(transactions)
+          .set({ status: "completed", completedAt: paidAt })
+          .where(eq(transactions.id, payout.transactionId));
+      }
+
+      const jobIds = (payout.items as PayoutItem[])
+        .map((item) => item.jobId)
+        .filter((jobId): jobId is string => !!jobId);
+      if (jobIds.length > 0) {
+        await tx
+          .update(providerEarnings)
+          .set({ status: "paid_out", paidOutAt: paidAt })
+          .where(and(inArray(providerEarnings.jobId, jobIds), eq(providerEarnings.providerId, payout.providerId)));
+      }
+    }
+
+    const [updated] = await tx
+      .update(payoutBatches)
+      .set({ status: "paid", paidAt })
+      .where(eq(payoutBatches.id, batchId))
+      .returning();
+
+    return updated;
+  });
+
+  await logAudit({
+    userId,
+    action: AUDIT_ACTIONS.PAYOUT_BATCH_PAID,
+    resourceType: "payout_batch",
+    resourceId: batchId,
+    changes: { reference: batch.reference, paidPayouts: pending.length },
+  });
+
+  for (const payout of pending) {
+    await notifyProvider(payout.providerId, {
+      eventType: "payout_paid",
+      title: "Payout sent",
+      message: `${payout.netAmountMad} MAD has been transferred to your bank account (${batch.reference}).`,
+      data: { payoutId: payout.id, batchReference: batch.reference, netAmountMad: payout.netAmountMad },
+    });
+  }
+
+  return batch;
+}
+
+// A transfer the bank rejected: its funds go back into the provider's balance for the next batch
+export async function failPayout(payoutId: string, reason: string, userId?: string): Promise<ProviderPayout> {
+  const [payout] = await db
+    .select()
+    .from(providerPayouts)
+    .where(eq(providerPayouts.id, payoutId));
+
+  if (!payout) {
+    throw new PayoutError("Payout not found", 404);
+  }
+  if (payout.status === "failed") {
+    throw new PayoutError("Payout is already marked failed", 409);
+  }
+
+  const items = payout.items as PayoutItem[];
+  const jobIds = items.map((item) => item.jobId).filter((jobId): jobId is string => !!jobId);
+
+  const updated = await db.transaction(async (tx) => {
+    const [failed] = await tx
+      .update(providerPayouts)
+      .set({ status: "failed", failureReason: reason, paidAt: null })
+      .where(eq(providerPayouts.id, payoutId))
+      .returning();
+
+    await tx
+      .update(escrowLedger)
+      .set({ payoutId: null })
+      .where(eq(escrowLedger.payoutId, payoutId));
+
+    if (payout.transactionId) {
+      await tx
+        .update(transactions)
+        .set({ status: "failed", completedAt: null })
+        .where(eq(transactions.id, payout.transactionId));
+    }
+
+    if (jobIds.length > 0) {
+      await tx
+        .update(platformFees)
+        .set({ status: "pending", paidAt: null })
+        .where(and(inArray(platformFees.jobId, jobIds), eq(platformFees.providerId, payout.providerId)));
+
+      await tx
+        .update(providerEarnings)
+        .set({ status: "available", paidOutAt: null })
+        .where(and(inArray(providerEarnings.jobId, jobIds), eq(providerEarnings.providerId, payout.providerId)));
+    }
+
+    return failed;
+  });
+
+  await logAudit({
+    userId,
+    action: AUDIT_ACTIONS.PAYOUT_FAIL,
+    resourceType: "provider_payout",
+    resourceId: payoutId,
+    changes: { reason, netAmountMad: payout.netAmountMad },
+  });
+
+  await notifyProvider(payout.providerId, {
+    eventType: "payout_failed",
+    title: "Payout failed",
+    message: `Your payout of ${payout.netAmountMad} MAD could not be transferred (${reason}). Please check your bank details; the amount will be included in your next payout.`,
+    data: { payoutId, reason },
+  });
+
+  return updated;
+}
+
+// Provider payout history, newest first, with the batch reference
+export async function getProviderPayouts(providerId: string) {
+  return db
+    .select({
+      id: providerPayouts.id,
+      batchReference: payoutBatches.reference,
+      grossAmountMad: providerPayouts.grossAmountMad,
+      feeAmountMad: providerPayouts.feeAmountMad,
+      netAmountMad: providerPayouts.netAmountMad,
+      rib: providerPayouts.rib,
+      status: providerPayouts.status,
+      failureReason: providerPayouts.failureReason,
+      paidAt: providerPayouts.paidAt,
+      createdAt: providerPayouts.createdAt,
+    })
+    .from(providerPayouts)
+    .innerJoin(payoutBatches, eq(providerPayouts.batchId, payoutBatches.id))
+    .where(eq(providerPayouts.providerId, providerId))
+    .orderBy(desc(providerPayouts.createdAt));
+}
+
+async function notifyProvider(providerId: string, payload: Parameters<typeof notifyUser>[1]): Promise<void> {
+  try {
+    const provider = await storage.getProvider(providerId);
+    if (provider) {
+      await notifyUser(provider.userId, payload);
+    }
+  } catch (error) {
+    console.error(`Failed to notify provider ${providerId}:`, error);
+  }
+}
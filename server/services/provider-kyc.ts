@@ -0,0 +1,384 @@
+import { db } from "../db";
+import {
+  providerDocuments,
+  providers,
+  EXPIRING_DOCUMENT_TYPES,
+  type Job,
+  type Provider,
+  type ProviderDocument,
+  type ProviderDocumentType,
+  type SubmitProviderDocument,
+} from "../../shared/schema";
+import { and, asc, desc, eq } from "drizzle-orm";
+import { storage } from "../storage";
+import { logAudit, queryAuditTrail, AUDIT_ACTIONS } from "../audit";
+import { calculateCompliance } from "../ai/scoring";
+import { notifySafely } from "./notifications";
+import { ObjectStorageService, ObjectNotFoundError } from "../objectStorage";
+import {
+  ObjectAccessGroupType,
+  ObjectPermission,
+  getObjectAclPolicy,
+  setObjectAclPolicy,
+  type ObjectAclPolicy,
+} from "../objectAcl";
+
+/**
+ * Provider KYC - Licensing and identity documents, reviewed by an admin
+ * Providers upload each document as a private object that only they and admins can read, with its
+ * number and expiry date. Admins approve or reject it (with a reason) from a review queue. After
+ * every approval the provider's `permits` and `verified` flag are derived again from their verified,
+ * unexpired documents: they are never self-declared. Once a document the provider had verified
+ * expires, offers in the job categories that need it are paused until a replacement is verified.
+ * Submissions and decisions are audited under the document.
+ */
+
+const PROVIDER_DOCUMENT_MAX_BYTES = parseInt(process.env.PROVIDER_DOCUMENT_MAX_MB || "10", 10) * 1024 * 1024;
+
+// Scans and photos of documents
+const ALLOWED_DOCUMENT_TYPES = [
+  /^image\/(jpeg|png|webp|heic|heif)$/,
+  /^application\/pdf$/,
+];
+
+// The documents that grant each permit used by compliance scoring; any one of them is enough
+export const PERMIT_DOCUMENTS: Record<string, ProviderDocumentType[]> = {
+  identity: ["drivers_license", "trade_license"],
+  permit: ["transport_permit", "trade_license", "certification"],
+  insurance: ["insurance"],
+};
+
+// The documents a provider must keep valid to bid in each job category, once they have had them verified
+export const CATEGORY_DOCUMENTS: Record<Job["category"], ProviderDocumentType[]> = {
+  transport: ["drivers_license", "vehicle_registration", "transport_permit", "insurance"],
+  tour: ["insurance", "certification"],
+  service: ["insurance", "trade_license"],
+  financing: ["trade_license"],
+};
+
+export type PausedCategories = Partial<Record<Job["category"], ProviderDocumentType[]>>;
+
+export class KycError extends Error {
+  constructor(message: string, public readonly statusCode: number) {
+    super(message);
+    this.name = "KycError";
+    Object.setPrototypeOf(this, KycError.prototype);
+  }
+}
+
+export interface ProviderKycStatus {
+  verified: boolean;
+  permits: Record<string, boolean>;
+  documents: ProviderDocument[];
+  pausedCategories: PausedCategories;
+}
+
+export type ProviderDocumentForReview = ProviderDocument & { providerName: string; providerCity: string | null };
+
+async function loadProvider(userId: string): Promise<Provider> {
+  const provider = await storage.getProviderByUserId(userId);
+  if (!provider) {
+    throw new KycError("Create your provider profile first", 404);
+  }
+  return provider;
+}
+
+// Reviews only apply to documents still waiting for one
+async function loadPendingDocument(documentId: string): Promise<ProviderDocument> {
+  const document = await storage.getProviderDocument(documentId);
+  if (!document) {
+    throw new KycError("Document not found", 404);
+  }
+  if (document.status !== "pending") {
+    throw new KycError(`This document is already ${document.status}`, 409);
+  }
+  return document;
+}
+
+// Signed URL the client PUTs a document scan to before submitting it
+export async function createDocumentUploadUrl(): Promise<string> {
+  return new ObjectStorageService().getObjectEntityUploadURL();
+}
+
+// Take ownership of an uploaded scan and make it readable by admins only
+async function claimDocumentFile(
+  ownerId: string,
+  url: string
+): Promise<{ objectPath: string; contentType: string; sizeBytes: number }> {
+  const objectStorageService = new ObjectStorageService();
+  const objectPath = objectStorageService.normalizeObjectEntityPath(url);
+  if (!objectPath.startsWith("/objects/uploads/")) {
+    throw new KycError("Documents must be uploaded through the document upload URL", 400);
+  }
+
+  let objectFile;
+  try {
+    objectFile = await objectStorageService.getObjectEntityFile(objectPath);
+  } catch (error) {
+    if (error instanceof ObjectNotFoundError) {
+      throw new KycError("The document file was not uploaded", 400);
+    }
+    throw error;
+  }
+
+  const existingPolicy = await getObjectAclPolicy(objectFile);
+  if (existingPolicy) {
+    throw new KycError("This file was already submitted", 409);
+  }
+
+  const [metadata] = await objectFile.getMetadata();
+  const sizeBytes = Number(metadata.size || 0);
+  const contentType = metadata.contentType || "application/octet-stream";
+
+  if (sizeBytes > PROVIDER_DOCUMENT_MAX_BYTES) {
+    throw new KycError(`Documents must be smaller than ${PROVIDER_DOCUMENT_MAX_BYTES / 1024 / 1024} MB`, 400);
+  }
+  if (!ALLOWED_DOCUMENT_TYPES.some((pattern) => pattern.test(contentType))) {
+    throw new KycError(`Documents of type ${contentType} are not allowed; upload a photo or a PDF`, 400);
+  }
+
+  const aclPolicy: ObjectAclPolicy = {
+    owner: ownerId,
+    visibility: "private",
+    aclRules: [
+      { group: { type: ObjectAccessGroupType.ROLE, id: "admin" }, permission: ObjectPermission.READ },
+    ],
+  };
+  await setObjectAclPolicy(objectFile, aclPolicy);
+
+  return { objectPath, contentType, sizeBytes };
+}
+
+// The provider's documents, newest first, with the verification they currently grant
+export async function getProviderKycStatus(userId: string): Promise<ProviderKycStatus> {
+  const provider = await loadProvider(userId);
+  const documents = await db
+    .select()
+    .from(providerDocuments)
+    .where(eq(providerDocuments.providerId, provider.id))
+    .orderBy(desc(providerDocuments.createdAt));
+
+  return {
+    verified: provider.verified,
+    permits: provider.permits as Record<string, boolean>,
+    documents,
+    pausedCategories: await getPausedCategories(provider.id),
+  };
+}
+
+// Job categories the provider can't bid in, with the lapsed documents: a type lapses when a
+// verified copy expired and no valid verified copy replaced it
+export async function getPausedCategories(providerId: string, now: Date = new Date()): Promise<PausedCategories> {
+  const documents = await db
+    .select({
+      type: providerDocuments.type,
+      status: providerDocuments.status,
+      expiresAt: providerDocuments.expiresAt,
+      verifiedAt: providerDocuments.verifiedAt,
+    })
+    .from(providerDocuments)
+    .where(eq(providerDocuments.providerId, providerId));
+
+  const isValid = (doc: (typeof documents)[number]) => doc.status === "verified" && (!doc.expiresAt || doc.expiresAt > now);
+  // Verified copies past their date count as expired before the expiry job has marked them
+  const hasExpired = (doc: (typeof documents)[number]) =>
+    (doc.status === "expired" && doc.verifiedAt !== null) || (doc.status === "verified" && !isValid(doc));
+
+  const lapsedTypes = new Set(
+    documents
+      .filter((doc) => hasExpired(doc) && !documents.some((other) => other.type === doc.type && isValid(other)))
+      .map((doc) => doc.type)
+  );
+
+  const paused: PausedCategories = {};
+  for (const [category, types] of Object.entries(CATEGORY_DOCUMENTS) as [Job["category"], ProviderDocumentType[]][]) {
+    const lapsed = types.filter((type) => lapsedTypes.has(type));
+    if (lapsed.length > 0) {
+      paused[category] = lapsed;
+    }
+  }
+  return paused;
+}
+
+export async function submitProviderDocument(userId: string, input: SubmitProviderDocument): Promise<ProviderDocument> {
+  const provider = await loadProvider(userId);
+  if (input.expiresAt && input.expiresAt <= new Date()) {
+    throw new KycError("This document has already expired", 400);
+  }
+
+  const file = await claimDocumentFile(userId, input.documentUrl);
+
+  const document = await storage.createProviderDocument({
+    providerId: provider.id,
+    type: input.type,
+    documentUrl: file.objectPath,
+    documentNumber: input.documentNumber,
+    expiresAt: input.expiresAt,
+    metadata: { contentType: file.contentType, sizeBytes: file.sizeBytes },
+  });
+
+  await logAudit({
+    userId,
+    action: AUDIT_ACTIONS.PROVIDER_DOCUMENT_SUBMIT,
+    resourceType: "provider_document",
+    resourceId: document.id,
+    changes: { providerId: provider.id, type: input.type, expiresAt: input.expiresAt },
+  });
+
+  return document;
+}
+
+// Admin review queue; pending documents come oldest first, other statuses newest first
+export async function listDocumentsForReview(
+  filters: { status?: ProviderDocument["status"]; providerId?: string } = {}
+): Promise<ProviderDocumentForReview[]> {
+  const rows = await db
+    .select({ document: providerDocuments, providerName: providers.displayName, providerCity: providers.city })
+    .from(providerDocuments)
+    .innerJoin(providers, eq(providerDocuments.providerId, providers.id))
+    .where(and(
+      filters.status ? eq(providerDocuments.status, filters.status) : undefined,
+      filters.providerId ? eq(providerDocuments.providerId, filters.providerId) : undefined
+    ))
+    .orderBy(filters.status === "pending" ? asc(providerDocuments.createdAt) : desc(providerDocuments.createdAt));
+
+  return rows.map((row) => ({ ...row.document, providerName: row.providerName, providerCity: row.providerCity }));
+}
+
+// Every audited step of a document, newest first
+export async function getDocumentAuditTrail(documentId: string) {
+  return queryAuditTrail({ resourceType: "provider_document", resourceId: documentId });
+}
+
+// Derive the provider's permits and verified flag from their verified, unexpired documents
+export async function recomputeProviderVerification(
+  providerId: string,
+  actorId?: string
+): Promise<{ verified: boolean; permits: Record<string, boolean> }> {
+  const [provider] = await db.select().from(providers).where(eq(providers.id, providerId));
+  if (!provider) {
+    throw new KycError("Provider not found", 404);
+  }
+
+  const now = new Date();
+  const documents = await db
+    .select({ type: providerDocuments.type, expiresAt: providerDocuments.expiresAt })
+    .from(providerDocuments)
+    .where(and(eq(providerDocuments.providerId, providerId), eq(providerDocuments.status, "verified")));
+  const validTypes = new Set(documents.filter((doc) => !doc.expiresAt || doc.expiresAt > now).map((doc) => doc.type));
+
+  const permits: Record<string, boolean> = {};
+  for (const [permit, types] of Object.entries(PERMIT_DOCUMENTS)) {
+    permits[permit] = types.some((type) => validTypes.has(type));
+  }
+  // Verified once every permit is backed by a document
+  const verified = calculateCompliance(permits, true) === 1;
+
+  const previousPermits = provider.permits as Record<string, boolean>;
+  const unchanged = provider.verified === verified &&
+    Object.keys(PERMIT_DOCUMENTS).every((permit) => !!previousPermits[permit] === permits[permit]);
+  if (unchanged) {
+    return { verified, permits };
+  }
+
+  await db.update(providers).set({ permits, verified }).where(eq(providers.id, providerId));
+
+  await logAudit({
+    userId: actorId,
+    action: AUDIT_ACTIONS.PROVIDER_UPDATE_KYC,
+    resourceType: "provider",
+    resourceId: providerId,
+    changes: {
+      before: { verified: provider.verified, permits: previousPermits },
+      after: { verified, permits },
+      documentTypes: Array.from(validTypes),
+    },
+  });
+
+  return { verified, permits };
+}
+
+export async function approveProviderDocument(
+  documentId: string,
+  adminId: string,
+  input: { expiresAt?: Date } = {}
+): Promise<ProviderDocument> {
+  const document = await loadPendingDocument(documentId);
+
+  const expiresAt = input.expiresAt || document.expiresAt;
+  if (!expiresAt && EXPIRING_DOCUMENT_TYPES.includes(document.type)) {
+    throw new KycError("Set the expiry date shown on this document", 400);
+  }
+  if (expiresAt && expiresAt <= new Date()) {
+    throw new KycError("This document has expired and can't be approved", 400);
+  }
+
+  const reviewedAt = new Date();
+  // Conditional on the status so two reviewers can't both decide
+  const [approved] = await db
+    .update(providerDocuments)
+    .set({ status: "verified", expiresAt, verifiedBy: adminId, verifiedAt: reviewedAt, rejectionReason: null, updatedAt: reviewedAt })
+    .where(and(eq(providerDocuments.id, documentId), eq(providerDocuments.status, "pending")))
+    .returning();
+  if (!approved) {
+    throw new KycError("This document was reviewed in the meantime", 409);
+  }
+
+  await logAudit({
+    userId: adminId,
+    action: AUDIT_ACTIONS.PROVIDER_DOCUMENT_APPROVE,
+    resourceType: "provider_document",
+    resourceId: documentId,
+    changes: { providerId: document.providerId, type: document.type, expiresAt },
+  });
+
+  const { verified } = await recomputeProviderVerification(document.providerId, adminId);
+
+  const [provider] = await db.select({ userId: providers.userId }).from(providers).where(eq(providers.id, document.providerId));
+  if (provider) {
+    await notifySafely(provider.userId, {
+      eventType: "provider_document_approved",
+      title: "Document approved",
+      message: verified
+        ? "Your document was approved. Your provider account is verified."
+        : "Your document was approved.",
+      data: { documentId, type: document.type, verified },
+    });
+  }
+
+  return approved;
+}
+
+export async function rejectProviderDocument(documentId: string, adminId: string, reason: string): Promise<ProviderDocument> {
+  const document = await loadPendingDocument(documentId);
+
+  // verifiedBy records the reviewer of rejected documents too
+  const [rejected] = await db
+    .update(providerDocuments)
+    .set({ status: "rejected", verifiedBy: adminId, rejectionReason: reason, updatedAt: new Date() })
+    .where(and(eq(providerDocuments.id, documentId), eq(providerDocuments.status, "pending")))
+    .returning();
+  if (!rejected) {
+    throw new KycError("This document was reviewed in the meantime", 409);
+  }
+
+  await logAudit({
+    userId: adminId,
+    action: AUDIT_ACTIONS.PROVIDER_DOCUMENT_REJECT,
+    resourceType: "provider_document",
+    resourceId: documentId,
+    changes: { providerId: document.providerId, type: document.type, reason },
+  });
+
+  const [provider] = await db.select({ userId: providers.userId }).from(providers).where(eq(providers.id, document.providerId));
+  if (provider) {
+    await notifySafely(provider.userId, {
+      eventType: "provider_document_rejected",
+      title: "Document rejected",
+      message: reason,
+      data: { documentId, type: document.type, reason },
+    });
+  }
+
+  return rejected;
+}
@@ -0,0 +1,126 @@
+import { hmacSha256, signaturesMatch } from "./signing";
+import {
+  PspSignatureError,
+  type PspAdapter,
+  type PspCallbackRequest,
+  type PspCallbackResult,
+  type PspPaymentRequest,
+  type PspPaymentResult,
+  type PspRefundResult,
+  type PspStatusResult,
+} from "./types";
+
+/**
+ * CMI adapter - Centre Monétique Interbancaire card gateway
+ * Configured through the generic PSP_* variables
+ */
+
+const PSP_MERCHANT_ID = process.env.PSP_MERCHANT_ID || "test_merchant";
+const PSP_SECRET_KEY = process.env.PSP_SECRET_KEY || "test_secret_key";
+const PSP_API_URL = process.env.PSP_API_URL || "https://test.payment.example";
+
+async function cmiRequest(path: string, payload: Record<string, any>, dataToSign: string) {
+  const response = await fetch(`${PSP_API_URL}${path}`, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      "X-Signature": hmacSha256(dataToSign, PSP_SECRET_KEY),
+    },
+    body: JSON.stringify(payload),
+  });
+
+  if (!response.ok) {
+    throw new Error(`CMI API error: ${response.statusText}`);
+  }
+
+  return response.json();
+}
+
+// Verify a CMI callback: HMAC over the JSON callback data
+export function verifyCallbackSignature(
+  callbackData: Record<string, any>,
+  signature: string
+): boolean {
+  try {
+    return signaturesMatch(hmacSha256(JSON.stringify(callbackData), PSP_SECRET_KEY), signature);
+  } catch (error) {
+    // Return false on any errors instead of crashing the callback handler
+    console.error('Signature verification error:', error);
+    return false;
+  }
+}
+
+export const cmiAdapter: PspAdapter = {
+  name: "CMI",
+
+  async initiatePayment(request: PspPaymentRequest): Promise<PspPaymentResult> {
+    const payload = {
+      merchantId: PSP_MERCHANT_ID,
+      amount: (request.amountMAD * 100).toString(), // Convert to cents
+      currency: "504", // MAD currency code
+      orderId: request.transactionId,
+      callbackUrl: request.callbackUrl,
+    };
+
+    const result = await cmiRequest(
+      "/init",
+      payload,
+      `${payload.merchantId}|${payload.amount}|${payload.currency}|${payload.orderId}`
+    );
+
+    return {
+      pspTransactionId: result.transactionId,
+      status: "processing",
+      paymentUrl: result.paymentUrl,
+      raw: result,
+    };
+  },
+
+  getCallbackTransactionId(body: Record<string, any>): string | null {
+    return typeof body.transactionId === "string" ? body.transactionId : null;
+  },
+
+  verifyCallback(request: PspCallbackRequest): PspCallbackResult {
+    // The signature travels alongside the fields it signs
+    const { body } = request;
+    const { signature, ...signedData } = body;
+    if (!verifyCallbackSignature(signedData, signature)) {
+      throw new PspSignatureError("CMI");
+    }
+
+    return {
+      transactionId: body.transactionId,
+      pspTransactionId: body.pspTransactionId,
+      status: body.status === "completed" ? "completed" : "failed",
+      raw: body,
+    };
+  },
+
+  async refund(pspTransactionId: string, amountMAD: number, reason: string): Promise<PspRefundResult> {
+    const amount = (amountMAD * 100).toString();
+    const result = await cmiRequest(
+      "/refund",
+      { merchantId: PSP_MERCHANT_ID, transactionId: pspTransactionId, amount, reason },
+      `${PSP_MERCHANT_ID}|${pspTransactionId}|${amount}`
+    );
+
+    return {
+      refundId: result.refundId,
+      status: result.status === "completed" ? "completed" : result.status === "failed" ? "failed" : "pending",
+      raw: result,
+    };
+  },
+
+  async getPaymentStatus(pspTransactionId: string): Promise<PspStatusResult> {
+    const result = await cmiRequest(
+      "/status",
+      { merchantId: PSP_MERCHANT_ID, transactionId: pspTransactionId },
+      `${PSP_MERCHANT_ID}|${pspTransactionId}`
+    );
+
+    return {
+      status: result.status || "pending",
+      raw: result,
+    };
+  },
+};
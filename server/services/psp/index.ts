@@ -0,0 +1,71 @@
+import { cmiAdapter } from "./cmi";
+import { payzoneAdapter } from "./payzone";
+import { mtcAdapter } from "./mtc";
+import { PspSignatureError, type PspAdapter, type PspCallbackRequest, type PSPProvider } from "./types";
+
+export * from "./types";
+
+// Test mode: payments complete instantly and callbacks are trusted (development only)
+const testAdapter: PspAdapter = {
+  name: "test",
+
+  async initiatePayment() {
+    return {
+      pspTransactionId: `test_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      status: "completed",
+    };
+  },
+
+  getCallbackTransactionId(body) {
+    return typeof body.transactionId === "string" ? body.transactionId : null;
+  },
+
+  verifyCallback({ body }: PspCallbackRequest) {
+    // Unsigned test callbacks are only trusted while the whole app runs in test mode
+    if ((process.env.PSP_PROVIDER || "test") !== "test") {
+      throw new PspSignatureError("test");
+    }
+
+    return {
+      transactionId: body.transactionId,
+      pspTransactionId: body.pspTransactionId,
+      status: body.status === "completed" ? "completed" : "failed",
+      raw: body,
+    };
+  },
+
+  async refund(pspTransactionId) {
+    return { refundId: `test_refund_${pspTransactionId}`, status: "completed" };
+  },
+
+  async getPaymentStatus() {
+    return { status: "completed" };
+  },
+};
+
+const PSP_ADAPTERS: Record<PSPProvider, PspAdapter> = {
+  CMI: cmiAdapter,
+  PayZone: payzoneAdapter,
+  MTC: mtcAdapter,
+  test: testAdapter,
+};
+
+export function getPspAdapter(provider: string | null | undefined): PspAdapter {
+  const adapter = provider ? PSP_ADAPTERS[provider as PSPProvider] : undefined;
+  if (!adapter) {
+    throw new Error(`Unsupported PSP provider: ${provider}`);
+  }
+  return adapter;
+}
+
+// Find our transaction id in a callback payload, whichever PSP sent it
+export function findCallbackTransactionId(body: Record<string, any>): string | null {
+  // Provider-specific formats first; the generic transactionId field is shared by CMI and test
+  for (const adapter of [payzoneAdapter, mtcAdapter, cmiAdapter]) {
+    const transactionId = adapter.getCallbackTransactionId(body);
+    if (transactionId) {
+      return transactionId;
+    }
+  }
+  return null;
+}
@@ -0,0 +1,135 @@
+import { hmacSha256, signaturesMatch, LOCAL_BASE_URL } from "./signing";
+import {
+  PspSignatureError,
+  type PspAdapter,
+  type PspCallbackRequest,
+  type PspCallbackResult,
+  type PspPaymentRequest,
+  type PspPaymentResult,
+  type PspRefundResult,
+  type PspStatusResult,
+} from "./types";
+
+/**
+ * MTC Touch adapter - mobile wallet payment requests
+ * Every message carries a `signature` field: HMAC-SHA256 over its pipe-joined fields.
+ * Amounts are decimal MAD strings. Without MTC_API_URL the local simulator is used.
+ */
+
+export const MTC_MERCHANT_CODE = process.env.MTC_MERCHANT_CODE || "test_merchant";
+export const MTC_SECRET_KEY = process.env.MTC_SECRET_KEY || "mtc_test_secret";
+const MTC_API_URL = process.env.MTC_API_URL || `${LOCAL_BASE_URL}/psp-simulator/mtc`;
+
+const MTC_STATUS: Record<string, PspStatusResult["status"]> = {
+  PENDING: "processing",
+  SUCCESS: "completed",
+  FAILED: "failed",
+  EXPIRED: "failed",
+  REFUNDED: "refunded",
+};
+
+export function formatMtcAmount(amountMAD: number): string {
+  return amountMAD.toFixed(2);
+}
+
+export function signMtcFields(fields: Array<string | number | undefined>): string {
+  return hmacSha256(fields.map((field) => field ?? "").join("|"), MTC_SECRET_KEY);
+}
+
+// Field order signed in MTC notifications
+export function signMtcNotification(body: Record<string, any>): string {
+  return signMtcFields([body.merchantCode, body.reference, body.transactionRef, body.status, body.amount]);
+}
+
+async function mtcRequest(method: "GET" | "POST", path: string, payload?: Record<string, any>) {
+  const response = await fetch(`${MTC_API_URL}${path}`, {
+    method,
+    headers: { "Content-Type": "application/json" },
+    body: payload ? JSON.stringify(payload) : undefined,
+  });
+
+  if (!response.ok) {
+    throw new Error(`MTC API error: ${response.status} ${response.statusText}`);
+  }
+
+  return response.json();
+}
+
+export const mtcAdapter: PspAdapter = {
+  name: "MTC",
+
+  async initiatePayment(request: PspPaymentRequest): Promise<PspPaymentResult> {
+    const amount = formatMtcAmount(request.amountMAD);
+
+    const result = await mtcRequest("POST", "/api/merchant/payment-requests", {
+      merchantCode: MTC_MERCHANT_CODE,
+      reference: request.transactionId,
+      amount,
+      currency: "MAD",
+      label: request.description,
+      msisdn: request.customer?.phone,
+      notifyUrl: request.callbackUrl,
+      returnUrl: request.returnUrl,
+      signature: signMtcFields([MTC_MERCHANT_CODE, request.transactionId, amount]),
+    });
+
+    return {
+      pspTransactionId: result.transactionRef,
+      status: "processing",
+      paymentUrl: result.redirectUrl,
+      raw: result,
+    };
+  },
+
+  getCallbackTransactionId(body: Record<string, any>): string | null {
+    return typeof body.transactionRef === "string" && typeof body.reference === "string" ? body.reference : null;
+  },
+
+  verifyCallback(request: PspCallbackRequest): PspCallbackResult {
+    const { body } = request;
+    if (body.merchantCode !== MTC_MERCHANT_CODE || !signaturesMatch(signMtcNotification(body), body.signature)) {
+      throw new PspSignatureError("MTC");
+    }
+
+    const status = MTC_STATUS[body.status] || "failed";
+
+    return {
+      transactionId: body.reference,
+      pspTransactionId: body.transactionRef,
+      status: status === "refunded" || status === "pending" ? "failed" : status,
+      amountMAD: body.amount !== undefined ? parseFloat(body.amount) : undefined,
+      raw: body,
+    };
+  },
+
+  async refund(pspTransactionId: string, amountMAD: number, reason: string): Promise<PspRefundResult> {
+    const amount = formatMtcAmount(amountMAD);
+
+    const result = await mtcRequest("POST", "/api/merchant/refunds", {
+      merchantCode: MTC_MERCHANT_CODE,
+      transactionRef: pspTransactionId,
+      amount,
+      reason,
+      signature: signMtcFields([MTC_MERCHANT_CODE, pspTransactionId, amount]),
+    });
+
+    return {
+      refundId: result.refundRef,
+      status: result.status === "SUCCESS" ? "completed" : result.status === "FAILED" ? "failed" : "pending",
+      raw: result,
+    };
+  },
+
+  async getPaymentStatus(pspTransactionId: string): Promise<PspStatusResult> {
+    const signature = signMtcFields([MTC_MERCHANT_CODE, pspTransactionId]);
+    const result = await mtcRequest(
+      "GET",
+      `/api/merchant/payment-requests/${pspTransactionId}?merchantCode=${encodeURIComponent(MTC_MERCHANT_CODE)}&signature=${signature}`
+    );
+
+    return {
+      status: MTC_STATUS[result.status] || "pending",
+      raw: result,
+    };
+  },
+};
@@ -0,0 +1,125 @@
+import { hmacSha256, signaturesMatch, headerValue, LOCAL_BASE_URL } from "./signing";
+import {
+  PspSignatureError,
+  type PspAdapter,
+  type PspCallbackRequest,
+  type PspCallbackResult,
+  type PspPaymentRequest,
+  type PspPaymentResult,
+  type PspRefundResult,
+  type PspStatusResult,
+} from "./types";
+
+/**
+ * PayZone adapter - hosted card checkout
+ * Requests and callbacks are JSON, signed with HMAC-SHA256 of the raw body in X-Payzone-Signature.
+ * Amounts are in centimes. Without PAYZONE_API_URL the local simulator is used.
+ */
+
+export const PAYZONE_MERCHANT_ACCOUNT = process.env.PAYZONE_MERCHANT_ACCOUNT || "test_merchant";
+export const PAYZONE_SECRET_KEY = process.env.PAYZONE_SECRET_KEY || "payzone_test_secret";
+const PAYZONE_API_URL = process.env.PAYZONE_API_URL || `${LOCAL_BASE_URL}/psp-simulator/payzone`;
+
+export const PAYZONE_SIGNATURE_HEADER = "X-Payzone-Signature";
+
+// PayZone payment states and what they mean for our transactions
+const PAYZONE_STATUS: Record<string, PspStatusResult["status"]> = {
+  PENDING: "processing",
+  CHARGED: "completed",
+  DECLINED: "failed",
+  CANCELLED: "failed",
+  REFUNDED: "refunded",
+};
+
+export function signPayzoneBody(body: string | Buffer): string {
+  return hmacSha256(body, PAYZONE_SECRET_KEY);
+}
+
+async function payzoneRequest(method: "GET" | "POST", path: string, payload?: Record<string, any>) {
+  const body = payload ? JSON.stringify(payload) : "";
+
+  const response = await fetch(`${PAYZONE_API_URL}${path}`, {
+    method,
+    headers: {
+      "Content-Type": "application/json",
+      [PAYZONE_SIGNATURE_HEADER]: signPayzoneBody(body),
+    },
+    body: payload ? body : undefined,
+  });
+
+  if (!response.ok) {
+    throw new Error(`PayZone API error: ${response.status} ${response.statusText}`);
+  }
+
+  return response.json();
+}
+
+export const payzoneAdapter: PspAdapter = {
+  name: "PayZone",
+
+  async initiatePayment(request: PspPaymentRequest): Promise<PspPaymentResult> {
+    const result = await payzoneRequest("POST", "/v1/payments", {
+      merchantAccount: PAYZONE_MERCHANT_ACCOUNT,
+      orderId: request.transactionId,
+      amount: Math.round(request.amountMAD * 100),
+      currency: "MAD",
+      description: request.description,
+      customerEmail: request.customer?.email,
+      callbackUrl: request.callbackUrl,
+      successUrl: request.returnUrl,
+      failureUrl: request.returnUrl,
+    });
+
+    return {
+      pspTransactionId: result.paymentId,
+      status: "processing",
+      paymentUrl: result.paymentUrl,
+      raw: result,
+    };
+  },
+
+  getCallbackTransactionId(body: Record<string, any>): string | null {
+    return typeof body.paymentId === "string" && typeof body.orderId === "string" ? body.orderId : null;
+  },
+
+  verifyCallback(request: PspCallbackRequest): PspCallbackResult {
+    const signature = headerValue(request.headers, PAYZONE_SIGNATURE_HEADER);
+    const signedBody = request.rawBody ?? JSON.stringify(request.body);
+    if (!signaturesMatch(signPayzoneBody(signedBody), signature)) {
+      throw new PspSignatureError("PayZone");
+    }
+
+    const status = PAYZONE_STATUS[request.body.status] || "failed";
+
+    return {
+      transactionId: request.body.orderId,
+      pspTransactionId: request.body.paymentId,
+      status: status === "refunded" || status === "pending" ? "failed" : status,
+      amountMAD: typeof request.body.amount === "number" ? request.body.amount / 100 : undefined,
+      raw: request.body,
+    };
+  },
+
+  async refund(pspTransactionId: string, amountMAD: number, reason: string): Promise<PspRefundResult> {
+    const result = await payzoneRequest("POST", `/v1/payments/${pspTransactionId}/refunds`, {
+      merchantAccount: PAYZONE_MERCHANT_ACCOUNT,
+      amount: Math.round(amountMAD * 100),
+      reason,
+    });
+
+    return {
+      refundId: result.refundId,
+      status: result.status === "REFUNDED" ? "completed" : result.status === "FAILED" ? "failed" : "pending",
+      raw: result,
+    };
+  },
+
+  async getPaymentStatus(pspTransactionId: string): Promise<PspStatusResult> {
+    const result = await payzoneRequest("GET", `/v1/payments/${pspTransactionId}`);
+
+    return {
+      status: PAYZONE_STATUS[result.status] || "pending",
+      raw: result,
+    };
+  },
+};
@@ -0,0 +1,36 @@
+import crypto from "crypto";
+
+// Shared signing helpers for PSP adapters and their simulators
+
+// Base URL of this server, used to reach the local PSP simulators
+export const LOCAL_BASE_URL = process.env.APP_BASE_URL || `http://localhost:${process.env.PORT || 5000}`;
+
+export function hmacSha256(data: string | Buffer, secretKey: string): string {
+  return crypto
+    .createHmac("sha256", secretKey)
+    .update(data)
+    .digest("hex");
+}
+
+// Constant-time comparison that tolerates missing or differently sized signatures
+export function signaturesMatch(expected: string, received: unknown): boolean {
+  if (typeof received !== "string") {
+    return false;
+  }
+
+  const expectedBuffer = Buffer.from(expected);
+  const receivedBuffer = Buffer.from(received);
+  if (expectedBuffer.length !== receivedBuffer.length) {
+    return false;
+  }
+
+  return crypto.timingSafeEqual(expectedBuffer, receivedBuffer);
+}
+
+export function headerValue(
+  headers: Record<string, string | string[] | undefined>,
+  name: string
+): string | undefined {
+  const value = headers[name.toLowerCase()];
+  return Array.isArray(value) ? value[0] : value;
+}
@@ -0,0 +1,292 @@
+import { randomUUID } from "crypto";
+import { Router, type Express, type Request, type Response, type NextFunction } from "express";
+import { signaturesMatch, headerValue, LOCAL_BASE_URL } from "./signing";
+import { log } from "../../vite";
+import {
+  PAYZONE_MERCHANT_ACCOUNT,
+  PAYZONE_SIGNATURE_HEADER,
+  signPayzoneBody,
+} from "./payzone";
+import {
+  MTC_MERCHANT_CODE,
+  formatMtcAmount,
+  signMtcFields,
+  signMtcNotification,
+} from "./mtc";
+
+/**
+ * Local PSP simulators - offline stand-ins for the PayZone and MTC Touch APIs
+ * Mounted under /psp-simulator when PSP_SIMULATOR=true or in development.
+ * Each one verifies request signatures, serves an approve/decline checkout page
+ * and sends signed callbacks exactly like the real gateway would.
+ */
+
+const SIMULATOR_BASE_URL = `${LOCAL_BASE_URL}/psp-simulator`;
+
+interface SimulatedPayment {
+  id: string;
+  reference: string;
+  amountMAD: number;
+  refundedMAD: number;
+  status: string;
+  callbackUrl: string;
+  successUrl?: string;
+  failureUrl?: string;
+}
+
+const payzonePayments = new Map<string, SimulatedPayment>();
+const mtcPayments = new Map<string, SimulatedPayment>();
+
+const handle = (fn: (req: Request, res: Response) => Promise<unknown>) =>
+  (req: Request, res: Response, next: NextFunction) => Promise.resolve(fn(req, res)).catch(next);
+
+function escapeHtml(value: string): string {
+  return value.replace(/[&<>"']/g, (char) => `&#${char.charCodeAt(0)};`);
+}
+
+function checkoutPage(gateway: string, payment: SimulatedPayment, actionBase: string): string {
+  return `<!DOCTYPE html>
+<html>
+<head><meta charset="utf-8"><title>${gateway} simulator</title></head>
+<body style="font-family: sans-serif; max-width: 420px; margin: 60px auto;">
+  <h2>${gateway} checkout (simulator)</h2>
+  <p>Reference: <code>${escapeHtml(payment.reference)}</code></p>
+  <p>Amount: <strong>${payment.amountMAD} MAD</strong></p>
+  <p>Status: ${escapeHtml(payment.status)}</p>
+  <form method="post" action="${actionBase}/approve" style="display: inline;">
+    <button type="submit">Approve payment</button>
+  </form>
+  <form method="post" action="${actionBase}/decline" style="display: inline;">
+    <button type="submit">Decline payment</button>
+  </form>
+</body>
+</html>`;
+}
+
+async function sendCallback(url: string, body: string, headers: Record<string, string> = {}) {
+  try {
+    const response = await fetch(url, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", ...headers },
+      body,
+    });
+    if (!response.ok) {
+      console.error(`PSP simulator callback rejected (${response.status}):`, await response.text());
+    }
+  } catch (error) {
+    console.error("PSP simulator callback failed:", error);
+  }
+}
+
+// PayZone: JSON API signed with X-Payzone-Signature over the raw body, amounts in centimes
+function payzoneSimulator(): Router {
+  const router = Router();
+
+  router.use((req, res, next) => {
+    if (req.path.startsWith("/checkout")) {
+      return next();
+    }
+    const rawBody = req.rawBody instanceof Buffer ? req.rawBody : "";
+    if (!signaturesMatch(signPayzoneBody(rawBody), headerValue(req.headers, PAYZONE_SIGNATURE_HEADER))) {
+      return res.status(401).json({ error: "INVALID_SIGNATURE" });
+    }
+    next();
+  });
+
+  router.post("/v1/payments", (req, res) => {
+    const { merchantAccount, orderId, amount, callbackUrl, successUrl, failureUrl } = req.body;
+    if (merchantAccount !== PAYZONE_MERCHANT_ACCOUNT) {
+      return res.status(403).json({ error: "UNKNOWN_MERCHANT" });
+    }
+    if (typeof orderId !== "string" || !Number.isInteger(amount) || amount <= 0 || typeof callbackUrl !== "string") {
+      return res.status(422).json({ error: "INVALID_REQUEST" });
+    }
+
+    const payment: SimulatedPayment = {
+      id: `pz_${randomUUID()}`,
+      reference: orderId,
+      amountMAD: amount / 100,
+      refundedMAD: 0,
+      status: "PENDING",
+      callbackUrl,
+      successUrl,
+      failureUrl,
+    };
+    payzonePayments.set(payment.id, payment);
+
+    res.status(201).json({
+      paymentId: payment.id,
+      paymentUrl: `${SIMULATOR_BASE_URL}/payzone/checkout/${payment.id}`,
+    });
+  });
+
+  router.get("/v1/payments/:paymentId", (req, res) => {
+    const payment = payzonePayments.get(req.params.paymentId);
+    if (!payment) {
+      return res.status(404).json({ error: "PAYMENT_NOT_FOUND" });
+    }
+    res.json({
+      paymentId: payment.id,
+      orderId: payment.reference,
+      status: payment.status,
+      amount: Math.round(payment.amountMAD * 100),
+    });
+  });
+
+  router.post("/v1/payments/:paymentId/refunds", (req, res) => {
+    const payment = payzonePayments.get(req.params.paymentId);
+    if (!payment) {
+      return res.status(404).json({ error: "PAYMENT_NOT_FOUND" });
+    }
+    const amountMAD = req.body.amount / 100;
+    if (payment.status !== "CHARGED" || !(amountMAD > 0) || payment.refundedMAD + amountMAD > payment.amountMAD) {
+      return res.json({ refundId: `pzr_${randomUUID()}`, status: "FAILED" });
+    }
+
+    payment.refundedMAD += amountMAD;
+    if (payment.refundedMAD === payment.amountMAD) {
+      payment.status = "REFUNDED";
+    }
+    res.json({ refundId: `pzr_${randomUUID()}`, status: "REFUNDED" });
+  });
+
+  router.get("/checkout/:paymentId", (req, res) => {
+    const payment = payzonePayments.get(req.params.paymentId);
+    if (!payment) {
+      return res.status(404).send("Unknown payment");
+    }
+    res.type("html").send(checkoutPage("PayZone", payment, `${SIMULATOR_BASE_URL}/payzone/checkout/${payment.id}`));
+  });
+
+  router.post("/checkout/:paymentId/:decision(approve|decline)", handle(async (req, res) => {
+    const payment = payzonePayments.get(req.params.paymentId);
+    if (!payment) {
+      return res.status(404).send("Unknown payment");
+    }
+    if (payment.status === "PENDING") {
+      payment.status = req.params.decision === "approve" ? "CHARGED" : "DECLINED";
+    }
+
+    const body = JSON.stringify({
+      paymentId: payment.id,
+      orderId: payment.reference,
+      status: payment.status,
+      amount: Math.round(payment.amountMAD * 100),
+    });
+    await sendCallback(payment.callbackUrl, body, { [PAYZONE_SIGNATURE_HEADER]: signPayzoneBody(body) });
+
+    const returnUrl = payment.status === "CHARGED" ? payment.successUrl : payment.failureUrl;
+    res.redirect(returnUrl || `${SIMULATOR_BASE_URL}/payzone/checkout/${payment.id}`);
+  }));
+
+  return router;
+}
+
+// MTC Touch: every message carries a signature over its pipe-joined fields, amounts as decimal strings
+function mtcSimulator(): Router {
+  const router = Router();
+
+  router.post("/api/merchant/payment-requests", (req, res) => {
+    const { merchantCode, reference, amount, notifyUrl, returnUrl, signature } = req.body;
+    if (merchantCode !== MTC_MERCHANT_CODE || !signaturesMatch(signMtcFields([merchantCode, reference, amount]), signature)) {
+      return res.status(401).json({ code: "AUTH_FAILED" });
+    }
+    const amountMAD = parseFloat(amount);
+    if (typeof reference !== "string" || !(amountMAD > 0) || typeof notifyUrl !== "string") {
+      return res.status(400).json({ code: "INVALID_REQUEST" });
+    }
+
+    const payment: SimulatedPayment = {
+      id: `MTC${Date.now()}${Math.floor(Math.random() * 1000).toString().padStart(3, "0")}`,
+      reference,
+      amountMAD,
+      refundedMAD: 0,
+      status: "PENDING",
+      callbackUrl: notifyUrl,
+      successUrl: returnUrl,
+      failureUrl: returnUrl,
+    };
+    mtcPayments.set(payment.id, payment);
+
+    res.json({
+      transactionRef: payment.id,
+      redirectUrl: `${SIMULATOR_BASE_URL}/mtc/checkout/${payment.id}`,
+    });
+  });
+
+  router.get("/api/merchant/payment-requests/:transactionRef", (req, res) => {
+    const { merchantCode, signature } = req.query;
+    if (merchantCode !== MTC_MERCHANT_CODE || !signaturesMatch(signMtcFields([merchantCode, req.params.transactionRef]), signature)) {
+      return res.status(401).json({ code: "AUTH_FAILED" });
+    }
+    const payment = mtcPayments.get(req.params.transactionRef);
+    if (!payment) {
+      return res.status(404).json({ code: "NOT_FOUND" });
+    }
+    res.json({
+      transactionRef: payment.id,
+      reference: payment.reference,
+      status: payment.status,
+      amount: formatMtcAmount(payment.amountMAD),
+    });
+  });
+
+  router.post("/api/merchant/refunds", (req, res) => {
+    const { merchantCode, transactionRef, amount, signature } = req.body;
+    if (merchantCode !== MTC_MERCHANT_CODE || !signaturesMatch(signMtcFields([merchantCode, transactionRef, amount]), signature)) {
+      return res.status(401).json({ code: "AUTH_FAILED" });
+    }
+    const payment = mtcPayments.get(transactionRef);
+    if (!payment) {
+      return res.status(404).json({ code: "NOT_FOUND" });
+    }
+    const amountMAD = parseFloat(amount);
+    if (payment.status !== "SUCCESS" || !(amountMAD > 0) || payment.refundedMAD + amountMAD > payment.amountMAD) {
+      return res.json({ refundRef: `MTCR${Date.now()}`, status: "FAILED" });
+    }
+
+    payment.refundedMAD += amountMAD;
+    if (payment.refundedMAD === payment.amountMAD) {
+      payment.status = "REFUNDED";
+    }
+    res.json({ refundRef: `MTCR${Date.now()}`, status: "SUCCESS" });
+  });
+
+  router.get("/checkout/:transactionRef", (req, res) => {
+    const payment = mtcPayments.get(req.params.transactionRef);
+    if (!payment) {
+      return res.status(404).send("Unknown payment");
+    }
+    res.type("html").send(checkoutPage("MTC Touch", payment, `${SIMULATOR_BASE_URL}/mtc/checkout/${payment.id}`));
+  });
+
+  router.post("/checkout/:transactionRef/:decision(approve|decline)", handle(async (req, res) => {
+    const payment = mtcPayments.get(req.params.transactionRef);
+    if (!payment) {
+      return res.status(404).send("Unknown payment");
+    }
+    if (payment.status === "PENDING") {
+      payment.status = req.params.decision === "approve" ? "SUCCESS" : "FAILED";
+    }
+
+    const notification: Record<string, string> = {
+      merchantCode: MTC_MERCHANT_CODE,
+      reference: payment.reference,
+      transactionRef: payment.id,
+      status: payment.status,
+      amount: formatMtcAmount(payment.amountMAD),
+    };
+    notification.signature = signMtcNotification(notification);
+    await sendCallback(payment.callbackUrl, JSON.stringify(notification));
+
+    res.redirect(payment.successUrl || `${SIMULATOR_BASE_URL}/mtc/checkout/${payment.id}`);
+  }));
+
+  return router;
+}
+
+export function registerPspSimulator(app: Express): void {
+  app.use("/psp-simulator/payzone", payzoneSimulator());
+  app.use("/psp-simulator/mtc", mtcSimulator());
+  log(`PSP simulators available at ${SIMULATOR_BASE_URL}/{payzone,mtc}`, "psp");
+}
@@ -0,0 +1,69 @@
+/**
+ * Payment Service Provider adapter contract
+ * Each Moroccan PSP (CMI, PayZone, MTC Touch) implements the same four operations
+ */
+
+export type PSPProvider = "CMI" | "PayZone" | "MTC" | "test";
+
+export interface PspPaymentRequest {
+  transactionId: string; // Our transaction id, used as the merchant reference
+  amountMAD: number;
+  description: string;
+  callbackUrl: string;
+  returnUrl: string;
+  customer?: {
+    email?: string;
+    phone?: string; // MSISDN for wallet payments
+  };
+}
+
+export interface PspPaymentResult {
+  pspTransactionId: string;
+  status: "processing" | "completed" | "failed";
+  paymentUrl?: string; // For redirect-based payments
+  raw?: Record<string, any>;
+}
+
+export interface PspCallbackRequest {
+  headers: Record<string, string | string[] | undefined>;
+  body: Record<string, any>;
+  rawBody?: Buffer;
+}
+
+export interface PspCallbackResult {
+  transactionId: string;
+  pspTransactionId: string;
+  status: "processing" | "completed" | "failed";
+  amountMAD?: number;
+  raw: Record<string, any>;
+}
+
+export interface PspRefundResult {
+  refundId: string;
+  status: "pending" | "completed" | "failed";
+  raw?: Record<string, any>;
+}
+
+export interface PspStatusResult {
+  status: "pending" | "processing" | "completed" | "failed" | "refunded";
+  raw?: Record<string, any>;
+}
+
+export interface PspAdapter {
+  readonly name: PSPProvider;
+  initiatePayment(request: PspPaymentRequest): Promise<PspPaymentResult>;
+  // Our transaction id from a callback payload, or null if the payload isn't in this PSP's format
+  getCallbackTransactionId(body: Record<string, any>): string | null;
+  // Throws PspSignatureError when the callback isn't signed by the PSP
+  verifyCallback(request: PspCallbackRequest): PspCallbackResult;
+  refund(pspTransactionId: string, amountMAD: number, reason: string): Promise<PspRefundResult>;
+  getPaymentStatus(pspTransactionId: string): Promise<PspStatusResult>;
+}
+
+export class PspSignatureError extends Error {
+  constructor(provider: PSPProvider) {
+    super(`Invalid ${provider} callback signature`);
+    this.name = "PspSignatureError";
+    Object.setPrototypeOf(this, PspSignatureError.prototype);
+  }
+}
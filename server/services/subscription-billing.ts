@@ -0,0 +1,251 @@
+import { db } from "../db";
+import {
+  providerSubscriptions,
+  SUBSCRIPTION_TIERS,
+  type ProviderSubscription,
+  type Transaction,
+} from "../../shared/schema";
+import { eq, ne } from "drizzle-orm";
+import { storage } from "../storage";
+import { logAudit, AUDIT_ACTIONS } from "../audit";
+import {
+  getOrCreateSubscription,
+  lapseSubscription,
+  quoteSubscriptionChange,
+  quoteSubscriptionRenewal,
+  refreshSubscriptionCycle,
+  storeSubscriptionQuote,
+  upgradeSubscription,
+  type StoredSubscriptionQuote,
+  type SubscriptionQuote,
+} from "./commission";
+import { notifyUser } from "./notifications";
+import { initiatePayment, type PaymentResponse } from "./payment";
+
+/**
+ * Subscription Billing - Monthly cycle engine for provider subscriptions
+ * Charges purchases and prorated mid-cycle tier changes, renews auto-renewing subscriptions
+ * through the PSP when their cycle ends, lapses unpaid ones to free and resets the monthly
+ * offer counters (cycle rules and proration in commission.ts).
+ */
+
+const APP_BASE_URL = process.env.APP_BASE_URL || "http://localhost:5000";
+
+export class SubscriptionError extends Error {
+  constructor(message: string, public readonly statusCode: number) {
+    super(message);
+    this.name = "SubscriptionError";
+    Object.setPrototypeOf(this, SubscriptionError.prototype);
+  }
+}
+
+interface SubscriptionPaymentMetadata {
+  tier?: "basic" | "pro";
+  renewal?: boolean;
+  quote?: StoredSubscriptionQuote;
+}
+
+export interface SubscriptionChangeResult {
+  quote: SubscriptionQuote;
+  subscription: ProviderSubscription;
+  payment?: PaymentResponse; // Absent when the change needed no charge
+}
+
+export async function getSubscriptionQuote(providerId: string, tier: "basic" | "pro"): Promise<SubscriptionQuote> {
+  const subscription = await refreshSubscriptionCycle(await getOrCreateSubscription(providerId));
+  return quoteSubscriptionChange(subscription, tier);
+}
+
+// Buy a tier or switch tiers mid-cycle: upgrades pay the prorated difference, downgrades
+// apply at once and credit the unused difference to the next charge
+export async function purchaseSubscription(
+  providerId: string,
+  tier: "basic" | "pro"
+): Promise<SubscriptionChangeResult> {
+  const subscription = await refreshSubscriptionCycle(await getOrCreateSubscription(providerId));
+  const quote = quoteSubscriptionChange(subscription, tier);
+
+  if (quote.kind === "unchanged") {
+    throw new SubscriptionError(`Already subscribed to ${SUBSCRIPTION_TIERS[tier].name}`, 409);
+  }
+  if (subscription.renewalTransactionId) {
+    throw new SubscriptionError("A renewal payment is in progress", 409);
+  }
+
+  if (quote.chargeMad === 0) {
+    await upgradeSubscription(providerId, tier, undefined, { quote: storeSubscriptionQuote(subscription, quote) });
+    return { quote, subscription: await getOrCreateSubscription(providerId) };
+  }
+
+  // Applied by upgradeSubscription, against this quote, once the payment completes
+  const payment = await initiatePayment({
+    amountMAD: quote.chargeMad,
+    providerId,
+    type: "subscription_payment",
+    metadata: { tier, kind: quote.kind, quote: storeSubscriptionQuote(subscription, quote) },
+    description: `Trip2work ${SUBSCRIPTION_TIERS[tier].name} subscription${quote.kind === "upgrade" ? " upgrade" : ""}`,
+  });
+
+  return { quote, payment, subscription: await getOrCreateSubscription(providerId) };
+}
+
+export async function setSubscriptionAutoRenew(
+  providerId: string,
+  autoRenew: boolean,
+  userId?: string
+): Promise<ProviderSubscription> {
+  const subscription = await getOrCreateSubscription(providerId);
+  if (autoRenew && subscription.tier === "free") {
+    throw new SubscriptionError("The free plan has nothing to renew", 400);
+  }
+
+  const [updated] = await db
+    .update(providerSubscriptions)
+    .set({ autoRenew, updatedAt: new Date() })
+    .where(eq(providerSubscriptions.id, subscription.id))
+    .returning();
+
+  await logAudit({
+    userId,
+    action: AUDIT_ACTIONS.SUBSCRIPTION_AUTO_RENEW_UPDATE,
+    resourceType: "provider_subscription",
+    resourceId: subscription.id,
+    changes: { from: subscription.autoRenew, to: autoRenew },
+  });
+
+  return updated;
+}
+
+// Charge the next cycle of an expired auto-renewing subscription
+async function renewSubscription(subscription: ProviderSubscription): Promise<"renewed" | "pending" | "failed"> {
+  const quote = quoteSubscriptionRenewal(subscription);
+
+  await logAudit({
+    userId: undefined,
+    action: AUDIT_ACTIONS.SUBSCRIPTION_RENEWAL_START,
+    resourceType: "provider_subscription",
+    resourceId: subscription.id,
+    changes: {
+      tier: quote.tier,
+      chargeMad: quote.chargeMad,
+      creditAppliedMad: quote.creditAppliedMad,
+      expiredAt: subscription.subscriptionExpiresAt?.toISOString(),
+    },
+  });
+
+  if (quote.chargeMad === 0) {
+    await upgradeSubscription(subscription.providerId, quote.tier, undefined, {
+      renewal: true,
+      quote: storeSubscriptionQuote(subscription, quote),
+    });
+    return "renewed";
+  }
+
+  const payment = await initiatePayment({
+    amountMAD: quote.chargeMad,
+    providerId: subscription.providerId,
+    type: "subscription_payment",
+    metadata: { tier: quote.tier, kind: "renewal", renewal: true, quote: storeSubscriptionQuote(subscription, quote) },
+    description: `Trip2work ${SUBSCRIPTION_TIERS[quote.tier].name} subscription renewal`,
+    returnUrl: `${APP_BASE_URL}/dashboard`,
+  });
+
+  if (payment.status === "completed") {
+    return "renewed";
+  }
+  if (payment.status === "failed") {
+    return "failed";
+  }
+
+  // Still being collected: remember it so the next run doesn't charge again
+  await db
+    .update(providerSubscriptions)
+    .set({ renewalTransactionId: payment.transactionId, updatedAt: new Date() })
+    .where(eq(providerSubscriptions.id, subscription.id));
+
+  if (payment.paymentUrl) {
+    const provider = await storage.getProvider(subscription.providerId);
+    if (provider) {
+      try {
+        await notifyUser(provider.userId, {
+          eventType: "subscription_renewal",
+          title: "Subscription renewal due",
+          message: `Complete the ${quote.chargeMad} MAD payment to keep your ${SUBSCRIPTION_TIERS[quote.tier].name} subscription.`,
+          data: { providerId: subscription.providerId, tier: quote.tier, amount: quote.chargeMad, paymentUrl: payment.paymentUrl },
+        });
+      } catch (error) {
+        console.error(`Failed to notify provider ${provider.id} of renewal:`, error);
+      }
+    }
+  }
+
+  return "pending";
+}
+
+// A failed renewal charge ends the subscription; failed purchases and upgrades change nothing
+export async function failSubscriptionPayment(transaction: Transaction, reason: string): Promise<void> {
+  const metadata = (transaction.metadata as SubscriptionPaymentMetadata | null) || {};
+  if (!metadata.renewal) {
+    return;
+  }
+
+  const subscription = await getOrCreateSubscription(transaction.providerId);
+
+  await logAudit({
+    userId: undefined,
+    action: AUDIT_ACTIONS.SUBSCRIPTION_RENEWAL_FAIL,
+    resourceType: "provider_subscription",
+    resourceId: subscription.id,
+    changes: { tier: metadata.tier, transactionId: transaction.id, reason },
+  });
+
+  // Only the renewal of the tier still in force, and only once its cycle has ended
+  const expired = !subscription.subscriptionExpiresAt || subscription.subscriptionExpiresAt <= new Date();
+  if (subscription.tier === metadata.tier && expired) {
+    await lapseSubscription(subscription, `Renewal payment failed: ${reason}`);
+  } else if (subscription.renewalTransactionId === transaction.id) {
+    await db
+      .update(providerSubscriptions)
+      .set({ renewalTransactionId: null, updatedAt: new Date() })
+      .where(eq(providerSubscriptions.id, subscription.id));
+  }
+}
+
+// Scheduler entry point: renew, lapse and reset counters for every paid subscription
+export async function runSubscriptionBillingCycle(
+  now: Date = new Date()
+): Promise<{ renewed: number; pending: number; lapsed: number; countersReset: number }> {
+  const paid = await db
+    .select()
+    .from(providerSubscriptions)
+    .where(ne(providerSubscriptions.tier, "free"));
+
+  let renewed = 0;
+  let pending = 0;
+  let lapsed = 0;
+  let countersReset = 0;
+
+  for (const subscription of paid) {
+    try {
+      const expired = !subscription.subscriptionExpiresAt || subscription.subscriptionExpiresAt <= now;
+      if (expired && subscription.autoRenew && !subscription.renewalTransactionId) {
+        const outcome = await renewSubscription(subscription);
+        if (outcome === "renewed") renewed++;
+        if (outcome === "pending") pending++;
+      }
+
+      const current = await getOrCreateSubscription(subscription.providerId);
+      const refreshed = await refreshSubscriptionCycle(current, now);
+
+      if (refreshed.tier === "free") {
+        lapsed++;
+      } else if (refreshed.offerCounterResetAt?.getTime() !== current.offerCounterResetAt?.getTime()) {
+        countersReset++;
+      }
+    } catch (error) {
+      console.error(`Subscription billing failed for provider ${subscription.providerId}:`, error);
+    }
+  }
+
+  return { renewed, pending, lapsed, countersReset };
+}
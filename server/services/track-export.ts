@@ -0,0 +1,89 @@
+import type { Trip, TripRoute } from "../../shared/schema";
+
+/**
+ * Trip route files
+ * GPX 1.1 for GPS tools and mapping apps, GeoJSON for GIS and web maps. Both carry the processed
+ * route with a timestamp per point (GeoJSON in the `coordTimes` property, as GPX converters do).
+ */
+
+export type TripExportFormat = "gpx" | "geojson";
+
+export interface TripExportFile {
+  filename: string;
+  contentType: string;
+  content: string;
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+function renderGpx(trip: Trip, route: TripRoute): string {
+  const name = escapeXml(`Trip2work trip ${trip.id}`);
+  const points = route.points
+    .map((point) => `      <trkpt lat="${point.lat.toFixed(8)}" lon="${point.lng.toFixed(8)}"><time>${point.timestamp}</time></trkpt>`)
+    .join("\n");
+
+  return [
+    `<?xml version="1.0" encoding="UTF-8"?>`,
+    `<gpx version="1.1" creator="Trip2work" xmlns="http://www.topografix.com/GPX/1/1">`,
+    `  <metadata>`,
+    `    <name>${name}</name>`,
+    ...(trip.startedAt ? [`    <time>${trip.startedAt.toISOString()}</time>`] : []),
+    `  </metadata>`,
+    `  <trk>`,
+    `    <name>${name}</name>`,
+    `    <trkseg>`,
+    ...(points ? [points] : []),
+    `    </trkseg>`,
+    `  </trk>`,
+    `</gpx>`,
+    ``,
+  ].join("\n");
+}
+
+function renderGeoJson(trip: Trip, route: TripRoute): string {
+  return JSON.stringify({
+    type: "FeatureCollection",
+    features: [
+      {
+        type: "Feature",
+        geometry: {
+          type: "LineString",
+          coordinates: route.points.map((point) => [point.lng, point.lat]),
+        },
+        properties: {
+          tripId: trip.id,
+          jobId: trip.jobId,
+          status: trip.status,
+          startedAt: trip.startedAt?.toISOString() ?? null,
+          completedAt: trip.completedAt?.toISOString() ?? null,
+          distanceMeters: route.distanceMeters,
+          movingSeconds: route.movingSeconds,
+          idleSeconds: route.idleSeconds,
+          coordTimes: route.points.map((point) => point.timestamp),
+        },
+      },
+    ],
+  }, null, 2);
+}
+
+export function renderTripExport(trip: Trip, route: TripRoute, format: TripExportFormat): TripExportFile {
+  if (format === "gpx") {
+    return {
+      filename: `trip-${trip.id}.gpx`,
+      contentType: "application/gpx+xml; charset=utf-8",
+      content: renderGpx(trip, route),
+    };
+  }
+
+  return {
+    filename: `trip-${trip.id}.geojson`,
+    contentType: "application/geo+json; charset=utf-8",
+    content: renderGeoJson(trip, route),
+  };
+}
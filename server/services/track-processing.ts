@@ -0,0 +1,181 @@
+import type { TripRoutePoint, TripTrack } from "../../shared/schema";
+import { getMapMatchingBackend } from "./map-matchers";
+
+/**
+ * Track Processing - From raw GPS fixes to a clean trip route
+ * Fixes less accurate than TRIP_TRACKING_MAX_ACCURACY_M and fixes implying an impossible speed
+ * (GPS jumps) are dropped, the rest is snapped to roads by the map-matching backend, then measured
+ * (haversine distance, moving vs idle time) and simplified with Douglas-Peucker for storage.
+ */
+
+const MAX_ACCURACY_M = parseInt(process.env.TRIP_TRACKING_MAX_ACCURACY_M || "50", 10);
+const SIMPLIFY_TOLERANCE_M = parseInt(process.env.TRACK_SIMPLIFY_TOLERANCE_M || "10", 10);
+// A segment faster than this is a GPS jump, not driving
+const MAX_PLAUSIBLE_SPEED_KMH = 200;
+// Slower than walking pace counts as standing still
+const IDLE_SPEED_KMH = 3;
+const EARTH_RADIUS_M = 6371000;
+
+export interface ProcessedTrack {
+  points: TripRoutePoint[];
+  distanceMeters: number;
+  movingSeconds: number;
+  idleSeconds: number;
+  rawPointCount: number;
+}
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+
+export function haversineMeters(from: { lat: number; lng: number }, to: { lat: number; lng: number }): number {
+  const dLat = toRadians(to.lat - from.lat);
+  const dLng = toRadians(to.lng - from.lng);
+  const a = Math.sin(dLat / 2) ** 2 + Math.cos(toRadians(from.lat)) * Math.cos(toRadians(to.lat)) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_M * Math.asin(Math.sqrt(a));
+}
+
+function secondsBetween(from: TripRoutePoint, to: TripRoutePoint): number {
+  return (new Date(to.timestamp).getTime() - new Date(from.timestamp).getTime()) / 1000;
+}
+
+// Stored fixes in chronological order, without the inaccurate ones
+export function toRoutePoints(track: TripTrack[]): TripRoutePoint[] {
+  return [...track]
+    .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime())
+    .filter((point) => point.accuracy === null || parseFloat(point.accuracy) <= MAX_ACCURACY_M)
+    .map((point) => ({
+      lat: parseFloat(point.latitude),
+      lng: parseFloat(point.longitude),
+      timestamp: point.timestamp.toISOString(),
+      ...(point.speed !== null && { speed: parseFloat(point.speed) }),
+    }));
+}
+
+function isPlausibleSegment(from: TripRoutePoint, to: TripRoutePoint): boolean {
+  const seconds = secondsBetween(from, to);
+  return seconds > 0 && (haversineMeters(from, to) / seconds) * 3.6 <= MAX_PLAUSIBLE_SPEED_KMH;
+}
+
+// Fixes that follow points[from] at plausible speeds, itself included, counting up to limit
+function agreeingFixes(points: TripRoutePoint[], from: number, limit: number): number {
+  let count = 1;
+  let last = points[from];
+  for (let i = from + 1; i < points.length && count < limit; i++) {
+    if (secondsBetween(last, points[i]) <= 0) continue;
+    if (!isPlausibleSegment(last, points[i])) break;
+    last = points[i];
+    count++;
+  }
+  return count;
+}
+
+// Drop fixes that could only be reached faster than a car drives. The kept fixes always form a
+// plausible chain; on a jump the new fix is the outlier, unless the chain is still shorter than
+// TRUSTED_CHAIN_FIXES and more of the following fixes agree with the new fix than with it (a bad
+// start), in which case the chain is dropped instead. A burst of bad fixes mid-track never
+// outweighs the track before it.
+const TRUSTED_CHAIN_FIXES = 5;
+
+export function dropSpeedOutliers(points: TripRoutePoint[]): TripRoutePoint[] {
+  const kept: TripRoutePoint[] = [];
+  for (let i = 0; i < points.length; i++) {
+    const point = points[i];
+    const previous = kept[kept.length - 1];
+    if (previous && secondsBetween(previous, point) <= 0) continue;
+
+    if (previous && !isPlausibleSegment(previous, point)) {
+      if (kept.length >= TRUSTED_CHAIN_FIXES) continue;
+
+      // The new fix is the outlier when the kept chain reaches the fix after it
+      const next = points[i + 1];
+      if (next === undefined || isPlausibleSegment(previous, next)) continue;
+      if (agreeingFixes(points, i, kept.length + 1) <= kept.length) continue;
+
+      kept.length = 0;
+    }
+    kept.push(point);
+  }
+  return kept;
+}
+
+export function routeDistanceMeters(points: TripRoutePoint[]): number {
+  let distance = 0;
+  for (let i = 1; i < points.length; i++) {
+    distance += haversineMeters(points[i - 1], points[i]);
+  }
+  return Math.round(distance);
+}
+
+// Time spent moving vs standing still, by the average speed of each segment
+export function movingAndIdleSeconds(points: TripRoutePoint[]): { movingSeconds: number; idleSeconds: number } {
+  let movingSeconds = 0;
+  let idleSeconds = 0;
+  for (let i = 1; i < points.length; i++) {
+    const seconds = secondsBetween(points[i - 1], points[i]);
+    if (seconds <= 0) continue;
+    const kmh = (haversineMeters(points[i - 1], points[i]) / seconds) * 3.6;
+    if (kmh < IDLE_SPEED_KMH) {
+      idleSeconds += seconds;
+    } else {
+      movingSeconds += seconds;
+    }
+  }
+  return { movingSeconds: Math.round(movingSeconds), idleSeconds: Math.round(idleSeconds) };
+}
+
+// Distance in meters from a point to the segment [start, end], on a local flat projection
+function distanceToSegmentMeters(point: TripRoutePoint, start: TripRoutePoint, end: TripRoutePoint): number {
+  const metersPerDegree = (EARTH_RADIUS_M * Math.PI) / 180;
+  const cosLat = Math.cos(toRadians(start.lat));
+  const project = (p: TripRoutePoint) => ({ x: (p.lng - start.lng) * cosLat * metersPerDegree, y: (p.lat - start.lat) * metersPerDegree });
+
+  const p = project(point);
+  const e = project(end);
+  const lengthSquared = e.x * e.x + e.y * e.y;
+  const t = lengthSquared === 0 ? 0 : Math.max(0, Math.min(1, (p.x * e.x + p.y * e.y) / lengthSquared));
+  return Math.hypot(p.x - t * e.x, p.y - t * e.y);
+}
+
+// Douglas-Peucker: keep the points that deviate more than `toleranceMeters` from the simplified line
+export function simplifyRoute(points: TripRoutePoint[], toleranceMeters: number = SIMPLIFY_TOLERANCE_M): TripRoutePoint[] {
+  if (points.length <= 2) {
+    return points;
+  }
+
+  const keep = new Array<boolean>(points.length).fill(false);
+  keep[0] = true;
+  keep[points.length - 1] = true;
+
+  // Iterative, so long trips cannot overflow the stack
+  const ranges: [number, number][] = [[0, points.length - 1]];
+  while (ranges.length > 0) {
+    const [first, last] = ranges.pop()!;
+    let farthest = -1;
+    let farthestDistance = 0;
+    for (let i = first + 1; i < last; i++) {
+      const distance = distanceToSegmentMeters(points[i], points[first], points[last]);
+      if (distance > farthestDistance) {
+        farthest = i;
+        farthestDistance = distance;
+      }
+    }
+    if (farthest !== -1 && farthestDistance > toleranceMeters) {
+      keep[farthest] = true;
+      ranges.push([first, farthest], [farthest, last]);
+    }
+  }
+
+  return points.filter((_, index) => keep[index]);
+}
+
+// Full pipeline; distance and times are measured before simplification so they keep every bend
+export async function processTrack(track: TripTrack[]): Promise<ProcessedTrack> {
+  const cleaned = dropSpeedOutliers(toRoutePoints(track));
+  const matched = await getMapMatchingBackend().match(cleaned);
+
+  return {
+    points: simplifyRoute(matched),
+    distanceMeters: routeDistanceMeters(matched),
+    ...movingAndIdleSeconds(matched),
+    rawPointCount: track.length,
+  };
+}
@@ -0,0 +1,75 @@
+import { db } from "../db";
+import { messages, type MessageLanguage, type MessageTranslation } from "../../shared/schema";
+import { eq, sql } from "drizzle-orm";
+import { storage } from "../storage";
+import { assertParticipant, MessagingError } from "./messaging";
+import { localeLanguage } from "./language-detection";
+import { getTranslationBackend } from "./translators";
+
+/**
+ * Translation Service - On-demand translation of conversation messages
+ * Messages are tagged with their language when sent; a reader asks for a translation into
+ * their own language (users.locale unless given). Translations are cached per target
+ * language in messages.meta.translations, and the original body is always returned alongside.
+ */
+
+export interface MessageTranslationResult {
+  messageId: string;
+  original: string;
+  language: MessageLanguage | null;
+  targetLanguage: MessageLanguage;
+  text: string;
+  translated: boolean; // False when the message is already in the target language or undetermined
+  cached: boolean;
+  backend?: string;
+}
+
+export async function translateMessage(
+  messageId: string,
+  userId: string,
+  role?: string,
+  targetLanguage?: MessageLanguage
+): Promise<MessageTranslationResult> {
+  const [message] = await db.select().from(messages).where(eq(messages.id, messageId));
+  if (!message) {
+    throw new MessagingError("Message not found", 404);
+  }
+  await assertParticipant(message.jobId, userId, role);
+
+  const target = targetLanguage || localeLanguage((await storage.getUser(userId))?.locale);
+  const result = {
+    messageId,
+    original: message.body,
+    language: message.language,
+    targetLanguage: target,
+  };
+
+  if (!message.language || message.language === target || !message.body) {
+    return { ...result, text: message.body, translated: false, cached: false };
+  }
+
+  const cached = message.meta?.translations?.[target];
+  if (cached) {
+    return { ...result, text: cached.text, translated: true, cached: true, backend: cached.backend };
+  }
+
+  const backend = getTranslationBackend();
+  const translation: MessageTranslation = {
+    text: await backend.translate(message.body, message.language, target),
+    backend: backend.code,
+    translatedAt: new Date().toISOString(),
+  };
+
+  // Merged in SQL so a concurrent moderation review or other translation isn't overwritten
+  await db
+    .update(messages)
+    .set({
+      meta: sql`coalesce(${messages.meta}, '{}'::jsonb) || jsonb_build_object(
+        'translations',
+        coalesce(${messages.meta}->'translations', '{}'::jsonb) || ${JSON.stringify({ [target]: translation })}::jsonb
+      )`,
+    })
+    .where(eq(messages.id, messageId));
+
+  return { ...result, text: translation.text, translated: true, cached: false, backend: backend.code };
+}
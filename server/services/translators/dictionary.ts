@@ -0,0 +1,101 @@
+import type { MessageLanguage } from "../../../shared/schema";
+import type { TranslationBackend } from "./types";
+
+/**
+ * Dictionary translator - offline stand-in for a machine translation service (development and tests)
+ * Replaces known words and short phrases of everyday booking chat, longest phrase first,
+ * and leaves everything else as written. Arabic entries list the Arabic-script form first
+ * (used as output), then Darija spellings including Latin-letter ones.
+ */
+
+type PhraseEntry = Record<MessageLanguage, string[]>;
+
+const PHRASES: PhraseEntry[] = [
+  { fr: ["bonjour", "salut"], en: ["hello", "hi"], ar: ["السلام عليكم", "سلام", "salam", "slm"] },
+  { fr: ["bonsoir"], en: ["good evening"], ar: ["مساء الخير", "msa lkhir"] },
+  { fr: ["merci", "merci beaucoup"], en: ["thank you", "thanks"], ar: ["شكرا", "شكرا بزاف", "chokran", "shukran", "choukran"] },
+  { fr: ["oui"], en: ["yes"], ar: ["نعم", "اه", "ah", "iyeh"] },
+  { fr: ["non"], en: ["no"], ar: ["لا", "la"] },
+  { fr: ["d'accord"], en: ["okay", "ok"], ar: ["واخا", "wakha", "safi"] },
+  { fr: ["combien"], en: ["how much"], ar: ["بشحال", "شحال", "bchhal", "chhal", "shhal"] },
+  { fr: ["prix"], en: ["price"], ar: ["الثمن", "taman", "tamane"] },
+  { fr: ["demain"], en: ["tomorrow"], ar: ["غدا", "غدوة", "ghda", "ghedda"] },
+  { fr: ["aujourd'hui"], en: ["today"], ar: ["اليوم", "lyoum", "lyom"] },
+  { fr: ["maintenant"], en: ["now"], ar: ["دابا", "daba"] },
+  { fr: ["aéroport"], en: ["airport"], ar: ["المطار", "matar", "lmatar"] },
+  { fr: ["hôtel"], en: ["hotel"], ar: ["الفندق", "otel", "lotel"] },
+  { fr: ["voiture"], en: ["car"], ar: ["السيارة", "طوموبيل", "tomobil", "tonobil"] },
+  { fr: ["chauffeur"], en: ["driver"], ar: ["السائق", "شيفور", "chifor", "chauffeur"] },
+  { fr: ["heure", "heures"], en: ["hour", "hours"], ar: ["ساعة", "sa3a"] },
+  { fr: ["disponible"], en: ["available"], ar: ["متوفر", "متوفرة", "kayn", "kayna"] },
+  { fr: ["je veux"], en: ["i want"], ar: ["بغيت", "bghit"] },
+  { fr: ["où"], en: ["where"], ar: ["فين", "fin"] },
+  { fr: ["beaucoup"], en: ["a lot"], ar: ["بزاف", "bzaf"] },
+  { fr: ["bien"], en: ["good"], ar: ["مزيان", "mzyan", "mezyan"] },
+  { fr: ["s'il vous plaît", "svp"], en: ["please"], ar: ["عافاك", "3afak"] },
+  { fr: ["avec"], en: ["with"], ar: ["مع", "m3a"] },
+  { fr: ["argent"], en: ["money"], ar: ["الفلوس", "flous"] },
+  { fr: ["dirhams"], en: ["dirhams"], ar: ["درهم", "drham", "dh"] },
+];
+
+const MAX_PHRASE_WORDS = 3;
+
+// Phrase (lowercase, space-joined words) -> entry, per source language
+const INDEX: Record<MessageLanguage, Map<string, PhraseEntry>> = { fr: new Map(), en: new Map(), ar: new Map() };
+for (const entry of PHRASES) {
+  for (const language of Object.keys(INDEX) as MessageLanguage[]) {
+    for (const phrase of entry[language]) {
+      INDEX[language].set(phrase.toLowerCase(), entry);
+    }
+  }
+}
+
+// Words keep apostrophes and Arabizi digits; everything else (spaces, punctuation) passes through
+const WORD_CHARS = String.raw`A-Za-zÀ-ÖØ-öø-ÿ\u0621-\u065f\u0670-\u06d30-9'`;
+const TOKEN = new RegExp(`[${WORD_CHARS}]+|[^${WORD_CHARS}]+`, "g");
+const WORD = new RegExp(`^[${WORD_CHARS}]+$`);
+
+function translateText(text: string, from: MessageLanguage, to: MessageLanguage): string {
+  const tokens = text.match(TOKEN) || [];
+  const output: string[] = [];
+
+  let i = 0;
+  while (i < tokens.length) {
+    if (!WORD.test(tokens[i])) {
+      output.push(tokens[i]);
+      i++;
+      continue;
+    }
+
+    // Longest known phrase starting here: words at even offsets, separators between them
+    let matched: { entry: PhraseEntry; length: number } | null = null;
+    for (let words = MAX_PHRASE_WORDS; words >= 1 && !matched; words--) {
+      const span = tokens.slice(i, i + words * 2 - 1);
+      if (span.length !== words * 2 - 1 || span.some((token, k) => k % 2 === 1 && !/^\s+$/.test(token))) {
+        continue;
+      }
+      const phrase = span.filter((_, k) => k % 2 === 0).join(" ").toLowerCase();
+      const entry = INDEX[from].get(phrase);
+      if (entry) {
+        matched = { entry, length: span.length };
+      }
+    }
+
+    if (matched) {
+      output.push(matched.entry[to][0]);
+      i += matched.length;
+    } else {
+      output.push(tokens[i]);
+      i++;
+    }
+  }
+
+  return output.join("");
+}
+
+export const dictionaryTranslator: TranslationBackend = {
+  code: "dictionary",
+  async translate(text, from, to) {
+    return from === to ? text : translateText(text, from, to);
+  },
+};
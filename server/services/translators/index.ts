@@ -0,0 +1,18 @@
+import { dictionaryTranslator } from "./dictionary";
+import type { TranslationBackend, TranslatorCode } from "./types";
+
+export * from "./types";
+
+const TRANSLATION_BACKENDS: Record<TranslatorCode, TranslationBackend> = {
+  dictionary: dictionaryTranslator,
+};
+
+// Backend selected with TRANSLATION_BACKEND
+export function getTranslationBackend(): TranslationBackend {
+  const code = process.env.TRANSLATION_BACKEND || "dictionary";
+  const backend = TRANSLATION_BACKENDS[code as TranslatorCode];
+  if (!backend) {
+    throw new Error(`Unsupported translation backend: ${code}`);
+  }
+  return backend;
+}
@@ -0,0 +1,14 @@
+import type { MessageLanguage } from "../../../shared/schema";
+
+/**
+ * Translation backend contract
+ * A backend translates a message body between the languages messages are tagged with.
+ * Results are cached per message and target language by the translation service.
+ */
+
+export type TranslatorCode = "dictionary";
+
+export interface TranslationBackend {
+  code: TranslatorCode;
+  translate(text: string, from: MessageLanguage, to: MessageLanguage): Promise<string>;
+}
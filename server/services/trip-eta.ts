@@ -0,0 +1,181 @@
+import { db } from "../db";
+import { jobs, offers, providers, trips, tripTracks, type Trip, type TripRoutePoint, type TripTrack } from "../../shared/schema";
+import { and, asc, eq, gte, isNotNull, isNull } from "drizzle-orm";
+import { logAudit, AUDIT_ACTIONS } from "../audit";
+import { publishToUsers } from "../realtime";
+import { calculateReliability } from "../ai/scoring";
+import { dropSpeedOutliers, haversineMeters, routeDistanceMeters, toRoutePoints } from "./track-processing";
+import { notifySafely } from "./notifications";
+
+/**
+ * Trip ETA Service - Live ETA and geofence events for transport jobs
+ * Every uploaded batch of GPS fixes recomputes the provider's ETA to the job location from the
+ * remaining distance and the recent driving speed. The buyer is notified once when the provider is
+ * TRIP_APPROACH_MINUTES away and once on arrival inside the TRIP_ARRIVAL_RADIUS_M geofence. The
+ * arrival is compared with the ETA promised in the offer (counted from acceptance) and the lateness
+ * is recorded on the offer, where it feeds the provider's reliability in offer scoring.
+ */
+
+const ARRIVAL_RADIUS_M = parseInt(process.env.TRIP_ARRIVAL_RADIUS_M || "150", 10);
+const APPROACH_MINUTES = parseInt(process.env.TRIP_APPROACH_MINUTES || "5", 10);
+// Arrivals up to this many minutes past the promise count as on time
+const LATE_TOLERANCE_MIN = parseInt(process.env.TRIP_LATE_TOLERANCE_MIN || "5", 10);
+// Roads are longer than the straight line to the destination
+const ROAD_DETOUR_FACTOR = 1.3;
+// Speed is measured over the last minutes of the track
+const SPEED_WINDOW_MS = 5 * 60 * 1000;
+// Below this the provider is stopped (traffic light, pickup), so assume city traffic instead
+const MIN_MEASURED_SPEED_KMH = 5;
+const CITY_SPEED_KMH = 30;
+
+async function publishEta(trip: Trip, remainingMeters: number) {
+  const [provider] = await db.select({ userId: providers.userId }).from(providers).where(eq(providers.id, trip.providerId));
+  const userIds = provider ? [trip.buyerId, provider.userId] : [trip.buyerId];
+  publishToUsers(userIds, {
+    type: "trip_eta",
+    tripId: trip.id,
+    jobId: trip.jobId,
+    etaAt: trip.etaAt?.toISOString() ?? null,
+    remainingMeters: Math.round(remainingMeters),
+    arrivedAt: trip.arrivedAt?.toISOString() ?? null,
+  });
+}
+
+// The recent track without inaccurate fixes and GPS jumps
+async function recentRoutePoints(tripId: string, until: Date): Promise<TripRoutePoint[]> {
+  const recent = await db
+    .select()
+    .from(tripTracks)
+    .where(and(eq(tripTracks.tripId, tripId), gte(tripTracks.timestamp, new Date(until.getTime() - SPEED_WINDOW_MS))))
+    .orderBy(asc(tripTracks.timestamp));
+
+  return dropSpeedOutliers(toRoutePoints(recent));
+}
+
+// Average speed over the recent track, in km/h
+function recentSpeedKmh(points: TripRoutePoint[]): number {
+  if (points.length < 2) {
+    return CITY_SPEED_KMH;
+  }
+
+  const seconds = (new Date(points[points.length - 1].timestamp).getTime() - new Date(points[0].timestamp).getTime()) / 1000;
+  const kmh = seconds > 0 ? (routeDistanceMeters(points) / seconds) * 3.6 : 0;
+  return kmh >= MIN_MEASURED_SPEED_KMH ? kmh : CITY_SPEED_KMH;
+}
+
+// The ETA the provider committed to: the offer's ETA counted from acceptance (when the trip was created)
+export async function promisedArrivalFor(trip: Trip): Promise<Date | null> {
+  const [offer] = await db.select({ etaMin: offers.etaMin }).from(offers).where(eq(offers.id, trip.offerId));
+  return offer?.etaMin ? new Date(trip.createdAt.getTime() + offer.etaMin * 60 * 1000) : null;
+}
+
+// Recompute the ETA after new fixes were stored; fires the approach and arrival events once each
+export async function updateTripEta(trip: Trip, points: TripTrack[]): Promise<void> {
+  if (trip.arrivedAt || points.length === 0) {
+    return;
+  }
+
+  const [job] = await db
+    .select({ category: jobs.category, latitude: jobs.latitude, longitude: jobs.longitude })
+    .from(jobs)
+    .where(eq(jobs.id, trip.jobId));
+  if (job?.category !== "transport" || !job.latitude || !job.longitude) {
+    return;
+  }
+
+  // Position from the filtered track, so an inaccurate fix or a GPS jump can't trigger the arrival
+  const newest = points.reduce((a, b) => (b.timestamp > a.timestamp ? b : a));
+  const track = await recentRoutePoints(trip.id, newest.timestamp);
+  const latest = track[track.length - 1];
+  if (!latest) {
+    return;
+  }
+
+  const latestAt = new Date(latest.timestamp);
+  const destination = { lat: parseFloat(job.latitude), lng: parseFloat(job.longitude) };
+  const remainingMeters = haversineMeters(latest, destination);
+
+  if (remainingMeters <= ARRIVAL_RADIUS_M) {
+    await recordArrival(trip, latestAt, remainingMeters);
+    return;
+  }
+
+  const speedKmh = recentSpeedKmh(track);
+  const etaSeconds = (remainingMeters * ROAD_DETOUR_FACTOR) / (speedKmh / 3.6);
+  const etaAt = new Date(latestAt.getTime() + etaSeconds * 1000);
+
+  let [updated] = await db
+    .update(trips)
+    .set({ etaAt, updatedAt: new Date() })
+    .where(and(eq(trips.id, trip.id), isNull(trips.arrivedAt)))
+    .returning();
+  if (!updated) {
+    return;
+  }
+
+  if (etaSeconds <= APPROACH_MINUTES * 60) {
+    // Conditional on the column so concurrent uploads notify once
+    const [approaching] = await db
+      .update(trips)
+      .set({ approachNotifiedAt: new Date() })
+      .where(and(eq(trips.id, trip.id), isNull(trips.approachNotifiedAt)))
+      .returning();
+
+    if (approaching) {
+      updated = approaching;
+      const minutes = Math.max(1, Math.round(etaSeconds / 60));
+      await notifySafely(trip.buyerId, {
+        eventType: "driver_approaching",
+        title: "Your driver is almost there",
+        message: `Your driver is about ${minutes} minutes away.`,
+        data: { jobId: trip.jobId, tripId: trip.id, minutes, etaAt: etaAt.toISOString() },
+      });
+    }
+  }
+
+  await publishEta(updated, remainingMeters);
+}
+
+async function recordArrival(trip: Trip, arrivedAt: Date, remainingMeters: number): Promise<void> {
+  const promisedArrivalAt = trip.promisedArrivalAt || (await promisedArrivalFor(trip));
+
+  const [arrived] = await db
+    .update(trips)
+    .set({ arrivedAt, etaAt: arrivedAt, promisedArrivalAt, updatedAt: new Date() })
+    .where(and(eq(trips.id, trip.id), isNull(trips.arrivedAt)))
+    .returning();
+  if (!arrived) {
+    return;
+  }
+
+  const latenessMin = promisedArrivalAt ? Math.round((arrivedAt.getTime() - promisedArrivalAt.getTime()) / 60000) : null;
+  if (latenessMin !== null) {
+    await db.update(offers).set({ latenessMin }).where(eq(offers.id, trip.offerId));
+  }
+
+  await logAudit({
+    action: AUDIT_ACTIONS.TRIP_ARRIVE,
+    resourceType: "trip",
+    resourceId: trip.id,
+    changes: { jobId: trip.jobId, offerId: trip.offerId, arrivedAt, promisedArrivalAt, latenessMin },
+  });
+
+  await notifySafely(trip.buyerId, {
+    eventType: "driver_arrived",
+    title: "Your driver has arrived",
+    message: "Your driver has arrived at the pickup location.",
+    data: { jobId: trip.jobId, tripId: trip.id, arrivedAt: arrivedAt.toISOString() },
+  });
+
+  await publishEta(arrived, remainingMeters);
+}
+
+// Reliability (0-1) from the provider's recorded arrivals, for offer scoring
+export async function getProviderReliability(providerId: string): Promise<number> {
+  const arrivals = await db
+    .select({ latenessMin: offers.latenessMin })
+    .from(offers)
+    .where(and(eq(offers.providerId, providerId), isNotNull(offers.latenessMin)));
+
+  return calculateReliability(arrivals.map((arrival) => arrival.latenessMin!), LATE_TOLERANCE_MIN);
+}
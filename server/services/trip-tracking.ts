@@ -0,0 +1,309 @@
+import { db } from "../db";
+import {
+  jobs,
+  offers,
+  providers,
+  trips,
+  tripTracks,
+  type Trip,
+  type TripLocation,
+  type TripPoint,
+  type TripRoute,
+  type TripTrack,
+} from "../../shared/schema";
+import { and, asc, eq, gt } from "drizzle-orm";
+import { logAudit, AUDIT_ACTIONS } from "../audit";
+import { publishToUsers } from "../realtime";
+import { processTrack } from "./track-processing";
+import { promisedArrivalFor, updateTripEta } from "./trip-eta";
+import { renderTripExport, type TripExportFile, type TripExportFormat } from "./track-export";
+
+/**
+ * Trip Tracking Service - Live GPS tracking of the trip behind an accepted job
+ * A trip is created when the buyer accepts an offer. The provider starts it once on the way; the
+ * provider's device then uploads GPS fixes in batches, which are de-duplicated, stored in trip_tracks
+ * and pushed to both parties over the realtime channel for the buyer's live view; each batch also
+ * updates the ETA and geofence events (see trip-eta.ts). Completing the trip (by the provider, or
+ * when the job completes) runs the track through track-processing.ts and stores the simplified
+ * route with its distance, duration and moving vs idle time.
+ */
+
+const MAX_BATCHES_PER_MINUTE = parseInt(process.env.TRIP_TRACKING_MAX_BATCHES_PER_MINUTE || "30", 10);
+// Tolerated drift between the device clock and ours
+const CLOCK_SKEW_MS = 2 * 60 * 1000;
+
+export class TripTrackingError extends Error {
+  constructor(message: string, public readonly statusCode: number) {
+    super(message);
+    this.name = "TripTrackingError";
+    Object.setPrototypeOf(this, TripTrackingError.prototype);
+  }
+}
+
+export interface TripViewer {
+  userId: string;
+  role?: string;
+}
+
+export interface TripIngestResult {
+  accepted: number;
+  duplicates: number;
+  rejected: number;
+}
+
+// Upload timestamps per trip over the last minute; per process, like the realtime connections
+const recentBatches = new Map<string, number[]>();
+
+function assertWithinRateLimit(tripId: string, now: number) {
+  const windowStart = now - 60 * 1000;
+  const batches = (recentBatches.get(tripId) || []).filter((at) => at > windowStart);
+  if (batches.length >= MAX_BATCHES_PER_MINUTE) {
+    recentBatches.set(tripId, batches);
+    throw new TripTrackingError("Too many uploads for this trip, retry in a minute", 429);
+  }
+  batches.push(now);
+  recentBatches.set(tripId, batches);
+}
+
+async function loadTrip(tripId: string): Promise<{ trip: Trip; providerUserId: string }> {
+  const [row] = await db
+    .select({ trip: trips, providerUserId: providers.userId })
+    .from(trips)
+    .innerJoin(providers, eq(trips.providerId, providers.id))
+    .where(eq(trips.id, tripId));
+
+  if (!row) {
+    throw new TripTrackingError("Trip not found", 404);
+  }
+  return row;
+}
+
+// The buyer, the provider and admins can follow a trip
+async function loadTripForViewer(tripId: string, viewer: TripViewer): Promise<Trip> {
+  const { trip, providerUserId } = await loadTrip(tripId);
+  if (viewer.role !== "admin" && viewer.userId !== trip.buyerId && viewer.userId !== providerUserId) {
+    throw new TripTrackingError("Not authorized to view this trip", 403);
+  }
+  return trip;
+}
+
+async function loadTripForProvider(tripId: string, userId: string): Promise<Trip> {
+  const { trip, providerUserId } = await loadTrip(tripId);
+  if (providerUserId !== userId) {
+    throw new TripTrackingError("Only the provider of this trip can update it", 403);
+  }
+  return trip;
+}
+
+// Both parties follow the trip live
+async function publishStatus(trip: Trip) {
+  const [provider] = await db.select({ userId: providers.userId }).from(providers).where(eq(providers.id, trip.providerId));
+  const userIds = provider ? [trip.buyerId, provider.userId] : [trip.buyerId];
+  publishToUsers(userIds, { type: "trip_status", tripId: trip.id, jobId: trip.jobId, trip });
+}
+
+// The trip of a job's accepted offer
+export async function getJobTrip(jobId: string, viewer: TripViewer): Promise<Trip> {
+  const [row] = await db
+    .select({ trip: trips })
+    .from(trips)
+    .innerJoin(offers, and(eq(trips.offerId, offers.id), eq(offers.status, "accepted")))
+    .where(eq(trips.jobId, jobId));
+
+  if (!row) {
+    throw new TripTrackingError("This job has no trip", 404);
+  }
+  return loadTripForViewer(row.trip.id, viewer);
+}
+
+export async function getTrip(tripId: string, viewer: TripViewer): Promise<Trip> {
+  return loadTripForViewer(tripId, viewer);
+}
+
+// Recorded points in chronological order; `since` returns only the newer ones
+export async function getTripTrack(tripId: string, viewer: TripViewer, since?: Date): Promise<TripTrack[]> {
+  await loadTripForViewer(tripId, viewer);
+  return db
+    .select()
+    .from(tripTracks)
+    .where(and(eq(tripTracks.tripId, tripId), since ? gt(tripTracks.timestamp, since) : undefined))
+    .orderBy(asc(tripTracks.timestamp));
+}
+
+// Provider: on the way; tracking starts
+export async function startTrip(tripId: string, userId: string, location?: TripLocation): Promise<Trip> {
+  const trip = await loadTripForProvider(tripId, userId);
+
+  const [job] = await db.select({ status: jobs.status }).from(jobs).where(eq(jobs.id, trip.jobId));
+  if (job?.status !== "accepted") {
+    throw new TripTrackingError(`Job is ${job?.status}, trips start once an offer is accepted`, 409);
+  }
+
+  const startedAt = new Date();
+  const promisedArrivalAt = await promisedArrivalFor(trip);
+  const [started] = await db
+    .update(trips)
+    .set({ status: "in_progress", startedAt, startLocation: location || null, promisedArrivalAt, updatedAt: startedAt })
+    .where(and(eq(trips.id, tripId), eq(trips.status, "scheduled")))
+    .returning();
+
+  if (!started) {
+    throw new TripTrackingError(`Trip is ${trip.status}, not scheduled`, 409);
+  }
+
+  await logAudit({
+    userId,
+    action: AUDIT_ACTIONS.TRIP_START,
+    resourceType: "trip",
+    resourceId: tripId,
+    changes: { jobId: trip.jobId, startLocation: location },
+  });
+
+  await publishStatus(started);
+  return started;
+}
+
+// Provider device: store a batch of fixes and stream the new ones to both parties. Fixes already stored
+// (a retried upload) are skipped; fixes from before the start or from the future are rejected.
+export async function ingestTripPoints(tripId: string, userId: string, points: TripPoint[]): Promise<TripIngestResult> {
+  const trip = await loadTripForProvider(tripId, userId);
+  if (trip.status !== "in_progress") {
+    throw new TripTrackingError(`Trip is ${trip.status}, not in progress`, 409);
+  }
+
+  const now = Date.now();
+  assertWithinRateLimit(tripId, now);
+
+  const earliest = (trip.startedAt?.getTime() || now) - CLOCK_SKEW_MS;
+  const latest = now + CLOCK_SKEW_MS;
+  const byTimestamp = new Map<number, TripPoint>();
+  let rejected = 0;
+
+  for (const point of points) {
+    const at = point.timestamp.getTime();
+    if (at < earliest || at > latest) {
+      rejected++;
+      continue;
+    }
+    byTimestamp.set(at, point);
+  }
+
+  const rows = Array.from(byTimestamp.values()).map((point) => ({
+    tripId,
+    latitude: point.lat.toFixed(8),
+    longitude: point.lng.toFixed(8),
+    accuracy: point.accuracy !== undefined ? point.accuracy.toFixed(2) : null,
+    speed: point.speed !== undefined ? point.speed.toFixed(2) : null,
+    heading: point.heading !== undefined ? point.heading.toFixed(2) : null,
+    timestamp: point.timestamp,
+  }));
+
+  const inserted = rows.length > 0
+    ? await db.insert(tripTracks).values(rows).onConflictDoNothing().returning()
+    : [];
+
+  if (inserted.length > 0) {
+    inserted.sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+    publishToUsers([trip.buyerId, userId], { type: "trip_position", tripId, jobId: trip.jobId, points: inserted });
+
+    // The fixes are stored either way; a failed ETA update is retried with the next batch
+    try {
+      await updateTripEta(trip, inserted);
+    } catch (error) {
+      console.error(`ETA update for trip ${tripId} failed:`, error);
+    }
+  }
+
+  return { accepted: inserted.length, duplicates: points.length - rejected - inserted.length, rejected };
+}
+
+async function loadRawTrack(tripId: string): Promise<TripTrack[]> {
+  return db.select().from(tripTracks).where(eq(tripTracks.tripId, tripId)).orderBy(asc(tripTracks.timestamp));
+}
+
+// The processed route: stored once the trip is completed, computed from the raw track until then
+export async function getTripRoute(tripId: string, viewer: TripViewer): Promise<{ trip: Trip; route: TripRoute }> {
+  const trip = await loadTripForViewer(tripId, viewer);
+
+  if (trip.route) {
+    return {
+      trip,
+      route: {
+        tripId,
+        points: trip.route,
+        distanceMeters: trip.distance || 0,
+        movingSeconds: trip.movingSeconds || 0,
+        idleSeconds: trip.idleSeconds || 0,
+        rawPointCount: (await loadRawTrack(tripId)).length,
+      },
+    };
+  }
+
+  const processed = await processTrack(await loadRawTrack(tripId));
+  return { trip, route: { tripId, ...processed } };
+}
+
+export async function exportTrip(tripId: string, viewer: TripViewer, format: TripExportFormat): Promise<TripExportFile> {
+  const { trip, route } = await getTripRoute(tripId, viewer);
+  if (route.points.length === 0) {
+    throw new TripTrackingError("This trip has no recorded route", 409);
+  }
+  return renderTripExport(trip, route, format);
+}
+
+// Close a trip with its duration and processed route. The end location defaults to the last
+// recorded fix. Trips that were never started are closed without a summary.
+export async function finishTrip(
+  trip: Trip,
+  completedAt: Date,
+  status: "completed" | "cancelled" = "completed",
+  location?: TripLocation
+): Promise<Trip> {
+  const track = await loadRawTrack(trip.id);
+  const processed = track.length > 1 ? await processTrack(track) : null;
+
+  const last = track[track.length - 1];
+  const endLocation = location || (last && { lat: parseFloat(last.latitude), lng: parseFloat(last.longitude) });
+
+  const [finished] = await db
+    .update(trips)
+    .set({
+      status,
+      completedAt,
+      duration: trip.startedAt ? Math.round((completedAt.getTime() - trip.startedAt.getTime()) / 60000) : trip.duration,
+      ...(processed && {
+        distance: processed.distanceMeters,
+        movingSeconds: processed.movingSeconds,
+        idleSeconds: processed.idleSeconds,
+        route: processed.points,
+      }),
+      endLocation: endLocation || trip.endLocation,
+      updatedAt: new Date(),
+    })
+    .where(eq(trips.id, trip.id))
+    .returning();
+
+  await publishStatus(finished);
+  return finished;
+}
+
+// Provider: arrived; stops tracking and records the trip summary
+export async function completeTrip(tripId: string, userId: string, location?: TripLocation): Promise<Trip> {
+  const trip = await loadTripForProvider(tripId, userId);
+  if (trip.status !== "in_progress") {
+    throw new TripTrackingError(`Trip is ${trip.status}, not in progress`, 409);
+  }
+
+  const completed = await finishTrip(trip, new Date(), "completed", location);
+  recentBatches.delete(tripId);
+
+  await logAudit({
+    userId,
+    action: AUDIT_ACTIONS.TRIP_COMPLETE,
+    resourceType: "trip",
+    resourceId: tripId,
+    changes: { jobId: trip.jobId, duration: completed.duration, distance: completed.distance },
+  });
+
+  return completed;
+}
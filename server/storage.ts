@@ -10,7 +10,7 @@ import {
   bleisurePackages, coworkingSpaces, bleisureBookings, savingsAttributions, cohortAnalyses,
   hrisSyncConfigs, ssoConnections, employeeSyncLogs,
   servicePackages, favorites, packageOrders,
-  paymentSchedules, escrowLedger, invoices, currencyRates,
+  paymentSchedules, escrowLedger, invoices, currencyRates, billingProfiles,
   type User, type InsertUser,
   type Provider, type InsertProvider,
   type Job, type InsertJob,
@@ -64,6 +64,7 @@ import {
   type ServicePackage, type InsertServicePackage,
   type Favorite, type InsertFavorite,
   type PackageOrder, type InsertPackageOrder,
+  type BillingProfile, type InsertBillingProfile,
 } from "@shared/schema";
 import { db } from "./db";
 import { eq, and, desc, gte, lte, like, or, sql } from "drizzle-orm";
@@ -124,6 +125,7 @@ export interface IStorage {
   // Phase 1: Transactions
   getTransaction(id: string): Promise<Transaction | undefined>;
   getTransactionsByProviderId(providerId: string): Promise<Transaction[]>;
+  getTransactionsByBuyerId(buyerId: string): Promise<Transaction[]>;
   createTransaction(tx: InsertTransaction): Promise<Transaction>;
   updateTransaction(id: string, data: Partial<Transaction>): Promise<Transaction | undefined>;
 
@@ -340,6 +342,9 @@ export interface IStorage {
 
   createCurrencyRate(data: any): Promise<any>;
   getLatestCurrencyRate(fromCurrency: string, toCurrency: string): Promise<any | undefined>;
+
+  getBillingProfile(userId: string): Promise<BillingProfile | undefined>;
+  upsertBillingProfile(data: InsertBillingProfile): Promise<BillingProfile>;
   deleteServicePackage(id: string): Promise<void>;
   incrementPackageViews(id: string): Promise<void>;
 
@@ -672,6 +677,14 @@ export class DatabaseStorage implements IStorage {
       .orderBy(desc(transactions.createdAt));
   }
 
+  async getTransactionsByBuyerId(buyerId: string): Promise<Transaction[]> {
+    return await db
+      .select()
+      .from(transactions)
+      .where(eq(transactions.buyerId, buyerId))
+      .orderBy(desc(transactions.createdAt));
+  }
+
   async createTransaction(insertTx: InsertTransaction): Promise<Transaction> {
     const [transaction] = await db
       .insert(transactions)
@@ -1849,6 +1862,23 @@ export class DatabaseStorage implements IStorage {
       .limit(1);
     return rate || undefined;
   }
+
+  async getBillingProfile(userId: string): Promise<BillingProfile | undefined> {
+    const [profile] = await db.select().from(billingProfiles).where(eq(billingProfiles.userId, userId));
+    return profile || undefined;
+  }
+
+  async upsertBillingProfile(data: InsertBillingProfile): Promise<BillingProfile> {
+    const [profile] = await db
+      .insert(billingProfiles)
+      .values(data)
+      .onConflictDoUpdate({
+        target: billingProfiles.userId,
+        set: { ...data, updatedAt: new Date() },
+      })
+      .returning();
+    return profile;
+  }
 }
 
 export const storage = new DatabaseStorage();
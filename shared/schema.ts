@@ -1,5 +1,5 @@
 import { sql } from "drizzle-orm";
-import { pgTable, text, varchar, timestamp, integer, decimal, boolean, jsonb, uuid } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, timestamp, integer, decimal, boolean, jsonb, uuid, unique, uniqueIndex } from "drizzle-orm/pg-core";
 import { relations } from "drizzle-orm";
 import { createInsertSchema, createSelectSchema } from "drizzle-zod";
 import { z } from "zod";
@@ -56,7 +56,10 @@ export const jobs = pgTable("jobs", {
   longitude: decimal("longitude", { precision: 10, scale: 7 }),
   spec: jsonb("spec").notNull(),
   budgetHintMad: integer("budget_hint_mad"),
-  status: text("status").default("open").notNull().$type<"open" | "accepted" | "completed" | "cancelled">(),
+  status: text("status").default("open").notNull().$type<"open" | "accepted" | "delivered" | "disputed" | "completed" | "cancelled">(),
+  deliveredAt: timestamp("delivered_at"), // Provider marked the job done
+  confirmationDueAt: timestamp("confirmation_due_at"), // Completes automatically if the buyer hasn't confirmed or disputed by then
+  completedAt: timestamp("completed_at"),
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
@@ -82,10 +85,29 @@ export const offers = pgTable("offers", {
   aiScore: decimal("ai_score", { precision: 5, scale: 3 }),
   compliance: jsonb("compliance"),
   expiresAt: timestamp("expires_at"),
-  status: text("status").default("pending").notNull().$type<"pending" | "accepted" | "declined" | "expired">(),
+  status: text("status").default("pending").notNull().$type<"pending" | "payment_pending" | "accepted" | "declined" | "expired">(), // payment_pending while the buyer's checkout is open
+  agreedRevisionId: uuid("agreed_revision_id"), // Counter-offer both sides agreed on; its terms are copied onto the offer
+  latenessMin: integer("lateness_min"), // Arrival against the promised ETA, from trip tracking; negative when early
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
+// Offer Revisions - Counter-offer thread on an offer; round 0 is the provider's original terms
+export const offerRevisions = pgTable("offer_revisions", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  offerId: uuid("offer_id").references(() => offers.id).notNull(),
+  round: integer("round").notNull(),
+  proposedBy: text("proposed_by").notNull().$type<"buyer" | "provider">(),
+  proposedByUserId: uuid("proposed_by_user_id").references(() => users.id).notNull(),
+  priceMad: integer("price_mad").notNull(),
+  etaMin: integer("eta_min"),
+  notes: text("notes"),
+  status: text("status").default("open").notNull().$type<"open" | "accepted" | "rejected" | "countered" | "withdrawn" | "expired">(),
+  respondedAt: timestamp("responded_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => ({
+  offerRoundUnique: unique("offer_revisions_offer_round_unique").on(table.offerId, table.round),
+}));
+
 export const offersRelations = relations(offers, ({ one }) => ({
   job: one(jobs, {
     fields: [offers.jobId],
@@ -102,15 +124,38 @@ export const financingOffers = pgTable("financing_offers", {
   id: uuid("id").primaryKey().defaultRandom(),
   jobId: uuid("job_id").references(() => jobs.id).notNull(),
   lenderCode: text("lender_code").notNull(),
+  lenderReference: text("lender_reference"), // The lender's id for this offer
   type: text("type").notNull().$type<"loan" | "lease">(),
   apr: decimal("apr", { precision: 5, scale: 2 }),
   termMonths: integer("term_months"),
+  principalMad: integer("principal_mad"), // Amount financed after the down payment
   downPaymentMad: integer("down_payment_mad"),
   monthlyMad: integer("monthly_mad"),
+  residualMad: integer("residual_mad"), // Lease buyout at term end; 0 for loans
+  totalCostMad: integer("total_cost_mad"), // Down payment + all monthly payments + residual
   conditions: jsonb("conditions"),
   prequal: boolean("prequal").default(true).notNull(),
+  status: text("status").default("offered").notNull().$type<"offered" | "accepted" | "declined" | "expired">(),
+  expiresAt: timestamp("expires_at"),
+  acceptedBy: uuid("accepted_by").references(() => users.id),
+  acceptedAt: timestamp("accepted_at"),
+  consent: jsonb("consent").$type<FinancingConsent>(), // What the buyer agreed to, recorded at acceptance
+  contractReference: text("contract_reference"), // Issued by the lender on acceptance
   createdAt: timestamp("created_at").defaultNow().notNull(),
-});
+}, (table) => ({
+  // One accepted financing offer per job
+  acceptedJobUnique: uniqueIndex("financing_offers_accepted_job_unique")
+    .on(table.jobId)
+    .where(sql`${table.status} = 'accepted'`),
+}));
+
+export interface FinancingConsent {
+  version: string;
+  text: string;
+  acceptedAt: string;
+  ipAddress?: string;
+  userAgent?: string;
+}
 
 export const financingOffersRelations = relations(financingOffers, ({ one }) => ({
   job: one(jobs, {
@@ -125,10 +170,60 @@ export const messages = pgTable("messages", {
   jobId: uuid("job_id").references(() => jobs.id).notNull(),
   senderId: uuid("sender_id").references(() => users.id).notNull(),
   body: text("body").notNull(),
-  meta: jsonb("meta"),
+  attachments: jsonb("attachments").$type<MessageAttachment[]>().default([]).notNull(),
+  language: text("language").$type<MessageLanguage>(), // Detected on send; null when undetermined
+  meta: jsonb("meta").$type<MessageMeta>(),
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
+// A file or photo sent in a conversation; the object's ACL grants the job's participants read access
+export interface MessageAttachment {
+  url: string; // /objects/... path
+  name: string;
+  contentType: string;
+  sizeBytes: number;
+}
+
+export type ContactLeakKind = "phone" | "email" | "whatsapp";
+
+// Contact details found in a message sent before the job had an accepted offer
+export interface ContactLeakFlag {
+  kinds: ContactLeakKind[];
+  matchCount: number;
+  obfuscated: boolean; // Spelled-out or spaced digits, "at"/"dot" emails
+  originalBody?: string; // Unmasked text, only returned to admins
+  detectedAt: string;
+  reviewStatus: "pending" | "confirmed" | "dismissed";
+  reviewedBy?: string;
+  reviewedAt?: string;
+  reviewNote?: string;
+}
+
+export type MessageLanguage = "fr" | "ar" | "en";
+
+// A cached machine translation of a message body
+export interface MessageTranslation {
+  text: string;
+  backend: string;
+  translatedAt: string;
+}
+
+export interface MessageMeta {
+  contactLeak?: ContactLeakFlag;
+  translations?: Partial<Record<MessageLanguage, MessageTranslation>>;
+}
+
+// Message Reads - Each participant's read position in a job conversation
+export const messageReads = pgTable("message_reads", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  jobId: uuid("job_id").references(() => jobs.id).notNull(),
+  userId: uuid("user_id").references(() => users.id).notNull(),
+  lastReadMessageId: uuid("last_read_message_id").references(() => messages.id),
+  readAt: timestamp("read_at").notNull(), // Messages created up to this time are read
+}, (table) => ({
+  jobUserUnique: unique("message_reads_job_user_unique").on(table.jobId, table.userId),
+}));
+
 export const messagesRelations = relations(messages, ({ one }) => ({
   job: one(jobs, {
     fields: [messages.jobId],
@@ -206,24 +301,68 @@ export const insertProviderSchema = createInsertSchema(providers).omit({
 export const insertJobSchema = createInsertSchema(jobs, {
   category: z.enum(["transport", "tour", "service", "financing"]),
   spec: z.record(z.any()),
-}).omit({ id: true, createdAt: true, status: true });
+}).omit({ id: true, createdAt: true, status: true, deliveredAt: true, confirmationDueAt: true, completedAt: true });
 
 export const insertOfferSchema = createInsertSchema(offers).omit({ 
   id: true, 
   createdAt: true,
   status: true,
   aiScore: true,
+  agreedRevisionId: true,
+  latenessMin: true,
+});
+
+export const counterOfferSchema = z.object({
+  priceMad: z.number().int().positive(),
+  etaMin: z.number().int().positive().optional(),
+  notes: z.string().max(1000).optional(),
+});
+
+export const counterOfferResponseSchema = z.object({
+  decision: z.enum(["accept", "reject"]),
 });
 
 export const insertFinancingOfferSchema = createInsertSchema(financingOffers, {
   type: z.enum(["loan", "lease"]),
-}).omit({ id: true, createdAt: true });
-
-export const insertMessageSchema = createInsertSchema(messages).omit({ 
+  status: z.enum(["offered", "accepted", "declined", "expired"]).optional(),
+}).omit({ id: true, createdAt: true, acceptedBy: true, acceptedAt: true, consent: true, contractReference: true });
+
+export const financingPrequalSchema = z.object({
+  jobId: z.string().uuid(),
+  amountMad: z.number().int().positive(),
+  termMonths: z.number().int().min(6).max(84),
+  monthlyIncomeMad: z.number().int().positive(),
+  downPaymentMad: z.number().int().min(0).optional(),
+}).refine((request) => (request.downPaymentMad || 0) < request.amountMad, {
+  message: "downPaymentMad must be less than amountMad",
+});
+
+export const insertMessageSchema = createInsertSchema(messages, {
+  attachments: z.array(z.object({
+    url: z.string(),
+    name: z.string(),
+    contentType: z.string(),
+    sizeBytes: z.number().int(),
+  })).optional(),
+  language: z.enum(["fr", "ar", "en"]).nullable().optional(),
+  meta: z.custom<MessageMeta>().nullable().optional(),
+}).omit({ 
   id: true, 
   createdAt: true,
 });
 
+// What a participant sends: text, uploaded files (by upload URL or /objects path), or both
+export const sendMessageSchema = z.object({
+  jobId: z.string().uuid(),
+  body: z.string().max(4000).default(""),
+  attachments: z.array(z.object({
+    url: z.string().min(1),
+    name: z.string().min(1).max(255),
+  })).max(5).default([]),
+}).refine((message) => message.body.trim().length > 0 || message.attachments.length > 0, {
+  message: "A message needs text or an attachment",
+});
+
 export const insertRatingSchema = createInsertSchema(ratings, {
   score: z.number().int().min(1).max(5),
   tags: z.array(z.string()).optional(),
@@ -246,12 +385,22 @@ export type InsertJob = z.infer<typeof insertJobSchema>;
 
 export type Offer = typeof offers.$inferSelect;
 export type InsertOffer = z.infer<typeof insertOfferSchema>;
+export type OfferRevision = typeof offerRevisions.$inferSelect;
+export type CounterOffer = z.infer<typeof counterOfferSchema>;
 
 export type FinancingOffer = typeof financingOffers.$inferSelect;
 export type InsertFinancingOffer = z.infer<typeof insertFinancingOfferSchema>;
+export type FinancingPrequalRequest = z.infer<typeof financingPrequalSchema>;
 
 export type Message = typeof messages.$inferSelect;
 export type InsertMessage = z.infer<typeof insertMessageSchema>;
+export type SendMessage = z.infer<typeof sendMessageSchema>;
+export type MessageRead = typeof messageReads.$inferSelect;
+
+export const contactLeakReviewSchema = z.object({
+  decision: z.enum(["confirm", "dismiss"]),
+  note: z.string().max(1000).optional(),
+});
 
 export type Rating = typeof ratings.$inferSelect;
 export type InsertRating = z.infer<typeof insertRatingSchema>;
@@ -264,15 +413,39 @@ export type InsertAuditLog = z.infer<typeof insertAuditLogSchema>;
 // ========================================
 
 // Platform Fees - Commission on accepted offers
+// Commission Rules - Admin-managed rates; the highest-priority active rule matching an offer sets its commission
+export const commissionRules = pgTable("commission_rules", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  name: text("name").notNull(),
+  description: text("description"),
+  ruleType: text("rule_type").default("standard").notNull().$type<"standard" | "promotion" | "provider_override">(),
+  priority: integer("priority").default(0).notNull(), // Higher priorities are evaluated first
+  commissionRate: decimal("commission_rate", { precision: 5, scale: 4 }).notNull(),
+  // Conditions: null matches anything
+  category: text("category").$type<"transport" | "tour" | "service" | "financing" | "venue" | "other">(),
+  city: text("city"),
+  partnerTier: text("partner_tier").$type<"bronze" | "silver" | "gold" | "platinum">(),
+  subscriptionTier: text("subscription_tier").$type<"free" | "basic" | "pro">(),
+  providerId: uuid("provider_id").references(() => providers.id),
+  validFrom: timestamp("valid_from"),
+  validUntil: timestamp("valid_until"),
+  active: boolean("active").default(true).notNull(),
+  createdBy: uuid("created_by").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
 export const platformFees = pgTable("platform_fees", {
   id: uuid("id").primaryKey().defaultRandom(),
-  offerId: uuid("offer_id").references(() => offers.id).notNull(),
+  offerId: uuid("offer_id").references(() => offers.id), // Set for accepted offers
+  orderId: uuid("order_id").references(() => packageOrders.id).unique(), // Set for paid package orders, one fee per order
   jobId: uuid("job_id").references(() => jobs.id).notNull(),
   providerId: uuid("provider_id").references(() => providers.id).notNull(),
   grossAmountMad: integer("gross_amount_mad").notNull(),
   commissionRate: decimal("commission_rate", { precision: 5, scale: 4 }).notNull(),
   commissionAmountMad: integer("commission_amount_mad").notNull(),
   providerNetMad: integer("provider_net_mad").notNull(),
+  commissionRuleId: uuid("commission_rule_id").references(() => commissionRules.id), // Null when the built-in rates applied
   status: text("status").default("pending").notNull().$type<"pending" | "collected" | "failed">(),
   paidAt: timestamp("paid_at"),
   createdAt: timestamp("created_at").defaultNow().notNull(),
@@ -283,6 +456,10 @@ export const platformFeesRelations = relations(platformFees, ({ one }) => ({
     fields: [platformFees.offerId],
     references: [offers.id],
   }),
+  order: one(packageOrders, {
+    fields: [platformFees.orderId],
+    references: [packageOrders.id],
+  }),
   job: one(jobs, {
     fields: [platformFees.jobId],
     references: [jobs.id],
@@ -291,6 +468,10 @@ export const platformFeesRelations = relations(platformFees, ({ one }) => ({
     fields: [platformFees.providerId],
     references: [providers.id],
   }),
+  commissionRule: one(commissionRules, {
+    fields: [platformFees.commissionRuleId],
+    references: [commissionRules.id],
+  }),
 }));
 
 // Provider Subscriptions - Free, Basic, Pro tiers
@@ -304,6 +485,9 @@ export const providerSubscriptions = pgTable("provider_subscriptions", {
   subscriptionStartedAt: timestamp("subscription_started_at"),
   subscriptionExpiresAt: timestamp("subscription_expires_at"),
   autoRenew: boolean("auto_renew").default(false).notNull(),
+  offerCounterResetAt: timestamp("offer_counter_reset_at"), // Start of the monthly window counted by paidOffersSubmitted
+  prorationCreditMad: integer("proration_credit_mad").default(0).notNull(), // Unused value from mid-cycle downgrades, deducted from the next charge
+  renewalTransactionId: uuid("renewal_transaction_id"), // Renewal charge in flight for the cycle that just ended
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
 });
@@ -319,7 +503,8 @@ export const providerSubscriptionsRelations = relations(providerSubscriptions, (
 export const transactions = pgTable("transactions", {
   id: uuid("id").primaryKey().defaultRandom(),
   providerId: uuid("provider_id").references(() => providers.id).notNull(),
-  type: text("type").notNull().$type<"subscription_payment" | "provider_payout" | "refund">(),
+  type: text("type").notNull().$type<"subscription_payment" | "offer_payment" | "order_payment" | "installment_payment" | "provider_payout" | "refund">(),
+  buyerId: uuid("buyer_id").references(() => users.id), // Set on buyer charges (offer_payment, order_payment)
   amountMad: integer("amount_mad").notNull(),
   currency: text("currency").default("MAD").notNull(),
   status: text("status").default("pending").notNull().$type<"pending" | "processing" | "completed" | "failed" | "refunded">(),
@@ -336,6 +521,34 @@ export const transactionsRelations = relations(transactions, ({ one }) => ({
     fields: [transactions.providerId],
     references: [providers.id],
   }),
+  buyer: one(users, {
+    fields: [transactions.buyerId],
+    references: [users.id],
+  }),
+}));
+
+// PSP Callback Inbox - Every webhook received from a PSP, kept raw for replay protection and audit
+export const pspCallbackEvents = pgTable("psp_callback_events", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  pspProvider: text("psp_provider"),
+  // Idempotency key of the PSP event (provider + PSP transaction + status); null until the callback is verified
+  eventKey: text("event_key").unique(),
+  transactionId: uuid("transaction_id").references(() => transactions.id),
+  callbackStatus: text("callback_status"),
+  status: text("status").default("received").notNull().$type<"received" | "processed" | "ignored" | "rejected" | "failed">(),
+  headers: jsonb("headers"),
+  payload: jsonb("payload"),
+  rawBody: text("raw_body"),
+  error: text("error"),
+  receivedAt: timestamp("received_at").defaultNow().notNull(),
+  processedAt: timestamp("processed_at"),
+});
+
+export const pspCallbackEventsRelations = relations(pspCallbackEvents, ({ one }) => ({
+  transaction: one(transactions, {
+    fields: [pspCallbackEvents.transactionId],
+    references: [transactions.id],
+  }),
 }));
 
 // Provider Earnings - Track net income after commissions
@@ -368,6 +581,22 @@ export const providerEarningsRelations = relations(providerEarnings, ({ one }) =
 }));
 
 // Phase 1 Insert Schemas
+export const commissionRuleSchema = z.object({
+  name: z.string().min(1),
+  description: z.string().nullable().optional(),
+  ruleType: z.enum(["standard", "promotion", "provider_override"]).default("standard"),
+  priority: z.number().int().default(0),
+  commissionRate: z.number().min(0).max(1),
+  category: z.enum(["transport", "tour", "service", "financing", "venue", "other"]).nullable().optional(),
+  city: z.string().min(1).nullable().optional(),
+  partnerTier: z.enum(["bronze", "silver", "gold", "platinum"]).nullable().optional(),
+  subscriptionTier: z.enum(["free", "basic", "pro"]).nullable().optional(),
+  providerId: z.string().uuid().nullable().optional(),
+  validFrom: z.coerce.date().nullable().optional(),
+  validUntil: z.coerce.date().nullable().optional(),
+  active: z.boolean().default(true),
+});
+
 export const insertPlatformFeeSchema = createInsertSchema(platformFees).omit({ 
   id: true, 
   createdAt: true,
@@ -396,6 +625,9 @@ export const insertProviderEarningSchema = createInsertSchema(providerEarnings).
 });
 
 // Phase 1 Select Types
+export type CommissionRule = typeof commissionRules.$inferSelect;
+export type CommissionRuleInput = z.infer<typeof commissionRuleSchema>;
+
 export type PlatformFee = typeof platformFees.$inferSelect;
 export type InsertPlatformFee = z.infer<typeof insertPlatformFeeSchema>;
 
@@ -405,9 +637,13 @@ export type InsertProviderSubscription = z.infer<typeof insertProviderSubscripti
 export type Transaction = typeof transactions.$inferSelect;
 export type InsertTransaction = z.infer<typeof insertTransactionSchema>;
 
+export type PspCallbackEvent = typeof pspCallbackEvents.$inferSelect;
+
 export type ProviderEarning = typeof providerEarnings.$inferSelect;
 export type InsertProviderEarning = z.infer<typeof insertProviderEarningSchema>;
 
+export const DAY_MS = 24 * 60 * 60 * 1000;
+
 // Commission Configuration Constants
 export const COMMISSION_CONFIG = {
   transport: 0.12,  // 12%
@@ -505,6 +741,7 @@ export const providerDocuments = pgTable("provider_documents", {
   verifiedBy: uuid("verified_by").references(() => users.id),
   verifiedAt: timestamp("verified_at"),
   rejectionReason: text("rejection_reason"),
+  expiryWarningDays: integer("expiry_warning_days"), // Last expiry warning sent (30, 7 or 1 days before)
   metadata: jsonb("metadata"),
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
@@ -532,6 +769,13 @@ export const trips = pgTable("trips", {
   completedAt: timestamp("completed_at"),
   duration: integer("duration"), // in minutes
   distance: integer("distance"), // in meters
+  movingSeconds: integer("moving_seconds"),
+  idleSeconds: integer("idle_seconds"),
+  route: jsonb("route").$type<TripRoutePoint[]>(), // Simplified track, stored once the trip is completed
+  promisedArrivalAt: timestamp("promised_arrival_at"), // Acceptance plus the offer's ETA
+  etaAt: timestamp("eta_at"), // Latest estimate, recomputed from the track
+  approachNotifiedAt: timestamp("approach_notified_at"),
+  arrivedAt: timestamp("arrived_at"), // Entered the geofence around the job location
   startLocation: jsonb("start_location"), // {lat, lng, address}
   endLocation: jsonb("end_location"), // {lat, lng, address}
   status: text("status").default("scheduled").notNull().$type<"scheduled" | "in_progress" | "completed" | "cancelled">(),
@@ -572,7 +816,10 @@ export const tripTracks = pgTable("trip_tracks", {
   heading: decimal("heading", { precision: 5, scale: 2 }), // in degrees
   timestamp: timestamp("timestamp").notNull(),
   createdAt: timestamp("created_at").defaultNow().notNull(),
-});
+}, (table) => ({
+  // A point re-sent by a device retrying an upload is stored once
+  tripTimestampUnique: unique("trip_tracks_trip_timestamp_unique").on(table.tripId, table.timestamp),
+}));
 
 export const tripTracksRelations = relations(tripTracks, ({ one }) => ({
   trip: one(trips, {
@@ -601,8 +848,13 @@ export const insertVehicleSchema = createInsertSchema(vehicles, {
   status: true,
 });
 
+export const PROVIDER_DOCUMENT_TYPES = ["drivers_license", "vehicle_registration", "insurance", "transport_permit", "trade_license", "certification", "other"] as const;
+
+// Documents only valid until a date, which the provider gives on upload
+export const EXPIRING_DOCUMENT_TYPES: ProviderDocumentType[] = ["drivers_license", "vehicle_registration", "insurance", "transport_permit"];
+
 export const insertProviderDocumentSchema = createInsertSchema(providerDocuments, {
-  type: z.enum(["drivers_license", "vehicle_registration", "insurance", "transport_permit", "trade_license", "certification", "other"]),
+  type: z.enum(PROVIDER_DOCUMENT_TYPES),
   documentUrl: z.string().url(),
 }).omit({ 
   id: true, 
@@ -611,6 +863,27 @@ export const insertProviderDocumentSchema = createInsertSchema(providerDocuments
   status: true,
   verifiedAt: true,
   verifiedBy: true,
+  expiryWarningDays: true,
+});
+
+// A provider's upload: documentUrl is the object the client PUT to the document upload URL
+export const submitProviderDocumentSchema = z.object({
+  type: z.enum(PROVIDER_DOCUMENT_TYPES),
+  documentUrl: z.string().min(1),
+  documentNumber: z.string().trim().min(1).max(100).optional(),
+  expiresAt: z.coerce.date().optional(),
+}).refine((doc) => !EXPIRING_DOCUMENT_TYPES.includes(doc.type) || doc.expiresAt !== undefined, {
+  message: "expiresAt is required for this document type",
+  path: ["expiresAt"],
+});
+
+// The reviewer may correct the expiry date read from the document
+export const approveProviderDocumentSchema = z.object({
+  expiresAt: z.coerce.date().optional(),
+});
+
+export const rejectProviderDocumentSchema = z.object({
+  reason: z.string().trim().min(3).max(1000),
 });
 
 export const insertTripSchema = createInsertSchema(trips, {
@@ -621,6 +894,13 @@ export const insertTripSchema = createInsertSchema(trips, {
   createdAt: true,
   updatedAt: true,
   status: true,
+  movingSeconds: true,
+  idleSeconds: true,
+  route: true,
+  promisedArrivalAt: true,
+  etaAt: true,
+  approachNotifiedAt: true,
+  arrivedAt: true,
 });
 
 export const insertTripTrackSchema = createInsertSchema(tripTracks).omit({ 
@@ -628,6 +908,27 @@ export const insertTripTrackSchema = createInsertSchema(tripTracks).omit({
   createdAt: true,
 });
 
+// A GPS fix as sent by the provider's device
+export const tripPointSchema = z.object({
+  lat: z.number().min(-90).max(90),
+  lng: z.number().min(-180).max(180),
+  accuracy: z.number().min(0).max(9999).optional(), // meters
+  speed: z.number().min(0).max(9999).optional(), // km/h
+  heading: z.number().min(0).max(360).optional(), // degrees
+  timestamp: z.coerce.date(),
+});
+
+// Devices buffer fixes and upload them in batches
+export const tripPointBatchSchema = z.object({
+  points: z.array(tripPointSchema).min(1).max(100),
+});
+
+export const tripLocationSchema = z.object({
+  lat: z.number().min(-90).max(90),
+  lng: z.number().min(-180).max(180),
+  address: z.string().max(300).optional(),
+});
+
 // Phase 2 Select Types
 export type ProviderProfile = typeof providerProfiles.$inferSelect;
 export type InsertProviderProfile = z.infer<typeof insertProviderProfileSchema>;
@@ -637,12 +938,33 @@ export type InsertVehicle = z.infer<typeof insertVehicleSchema>;
 
 export type ProviderDocument = typeof providerDocuments.$inferSelect;
 export type InsertProviderDocument = z.infer<typeof insertProviderDocumentSchema>;
+export type ProviderDocumentType = typeof PROVIDER_DOCUMENT_TYPES[number];
+export type SubmitProviderDocument = z.infer<typeof submitProviderDocumentSchema>;
 
 export type Trip = typeof trips.$inferSelect;
 export type InsertTrip = z.infer<typeof insertTripSchema>;
 
 export type TripTrack = typeof tripTracks.$inferSelect;
 export type InsertTripTrack = z.infer<typeof insertTripTrackSchema>;
+export type TripPoint = z.infer<typeof tripPointSchema>;
+export type TripLocation = z.infer<typeof tripLocationSchema>;
+
+// A point of a processed trip route (outliers dropped, map-matched, simplified)
+export interface TripRoutePoint {
+  lat: number;
+  lng: number;
+  timestamp: string;
+  speed?: number; // km/h
+}
+
+export interface TripRoute {
+  tripId: string;
+  points: TripRoutePoint[];
+  distanceMeters: number;
+  movingSeconds: number;
+  idleSeconds: number;
+  rawPointCount: number;
+}
 
 // ========================================
 // PHASE 3: MICE & B2B Features
@@ -1950,7 +2272,7 @@ export const servicePackages = pgTable("service_packages", {
   premiumFeatures: jsonb("premium_features").default([]).notNull(),
   
   // Extras/Add-ons
-  extras: jsonb("extras").default([]).notNull(), // [{title, priceMad, description}]
+  extras: jsonb("extras").default([]).notNull(), // [{id, title, priceMad, description, deliveryDays}]
   
   // Metadata
   active: boolean("active").default(true).notNull(),
@@ -1971,7 +2293,18 @@ export const servicePackagesRelations = relations(servicePackages, ({ one, many
   favorites: many(favorites),
 }));
 
-export const insertServicePackageSchema = createInsertSchema(servicePackages).omit({ id: true, createdAt: true, updatedAt: true });
+// Extras/Add-ons stored on a package; ids are assigned server-side and stay stable across edits
+export const packageExtraSchema = z.object({
+  id: z.string().optional(),
+  title: z.string().min(1),
+  priceMad: z.number().int().min(0),
+  description: z.string().optional(),
+  deliveryDays: z.number().int().optional(), // Added to the tier's delivery days (negative for express)
+});
+
+export const insertServicePackageSchema = createInsertSchema(servicePackages, {
+  extras: z.array(packageExtraSchema).default([]),
+}).omit({ id: true, createdAt: true, updatedAt: true });
 
 // Favorites/Wishlists - Users can save providers, packages, venues, etc.
 export const favorites = pgTable("favorites", {
@@ -1998,10 +2331,10 @@ export const packageOrders = pgTable("package_orders", {
   jobId: uuid("job_id").references(() => jobs.id).notNull(), // Links to existing job
   packageId: uuid("package_id").references(() => servicePackages.id).notNull(),
   tier: text("tier").notNull().$type<"basic" | "standard" | "premium">(),
-  selectedExtras: jsonb("selected_extras").default([]).notNull(), // Array of extra IDs selected
+  selectedExtras: jsonb("selected_extras").default([]).notNull(), // Snapshot of selected extras at order time [{id, title, priceMad, deliveryDays}]
   totalPriceMad: integer("total_price_mad").notNull(),
   deliveryDate: timestamp("delivery_date"),
-  status: text("status").default("pending").notNull().$type<"pending" | "in_progress" | "delivered" | "revision" | "completed" | "cancelled">(),
+  status: text("status").default("pending").notNull().$type<"awaiting_payment" | "pending" | "in_progress" | "delivered" | "revision" | "on_hold" | "disputed" | "completed" | "cancelled">(),
   revisions: integer("revisions").default(0).notNull(),
   maxRevisions: integer("max_revisions").default(0).notNull(),
   requirements: text("requirements"), // Buyer requirements/instructions
@@ -2032,6 +2365,9 @@ export type InsertFavorite = z.infer<typeof insertFavoriteSchema>;
 export type PackageOrder = typeof packageOrders.$inferSelect;
 export type InsertPackageOrder = z.infer<typeof insertPackageOrderSchema>;
 
+export type PackageExtra = z.infer<typeof packageExtraSchema> & { id: string };
+export type SelectedPackageExtra = Pick<PackageExtra, "id" | "title" | "priceMad"> & { deliveryDays: number };
+
 export type BleisurePackage = typeof bleisurePackages.$inferSelect;
 export type InsertBleisurePackage = z.infer<typeof insertBleisurePackageSchema>;
 
@@ -2065,9 +2401,10 @@ export const paymentSchedules = pgTable("payment_schedules", {
   id: uuid("id").primaryKey().defaultRandom(),
   orderId: uuid("order_id").references(() => packageOrders.id).notNull(),
   depositPct: integer("deposit_pct").notNull(), // Deposit percentage (e.g., 30)
-  installments: jsonb("installments").notNull(), // Array of {dueDate, amountMad, status}
+  installments: jsonb("installments").notNull().$type<PaymentInstallment[]>(), // Deposit first, then the remaining installments
   totalMad: integer("total_mad").notNull(),
   status: text("status").default("active").notNull().$type<"active" | "completed" | "cancelled">(),
+  heldOrderStatus: text("held_order_status").$type<"pending" | "in_progress" | "delivered" | "revision">(), // Order status to restore once overdue installments are paid
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
 });
@@ -2083,9 +2420,14 @@ export const paymentSchedulesRelations = relations(paymentSchedules, ({ one }) =
 export const escrowLedger = pgTable("escrow_ledger", {
   id: uuid("id").primaryKey().defaultRandom(),
   transactionId: uuid("transaction_id").references(() => transactions.id).notNull(),
+  orderId: uuid("order_id").references(() => packageOrders.id), // Package order the funds belong to
+  jobId: uuid("job_id").references(() => jobs.id), // Job whose accepted offer the funds pay for
+  payoutId: uuid("payout_id").references(() => providerPayouts.id), // Set once released funds are in a provider payout
   heldAmount: integer("held_amount").notNull(), // Amount held in MAD
   releaseDate: timestamp("release_date"), // Scheduled release date
   status: text("status").default("held").notNull().$type<"held" | "released" | "refunded">(),
+  refundedAmount: integer("refunded_amount").default(0).notNull(), // Part returned to the buyer when a dispute splits the funds
+  disputeId: uuid("dispute_id").references(() => disputes.id), // Set while an open dispute freezes the funds, kept once it settles them
   releasedAt: timestamp("released_at"),
   releaseReason: text("release_reason"),
   createdAt: timestamp("created_at").defaultNow().notNull(),
@@ -2096,12 +2438,20 @@ export const escrowLedgerRelations = relations(escrowLedger, ({ one }) => ({
     fields: [escrowLedger.transactionId],
     references: [transactions.id],
   }),
+  order: one(packageOrders, {
+    fields: [escrowLedger.orderId],
+    references: [packageOrders.id],
+  }),
+  job: one(jobs, {
+    fields: [escrowLedger.jobId],
+    references: [jobs.id],
+  }),
 }));
 
 // Invoices - Multi-currency invoices with VAT
 export const invoices = pgTable("invoices", {
   id: uuid("id").primaryKey().defaultRandom(),
-  orderId: uuid("order_id").references(() => packageOrders.id).notNull(),
+  orderId: uuid("order_id").references(() => packageOrders.id).unique().notNull(), // One invoice per order
   invoiceNumber: text("invoice_number").unique().notNull(),
   locale: text("locale").notNull().$type<"fr-MA" | "ar-MA" | "en-US">(), // FR/AR/EN support
   currency: text("currency").default("MAD").notNull().$type<"MAD" | "EUR">(),
@@ -2109,15 +2459,205 @@ export const invoices = pgTable("invoices", {
   vatAmount: integer("vat_amount").notNull(), // VAT amount (20% for Morocco)
   total: integer("total").notNull(), // Total including VAT
   pdfUrl: text("pdf_url"), // URL to generated PDF invoice
+  status: text("status").default("issued").notNull().$type<"issued" | "partially_credited" | "cancelled">(), // cancelled = fully credited
   metadata: jsonb("metadata"), // Additional invoice data
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
-export const invoicesRelations = relations(invoices, ({ one }) => ({
+export const invoicesRelations = relations(invoices, ({ one, many }) => ({
   order: one(packageOrders, {
     fields: [invoices.orderId],
     references: [packageOrders.id],
   }),
+  creditNotes: many(creditNotes),
+}));
+
+// Credit Notes (avoirs) - Full or partial reversal of an issued invoice, VAT included
+export const creditNotes = pgTable("credit_notes", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  invoiceId: uuid("invoice_id").references(() => invoices.id).notNull(),
+  creditNoteNumber: text("credit_note_number").unique().notNull(), // CN-2025-000001
+  reason: text("reason").notNull(),
+  locale: text("locale").notNull().$type<"fr-MA" | "ar-MA" | "en-US">(),
+  currency: text("currency").default("MAD").notNull().$type<"MAD" | "EUR">(),
+  subtotal: integer("subtotal").notNull(), // Credited amount before VAT
+  vatAmount: integer("vat_amount").notNull(), // VAT reversed
+  total: integer("total").notNull(), // Credited amount including VAT
+  pdfUrl: text("pdf_url"),
+  metadata: jsonb("metadata"), // Snapshot of parties and lines
+  createdBy: uuid("created_by").references(() => users.id), // Null when issued automatically
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const creditNotesRelations = relations(creditNotes, ({ one }) => ({
+  invoice: one(invoices, {
+    fields: [creditNotes.invoiceId],
+    references: [invoices.id],
+  }),
+}));
+
+// Document Sequences - Gap-free counters for legal documents, one row per series and year (e.g. "INV-2025")
+export const documentSequences = pgTable("document_sequences", {
+  key: text("key").primaryKey(),
+  lastNumber: integer("last_number").default(0).notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+// Billing Profiles - Moroccan legal identifiers printed on invoices (buyers and providers)
+export const billingProfiles = pgTable("billing_profiles", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  userId: uuid("user_id").references(() => users.id).unique().notNull(),
+  legalName: text("legal_name").notNull(),
+  ice: text("ice"), // Identifiant Commun de l'Entreprise (15 digits)
+  ifNumber: text("if_number"), // Identifiant Fiscal
+  rcNumber: text("rc_number"), // Registre de Commerce
+  address: text("address"),
+  city: text("city"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export const billingProfilesRelations = relations(billingProfiles, ({ one }) => ({
+  user: one(users, {
+    fields: [billingProfiles.userId],
+    references: [users.id],
+  }),
+}));
+
+// Provider Payout Settings - When and to which bank account a provider is paid
+export const providerPayoutSettings = pgTable("provider_payout_settings", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  providerId: uuid("provider_id").references(() => providers.id).unique().notNull(),
+  schedule: text("schedule").default("weekly").notNull().$type<"weekly" | "on_request">(),
+  minimumPayoutMad: integer("minimum_payout_mad").default(200).notNull(), // Smaller balances roll over to the next batch
+  accountHolder: text("account_holder"),
+  rib: text("rib"), // Relevé d'Identité Bancaire (24 digits)
+  bankName: text("bank_name"),
+  payoutRequestedAt: timestamp("payout_requested_at"), // On-request providers waiting for the next batch
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export const providerPayoutSettingsRelations = relations(providerPayoutSettings, ({ one }) => ({
+  provider: one(providers, {
+    fields: [providerPayoutSettings.providerId],
+    references: [providers.id],
+  }),
+}));
+
+// Payout Batches - One bank bulk-transfer file worth of provider payouts
+export const payoutBatches = pgTable("payout_batches", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  reference: text("reference").unique().notNull(), // PAY-2025-000001
+  trigger: text("trigger").notNull().$type<"scheduled" | "manual">(),
+  status: text("status").default("pending").notNull().$type<"pending" | "exported" | "paid" | "cancelled">(),
+  payoutCount: integer("payout_count").notNull(),
+  totalGrossMad: integer("total_gross_mad").notNull(),
+  totalFeesMad: integer("total_fees_mad").notNull(),
+  totalNetMad: integer("total_net_mad").notNull(), // Amount transferred to providers
+  exportedAt: timestamp("exported_at"),
+  paidAt: timestamp("paid_at"),
+  createdBy: uuid("created_by").references(() => users.id), // Null for scheduled batches
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const payoutBatchesRelations = relations(payoutBatches, ({ many }) => ({
+  payouts: many(providerPayouts),
+}));
+
+// Provider Payouts - A provider's transfer within a batch, rolling up released escrow net of platform fees
+export const providerPayouts = pgTable("provider_payouts", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  batchId: uuid("batch_id").references(() => payoutBatches.id).notNull(),
+  providerId: uuid("provider_id").references(() => providers.id).notNull(),
+  transactionId: uuid("transaction_id").references(() => transactions.id), // The provider_payout transaction
+  grossAmountMad: integer("gross_amount_mad").notNull(),
+  feeAmountMad: integer("fee_amount_mad").notNull(),
+  netAmountMad: integer("net_amount_mad").notNull(),
+  accountHolder: text("account_holder").notNull(), // Bank details snapshot at batch time
+  rib: text("rib").notNull(),
+  items: jsonb("items").notNull(), // Array of PayoutItem
+  status: text("status").default("pending").notNull().$type<"pending" | "paid" | "failed">(),
+  failureReason: text("failure_reason"),
+  paidAt: timestamp("paid_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const providerPayoutsRelations = relations(providerPayouts, ({ one }) => ({
+  batch: one(payoutBatches, {
+    fields: [providerPayouts.batchId],
+    references: [payoutBatches.id],
+  }),
+  provider: one(providers, {
+    fields: [providerPayouts.providerId],
+    references: [providers.id],
+  }),
+  transaction: one(transactions, {
+    fields: [providerPayouts.transactionId],
+    references: [transactions.id],
+  }),
+}));
+
+// Disputes - A buyer or provider contests a job, package order or bleisure booking; an admin mediates
+export const disputes = pgTable("disputes", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  subjectType: text("subject_type").notNull().$type<DisputeSubjectType>(),
+  subjectId: uuid("subject_id").notNull(), // jobs, package_orders or bleisure_bookings id, per subjectType
+  openedBy: uuid("opened_by").references(() => users.id).notNull(),
+  buyerId: uuid("buyer_id").references(() => users.id).notNull(), // Parties resolved when the dispute is opened
+  providerUserId: uuid("provider_user_id").references(() => users.id).notNull(),
+  reasonCode: text("reason_code").notNull().$type<DisputeReasonCode>(),
+  description: text("description").notNull(),
+  amountMad: integer("amount_mad").notNull(), // Frozen escrow, or the booking total for bookings
+  subjectStatus: text("subject_status").notNull(), // Status of the subject when the dispute was opened
+  status: text("status").default("open").notNull().$type<"open" | "under_review" | "resolving" | "resolved">(), // resolving while the money moves
+  mediatorId: uuid("mediator_id").references(() => users.id),
+  outcome: text("outcome").$type<DisputeOutcome>(),
+  refundAmountMad: integer("refund_amount_mad"), // Returned to the buyer
+  releaseAmountMad: integer("release_amount_mad"), // Released to the provider
+  resolutionNote: text("resolution_note"),
+  resolvedAt: timestamp("resolved_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => ({
+  // One unresolved dispute per subject
+  openSubjectUnique: uniqueIndex("disputes_open_subject_unique")
+    .on(table.subjectType, table.subjectId)
+    .where(sql`${table.status} <> 'resolved'`),
+}));
+
+export const disputesRelations = relations(disputes, ({ one, many }) => ({
+  opener: one(users, {
+    fields: [disputes.openedBy],
+    references: [users.id],
+  }),
+  mediator: one(users, {
+    fields: [disputes.mediatorId],
+    references: [users.id],
+  }),
+  messages: many(disputeMessages),
+}));
+
+// Dispute Messages - The thread between both parties and the mediator, with evidence files
+export const disputeMessages = pgTable("dispute_messages", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  disputeId: uuid("dispute_id").references(() => disputes.id).notNull(),
+  senderId: uuid("sender_id").references(() => users.id).notNull(),
+  senderRole: text("sender_role").notNull().$type<"buyer" | "provider" | "mediator">(),
+  body: text("body").notNull(),
+  evidence: jsonb("evidence").$type<MessageAttachment[]>().default([]).notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const disputeMessagesRelations = relations(disputeMessages, ({ one }) => ({
+  dispute: one(disputes, {
+    fields: [disputeMessages.disputeId],
+    references: [disputes.id],
+  }),
+  sender: one(users, {
+    fields: [disputeMessages.senderId],
+    references: [users.id],
+  }),
 }));
 
 // Currency Rates - Exchange rates for MAD/EUR conversion
@@ -2138,10 +2678,24 @@ export const insertPaymentScheduleSchema = createInsertSchema(paymentSchedules).
   status: true,
 });
 
+// Buyer's installment plan: either an even monthly split or explicit installments after the deposit
+export const paymentPlanSchema = z.object({
+  depositPct: z.number().int().min(10).max(90),
+  installmentCount: z.number().int().min(1).max(12).optional(),
+  installments: z.array(z.object({
+    dueDate: z.coerce.date(),
+    amountMad: z.number().int().positive(),
+  })).min(1).max(12).optional(),
+}).refine((plan) => !plan.installmentCount !== !plan.installments, {
+  message: "Provide either installmentCount or installments",
+});
+
 export const insertEscrowLedgerSchema = createInsertSchema(escrowLedger).omit({ 
   id: true, 
   createdAt: true,
   status: true,
+  refundedAmount: true,
+  disputeId: true,
   releasedAt: true,
 });
 
@@ -2150,14 +2704,119 @@ export const insertInvoiceSchema = createInsertSchema(invoices).omit({
   createdAt: true,
 });
 
+export const insertCreditNoteSchema = createInsertSchema(creditNotes).omit({ 
+  id: true, 
+  createdAt: true,
+});
+
 export const insertCurrencyRateSchema = createInsertSchema(currencyRates).omit({ 
   id: true, 
   updatedAt: true,
 });
 
+export const insertBillingProfileSchema = createInsertSchema(billingProfiles, {
+  legalName: z.string().min(1),
+  ice: z.string().regex(/^\d{15}$/, "ICE must be 15 digits").optional().nullable(),
+  ifNumber: z.string().regex(/^\d{1,10}$/, "IF must be numeric").optional().nullable(),
+  rcNumber: z.string().max(40).optional().nullable(),
+}).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+// Moroccan RIB: 3-digit bank, 3-digit city, 16-digit account and a 2-digit key making the whole number ≡ 0 (mod 97)
+export function isValidRib(rib: string): boolean {
+  const digits = rib.replace(/\s/g, "");
+  if (!/^\d{24}$/.test(digits)) {
+    return false;
+  }
+
+  let remainder = 0;
+  for (const digit of digits) {
+    remainder = (remainder * 10 + Number(digit)) % 97;
+  }
+  return remainder === 0;
+}
+
+export const insertProviderPayoutSettingsSchema = createInsertSchema(providerPayoutSettings, {
+  schedule: z.enum(["weekly", "on_request"]),
+  minimumPayoutMad: z.number().int().min(0),
+  accountHolder: z.string().min(2).max(35).optional().nullable(),
+  rib: z.string()
+    .transform((rib) => rib.replace(/\s/g, ""))
+    .refine(isValidRib, "RIB must be 24 digits with a valid key")
+    .optional()
+    .nullable(),
+}).omit({
+  id: true,
+  payoutRequestedAt: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const DISPUTE_REASON_CODES = [
+  "not_delivered",
+  "not_as_described",
+  "poor_quality",
+  "late",
+  "no_show",
+  "overcharged",
+  "cancellation",
+  "other",
+] as const;
+
+const disputeEvidenceSchema = z.array(z.object({
+  url: z.string().min(1),
+  name: z.string().min(1).max(255),
+})).max(5).default([]);
+
+export const openDisputeSchema = z.object({
+  subjectType: z.enum(["job", "package_order", "bleisure_booking"]),
+  subjectId: z.string().uuid(),
+  reasonCode: z.enum(DISPUTE_REASON_CODES),
+  description: z.string().min(10).max(2000),
+  evidence: disputeEvidenceSchema,
+});
+
+// The buyer's shortcut from the job page; older clients send only the reason
+export const jobDisputeSchema = z.object({
+  reason: z.string().min(10).max(2000),
+  reasonCode: z.enum(DISPUTE_REASON_CODES).default("not_as_described"),
+});
+
+export const disputeMessageSchema = z.object({
+  body: z.string().min(1).max(4000),
+  evidence: disputeEvidenceSchema,
+});
+
+// Partial splits name the buyer's share; the rest goes to the provider
+export const resolveDisputeSchema = z.object({
+  outcome: z.enum(["full_refund", "partial_split", "release"]),
+  refundAmountMad: z.number().int().positive().optional(),
+  note: z.string().min(1).max(2000),
+}).refine((resolution) => (resolution.outcome === "partial_split") === (resolution.refundAmountMad !== undefined), {
+  message: "refundAmountMad is required for a partial split, and only then",
+});
+
 // Select Types
 export type PaymentSchedule = typeof paymentSchedules.$inferSelect;
 export type InsertPaymentSchedule = z.infer<typeof insertPaymentScheduleSchema>;
+export type PaymentPlan = z.infer<typeof paymentPlanSchema>;
+
+// One entry of paymentSchedules.installments; number 1 is the deposit charged at checkout
+export interface PaymentInstallment {
+  installmentNumber: number;
+  dueDate: string;
+  amountMad: number;
+  status: "pending" | "processing" | "paid" | "failed";
+  attempts: number;
+  transactionId?: string;
+  lastAttemptAt?: string;
+  nextAttemptAt?: string; // Dunning retry after a failed attempt
+  paidAt?: string;
+  failureReason?: string;
+}
 
 export type EscrowLedger = typeof escrowLedger.$inferSelect;
 export type InsertEscrowLedger = z.infer<typeof insertEscrowLedgerSchema>;
@@ -2165,5 +2824,52 @@ export type InsertEscrowLedger = z.infer<typeof insertEscrowLedgerSchema>;
 export type Invoice = typeof invoices.$inferSelect;
 export type InsertInvoice = z.infer<typeof insertInvoiceSchema>;
 
+export type CreditNote = typeof creditNotes.$inferSelect;
+export type InsertCreditNote = z.infer<typeof insertCreditNoteSchema>;
+
 export type CurrencyRate = typeof currencyRates.$inferSelect;
 export type InsertCurrencyRate = z.infer<typeof insertCurrencyRateSchema>;
+
+export type BillingProfile = typeof billingProfiles.$inferSelect;
+export type InsertBillingProfile = z.infer<typeof insertBillingProfileSchema>;
+
+export type ProviderPayoutSettings = typeof providerPayoutSettings.$inferSelect;
+export type InsertProviderPayoutSettings = z.infer<typeof insertProviderPayoutSettingsSchema>;
+
+export type PayoutBatch = typeof payoutBatches.$inferSelect;
+export type ProviderPayout = typeof providerPayouts.$inferSelect;
+
+// One released escrow entry inside a provider payout
+export interface PayoutItem {
+  escrowId: string;
+  transactionId: string;
+  orderId?: string | null;
+  jobId?: string | null;
+  grossMad: number;
+  feeMad: number;
+  netMad: number;
+}
+
+export type DisputeSubjectType = "job" | "package_order" | "bleisure_booking";
+export type DisputeReasonCode = typeof DISPUTE_REASON_CODES[number];
+export type DisputeOutcome = "full_refund" | "partial_split" | "release";
+export type Dispute = typeof disputes.$inferSelect;
+export type DisputeMessage = typeof disputeMessages.$inferSelect;
+export type OpenDispute = z.infer<typeof openDisputeSchema>;
+export type ResolveDispute = z.infer<typeof resolveDisputeSchema>;
+
+// Realtime channel (/ws) - events pushed to job conversation participants and trip buyers
+export type RealtimeServerEvent =
+  | { type: "ready"; userId: string }
+  | { type: "message"; jobId: string; message: Message & { senderName: string } }
+  | { type: "typing"; jobId: string; userId: string; isTyping: boolean }
+  | { type: "read"; jobId: string; userId: string; messageId: string; readAt: string }
+  | { type: "trip_position"; tripId: string; jobId: string; points: TripTrack[] }
+  | { type: "trip_status"; tripId: string; jobId: string; trip: Trip }
+  | { type: "trip_eta"; tripId: string; jobId: string; etaAt: string | null; remainingMeters: number; arrivedAt: string | null }
+  | { type: "error"; error: string };
+
+// Events a connected client sends
+export type RealtimeClientEvent =
+  | { type: "typing"; jobId: string; isTyping: boolean }
+  | { type: "read"; jobId: string; messageId: string };